@@ -0,0 +1,101 @@
+/**
+ * Scoring backtest
+ *
+ * Replays a user's race history week by week through the scoring algorithm, scoring
+ * each week with only the races before it, and reports how well the scores ranked
+ * what actually happened (Spearman's rho against position delta and incidents).
+ * Also summarizes the recommendations the user was served and later raced.
+ *
+ * Run with: npx tsx scripts/backtest-scoring.ts <userId> [--min-prior 5] [--samples]
+ *   --min-prior  Skip weeks scored with fewer earlier races than this (default 1)
+ *   --samples    Print every week and series/track scored
+ */
+
+import * as dotenv from 'dotenv';
+
+// Load environment variables FIRST before importing anything else
+dotenv.config({ path: '.env.local' });
+
+import { runBacktest } from '../src/lib/recommendations/backtest';
+import { getOutcomeSummaries } from '../src/lib/recommendations/outcomes';
+import type { RankCorrelation } from '../src/lib/recommendations/types';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+function formatCorrelation(correlation: RankCorrelation): string {
+  if (correlation.coefficient === null) {
+    return '   n/a';
+  }
+  const value = correlation.coefficient.toFixed(2);
+  return (correlation.coefficient >= 0 ? `+${value}` : value).padStart(6);
+}
+
+async function main() {
+  const userId = process.argv[2];
+  if (!userId || userId.startsWith('--')) {
+    console.error('Usage: npx tsx scripts/backtest-scoring.ts <userId> [--min-prior 5] [--samples]');
+    process.exit(1);
+  }
+
+  const minPriorRaces = parseInt(getArg('min-prior') || '1', 10);
+  const report = await runBacktest(userId, { minPriorRaces });
+
+  console.log('═'.repeat(80));
+  console.log(' SCORING BACKTEST');
+  console.log('═'.repeat(80));
+  console.log(`   User: ${userId}`);
+  console.log(`   Weeks scored: ${report.weeks} | Series/track samples: ${report.samples.length}`);
+  console.log();
+  console.log('   Spearman rho (positive is good; incidents are counted as fewer = better)');
+  console.log();
+  console.log('   Mode                 Score~Delta  Score~Inc  Perf~Delta  Safety~Inc');
+  console.log('   ───────────────────  ───────────  ─────────  ──────────  ──────────');
+  for (const mode of report.modes) {
+    console.log(
+      `   ${mode.mode.padEnd(19)}  ${formatCorrelation(mode.scoreVsPositionDelta).padStart(11)}` +
+      `  ${formatCorrelation(mode.scoreVsIncidents).padStart(9)}` +
+      `  ${formatCorrelation(mode.performanceVsPositionDelta).padStart(10)}` +
+      `  ${formatCorrelation(mode.safetyVsIncidents).padStart(10)}`
+    );
+  }
+  console.log();
+
+  if (process.argv.includes('--samples')) {
+    console.log('   Week        Series                              Races  Delta   Inc  ' +
+      report.modes.map(mode => mode.mode.slice(0, 8).padStart(8)).join(' '));
+    report.samples.forEach((sample, index) => {
+      const week = `${sample.seasonYear}S${sample.seasonQuarter}W${sample.raceWeekNum + 1}`.padEnd(10);
+      const series = sample.seriesName.substring(0, 34).padEnd(34);
+      const scores = report.modes.map(mode => mode.scores[index].toString().padStart(8)).join(' ');
+      console.log(
+        `   ${week}  ${series}  ${sample.races.toString().padStart(5)}  ${sample.avgPositionDelta.toFixed(1).padStart(5)}` +
+        `  ${sample.avgIncidents.toFixed(1).padStart(4)}  ${scores}`
+      );
+    });
+    console.log();
+  }
+
+  const outcomes = await getOutcomeSummaries(userId);
+  console.log('━'.repeat(80));
+  console.log(' SERVED RECOMMENDATIONS');
+  console.log('━'.repeat(80));
+  if (outcomes.length === 0) {
+    console.log('   No recommendations have been served to this user yet');
+  }
+  for (const outcome of outcomes) {
+    console.log(`   ${outcome.mode}`);
+    console.log(`     Raced ${outcome.raced} of ${outcome.served} served (top picks: ${outcome.topPicksRaced} of ${outcome.topPicksServed})`);
+    console.log(`     Score~Delta ${formatCorrelation(outcome.scoreVsPositionDelta)} | Score~Inc ${formatCorrelation(outcome.scoreVsIncidents)} over ${outcome.scoreVsPositionDelta.samples} races`);
+  }
+  console.log();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Backtest failed:', error);
+    process.exit(1);
+  });
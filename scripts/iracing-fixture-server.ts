@@ -0,0 +1,117 @@
+/**
+ * Local iRacing Data API fixture server
+ *
+ * Replays recorded iRacing Data API responses so the sync -> recommend loop can run
+ * without live iRacing credentials. Mirrors the real API's link-based response pattern:
+ *
+ *   GET /data/<endpoint>?<params>  -> { link: "<server>/_link/<endpoint>?<params>", expires }
+ *   GET /_link/<endpoint>?<params> -> recorded payload (chunk_info URLs point back here)
+ *   GET /chunks/<file>             -> recorded chunk file
+ *
+ * Run with: npx tsx scripts/iracing-fixture-server.ts [--port 4010] [--dir fixtures/iracing]
+ * Then start the app with IRACING_TRANSPORT=fixture (and IRACING_FIXTURE_URL if not on the default port).
+ *
+ * To capture new fixtures, run the app with IRACING_TRANSPORT=record against the live API.
+ */
+
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_FIXTURE_SERVER_URL,
+  chunkFixtureKeyFor,
+  defaultFixtureKeyFor,
+  fixtureKeyFor,
+  getFixturesDir,
+  resolveFixturePlaceholders,
+} from '../src/lib/iracing/fixtures';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+const port = parseInt(getArg('port') || new URL(DEFAULT_FIXTURE_SERVER_URL).port, 10);
+const host = getArg('host') || '127.0.0.1';
+const fixturesDir = path.resolve(getArg('dir') || getFixturesDir());
+const baseUrl = `http://${host}:${port}`;
+
+/**
+ * Read a fixture file, returning null if it does not exist
+ */
+function readFixture(key: string): string | null {
+  const filePath = path.join(fixturesDir, key);
+  // Refuse to serve anything outside the fixtures directory
+  if (!filePath.startsWith(fixturesDir + path.sep) || !fs.existsSync(filePath)) {
+    return null;
+  }
+  return fs.readFileSync(filePath, 'utf8');
+}
+
+/**
+ * Find the recorded payload for an endpoint, falling back to the endpoint default
+ */
+function findPayload(endpoint: string, params: URLSearchParams): { key: string; body: string } | null {
+  for (const key of [fixtureKeyFor(endpoint, params), defaultFixtureKeyFor(endpoint)]) {
+    const body = readFixture(key);
+    if (body !== null) {
+      return { key, body };
+    }
+  }
+  return null;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: string | object) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', baseUrl);
+  const { pathname, searchParams } = url;
+
+  if (pathname.startsWith('/data/')) {
+    const endpoint = pathname.slice('/data/'.length);
+    if (!findPayload(endpoint, searchParams)) {
+      console.log(`404 ${pathname}?${searchParams}`);
+      return sendJson(res, 404, { error: `No fixture for ${endpoint}`, fixturesDir });
+    }
+
+    const query = searchParams.toString();
+    console.log(`200 ${pathname}?${query} -> link`);
+    return sendJson(res, 200, {
+      link: `${baseUrl}/_link/${endpoint}${query ? `?${query}` : ''}`,
+      expires: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+    });
+  }
+
+  if (pathname.startsWith('/_link/')) {
+    const endpoint = pathname.slice('/_link/'.length);
+    const payload = findPayload(endpoint, searchParams);
+    if (!payload) {
+      return sendJson(res, 404, { error: `No fixture for ${endpoint}` });
+    }
+
+    console.log(`200 ${pathname} <- ${payload.key}`);
+    return sendJson(res, 200, resolveFixturePlaceholders(payload.body, baseUrl));
+  }
+
+  if (pathname.startsWith('/chunks/')) {
+    const key = chunkFixtureKeyFor(pathname.slice('/chunks/'.length));
+    const body = readFixture(key);
+    if (body === null) {
+      return sendJson(res, 404, { error: `No chunk fixture ${key}` });
+    }
+
+    console.log(`200 ${pathname} <- ${key}`);
+    return sendJson(res, 200, body);
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.listen(port, host, () => {
+  console.log(`🏁 iRacing fixture server listening on ${baseUrl}`);
+  console.log(`   Serving fixtures from ${fixturesDir}`);
+  console.log(`   Start the app with IRACING_TRANSPORT=fixture IRACING_FIXTURE_URL=${baseUrl}\n`);
+});
@@ -73,8 +73,24 @@ async function dropAllTables() {
   
   try {
     // Drop tables in reverse dependency order to avoid foreign key constraint errors
+    await db.execute(sql`DROP TABLE IF EXISTS recommendation_snapshots CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS global_race_results CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS time_slot_stats CASCADE`);
     await db.execute(sql`DROP TABLE IF EXISTS schedule_entries CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS sync_jobs CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS season_calendars CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS tracks CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS car_classes CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS cars CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS race_sync_checkpoints CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS incident_events CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS race_laps CASCADE`);
     await db.execute(sql`DROP TABLE IF EXISTS race_results CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS user_availability CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS pinned_series CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS custom_modes CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS owned_content CASCADE`);
+    await db.execute(sql`DROP TABLE IF EXISTS rating_history CASCADE`);
     await db.execute(sql`DROP TABLE IF EXISTS license_classes CASCADE`);
     await db.execute(sql`DROP TABLE IF EXISTS iracing_accounts CASCADE`);
     await db.execute(sql`DROP TABLE IF EXISTS users CASCADE`);
@@ -0,0 +1,50 @@
+/**
+ * Sync job worker
+ *
+ * Long-running process that claims race data and schedule sync jobs from the
+ * sync_jobs table and runs them. Also queues schedule refreshes around iRacing's
+ * weekly rollover using the service account (IRACING_SERVICE_ACCOUNT_CUST_ID). Safe to run alongside the app's in-process worker
+ * and other worker instances (jobs are claimed with FOR UPDATE SKIP LOCKED). Public results
+ * collection (global_results jobs) only runs here, never in the app's in-process worker.
+ *
+ * Run with: npx tsx scripts/sync-worker.ts [--once] [--poll 5000]
+ *   --once   Check the schedule, then exit when the queue is empty instead of polling
+ *   --poll   Poll interval in milliseconds while the queue is empty
+ */
+
+import * as dotenv from 'dotenv';
+
+// Load environment variables FIRST before importing anything else
+dotenv.config({ path: '.env.local' });
+
+import { createWorkerId, runWorker } from '../src/lib/jobs/worker';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+const once = process.argv.includes('--once');
+const pollIntervalMs = parseInt(getArg('poll') || '5000', 10);
+const workerId = createWorkerId('sync-worker');
+const controller = new AbortController();
+
+// Finish the current job, then stop
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`\n🛑 ${signal} received - stopping after the current job...`);
+    controller.abort();
+  });
+}
+
+console.log(`🏁 Sync worker ${workerId} started${once ? ' (draining queue once)' : ''}`);
+
+runWorker({ workerId, pollIntervalMs, stopWhenEmpty: once, refreshSchedule: true, standalone: true, signal: controller.signal })
+  .then(() => {
+    console.log('✅ Sync worker stopped');
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('❌ Sync worker crashed:', error);
+    process.exit(1);
+  });
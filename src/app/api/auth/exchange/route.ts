@@ -3,8 +3,7 @@ import { cookies } from 'next/headers';
 import { exchangeCodeForToken, fetchUserProfile } from '@/lib/auth/server';
 import { upsertUser, storeUserTokens } from '@/lib/auth/server';
 import { setSessionCookie, syncUserLicenses } from '@/lib/auth/server';
-import { syncScheduleData } from '@/lib/iracing/schedule';
-import { syncUserRaceData } from '@/lib/iracing/sync';
+import { enqueueRaceDataSync, enqueueScheduleSync, kickWorker } from '@/lib/jobs';
 
 export async function POST(request: NextRequest) {
   console.log('=== OAuth Exchange Route Hit ===');
@@ -117,17 +116,17 @@ export async function POST(request: NextRequest) {
         console.error('License sync failed during login:', error)
       ),
       
-      // Sync current season schedule (essential for recommendations)
-      syncScheduleData(user.id).catch(error => 
-        console.error('Schedule sync failed during login:', error)
-      ),
-      
-      // Sync recent race data (can be done later if needed)
-      syncUserRaceData(user.id, user.iracingCustomerId).catch(error => 
-        console.error('Race data sync failed during login:', error)
-      ),
+      // Queue current season schedule and race history syncs for the job worker
+      // (schedule first - it is essential for recommendations; the client can follow
+      // race history progress via /api/data/sync/stream)
+      enqueueScheduleSync(user.id)
+        .then(() => enqueueRaceDataSync(user.id, user.iracingCustomerId))
+        .then(() => kickWorker())
+        .catch(error => 
+          console.error('Failed to queue sync jobs during login:', error)
+        ),
     ]).then(() => {
-      console.log('Background data sync completed successfully');
+      console.log('License sync completed and sync jobs queued');
     }).catch(error => {
       console.error('Background data sync had errors:', error);
     });
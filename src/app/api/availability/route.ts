@@ -0,0 +1,73 @@
+/**
+ * Availability API Endpoint
+ *
+ * GET /api/availability - Get the user's weekly availability windows and timezone
+ * PUT /api/availability - Replace them ({ timezone, windows: [{ dayOfWeek, start, end }] })
+ *
+ * Session recommendations (GET /api/recommendations?view=sessions) only rank sessions
+ * starting inside these windows.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/server';
+import { getUserAvailability, saveUserAvailability, validateAvailability } from '@/lib/recommendations/availability';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    try {
+      const availability = await getUserAvailability(session.userId);
+
+      return NextResponse.json({
+        success: true,
+        availability,
+      });
+
+    } catch (error) {
+      console.error('Availability API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to get availability',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
+
+export async function PUT(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid JSON in request body',
+      }, { status: 400 });
+    }
+
+    const { availability, error } = validateAvailability(body);
+    if (!availability) {
+      return NextResponse.json({
+        success: false,
+        message: error,
+      }, { status: 400 });
+    }
+
+    try {
+      await saveUserAvailability(session.userId, availability);
+
+      return NextResponse.json({
+        success: true,
+        availability,
+      });
+
+    } catch (error) {
+      console.error('Availability API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to save availability',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,50 @@
+/**
+ * Schedule Refresh Cron Endpoint
+ *
+ * GET /api/cron/schedule-refresh - Queue schedule syncs around iRacing's weekly rollover,
+ * and public results collection for the race week that just ended
+ *
+ * Meant for an external scheduler (e.g. hourly, and shortly after Tuesday 00:00 UTC).
+ * Requires `Authorization: Bearer <CRON_SECRET>`; syncs run with the service account.
+ * Schedule syncs are drained in-process; results collection waits for the standalone worker.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { kickWorker, refreshScheduleIfNeeded } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json({
+      success: false,
+      message: 'Schedule refresh is not configured',
+      error: 'CRON_SECRET is not set',
+    }, { status: 503 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await refreshScheduleIfNeeded();
+    if (result.seasons.some(season => season.reason)) {
+      kickWorker();
+    }
+
+    return NextResponse.json({
+      ...result,
+      message: result.success ? 'Schedule refresh checked' : 'Schedule refresh failed',
+    }, { status: result.success ? 200 : 500 });
+
+  } catch (error) {
+    console.error('Schedule refresh cron error:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
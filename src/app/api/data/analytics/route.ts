@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPerformanceMetrics, getUserSeasons, getSessionTypeComparison, getPerformanceTrends } from '@/lib/db/analytics';
+import { getPerformanceMetrics, getUserSeasons, getSessionTypeComparison, getPerformanceTrends, getQualifyingRaces } from '@/lib/db/analytics';
 import { getSession } from '@/lib/auth/server';
 import type { GroupingType, SessionType } from '@/types';
 import { AnalyticsMode, AnalyticsModeHelper } from '@/lib/types/analytics';
+import { CategoryHelper } from '@/lib/types/category';
+import { getRatingHistory } from '@/lib/iracing/rating-history';
+import { getIncidentTimeline } from '@/lib/iracing/incident-timeline';
+import { buildQualifyingStats } from '@/lib/recommendations/qualifying-analysis';
 
 /**
  * GET /api/data/analytics
@@ -23,6 +27,8 @@ import { AnalyticsMode, AnalyticsModeHelper } from '@/lib/types/analytics';
  * - page: page number for pagination (default: 1)
  * - limit: results per page (default: 50, max: 200)
  * - mode: AnalyticsMode enum value (default: 'metrics')
+ * - category: license category (ratings mode, optional)
+ * - periodMonths: months of history (ratings and incidents modes, default: 12)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -76,6 +82,43 @@ export async function GET(request: NextRequest) {
           success: true,
         });
 
+      case AnalyticsMode.RATINGS:
+        // Return iRating and Safety Rating over time with the races that moved them
+        const category = searchParams.get('category') || '';
+        if (category && !CategoryHelper.isValid(category)) {
+          return NextResponse.json(
+            { error: `Invalid category. Must be one of: ${CategoryHelper.ALL_CATEGORIES.join(', ')}` },
+            { status: 400 }
+          );
+        }
+
+        const ratings = await getRatingHistory(session.userId, {
+          category: CategoryHelper.isValid(category) ? category : undefined,
+          periodMonths: parseInt(searchParams.get('periodMonths') || '12') || 12,
+        });
+        return NextResponse.json({
+          data: ratings,
+          success: true,
+        });
+
+      case AnalyticsMode.INCIDENTS:
+        // Return incidents by race phase and type, from race event logs
+        const timeline = await getIncidentTimeline(session.userId, {
+          periodMonths: parseInt(searchParams.get('periodMonths') || '12') || 12,
+        });
+        return NextResponse.json({
+          data: timeline,
+          success: true,
+        });
+
+      case AnalyticsMode.QUALIFYING:
+        // Return qualifying pace and how the grid slot plays out, overall and per series
+        const qualifying = buildQualifyingStats(await getQualifyingRaces(session.userId));
+        return NextResponse.json({
+          data: qualifying,
+          success: true,
+        });
+
       case AnalyticsMode.TRENDS:
         // Return performance trends over time
         const trendsOptions = {
@@ -258,6 +301,29 @@ export async function POST(request: NextRequest) {
         });
         break;
       
+      case AnalyticsMode.RATINGS:
+        result = {
+          data: await getRatingHistory(session.userId, {
+            category: CategoryHelper.isValid(filters.category || '') ? filters.category : undefined,
+            periodMonths: filters.periodMonths || 12,
+          }),
+        };
+        break;
+
+      case AnalyticsMode.INCIDENTS:
+        result = {
+          data: await getIncidentTimeline(session.userId, {
+            periodMonths: filters.periodMonths || 12,
+          }),
+        };
+        break;
+
+      case AnalyticsMode.QUALIFYING:
+        result = {
+          data: buildQualifyingStats(await getQualifyingRaces(session.userId)),
+        };
+        break;
+
       case AnalyticsMode.TRENDS:
         result = await getPerformanceTrends(session.userId, {
           seriesId: processedFilters.seriesIds?.[0],
@@ -2,7 +2,7 @@
  * Schedule Data API Endpoint
  * 
  * GET /api/data/schedule - Get current race schedule with caching
- * POST /api/data/schedule - Sync schedule data from iRacing API
+ * POST /api/data/schedule - Queue a schedule sync from iRacing API (runs in the job worker)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,10 +10,10 @@ import { withAuth, withAuthAndProfile } from '@/lib/auth/server';
 import {
   getCurrentSchedule,
   getScheduleCacheStatus,
-  syncScheduleData,
   getSeriesSchedule,
   getTrackSchedule,
 } from '@/lib/iracing/schedule';
+import { enqueueScheduleSync, kickWorker, toJobStatus } from '@/lib/jobs';
 
 export async function GET(request: NextRequest) {
   return withAuth(request, async (_request, _session) => {
@@ -80,24 +80,18 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      // Sync schedule data
-      const result = await syncScheduleData(user.id, season_year, season_quarter);
+      // Queue schedule sync (returns the existing job if one is already queued or running)
+      const { job, deduplicated } = await enqueueScheduleSync(user.id, season_year, season_quarter);
+      kickWorker();
 
-      if (result.success) {
-        const updatedCacheStatus = await getScheduleCacheStatus(season_year, season_quarter);
-        
-        return NextResponse.json({
-          success: true,
-          message: `Schedule sync completed. Added ${result.entriesAdded} entries.`,
-          entriesAdded: result.entriesAdded,
-          cacheStatus: updatedCacheStatus,
-        });
-      } else {
-        return NextResponse.json({
-          success: false,
-          message: result.error || 'Schedule sync failed',
-        }, { status: 500 });
-      }
+      return NextResponse.json({
+        success: true,
+        queued: true,
+        message: deduplicated ? 'Schedule sync already in progress' : 'Schedule sync queued',
+        jobId: job.id,
+        job: toJobStatus(job),
+        cacheStatus,
+      }, { status: 202 });
 
     } catch (error) {
       console.error('Schedule sync API error:', error);
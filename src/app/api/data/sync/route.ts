@@ -1,12 +1,16 @@
 /**
  * Data Synchronization API Endpoint
  * 
- * POST /api/data/sync - Trigger race data synchronization for authenticated user
+ * POST /api/data/sync - Queue race data synchronization for authenticated user
+ * GET /api/data/sync - Get sync status (including the active sync job, if any)
+ *
+ * Syncs run in the background job worker; poll ./status or follow ./stream for progress.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuthAndProfile } from '@/lib/auth/server';
-import { syncUserRaceData, getUserSyncStatus, needsSync } from '@/lib/iracing/sync';
+import { getUserSyncStatus, needsSync } from '@/lib/iracing/sync';
+import { enqueueRaceDataSync, getActiveJob, kickWorker, toJobStatus } from '@/lib/jobs';
 
 export async function POST(request: NextRequest) {
   return withAuthAndProfile(request, async (user, profile) => {
@@ -26,26 +30,18 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      // Start synchronization
-      const result = await syncUserRaceData(
-        user.id,
-        profile.cust_id
-      );
+      // Queue synchronization (returns the existing job if one is already queued or running)
+      const { job, deduplicated } = await enqueueRaceDataSync(user.id, profile.cust_id);
+      kickWorker();
 
-      if (result.success) {
-        return NextResponse.json({
-          success: true,
-          message: `Sync completed successfully. Added ${result.progress.newRaces} new races.`,
-          progress: result.progress,
-          syncStatus: await getUserSyncStatus(user.id),
-        });
-      } else {
-        return NextResponse.json({
-          success: false,
-          message: result.error || 'Sync failed',
-          progress: result.progress,
-        }, { status: 500 });
-      }
+      return NextResponse.json({
+        success: true,
+        queued: true,
+        message: deduplicated ? 'Sync already in progress' : 'Sync queued',
+        jobId: job.id,
+        job: toJobStatus(job),
+        syncStatus,
+      }, { status: 202 });
 
     } catch (error) {
       console.error('Sync API error:', error);
@@ -62,11 +58,13 @@ export async function GET(request: NextRequest) {
   return withAuthAndProfile(request, async (user) => {
     try {
       const syncStatus = await getUserSyncStatus(user.id);
+      const activeJob = await getActiveJob(`race_data:${user.id}`);
       
       return NextResponse.json({
         success: true,
         syncStatus,
         needsSync: needsSync(syncStatus.lastSyncAt),
+        activeJob: activeJob ? toJobStatus(activeJob) : null,
       });
 
     } catch (error) {
@@ -78,4 +76,4 @@ export async function GET(request: NextRequest) {
       }, { status: 500 });
     }
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+/**
+ * Sync Job Status API Endpoint
+ *
+ * GET /api/data/sync/status - Recent sync jobs for the authenticated user
+ * GET /api/data/sync/status?jobId=<id> - A single job, plus the user's sync status
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuthAndProfile } from '@/lib/auth/server';
+import { getUserSyncStatus } from '@/lib/iracing/sync';
+import { getJob, getUserJobs, toJobStatus } from '@/lib/jobs';
+
+export async function GET(request: NextRequest) {
+  return withAuthAndProfile(request, async (user) => {
+    try {
+      const jobId = request.nextUrl.searchParams.get('jobId');
+
+      if (jobId) {
+        const job = await getJob(jobId);
+
+        // Users can only see their own jobs
+        if (!job || job.userId !== user.id) {
+          return NextResponse.json({
+            success: false,
+            message: 'Job not found',
+          }, { status: 404 });
+        }
+
+        return NextResponse.json({
+          success: true,
+          job: toJobStatus(job),
+          syncStatus: await getUserSyncStatus(user.id),
+        });
+      }
+
+      const jobs = await getUserJobs(user.id);
+      return NextResponse.json({
+        success: true,
+        jobs: jobs.map(toJobStatus),
+      });
+
+    } catch (error) {
+      console.error('Sync job status API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to get sync job status',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
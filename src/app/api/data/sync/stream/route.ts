@@ -0,0 +1,156 @@
+/**
+ * Data Synchronization Progress Stream
+ *
+ * GET /api/data/sync/stream - Queue (or join) race data synchronization for the
+ * authenticated user and stream its progress as server-sent events
+ *
+ * Events:
+ * - `job`:      { id, status, attempts, maxAttempts, lastError, runAt } whenever the job state changes
+ * - `progress`: SyncProgress snapshot, sent as each season is fetched and each batch is inserted
+ * - `complete`: { success, message, progress, syncStatus } once the job has finished
+ * - `error`:    { message } if the sync could not be queued or followed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuthAndProfile } from '@/lib/auth/server';
+import { getUserSyncStatus, needsSync, type SyncProgress } from '@/lib/iracing/sync';
+import { isSyncRunning, subscribeToSyncProgress } from '@/lib/iracing/sync-events';
+import {
+  enqueueRaceDataSync,
+  getActiveJob,
+  getJob,
+  isTerminalStatus,
+  kickWorker,
+  type SyncJob,
+} from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+// How often the job row is polled for state and progress written by other processes
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Format a server-sent event
+ */
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: NextRequest) {
+  return withAuthAndProfile(request, async (user, profile) => {
+    const forceSync = request.nextUrl.searchParams.get('force') === 'true';
+    const encoder = new TextEncoder();
+    let unsubscribe: (() => void) | null = null;
+    let closed = false;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(formatEvent(event, data)));
+          }
+        };
+        const close = () => {
+          if (!closed) {
+            closed = true;
+            unsubscribe?.();
+            controller.close();
+          }
+        };
+
+        request.signal.addEventListener('abort', close);
+
+        try {
+          // Follow a sync that is already queued or running (e.g. the one queued at login)
+          let job: SyncJob | null = await getActiveJob(`race_data:${user.id}`);
+
+          if (!job) {
+            const syncStatus = await getUserSyncStatus(user.id);
+            if (!forceSync && !needsSync(syncStatus.lastSyncAt)) {
+              send('complete', {
+                success: true,
+                message: 'Sync not needed - data is up to date',
+                syncStatus,
+              });
+              return close();
+            }
+
+            job = (await enqueueRaceDataSync(user.id, profile.cust_id)).job;
+          }
+
+          kickWorker();
+
+          let lastJobState = '';
+          let lastProgress = '';
+          const sendProgress = (progress: unknown) => {
+            const serialized = JSON.stringify(progress);
+            if (progress && serialized !== lastProgress) {
+              lastProgress = serialized;
+              send('progress', progress);
+            }
+          };
+
+          while (!closed) {
+            const jobState = JSON.stringify([job.status, job.attempts, job.lastError]);
+            if (jobState !== lastJobState) {
+              lastJobState = jobState;
+              send('job', {
+                id: job.id,
+                status: job.status,
+                attempts: job.attempts,
+                maxAttempts: job.maxAttempts,
+                lastError: job.lastError,
+                runAt: job.runAt,
+              });
+            }
+
+            // Live progress when the sync runs in this process, persisted progress otherwise
+            if (!unsubscribe && isSyncRunning(user.id)) {
+              unsubscribe = subscribeToSyncProgress(user.id, (progress: SyncProgress) =>
+                sendProgress(progress)
+              );
+            }
+            if (!unsubscribe) {
+              sendProgress(job.progress);
+            }
+
+            if (isTerminalStatus(job.status)) {
+              const progress = job.progress as SyncProgress | null;
+              send('complete', {
+                success: job.status === 'succeeded',
+                message: job.status === 'succeeded'
+                  ? `Sync completed successfully. Added ${progress?.newRaces ?? 0} new races.`
+                  : job.lastError || 'Sync failed',
+                progress,
+                syncStatus: await getUserSyncStatus(user.id),
+              });
+              break;
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+            job = (await getJob(job.id)) ?? job;
+          }
+        } catch (error) {
+          console.error('Sync stream error:', error);
+          send('error', {
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+
+        close();
+      },
+      cancel() {
+        closed = true;
+        unsubscribe?.();
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  });
+}
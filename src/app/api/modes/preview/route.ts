@@ -0,0 +1,80 @@
+/**
+ * Custom Mode Preview API Endpoint
+ *
+ * POST /api/modes/preview - Rank the user's current recommendations with unsaved
+ * weights and report how each one moves against a baseline mode
+ * ({ weights, primarySort, baseline?, category?, maxResults? })
+ *
+ * The baseline is a built-in mode or custom:<id>, Balanced by default.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/server';
+import { recommendationEngine } from '@/lib/recommendations';
+import { resolveModeSelection, validateCustomMode } from '@/lib/recommendations/mode-settings';
+import { getCustomMode } from '@/lib/recommendations/custom-modes';
+
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid JSON in request body',
+      }, { status: 400 });
+    }
+
+    // The preview does not need a name, but is otherwise validated like a saved mode
+    const { mode, error } = validateCustomMode({ name: 'Preview', ...body });
+    if (!mode) {
+      return NextResponse.json({
+        success: false,
+        message: error,
+      }, { status: 400 });
+    }
+
+    const { baseline: baselineParam, category, maxResults } = body as {
+      baseline?: string;
+      category?: string;
+      maxResults?: number;
+    };
+
+    if (maxResults !== undefined && (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > 100)) {
+      return NextResponse.json({
+        success: false,
+        message: 'maxResults must be a number between 1 and 100.',
+      }, { status: 400 });
+    }
+
+    try {
+      const baseline = await resolveModeSelection(baselineParam, id => getCustomMode(session.userId, id));
+      if (!baseline) {
+        return NextResponse.json({
+          success: false,
+          message: `Invalid baseline mode: ${baselineParam}`,
+        }, { status: 400 });
+      }
+
+      const preview = await recommendationEngine.previewMode(
+        session.userId,
+        { id: 'preview', ...mode },
+        { baseline, category, maxResults }
+      );
+
+      return NextResponse.json({
+        success: true,
+        preview,
+      });
+
+    } catch (error) {
+      console.error('Custom mode preview API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to preview custom mode',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,198 @@
+/**
+ * Custom Modes API Endpoint
+ *
+ * GET /api/modes - List the user's custom recommendation modes
+ * POST /api/modes - Create one ({ name, description?, weights, primarySort })
+ * PUT /api/modes?id=<id> - Replace a mode's settings
+ * DELETE /api/modes?id=<id> - Delete a mode
+ *
+ * Weights must set every scoring factor and sum to 1. Recommendations use a
+ * custom mode with GET /api/recommendations?mode=custom:<id>.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/server';
+import { MAX_CUSTOM_MODES, validateCustomMode } from '@/lib/recommendations/mode-settings';
+import {
+  createCustomMode,
+  deleteCustomMode,
+  getCustomModes,
+  updateCustomMode
+} from '@/lib/recommendations/custom-modes';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    try {
+      const modes = await getCustomModes(session.userId);
+
+      return NextResponse.json({
+        success: true,
+        modes,
+      });
+
+    } catch (error) {
+      console.error('Custom modes API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to get custom modes',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid JSON in request body',
+      }, { status: 400 });
+    }
+
+    const { mode, error } = validateCustomMode(body);
+    if (!mode) {
+      return NextResponse.json({
+        success: false,
+        message: error,
+      }, { status: 400 });
+    }
+
+    try {
+      const existing = await getCustomModes(session.userId);
+
+      if (existing.length >= MAX_CUSTOM_MODES) {
+        return NextResponse.json({
+          success: false,
+          message: `You can keep at most ${MAX_CUSTOM_MODES} custom modes.`,
+        }, { status: 400 });
+      }
+
+      if (existing.some(other => other.name === mode.name)) {
+        return NextResponse.json({
+          success: false,
+          message: `A mode named "${mode.name}" already exists.`,
+        }, { status: 409 });
+      }
+
+      const created = await createCustomMode(session.userId, mode);
+
+      return NextResponse.json({
+        success: true,
+        mode: created,
+      }, { status: 201 });
+
+    } catch (error) {
+      console.error('Custom modes API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to create custom mode',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
+
+export async function PUT(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        message: 'id query parameter is required',
+      }, { status: 400 });
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid JSON in request body',
+      }, { status: 400 });
+    }
+
+    const { mode, error } = validateCustomMode(body);
+    if (!mode) {
+      return NextResponse.json({
+        success: false,
+        message: error,
+      }, { status: 400 });
+    }
+
+    try {
+      const existing = await getCustomModes(session.userId);
+
+      if (existing.some(other => other.id !== id && other.name === mode.name)) {
+        return NextResponse.json({
+          success: false,
+          message: `A mode named "${mode.name}" already exists.`,
+        }, { status: 409 });
+      }
+
+      const updated = existing.some(other => other.id === id)
+        ? await updateCustomMode(session.userId, id, mode)
+        : null;
+
+      if (!updated) {
+        return NextResponse.json({
+          success: false,
+          message: 'Custom mode not found',
+        }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        mode: updated,
+      });
+
+    } catch (error) {
+      console.error('Custom modes API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to update custom mode',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        message: 'id query parameter is required',
+      }, { status: 400 });
+    }
+
+    try {
+      const existing = await getCustomModes(session.userId);
+      const deleted = existing.some(other => other.id === id) && await deleteCustomMode(session.userId, id);
+
+      if (!deleted) {
+        return NextResponse.json({
+          success: false,
+          message: 'Custom mode not found',
+        }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        success: true,
+      });
+
+    } catch (error) {
+      console.error('Custom modes API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to delete custom mode',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Weekly Plan API Endpoint
+ *
+ * GET /api/plan - Plan concrete sessions for the coming week inside the user's availability
+ *
+ * Query parameters (all optional):
+ * - mode: built-in mode or custom:<id>, Balanced by default
+ * - races: target number of races (1-20)
+ * - maxMinutesPerDay: racing minutes allowed per day (15-720)
+ * - maxPerSeries: races allowed in one series (1-14)
+ * - maxPerCategory: races allowed in one license category (1-20)
+ * - categories: comma-separated license categories to plan in
+ * - days: how far ahead to plan (1-7)
+ * - ownedOnly: only sessions with owned content
+ * - timezone: IANA zone for day boundaries when no availability is stored
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/server';
+import { recommendationEngine } from '@/lib/recommendations';
+import type { WeeklyPlanConstraints } from '@/lib/recommendations/types';
+import { Category, CategoryHelper } from '@/lib/types/category';
+import { resolveModeSelection } from '@/lib/recommendations/mode-settings';
+import { getCustomMode } from '@/lib/recommendations/custom-modes';
+import { isValidTimezone } from '@/lib/recommendations/availability';
+
+const INTEGER_PARAMS = {
+  races: { min: 1, max: 20 },
+  maxMinutesPerDay: { min: 15, max: 720 },
+  maxPerSeries: { min: 1, max: 14 },
+  maxPerCategory: { min: 1, max: 20 },
+  days: { min: 1, max: 7 },
+} as const;
+
+type IntegerParam = keyof typeof INTEGER_PARAMS;
+
+function badRequest(message: string) {
+  return NextResponse.json({
+    success: false,
+    message,
+  }, { status: 400 });
+}
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    const { searchParams } = new URL(request.url);
+
+    const values: Partial<Record<IntegerParam, number>> = {};
+    for (const [name, { min, max }] of Object.entries(INTEGER_PARAMS) as [IntegerParam, { min: number; max: number }][]) {
+      const raw = searchParams.get(name);
+      if (raw === null) {
+        continue;
+      }
+      const value = Number(raw);
+      if (!Number.isInteger(value) || value < min || value > max) {
+        return badRequest(`${name} must be a number between ${min} and ${max}.`);
+      }
+      values[name] = value;
+    }
+
+    const categoriesParam = searchParams.get('categories');
+    const categories = categoriesParam ? categoriesParam.split(',').map(category => category.trim()) : undefined;
+    const invalidCategory = categories?.find(category => !CategoryHelper.isValid(category));
+    if (invalidCategory !== undefined) {
+      return badRequest(`Invalid category: ${invalidCategory}. Valid categories are: ${CategoryHelper.ALL_CATEGORIES.join(', ')}.`);
+    }
+
+    const timezone = searchParams.get('timezone') || undefined;
+    if (timezone && !isValidTimezone(timezone)) {
+      return badRequest(`Invalid timezone: ${timezone}. Use an IANA zone such as 'Europe/London'.`);
+    }
+
+    try {
+      const modeParam = searchParams.get('mode');
+      const mode = await resolveModeSelection(modeParam, id => getCustomMode(session.userId, id));
+      if (!mode) {
+        return badRequest(`Invalid mode: ${modeParam}`);
+      }
+
+      const constraints: Partial<WeeklyPlanConstraints> = {
+        ...(values.races !== undefined && { targetRaces: values.races }),
+        ...(values.maxMinutesPerDay !== undefined && { maxMinutesPerDay: values.maxMinutesPerDay }),
+        ...(values.maxPerSeries !== undefined && { maxPerSeries: values.maxPerSeries }),
+        ...(values.maxPerCategory !== undefined && { maxPerCategory: values.maxPerCategory }),
+        ...(categories && { categories: categories as Category[] }),
+      };
+
+      const plan = await recommendationEngine.getWeeklyPlan(session.userId, {
+        mode,
+        constraints,
+        days: values.days,
+        ownedOnly: searchParams.get('ownedOnly') === 'true',
+        timezone,
+      });
+
+      return NextResponse.json({
+        success: true,
+        plan,
+      });
+
+    } catch (error) {
+      console.error('Weekly plan API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to build weekly plan',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
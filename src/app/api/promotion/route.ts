@@ -0,0 +1,48 @@
+/**
+ * Promotion Plan API Endpoint
+ *
+ * GET /api/promotion - Project license promotion in each category: the races needed
+ * to reach the promotion Safety Rating and minimum participation before season end,
+ * the projected Safety Rating trajectory, and the series this week that get there fastest
+ *
+ * Query parameters (all optional):
+ * - category: only project this license category
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/server';
+import { recommendationEngine } from '@/lib/recommendations';
+import { CategoryHelper } from '@/lib/types/category';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    const { searchParams } = new URL(request.url);
+
+    const category = searchParams.get('category') || undefined;
+    if (category && !CategoryHelper.isValid(category)) {
+      return NextResponse.json({
+        success: false,
+        message: `Invalid category: ${category}. Valid categories are: ${CategoryHelper.ALL_CATEGORIES.join(', ')}.`,
+      }, { status: 400 });
+    }
+
+    try {
+      const promotion = await recommendationEngine.getPromotionPlan(session.userId);
+
+      return NextResponse.json({
+        success: true,
+        promotion: category
+          ? { ...promotion, projections: promotion.projections.filter(projection => projection.category === category) }
+          : promotion,
+      });
+
+    } catch (error) {
+      console.error('Promotion plan API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to build promotion plan',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
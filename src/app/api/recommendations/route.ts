@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { recommendationEngine } from '@/lib/recommendations';
 import { RecommendationMode, RecommendationModeHelper } from '@/lib/types/recommendation';
+import type { ModeSelection } from '@/lib/recommendations/types';
+import { parseCustomModeKey } from '@/lib/recommendations/mode-settings';
+import { getCustomMode } from '@/lib/recommendations/custom-modes';
+import { recordRecommendationSnapshots } from '@/lib/recommendations/outcomes';
 import { getSession } from '@/lib/auth/server';
 import { withPerformanceMonitoring } from '@/lib/performance/middleware';
 import { globalProfiler } from '@/lib/performance/profiler';
@@ -43,11 +47,15 @@ export const GET = withPerformanceMonitoring(async (request: NextRequest) => {
 
     // Parse and validate query parameters
     const { searchParams } = new URL(request.url);
-    const mode = RecommendationModeHelper.tryFromString(searchParams.get('mode') || '') || RecommendationModeHelper.getDefault();
+    const modeParam = searchParams.get('mode') || '';
+    // custom:<id> selects one of the user's stored custom modes
+    const customModeId = parseCustomModeKey(modeParam);
+    let mode: ModeSelection = RecommendationModeHelper.tryFromString(modeParam) || RecommendationModeHelper.getDefault();
     const category = searchParams.get('category') || undefined;
     
     let minScore = 0;
     let maxResults = 20;
+    let days = 7;
     
     try {
       const minScoreParam = searchParams.get('minScore');
@@ -73,6 +81,18 @@ export const GET = withPerformanceMonitoring(async (request: NextRequest) => {
           );
         }
       }
+
+      const daysParam = searchParams.get('days');
+      if (daysParam) {
+        days = parseInt(daysParam, 10);
+        if (isNaN(days) || days < 1 || days > 7) {
+          return createErrorResponse(
+            'Invalid days parameter. Must be a number between 1 and 7.',
+            400,
+            { type: 'invalid_parameter', parameter: 'days', value: daysParam }
+          );
+        }
+      }
     } catch (_parseError) {
       return createErrorResponse(
         'Invalid query parameters provided.',
@@ -82,9 +102,32 @@ export const GET = withPerformanceMonitoring(async (request: NextRequest) => {
     }
     
     const includeAlmostEligible = searchParams.get('includeAlmostEligible') === 'true';
+    const ownedOnly = searchParams.get('ownedOnly') === 'true';
+    // 'sessions' ranks concrete start times inside the user's availability windows
+    const view = searchParams.get('view') || 'series';
+
+    if (view !== 'series' && view !== 'sessions') {
+      return createErrorResponse(
+        `Invalid view: ${view}. Valid views are: series, sessions.`,
+        400,
+        { type: 'invalid_parameter', parameter: 'view', value: view }
+      );
+    }
+
+    if (customModeId) {
+      const customMode = await getCustomMode(session.userId, customModeId);
+      if (!customMode) {
+        return createErrorResponse(
+          `Custom mode not found: ${customModeId}.`,
+          404,
+          { type: 'invalid_mode', validModes: RecommendationModeHelper.getAllModes() }
+        );
+      }
+      mode = customMode;
+    }
 
     // Validate mode
-    if (!RecommendationModeHelper.isValid(mode)) {
+    if (typeof mode !== 'object' && !RecommendationModeHelper.isValid(mode)) {
       return createErrorResponse(
         `Invalid recommendation mode: ${mode}. Valid modes are: ${RecommendationModeHelper.getAllModes().join(', ')}.`,
         400,
@@ -107,27 +150,51 @@ export const GET = withPerformanceMonitoring(async (request: NextRequest) => {
     // Get recommendations with enhanced error handling and profiling
     let result;
     try {
-      result = await globalProfiler.profile(
-        'get_filtered_recommendations',
-        () => recommendationEngine.getFilteredRecommendations(
-          session.userId,
+      result = view === 'sessions'
+        ? await globalProfiler.profile(
+          'get_session_recommendations',
+          () => recommendationEngine.getSessionRecommendations(
+            session.userId,
+            {
+              mode,
+              category,
+              maxResults,
+              days,
+              ownedOnly
+            }
+          ),
+          {
+            userId: session.userId,
+            mode,
+            category,
+            maxResults,
+            days,
+            ownedOnly
+          }
+        )
+        : await globalProfiler.profile(
+          'get_filtered_recommendations',
+          () => recommendationEngine.getFilteredRecommendations(
+            session.userId,
+            {
+              mode,
+              category,
+              minScore,
+              maxResults,
+              includeAlmostEligible,
+              ownedOnly
+            }
+          ),
           {
+            userId: session.userId,
             mode,
             category,
             minScore,
             maxResults,
-            includeAlmostEligible
+            includeAlmostEligible,
+            ownedOnly
           }
-        ),
-        {
-          userId: session.userId,
-          mode,
-          category,
-          minScore,
-          maxResults,
-          includeAlmostEligible
-        }
-      );
+        );
       result = result.result; // Extract result from profiler response
     } catch (engineError) {
       console.error('Recommendation engine error:', engineError);
@@ -176,6 +243,15 @@ export const GET = withPerformanceMonitoring(async (request: NextRequest) => {
       );
     }
 
+    // Keep what was served so later races can be matched to it (outcome tracking)
+    if ('recommendations' in result) {
+      try {
+        await recordRecommendationSnapshots(session.userId, mode, result.recommendations);
+      } catch (snapshotError) {
+        console.warn('Failed to record recommendation snapshots:', snapshotError);
+      }
+    }
+
     return NextResponse.json(result);
   } catch (error) {
     console.error('Unexpected error in recommendations API:', error);
@@ -0,0 +1,127 @@
+/**
+ * Pinned Series API Endpoint
+ *
+ * GET /api/season/pins - List the series the user follows through the season
+ * POST /api/season/pins - Pin a series ({ seriesId })
+ * DELETE /api/season/pins?seriesId=<id> - Unpin a series
+ *
+ * The season planner (GET /api/season) lists pinned series first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/server';
+import {
+  MAX_PINNED_SERIES,
+  getPinnedSeriesIds,
+  pinSeries,
+  unpinSeries
+} from '@/lib/recommendations/pinned-series';
+
+function parseSeriesId(value: unknown): number | null {
+  const seriesId = typeof value === 'string' ? Number(value) : value;
+  return typeof seriesId === 'number' && Number.isInteger(seriesId) && seriesId > 0 ? seriesId : null;
+}
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    try {
+      const seriesIds = await getPinnedSeriesIds(session.userId);
+
+      return NextResponse.json({
+        success: true,
+        seriesIds,
+      });
+
+    } catch (error) {
+      console.error('Pinned series API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to get pinned series',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid JSON in request body',
+      }, { status: 400 });
+    }
+
+    const seriesId = parseSeriesId((body as { seriesId?: unknown } | null)?.seriesId);
+    if (seriesId === null) {
+      return NextResponse.json({
+        success: false,
+        message: 'seriesId must be a positive integer.',
+      }, { status: 400 });
+    }
+
+    try {
+      const existing = await getPinnedSeriesIds(session.userId);
+
+      if (!existing.includes(seriesId) && existing.length >= MAX_PINNED_SERIES) {
+        return NextResponse.json({
+          success: false,
+          message: `You can pin at most ${MAX_PINNED_SERIES} series.`,
+        }, { status: 400 });
+      }
+
+      await pinSeries(session.userId, seriesId);
+
+      return NextResponse.json({
+        success: true,
+        seriesIds: existing.includes(seriesId) ? existing : [...existing, seriesId],
+      });
+
+    } catch (error) {
+      console.error('Pinned series API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to pin series',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    const seriesId = parseSeriesId(request.nextUrl.searchParams.get('seriesId'));
+    if (seriesId === null) {
+      return NextResponse.json({
+        success: false,
+        message: 'seriesId query parameter must be a positive integer',
+      }, { status: 400 });
+    }
+
+    try {
+      const deleted = await unpinSeries(session.userId, seriesId);
+
+      if (!deleted) {
+        return NextResponse.json({
+          success: false,
+          message: 'Series is not pinned',
+        }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        success: true,
+      });
+
+    } catch (error) {
+      console.error('Pinned series API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to unpin series',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
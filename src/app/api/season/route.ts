@@ -0,0 +1,63 @@
+/**
+ * Season Plan API Endpoint
+ *
+ * GET /api/season - Score each eligible series for every remaining race week of the
+ * season, with the weeks that count toward the participation credit and the user's
+ * strongest upcoming tracks
+ *
+ * Query parameters (all optional):
+ * - mode: built-in mode or custom:<id>, Balanced by default
+ * - category: license category to plan in
+ * - ownedOnly: only series and tracks with owned content
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/server';
+import { recommendationEngine } from '@/lib/recommendations';
+import { CategoryHelper } from '@/lib/types/category';
+import { resolveModeSelection } from '@/lib/recommendations/mode-settings';
+import { getCustomMode } from '@/lib/recommendations/custom-modes';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (_request, session) => {
+    const { searchParams } = new URL(request.url);
+
+    const category = searchParams.get('category') || undefined;
+    if (category && !CategoryHelper.isValid(category)) {
+      return NextResponse.json({
+        success: false,
+        message: `Invalid category: ${category}. Valid categories are: ${CategoryHelper.ALL_CATEGORIES.join(', ')}.`,
+      }, { status: 400 });
+    }
+
+    try {
+      const modeParam = searchParams.get('mode');
+      const mode = await resolveModeSelection(modeParam, id => getCustomMode(session.userId, id));
+      if (!mode) {
+        return NextResponse.json({
+          success: false,
+          message: `Invalid mode: ${modeParam}`,
+        }, { status: 400 });
+      }
+
+      const season = await recommendationEngine.getSeasonPlan(session.userId, {
+        mode,
+        category,
+        ownedOnly: searchParams.get('ownedOnly') === 'true',
+      });
+
+      return NextResponse.json({
+        success: true,
+        season,
+      });
+
+    } catch (error) {
+      console.error('Season plan API error:', error);
+      return NextResponse.json({
+        success: false,
+        message: 'Failed to build season plan',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  });
+}
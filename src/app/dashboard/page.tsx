@@ -5,6 +5,12 @@ import { useAuth } from '@/lib/auth/hooks';
 import { useRouter } from 'next/navigation';
 import { useFeatureFlags } from '@/lib/feature-flags';
 import { getMockAnalytics } from '@/lib/feature-flags/mock-analytics';
+import { useIncidentTimeline, usePromotionPlan, useRatingHistory, useSyncProgress, useWeeklyPlan } from '@/lib/hooks';
+import { WeeklyAgenda } from '@/components/racing/WeeklyAgenda';
+import { PromotionPanel } from '@/components/racing/PromotionPanel';
+import { RatingHistoryChart } from '@/components/racing/RatingHistoryChart';
+import { IncidentTimelinePanel } from '@/components/racing/IncidentTimelinePanel';
+import { RecommendationMode, RecommendationModeHelper } from '@/lib/types/recommendation';
 
 interface PerformanceMetric {
   seriesId?: number;
@@ -55,8 +61,6 @@ export default function Dashboard() {
   const [groupBy, setGroupBy] = useState<GroupingType>('series');
   const [searchTerm, setSearchTerm] = useState('');
   const [sortField, setSortField] = useState<keyof PerformanceMetric>('raceCount');
-  const [syncLoading, setSyncLoading] = useState(false);
-  const [syncError, setSyncError] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
 
   // Pagination states
@@ -68,35 +72,52 @@ export default function Dashboard() {
   const [expandedRowData, setExpandedRowData] = useState<Record<string, IndividualRace[]>>({});
   const [expandedRowLoading, setExpandedRowLoading] = useState<Set<string>>(new Set());
 
-  // Sync race data
+  // Sync race data, following progress over the sync stream
+  const {
+    progress: syncProgress,
+    job: syncJob,
+    percent: syncPercent,
+    syncing: syncLoading,
+    error: syncError,
+    startSync,
+  } = useSyncProgress();
+
+  // Plan for the coming week
+  const [planMode, setPlanMode] = useState<RecommendationMode>(RecommendationModeHelper.getDefault());
+  const [planRaces, setPlanRaces] = useState(5);
+  const {
+    plan: weeklyPlan,
+    loading: weeklyPlanLoading,
+    error: weeklyPlanError,
+  } = useWeeklyPlan({ mode: planMode, targetRaces: planRaces, enabled: !!user && !flags.mockProfile });
+
+  // License promotion outlook
+  const {
+    promotion,
+    loading: promotionLoading,
+    error: promotionError,
+  } = usePromotionPlan({ enabled: !!user && !flags.mockProfile });
+
+  // iRating and Safety Rating over time
+  const {
+    histories: ratingHistories,
+    loading: ratingHistoryLoading,
+    error: ratingHistoryError,
+  } = useRatingHistory({ enabled: !!user && !flags.mockProfile });
+
+  // Incidents by race phase and type
+  const {
+    timeline: incidentTimeline,
+    loading: incidentTimelineLoading,
+    error: incidentTimelineError,
+  } = useIncidentTimeline({ enabled: !!user && !flags.mockProfile });
+
   const handleSyncData = async () => {
-    setSyncLoading(true);
-    setSyncError(null);
-    
-    try {
-      const response = await fetch('/api/data/sync', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to sync race data');
-      }
-      
-      const result = await response.json();
-      
-      if (result.success) {
-        // Refresh analytics data after successful sync
-        await fetchAnalytics();
-      } else {
-        throw new Error(result.message || 'Sync failed');
-      }
-    } catch (err) {
-      setSyncError(err instanceof Error ? err.message : 'Unknown error');
-    } finally {
-      setSyncLoading(false);
+    const result = await startSync();
+
+    if (result?.success) {
+      // Refresh analytics data after successful sync
+      await fetchAnalytics();
     }
   };
 
@@ -363,6 +384,46 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Weekly Plan */}
+        {!flags.mockProfile && (
+          <WeeklyAgenda
+            plan={weeklyPlan}
+            loading={weeklyPlanLoading}
+            error={weeklyPlanError}
+            mode={planMode}
+            targetRaces={planRaces}
+            onModeChange={setPlanMode}
+            onTargetRacesChange={setPlanRaces}
+          />
+        )}
+
+        {/* License Promotion */}
+        {!flags.mockProfile && (
+          <PromotionPanel
+            promotion={promotion}
+            loading={promotionLoading}
+            error={promotionError}
+          />
+        )}
+
+        {/* Rating History */}
+        {!flags.mockProfile && (
+          <RatingHistoryChart
+            histories={ratingHistories}
+            loading={ratingHistoryLoading}
+            error={ratingHistoryError}
+          />
+        )}
+
+        {/* Incident Timeline */}
+        {!flags.mockProfile && (
+          <IncidentTimelinePanel
+            timeline={incidentTimeline}
+            loading={incidentTimelineLoading}
+            error={incidentTimelineError}
+          />
+        )}
+
         {/* Controls */}
         <div className="card mb-8">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -412,7 +473,11 @@ export default function Dashboard() {
                   {syncLoading ? (
                     <>
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      <span>Syncing...</span>
+                      <span>
+                        {syncPercent !== null
+                          ? `Syncing ${syncPercent}%`
+                          : syncJob?.status === 'queued' ? 'Queued...' : 'Syncing...'}
+                      </span>
                     </>
                   ) : (
                     <>
@@ -457,6 +522,37 @@ export default function Dashboard() {
           </div>
         )}
 
+        {/* Sync Progress */}
+        {syncLoading && syncProgress && (
+          <div className="card mb-8">
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <span className="font-medium text-racing-gray-900 dark:text-white">
+                {syncProgress.currentSeason
+                  ? `Syncing ${syncProgress.currentSeason.year} Season ${syncProgress.currentSeason.quarter}`
+                  : 'Syncing race history'}
+              </span>
+              <span className="text-racing-gray-600 dark:text-racing-gray-400">{syncPercent ?? 0}%</span>
+            </div>
+            <div
+              className="w-full h-2 bg-racing-gray-200 dark:bg-racing-gray-700 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-label="Race data sync progress"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={syncPercent ?? 0}
+            >
+              <div
+                className="h-full bg-racing-blue transition-all duration-300"
+                style={{ width: `${syncPercent ?? 0}%` }}
+              />
+            </div>
+            <p className="mt-2 text-xs text-racing-gray-500">
+              {syncProgress.processedRaces} of {syncProgress.totalRaces} races processed · {syncProgress.newRaces} new
+              {syncProgress.errors.length > 0 && ` · ${syncProgress.errors.length} issue${syncProgress.errors.length === 1 ? '' : 's'}`}
+            </p>
+          </div>
+        )}
+
         {/* Analytics Table */}
         <div className="card overflow-hidden">
           {analyticsLoading ? (
@@ -1,13 +1,17 @@
 'use client';
 
 import { useState, useMemo, useEffect, useCallback } from 'react';
-import { useRecommendations } from '@/lib/hooks';
-import type { ScoredRecommendation, RecommendationMode, Category, SeriesTrackHistory } from '@/lib/recommendations/types';
+import { useRecommendations, useCustomModes } from '@/lib/hooks';
+import { useSyncProgress } from '@/lib/hooks/useSyncProgress';
+import type { ScoredRecommendation, Category, SeriesTrackHistory, CustomMode, CustomModeKey } from '@/lib/recommendations/types';
+import { RecommendationMode } from '@/lib/types/recommendation';
+import { toCustomModeKey } from '@/lib/recommendations/mode-settings';
 import {
   PrimaryRecommendationCard,
   SecondaryRecommendationCard,
   OtherOptionItem,
   GoalModeSelector,
+  CustomModeEditor,
   EmptyState,
   FirstTimeLoadingState,
   ReturningUserLoadingState,
@@ -198,7 +202,8 @@ function transformToPrimaryRecommendation(
       { factor: 'Safety', score: Math.round(rec.score.factors.safety), weight: 1.0, contribution: Math.round(rec.score.factors.safety) },
       { factor: 'Consistency', score: Math.round(rec.score.factors.consistency), weight: 1.0, contribution: Math.round(rec.score.factors.consistency) },
     ],
-    insights: rec.score.reasoning || []
+    insights: rec.score.reasoning || [],
+    missingContent: rec.missingContent
   };
 }
 
@@ -240,7 +245,8 @@ function transformToSecondaryRecommendation(rec: ScoredRecommendation): Secondar
       }
     ],
     
-    whyGoodOption: rec.score.reasoning?.slice(0, 3)
+    whyGoodOption: rec.score.reasoning?.slice(0, 3),
+    missingContent: rec.missingContent
   };
 }
 
@@ -269,22 +275,26 @@ function formatRelativeTime(dateString: string): string {
 }
 
 /**
- * Map GoalMode to RecommendationMode
+ * Map GoalMode to the API mode parameter (custom mode keys pass through)
  */
-function mapGoalModeToRecommendationMode(goalMode: GoalMode): RecommendationMode {
-  const modeMap: Record<GoalMode, RecommendationMode> = {
-    balanced: 'balanced',
-    push: 'push',
-    recovery: 'recovery',
-  };
-  return modeMap[goalMode];
+function mapGoalModeToRecommendationMode(goalMode: GoalMode): RecommendationMode | CustomModeKey {
+  switch (goalMode) {
+    case 'push':
+      return RecommendationMode.IRATING_PUSH;
+    case 'recovery':
+      return RecommendationMode.SAFETY_RECOVERY;
+    case 'balanced':
+      return RecommendationMode.BALANCED;
+    default:
+      return goalMode;
+  }
 }
 
 /**
  * RecommendationsClient - Client Component for interactivity
  * 
  * Handles:
- * - Mode selection (balanced/push/recovery)
+ * - Mode selection (balanced/push/recovery and the user's custom modes)
  * - Category filtering
  * - Data fetching and state management
  * - Loading and error states
@@ -295,14 +305,18 @@ export function RecommendationsClient() {
   const [goalMode, setGoalMode] = useState<GoalMode>('balanced');
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
   const [isProUser, setIsProUser] = useState(false);
+  const [ownedOnly, setOwnedOnly] = useState(false);
+  // Custom mode editor: null mode creates a new one
+  const [editor, setEditor] = useState<{ mode: CustomMode | null } | null>(null);
 
   // Map goal mode to recommendation mode
   const mode = mapGoalModeToRecommendationMode(goalMode);
 
+  const { modes: customModes, saveMode, deleteMode, previewMode } = useCustomModes();
+
   // Sync state
   const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
-  const [syncLoading, setSyncLoading] = useState(false);
-  const [syncError, setSyncError] = useState<string | null>(null);
+  const { syncing: syncLoading, error: syncError, percent: syncPercent, startSync } = useSyncProgress();
 
   // Listen for pro mode changes from header
   useEffect(() => {
@@ -326,6 +340,7 @@ export function RecommendationsClient() {
     category: selectedCategory || undefined,
     maxResults: 50,
     includeAlmostEligible: false,
+    ownedOnly,
   });
 
   // Fetch sync status on mount
@@ -344,32 +359,18 @@ export function RecommendationsClient() {
     fetchSyncStatus();
   }, []);
 
-  // Handle sync
+  // Handle sync (runs as a background job; resolves once it has finished)
   const handleSync = useCallback(async () => {
-    setSyncLoading(true);
-    setSyncError(null);
-
-    try {
-      const response = await fetch('/api/data/sync', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
+    const result = await startSync();
 
-      const result = await response.json();
-
-      if (result.success) {
+    if (result?.success) {
+      if (result.syncStatus) {
         setSyncStatus(result.syncStatus);
-        // Refetch recommendations after sync
-        await refetch();
-      } else {
-        throw new Error(result.message || 'Sync failed');
       }
-    } catch (err) {
-      setSyncError(err instanceof Error ? err.message : 'Unknown error');
-    } finally {
-      setSyncLoading(false);
+      // Refetch recommendations after sync
+      await refetch();
     }
-  }, [refetch]);
+  }, [refetch, startSync]);
 
   // Extract user's categories from their license classes
   const userCategories = useMemo(() => {
@@ -380,6 +381,38 @@ export function RecommendationsClient() {
   // Set default category to user's primary
   const effectiveCategory = selectedCategory || data?.userProfile?.primaryCategory || 'sports_car';
 
+  // Deleting the selected custom mode falls back to Balanced
+  const handleDeleteMode = useCallback(async (id: string) => {
+    await deleteMode(id);
+    if (goalMode === toCustomModeKey(id)) {
+      setGoalMode('balanced');
+    }
+  }, [deleteMode, goalMode]);
+
+  const modeSelector = (
+    <GoalModeSelector
+      currentMode={goalMode}
+      onModeChange={setGoalMode}
+      disabled={loading}
+      customModes={customModes}
+      onCreateMode={() => setEditor({ mode: null })}
+      onEditMode={(customMode) => setEditor({ mode: customMode })}
+    />
+  );
+
+  // Previews compare against the mode currently shown
+  const modeEditor = editor && (
+    <CustomModeEditor
+      key={editor.mode?.id ?? 'new'}
+      mode={editor.mode}
+      onSave={saveMode}
+      onDelete={handleDeleteMode}
+      onPreview={(customMode) => previewMode(customMode, { baseline: mode, category: effectiveCategory })}
+      onSaved={(saved) => setGoalMode(toCustomModeKey(saved.id))}
+      onClose={() => setEditor(null)}
+    />
+  );
+
   // Get recommendations for current category
   // Show top 8 total: #1 (primary), #2-3 (secondary), #4-8 (other options)
   const recommendations = data?.recommendations || [];
@@ -394,6 +427,7 @@ export function RecommendationsClient() {
     track: rec.trackName,
     license: rec.licenseRequired as any, // Use licenseRequired from ScoredRecommendation
     score: Math.round(rec.score.overall),
+    missingContent: rec.missingContent,
   }));
 
   // Loading state
@@ -427,12 +461,18 @@ export function RecommendationsClient() {
       <div className="max-w-5xl mx-auto px-4 py-8 space-y-8">
         {/* Mode selector */}
         <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
-          <GoalModeSelector
-            currentMode={goalMode}
-            onModeChange={setGoalMode}
-            disabled={loading}
-          />
+          {modeSelector}
+          <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={ownedOnly}
+              onChange={(e) => setOwnedOnly(e.target.checked)}
+              disabled={loading}
+            />
+            Only content I own
+          </label>
         </div>
+        {modeEditor}
 
         <EmptyState
           type={emptyStateType}
@@ -467,7 +507,7 @@ export function RecommendationsClient() {
               {syncLoading ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />
-                  <span>Syncing...</span>
+                  <span>{syncPercent !== null ? `Syncing ${syncPercent}%` : 'Syncing...'}</span>
                 </>
               ) : (
                 <>
@@ -498,12 +538,18 @@ export function RecommendationsClient() {
 
       {/* Mode selector */}
       <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
-        <GoalModeSelector
-          currentMode={goalMode}
-          onModeChange={setGoalMode}
-          disabled={loading}
-        />
+        {modeSelector}
+        <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+          <input
+            type="checkbox"
+            checked={ownedOnly}
+            onChange={(e) => setOwnedOnly(e.target.checked)}
+            disabled={loading}
+          />
+          Only content I own
+        </label>
       </div>
+      {modeEditor}
 
       {/* Experience summary (subtle context) */}
       {data?.userProfile?.experienceSummary && (
@@ -0,0 +1,226 @@
+'use client';
+
+import { useState } from 'react';
+import { useSeasonPlan } from '@/lib/hooks';
+import type { SeasonPlan, SeasonSeriesOutlook } from '@/lib/recommendations/types';
+import { RecommendationMode, RecommendationModeHelper } from '@/lib/types/recommendation';
+import { Category, CategoryHelper } from '@/lib/types/category';
+
+function formatWeekStart(weekStart: Date | string): string {
+  return new Date(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function weekCellClass(score: number, isGoodWeek: boolean): string {
+  if (isGoodWeek) {
+    return score >= 80
+      ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200'
+      : 'bg-lime-100 text-lime-800 dark:bg-lime-900/40 dark:text-lime-200';
+  }
+  return 'bg-racing-gray-100 text-racing-gray-500 dark:bg-racing-gray-800 dark:text-racing-gray-400';
+}
+
+function SeriesRow({
+  outlook,
+  weekNums,
+  creditWeeks,
+  onTogglePin,
+}: {
+  outlook: SeasonSeriesOutlook;
+  weekNums: number[];
+  creditWeeks: number;
+  onTogglePin: (seriesId: number, pinned: boolean) => void;
+}) {
+  const weeks = new Map(outlook.weeks.map(week => [week.raceWeekNum, week]));
+
+  return (
+    <tr className="border-t border-racing-gray-200 dark:border-racing-gray-700">
+      <td className="py-2 pr-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onTogglePin(outlook.seriesId, !outlook.pinned)}
+            aria-label={outlook.pinned ? `Unpin ${outlook.seriesName}` : `Pin ${outlook.seriesName}`}
+            aria-pressed={outlook.pinned}
+            className={outlook.pinned ? 'text-racing-blue' : 'text-racing-gray-300 hover:text-racing-gray-500 dark:text-racing-gray-600'}
+          >
+            <svg className="w-4 h-4" fill={outlook.pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+            </svg>
+          </button>
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-racing-gray-900 dark:text-white truncate">{outlook.seriesName}</p>
+            <p className="text-xs text-racing-gray-500 dark:text-racing-gray-400">
+              {CategoryHelper.getDisplayName(outlook.category as Category)} · Class {outlook.licenseRequired}
+            </p>
+          </div>
+        </div>
+      </td>
+      <td className="py-2 pr-4 text-sm whitespace-nowrap">
+        <span className={outlook.earnsParticipationCredit ? 'font-semibold text-emerald-700 dark:text-emerald-300' : 'text-racing-gray-600 dark:text-racing-gray-300'}>
+          {Math.min(outlook.creditWeeks, creditWeeks)}/{creditWeeks}
+        </span>
+        {outlook.weeksRaced > 0 && (
+          <span className="ml-1 text-xs text-racing-gray-500 dark:text-racing-gray-400">({outlook.weeksRaced} raced)</span>
+        )}
+      </td>
+      {weekNums.map(weekNum => {
+        const week = weeks.get(weekNum);
+        return (
+          <td key={weekNum} className="py-2 px-1">
+            {week ? (
+              <div
+                title={`${week.trackName} · ${week.score}`}
+                className={`w-10 rounded text-center text-xs font-medium py-1 ${weekCellClass(week.score, week.isGoodWeek)}`}
+              >
+                {week.score}
+              </div>
+            ) : (
+              <div className="w-10 text-center text-xs text-racing-gray-300 dark:text-racing-gray-600">–</div>
+            )}
+          </td>
+        );
+      })}
+    </tr>
+  );
+}
+
+function Highlights({ season }: { season: SeasonPlan }) {
+  if (season.highlights.length === 0) {
+    return (
+      <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">
+        Race a few more tracks and your strongest ones will show up here.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
+      {season.highlights.map(highlight => (
+        <li key={highlight.trackId} className="rounded-lg border border-racing-gray-200 dark:border-racing-gray-700 p-3">
+          <p className="text-xs text-racing-gray-500 dark:text-racing-gray-400">
+            Week {highlight.raceWeekNum + 1} · {formatWeekStart(highlight.weekStart)}
+          </p>
+          <p className="text-sm font-medium text-racing-gray-900 dark:text-white">{highlight.trackName}</p>
+          <p className="text-xs text-racing-gray-600 dark:text-racing-gray-300 truncate">{highlight.seriesName}</p>
+          <p className="mt-1 text-xs text-racing-gray-500 dark:text-racing-gray-400">Performance {highlight.performance}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function SeasonClient() {
+  const [mode, setMode] = useState<RecommendationMode>(RecommendationModeHelper.getDefault());
+  const [category, setCategory] = useState<string>('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const { season, loading, error, togglePin } = useSeasonPlan({ mode, category: category || undefined });
+
+  const handleTogglePin = async (seriesId: number, pinned: boolean) => {
+    setPinError(null);
+    try {
+      await togglePin(seriesId, pinned);
+    } catch (err) {
+      setPinError(err instanceof Error ? err.message : 'Failed to update pinned series');
+    }
+  };
+
+  const weekNums = season
+    ? [...new Set(season.series.flatMap(outlook => outlook.weeks.map(week => week.raceWeekNum)))].sort((a, b) => a - b)
+    : [];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-racing-gray-900 dark:text-white mb-2">
+            Season Planner
+            {season && (
+              <span className="ml-3 text-base font-normal text-racing-gray-500 dark:text-racing-gray-400">
+                {season.seasonYear} Season {season.seasonQuarter}
+              </span>
+            )}
+          </h1>
+          <p className="text-racing-gray-600 dark:text-racing-gray-300">
+            Every remaining week scored for you. Race {season?.participationCreditWeeks ?? 8} weeks in a series for the participation credit.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            aria-label="Goal mode"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as RecommendationMode)}
+            className="px-3 py-2 border border-racing-gray-300 dark:border-racing-gray-600 rounded-lg bg-white dark:bg-racing-gray-800 text-racing-gray-900 dark:text-racing-gray-100"
+          >
+            {RecommendationModeHelper.getAllModes().map(option => (
+              <option key={option} value={option}>{RecommendationModeHelper.getDisplayName(option)}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="px-3 py-2 border border-racing-gray-300 dark:border-racing-gray-600 rounded-lg bg-white dark:bg-racing-gray-800 text-racing-gray-900 dark:text-racing-gray-100"
+          >
+            <option value="">All categories</option>
+            {CategoryHelper.ALL_CATEGORIES.map(option => (
+              <option key={option} value={option}>{CategoryHelper.getDisplayName(option)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {(error || pinError) && (
+        <div className="card mb-8 border-racing-red bg-racing-red/5">
+          <p className="text-racing-red font-medium">{error || pinError}</p>
+        </div>
+      )}
+
+      {loading && !season ? (
+        <div className="card text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-racing-red mx-auto mb-4"></div>
+          <p className="text-racing-gray-600 dark:text-racing-gray-300">Scoring the season...</p>
+        </div>
+      ) : season && (
+        <>
+          <div className="card mb-8">
+            <h2 className="text-xl font-semibold text-racing-gray-900 dark:text-white mb-4">Your Strongest Upcoming Tracks</h2>
+            <Highlights season={season} />
+          </div>
+
+          <div className="card overflow-x-auto">
+            {season.series.length === 0 ? (
+              <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">
+                No schedule is available for the rest of the season yet.
+              </p>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-xs uppercase text-racing-gray-500 dark:text-racing-gray-400">
+                    <th className="pb-2 pr-4 font-medium">Series</th>
+                    <th className="pb-2 pr-4 font-medium">Credit weeks</th>
+                    {weekNums.map(weekNum => (
+                      <th key={weekNum} className="pb-2 px-1 font-medium text-center">W{weekNum + 1}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {season.series.map(outlook => (
+                    <SeriesRow
+                      key={outlook.seriesId}
+                      outlook={outlook}
+                      weekNums={weekNums}
+                      creditWeeks={season.participationCreditWeeks}
+                      onTogglePin={handleTogglePin}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <p className="mt-4 text-xs text-racing-gray-500 dark:text-racing-gray-400">
+              Weeks scoring {season.goodWeekScore} or more are highlighted. Credit weeks count the weeks you already raced plus the good weeks left.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
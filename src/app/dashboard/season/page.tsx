@@ -0,0 +1,12 @@
+import { SeasonClient } from './SeasonClient';
+
+/**
+ * Season Planner Page
+ *
+ * Scores every series for each remaining week of the season, with the weeks that
+ * count toward the participation credit, the user's strongest upcoming tracks and
+ * their pinned series first.
+ */
+export default function SeasonPage() {
+  return <SeasonClient />;
+}
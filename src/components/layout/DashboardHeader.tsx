@@ -18,6 +18,11 @@ const navItems: NavItem[] = [
     href: '/dashboard/recommendations',
     description: 'What should I race?',
   },
+  {
+    label: 'Season',
+    href: '/dashboard/season',
+    description: 'Plan the rest of the season',
+  },
   {
     label: 'Performance',
     href: '/dashboard',
@@ -42,6 +47,14 @@ function PerformanceIcon({ className }: { className?: string }) {
   );
 }
 
+function SeasonIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+    </svg>
+  );
+}
+
 function LogoIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -52,6 +65,7 @@ function LogoIcon({ className }: { className?: string }) {
 
 const iconMap: Record<string, React.FC<{ className?: string }>> = {
   '/dashboard/recommendations': RecommendationsIcon,
+  '/dashboard/season': SeasonIcon,
   '/dashboard': PerformanceIcon,
 };
 
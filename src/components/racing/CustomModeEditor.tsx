@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, X } from 'lucide-react';
+import type { CustomMode, ModePreview, ModeSortKey, ModeWeights } from '@/lib/recommendations/types';
+import {
+  FACTOR_LABELS,
+  MODE_FACTORS,
+  normalizeWeights,
+  type CustomModeInput
+} from '@/lib/recommendations/mode-settings';
+
+interface CustomModeEditorProps {
+  mode?: CustomMode | null; // Mode being edited; a new mode when absent
+  onSave: (mode: CustomModeInput, id?: string) => Promise<CustomMode>;
+  onDelete?: (id: string) => Promise<void>;
+  onPreview: (mode: { weights: ModeWeights; primarySort: ModeSortKey }) => Promise<ModePreview>;
+  onSaved?: (mode: CustomMode) => void;
+  onClose: () => void;
+}
+
+// New modes start from the Balanced weights, in whole percent
+const BALANCED_PERCENTAGES: ModeWeights = {
+  performance: 15,
+  safety: 15,
+  consistency: 15,
+  predictability: 5,
+  familiarity: 15,
+  fatigueRisk: 10,
+  attritionRisk: 10,
+  timeVolatility: 10,
+  conditions: 5
+};
+
+/**
+ * Whole percentages summing to exactly 100 (largest remainder rounding)
+ */
+function toPercentages(weights: ModeWeights): ModeWeights {
+  const normalized = normalizeWeights(weights);
+  const exact = MODE_FACTORS.map(factor => ({ factor, value: normalized[factor] * 100 }));
+  const result = Object.fromEntries(exact.map(({ factor, value }) => [factor, Math.floor(value)])) as unknown as ModeWeights;
+  let remaining = 100 - MODE_FACTORS.reduce((sum, factor) => sum + result[factor], 0);
+
+  for (const { factor } of [...exact].sort((a, b) => (b.value % 1) - (a.value % 1))) {
+    if (remaining <= 0) break;
+    result[factor] += 1;
+    remaining -= 1;
+  }
+  return result;
+}
+
+function toFractions(percentages: ModeWeights): ModeWeights {
+  return Object.fromEntries(MODE_FACTORS.map(factor => [factor, percentages[factor] / 100])) as unknown as ModeWeights;
+}
+
+export function CustomModeEditor({ mode, onSave, onDelete, onPreview, onSaved, onClose }: CustomModeEditorProps) {
+  const [name, setName] = useState(mode?.name ?? '');
+  const [description, setDescription] = useState(mode?.description ?? '');
+  const [percentages, setPercentages] = useState<ModeWeights>(mode ? toPercentages(mode.weights) : BALANCED_PERCENTAGES);
+  const [primarySort, setPrimarySort] = useState<ModeSortKey>(mode?.primarySort ?? 'overall');
+  const [preview, setPreview] = useState<ModePreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const total = MODE_FACTORS.reduce((sum, factor) => sum + percentages[factor], 0);
+  const isNormalized = total === 100;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePreview = () => run(async () => {
+    setPreview(await onPreview({ weights: toFractions(percentages), primarySort }));
+  });
+
+  const handleSave = () => run(async () => {
+    const saved = await onSave({
+      name,
+      description: description || null,
+      weights: toFractions(percentages),
+      primarySort
+    }, mode?.id);
+    onSaved?.(saved);
+    onClose();
+  });
+
+  const handleDelete = () => run(async () => {
+    if (mode && onDelete) {
+      await onDelete(mode.id);
+      onClose();
+    }
+  });
+
+  return (
+    <div className="px-6 py-5 mb-6 bg-[var(--bg-elevated)] border border-[var(--border-medium)] rounded-lg space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-[var(--text-primary)]">
+          {mode ? `Edit ${mode.name}` : 'New custom mode'}
+        </h3>
+        <button onClick={onClose} aria-label="Close editor" className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          maxLength={50}
+          placeholder="Mode name"
+          className="px-3 py-2 rounded-md bg-[var(--bg-surface)] border border-[var(--border-subtle)] text-sm text-[var(--text-primary)]"
+        />
+        <input
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          maxLength={255}
+          placeholder="Description (optional)"
+          className="px-3 py-2 rounded-md bg-[var(--bg-surface)] border border-[var(--border-subtle)] text-sm text-[var(--text-primary)]"
+        />
+      </div>
+
+      {/* Factor weights */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-3">
+        {MODE_FACTORS.map(factor => (
+          <label key={factor} className="block">
+            <div className="flex items-baseline justify-between mb-1">
+              <span className="text-sm text-[var(--text-secondary)]">{FACTOR_LABELS[factor]}</span>
+              <span className="text-sm font-semibold stat-number text-[var(--text-primary)]">{percentages[factor]}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={percentages[factor]}
+              onChange={e => {
+                setPercentages(current => ({ ...current, [factor]: Number(e.target.value) }));
+                setPreview(null);
+              }}
+              className="w-full accent-[var(--accent-primary)]"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`text-sm font-medium ${isNormalized ? 'text-[var(--semantic-positive)]' : 'text-[var(--semantic-caution)]'}`}>
+          Total {total}%{isNormalized ? '' : ' (must be 100%)'}
+        </span>
+        {!isNormalized && (
+          <button
+            onClick={() => setPercentages(toPercentages(toFractions(percentages)))}
+            className="text-sm font-medium text-[var(--accent-info)] hover:underline"
+          >
+            Scale to 100%
+          </button>
+        )}
+        <label className="flex items-center gap-2 ml-auto text-sm text-[var(--text-secondary)]">
+          Rank by
+          <select
+            value={primarySort}
+            onChange={e => {
+              setPrimarySort(e.target.value as ModeSortKey);
+              setPreview(null);
+            }}
+            className="px-2 py-1 rounded-md bg-[var(--bg-surface)] border border-[var(--border-subtle)] text-[var(--text-primary)]"
+          >
+            <option value="overall">Overall score</option>
+            {MODE_FACTORS.map(factor => (
+              <option key={factor} value={factor}>{FACTOR_LABELS[factor]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Ranking preview against the baseline mode */}
+      {preview && (
+        <div className="border-t border-[var(--border-subtle)] pt-4">
+          <div className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)] mb-2">
+            Ranking preview
+          </div>
+          <ol className="space-y-1.5">
+            {preview.entries.slice(0, 10).map(entry => (
+              <li key={`${entry.seriesId}-${entry.trackId}`} className="flex items-center gap-3 text-sm">
+                <span className="w-6 text-right stat-number text-[var(--text-tertiary)]">{entry.previewRank}</span>
+                <span className="flex-1 min-w-0 truncate text-[var(--text-primary)]">
+                  {entry.seriesName} <span className="text-[var(--text-tertiary)]">· {entry.trackName}</span>
+                </span>
+                {entry.rankChange > 0 && (
+                  <span className="flex items-center gap-0.5 text-[var(--semantic-positive)]">
+                    <ArrowUp className="w-3.5 h-3.5" />{entry.rankChange}
+                  </span>
+                )}
+                {entry.rankChange < 0 && (
+                  <span className="flex items-center gap-0.5 text-[var(--semantic-caution)]">
+                    <ArrowDown className="w-3.5 h-3.5" />{-entry.rankChange}
+                  </span>
+                )}
+                {entry.rankChange === 0 && (
+                  <span className="text-[var(--text-tertiary)]">–</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-[var(--semantic-danger)]">{error}</p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={busy || !isNormalized || name.trim().length === 0}
+          className="px-4 py-2 bg-[var(--accent-primary)] hover:bg-[var(--accent-primary-bright)] text-[var(--bg-elevated)] text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save mode
+        </button>
+        <button
+          onClick={handlePreview}
+          disabled={busy || !isNormalized}
+          className="px-4 py-2 border border-[var(--border-medium)] text-sm font-medium text-[var(--text-secondary)] rounded-lg hover:text-[var(--text-primary)] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Preview ranking
+        </button>
+        {mode && onDelete && (
+          <button
+            onClick={handleDelete}
+            disabled={busy}
+            className="ml-auto text-sm font-medium text-[var(--semantic-danger)] hover:underline disabled:opacity-50"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { CheckCircle2, Loader2 } from 'lucide-react';
+import { useSyncProgress } from '@/lib/hooks/useSyncProgress';
 import { 
   PrimaryRecommendationSkeleton, 
   SecondaryRecommendationSkeleton, 
@@ -12,6 +13,12 @@ type LoadingStep = 'connecting' | 'fetching' | 'analyzing' | 'complete';
 
 interface FirstTimeLoadingStateProps {
   onComplete?: () => void;
+  /**
+   * Follow the race data sync over the progress stream (default true).
+   * The "Fetching your race history" step then shows real progress and only
+   * completes once the sync has finished.
+   */
+  followSync?: boolean;
 }
 
 const loadingSteps = [
@@ -32,31 +39,57 @@ const loadingSteps = [
   }
 ];
 
-export function FirstTimeLoadingState({ onComplete }: FirstTimeLoadingStateProps) {
+export function FirstTimeLoadingState({ onComplete, followSync = true }: FirstTimeLoadingStateProps) {
   const [currentStep, setCurrentStep] = useState<LoadingStep>('connecting');
   const [completedSteps, setCompletedSteps] = useState<LoadingStep[]>([]);
   const [showTimeout, setShowTimeout] = useState(false);
 
+  // Joins the sync started at login (or starts one) and streams its progress
+  const { progress: syncProgress, percent: syncPercent, syncing, result, error } = useSyncProgress({
+    autoStart: followSync,
+  });
+
+  const syncDoneRef = useRef(!followSync);
+  syncDoneRef.current = !followSync || !!result || !!error;
+
   useEffect(() => {
     let stepIndex = 0;
+    const timers: ReturnType<typeof setTimeout>[] = [];
     
+    const completeStep = (step: LoadingStep) => {
+      setCompletedSteps(prev => [...prev, step]);
+      stepIndex++;
+      progressThroughSteps();
+    };
+
+    // The fetching step waits for the sync to finish
+    const waitForSync = (step: LoadingStep) => {
+      if (syncDoneRef.current) {
+        completeStep(step);
+      } else {
+        timers.push(setTimeout(() => waitForSync(step), 250));
+      }
+    };
+
     const progressThroughSteps = () => {
       if (stepIndex < loadingSteps.length) {
         const step = loadingSteps[stepIndex];
         setCurrentStep(step.id);
         
-        setTimeout(() => {
-          setCompletedSteps(prev => [...prev, step.id]);
-          stepIndex++;
-          progressThroughSteps();
-        }, step.duration);
+        timers.push(setTimeout(() => {
+          if (step.id === 'fetching') {
+            waitForSync(step.id);
+          } else {
+            completeStep(step.id);
+          }
+        }, step.duration));
       } else {
         // All steps complete, transition to dashboard
-        setTimeout(() => {
+        timers.push(setTimeout(() => {
           if (onComplete) {
             onComplete();
           }
-        }, 500);
+        }, 500));
       }
     };
 
@@ -69,6 +102,7 @@ export function FirstTimeLoadingState({ onComplete }: FirstTimeLoadingStateProps
 
     return () => {
       clearTimeout(timeoutTimer);
+      timers.forEach(clearTimeout);
     };
   }, [onComplete]);
 
@@ -106,15 +140,42 @@ export function FirstTimeLoadingState({ onComplete }: FirstTimeLoadingStateProps
                     ) : (
                       <div className="w-5 h-5 rounded-full border-2 border-[var(--border-medium)] flex-shrink-0" />
                     )}
-                    <span className={`text-sm font-medium ${
-                      isComplete 
-                        ? 'text-[var(--text-secondary)]' 
-                        : isCurrent 
-                          ? 'text-[var(--text-primary)]' 
-                          : 'text-[var(--text-tertiary)]'
-                    }`}>
-                      {step.label}
-                    </span>
+                    <div className="flex-1 min-w-0">
+                      <span className={`text-sm font-medium ${
+                        isComplete 
+                          ? 'text-[var(--text-secondary)]' 
+                          : isCurrent 
+                            ? 'text-[var(--text-primary)]' 
+                            : 'text-[var(--text-tertiary)]'
+                      }`}>
+                        {step.label}
+                      </span>
+
+                      {/* Real sync progress for the race history step */}
+                      {step.id === 'fetching' && syncing && syncProgress && (
+                        <div className="mt-2 space-y-1">
+                          <div
+                            className="h-1.5 w-full bg-[var(--bg-elevated)] rounded-full overflow-hidden"
+                            role="progressbar"
+                            aria-label="Race history sync progress"
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={syncPercent ?? 0}
+                          >
+                            <div
+                              className="h-full bg-[var(--accent-primary)] transition-all duration-300"
+                              style={{ width: `${syncPercent ?? 0}%` }}
+                            />
+                          </div>
+                          <p className="text-xs text-[var(--text-tertiary)]">
+                            {syncProgress.currentSeason
+                              ? `${syncProgress.currentSeason.year} Season ${syncProgress.currentSeason.quarter} · `
+                              : ''}
+                            {syncProgress.processedRaces} of {syncProgress.totalRaces} races processed
+                          </p>
+                        </div>
+                      )}
+                    </div>
                   </div>
                 );
               })}
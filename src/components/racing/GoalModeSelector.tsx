@@ -1,15 +1,20 @@
 'use client';
 
 import React from 'react';
-import { Target, TrendingUp, Shield, Lock } from 'lucide-react';
+import { Target, TrendingUp, Shield, Lock, SlidersHorizontal, Plus, Pencil } from 'lucide-react';
+import type { CustomMode, CustomModeKey } from '@/lib/recommendations/types';
+import { toCustomModeKey } from '@/lib/recommendations/mode-settings';
 
-export type GoalMode = 'balanced' | 'push' | 'recovery';
+export type GoalMode = 'balanced' | 'push' | 'recovery' | CustomModeKey;
 
 interface GoalModeSelectorProps {
   currentMode: GoalMode;
   onModeChange: (mode: GoalMode) => void;
   disabled?: boolean;
   isProUser?: boolean;
+  customModes?: CustomMode[];
+  onCreateMode?: () => void; // Custom modes are only shown when set
+  onEditMode?: (mode: CustomMode) => void;
 }
 
 const modes = [
@@ -45,8 +50,17 @@ const modes = [
   }
 ];
 
-export function GoalModeSelector({ currentMode, onModeChange, disabled = false, isProUser = false }: GoalModeSelectorProps) {
+export function GoalModeSelector({
+  currentMode,
+  onModeChange,
+  disabled = false,
+  isProUser = false,
+  customModes = [],
+  onCreateMode,
+  onEditMode
+}: GoalModeSelectorProps) {
   const activeMode = modes.find(m => m.id === currentMode);
+  const activeCustomMode = customModes.find(m => toCustomModeKey(m.id) === currentMode);
   
   return (
     <div>
@@ -123,12 +137,68 @@ export function GoalModeSelector({ currentMode, onModeChange, disabled = false,
         })}
       </div>
       
+      {/* Custom modes */}
+      {onCreateMode && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {customModes.map((mode) => {
+            const key = toCustomModeKey(mode.id);
+            const isSelected = currentMode === key;
+
+            return (
+              <div
+                key={key}
+                className={`
+                  flex items-center rounded-lg border transition-all
+                  ${isSelected
+                    ? 'border-[var(--accent-primary)] bg-[var(--bg-elevated)]'
+                    : 'border-[var(--border-subtle)] bg-[var(--bg-surface)] hover:border-[var(--border-emphasis)]'
+                  }
+                  ${disabled ? 'opacity-50' : ''}
+                `}
+              >
+                <button
+                  onClick={() => onModeChange(key)}
+                  disabled={disabled}
+                  className="flex items-center gap-2 pl-3 pr-2 py-1.5 text-sm text-[var(--text-primary)] disabled:cursor-not-allowed"
+                >
+                  <SlidersHorizontal className="w-3.5 h-3.5 text-[var(--text-tertiary)]" />
+                  {mode.name}
+                </button>
+                {onEditMode && (
+                  <button
+                    onClick={() => onEditMode(mode)}
+                    disabled={disabled}
+                    aria-label={`Edit ${mode.name}`}
+                    className="pr-3 py-1.5 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] disabled:cursor-not-allowed"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          <button
+            onClick={onCreateMode}
+            disabled={disabled}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-dashed border-[var(--border-subtle)] text-sm text-[var(--text-secondary)] hover:border-[var(--border-emphasis)] hover:text-[var(--text-primary)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Custom mode
+          </button>
+        </div>
+      )}
+
       {/* Active mode explanation */}
       {activeMode && (
         <p className="text-sm text-[var(--text-secondary)] pl-1">
           {activeMode.shortDesc}
         </p>
       )}
+      {activeCustomMode && (
+        <p className="text-sm text-[var(--text-secondary)] pl-1">
+          {activeCustomMode.description || 'Recommendations use your custom factor weights'}
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,151 @@
+import React from 'react';
+import type {
+  IncidentBreakdown,
+  IncidentPhase,
+  IncidentTimeline,
+  IncidentType,
+} from '@/lib/iracing/incident-timeline';
+
+interface IncidentTimelinePanelProps {
+  timeline: IncidentTimeline | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const BAR_WIDTH = 200;
+const BAR_HEIGHT = 10;
+
+// Series whose field has this many times the start incidents per driver of the user's
+// races overall are flagged as chaotic starts
+const CHAOTIC_START_RATIO = 1.5;
+
+const PHASE_LABELS: Record<IncidentPhase, string> = {
+  start: 'Start (lap 1)',
+  mid: 'Mid race',
+  final: 'Final laps',
+};
+
+const TYPE_LABELS: Record<IncidentType, string> = {
+  car_contact: 'Car contact',
+  contact: 'Contact',
+  lost_control: 'Lost control',
+  off_track: 'Off track',
+  other: 'Other',
+};
+
+function formatShare(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Incident points of each phase or type as a bar against the largest
+ */
+function BreakdownBars<K extends string>({
+  label,
+  breakdown,
+  labels,
+}: {
+  label: string;
+  breakdown: Record<K, IncidentBreakdown>;
+  labels: Record<K, string>;
+}) {
+  const keys = Object.keys(labels) as K[];
+  const max = Math.max(1, ...keys.map(key => breakdown[key]?.points ?? 0));
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-racing-gray-500 dark:text-racing-gray-400 mb-2">{label}</p>
+      <ul className="space-y-1">
+        {keys.map(key => {
+          const { incidents = 0, points = 0 } = breakdown[key] ?? {};
+          return (
+            <li key={key} className="grid grid-cols-[7rem_1fr_4rem] items-center gap-2 text-xs">
+              <span className="text-racing-gray-600 dark:text-racing-gray-300">{labels[key]}</span>
+              <svg
+                viewBox={`0 0 ${BAR_WIDTH} ${BAR_HEIGHT}`}
+                className="w-full h-2.5"
+                role="img"
+                aria-label={`${labels[key]}: ${points}x from ${incidents} incidents`}
+              >
+                <rect width={BAR_WIDTH} height={BAR_HEIGHT} rx={2} className="fill-racing-gray-100 dark:fill-racing-gray-700" />
+                <rect width={(points / max) * BAR_WIDTH} height={BAR_HEIGHT} rx={2} className="fill-racing-blue" />
+              </svg>
+              <span className="text-right font-mono text-racing-gray-900 dark:text-white">{points}x</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export function IncidentTimelinePanel({ timeline, loading, error }: IncidentTimelinePanelProps) {
+  const hasData = !!timeline && timeline.raceCount > 0;
+  const overallStart = timeline?.fieldStartIncidentsPerDriver ?? 0;
+
+  return (
+    <div className="card mb-8">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold text-racing-gray-900 dark:text-white">Incident Timeline</h2>
+        <p className="text-sm text-racing-gray-600 dark:text-racing-gray-300">
+          Where your incident points come from over the last year, by race phase and type.
+        </p>
+      </div>
+
+      {loading && !hasData ? (
+        <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">Loading your incident timeline...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Could not load your incident timeline: {error}</p>
+      ) : !hasData ? (
+        <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">
+          Race event logs are imported after your next race sync.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <p className="text-sm text-racing-gray-700 dark:text-racing-gray-300">
+            {formatShare(timeline!.startShare)} of your incident points come on lap 1, against{' '}
+            {formatShare(timeline!.fieldStartShare)} for the drivers you race with, over {timeline!.raceCount} races.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <BreakdownBars label="By race phase" breakdown={timeline!.phases} labels={PHASE_LABELS} />
+            <BreakdownBars label="By type" breakdown={timeline!.types} labels={TYPE_LABELS} />
+          </div>
+
+          {timeline!.series.length > 0 && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-racing-gray-500 dark:text-racing-gray-400">
+                  <th className="font-medium pb-1">Series</th>
+                  <th className="font-medium pb-1 text-right">Races</th>
+                  <th className="font-medium pb-1 text-right">Your lap 1</th>
+                  <th className="font-medium pb-1 text-right">Field lap 1</th>
+                </tr>
+              </thead>
+              <tbody>
+                {timeline!.series.slice(0, 5).map(series => {
+                  const chaotic = overallStart > 0 && series.fieldStartIncidentsPerDriver >= overallStart * CHAOTIC_START_RATIO;
+                  return (
+                    <tr key={series.seriesId} className="border-t border-racing-gray-200 dark:border-racing-gray-700">
+                      <td className="py-1 text-racing-gray-900 dark:text-white">
+                        {series.seriesName}
+                        {chaotic && (
+                          <span className="ml-2 rounded bg-red-100 px-1.5 text-red-700 dark:bg-red-900/40 dark:text-red-300">
+                            Chaotic starts
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1 text-right font-mono">{series.raceCount}</td>
+                      <td className="py-1 text-right font-mono">{series.startPointsPerRace.toFixed(1)}x</td>
+                      <td className="py-1 text-right font-mono">{series.fieldStartIncidentsPerDriver.toFixed(1)}x</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { LicenseBadge, LicenseClass } from './LicenseBadge';
+import { PurchaseRequiredItem } from './PurchaseRequiredTag';
 
 export interface OtherOption {
   id: string;
@@ -9,6 +10,7 @@ export interface OtherOption {
   track: string;
   license: LicenseClass;
   score: number;
+  missingContent?: PurchaseRequiredItem[];
 }
 
 interface OtherOptionItemProps {
@@ -29,6 +31,11 @@ export function OtherOptionItem({ option, onClick }: OtherOptionItemProps) {
         <div className="text-sm text-text-secondary truncate">
           {option.track}
         </div>
+        {option.missingContent && option.missingContent.length > 0 && (
+          <div className="text-xs text-[var(--semantic-caution)] truncate mt-0.5">
+            Requires purchase: {option.missingContent.map(item => item.name).join(', ')}
+          </div>
+        )}
       </div>
       
       <div className="flex items-center gap-3">
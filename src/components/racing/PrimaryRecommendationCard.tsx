@@ -5,6 +5,7 @@ import { Clock, Calendar, ChevronDown, ChevronUp, Gauge } from 'lucide-react';
 import { LicenseBadge, LicenseClass } from './LicenseBadge';
 import { ProUpgradePrompt } from './ProUpgradePrompt';
 import { LimitedHistoryBadge } from './LimitedHistoryBadge';
+import { PurchaseRequiredTag, PurchaseRequiredItem } from './PurchaseRequiredTag';
 import { UpdatedTag } from './UpdatedTag';
 import { ConfidenceChangeIndicator } from './ConfidenceChangeIndicator';
 
@@ -47,6 +48,9 @@ export interface PrimaryRecommendation {
     contribution: number;
   }[];
   insights: string[];
+
+  // Content the user doesn't own yet (empty or absent when they can race it)
+  missingContent?: PurchaseRequiredItem[];
 }
 
 interface PrimaryRecommendationCardProps {
@@ -141,6 +145,7 @@ export function PrimaryRecommendationCard({ recommendation, isProUser, showUpdat
               <h3 className="text-lg text-[var(--text-secondary)]">
                 {recommendation.track}
               </h3>
+              <PurchaseRequiredTag missingContent={recommendation.missingContent} />
             </div>
             
             {/* Right: License Badge + Setup Type */}
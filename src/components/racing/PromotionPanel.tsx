@@ -0,0 +1,173 @@
+import React from 'react';
+import type { PromotionPlan, PromotionProjection, PromotionStatus } from '@/lib/recommendations/types';
+import { Category, CategoryHelper } from '@/lib/types/category';
+
+interface PromotionPanelProps {
+  promotion: PromotionPlan | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const STATUS_LABELS: Record<PromotionStatus, { label: string; className: string }> = {
+  eligible: {
+    label: 'Promotes at season end',
+    className: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200',
+  },
+  on_track: {
+    label: 'On track',
+    className: 'bg-lime-100 text-lime-800 dark:bg-lime-900/40 dark:text-lime-200',
+  },
+  at_risk: {
+    label: 'Behind pace',
+    className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200',
+  },
+  max_level: {
+    label: 'Top license',
+    className: 'bg-racing-gray-100 text-racing-gray-600 dark:bg-racing-gray-800 dark:text-racing-gray-300',
+  },
+};
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 80;
+
+function formatChange(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+/**
+ * Projected Safety Rating per race, against the promotion target
+ */
+function TrajectoryChart({ projection }: { projection: PromotionProjection }) {
+  const { trajectory, targetSafetyRating } = projection;
+  if (trajectory.length < 2 || targetSafetyRating === null) {
+    return null;
+  }
+
+  const values = trajectory.flatMap(point => [point.projected, point.recentPace ?? point.projected]);
+  const min = Math.min(...values, targetSafetyRating) - 0.1;
+  const max = Math.max(...values, targetSafetyRating) + 0.1;
+  const lastRace = trajectory[trajectory.length - 1].race;
+  const x = (race: number) => (race / lastRace) * CHART_WIDTH;
+  const y = (rating: number) => CHART_HEIGHT - ((rating - min) / (max - min)) * CHART_HEIGHT;
+  const line = (points: { race: number; rating: number }[]) =>
+    points.map(point => `${x(point.race).toFixed(1)},${y(point.rating).toFixed(1)}`).join(' ');
+
+  const recentPace = trajectory
+    .filter(point => point.recentPace !== null)
+    .map(point => ({ race: point.race, rating: point.recentPace! }));
+
+  return (
+    <figure>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-20"
+        role="img"
+        aria-label={`Projected Safety Rating over the next ${lastRace} races`}
+      >
+        <line
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={y(targetSafetyRating)}
+          y2={y(targetSafetyRating)}
+          className="stroke-racing-gray-300 dark:stroke-racing-gray-600"
+          strokeDasharray="4 3"
+        />
+        {recentPace.length > 1 && (
+          <polyline points={line(recentPace)} fill="none" className="stroke-racing-gray-400" strokeWidth={1.5} strokeDasharray="2 2" />
+        )}
+        <polyline
+          points={line(trajectory.map(point => ({ race: point.race, rating: point.projected })))}
+          fill="none"
+          className="stroke-racing-blue"
+          strokeWidth={2}
+        />
+      </svg>
+      <figcaption className="mt-1 text-xs text-racing-gray-500 dark:text-racing-gray-400">
+        Solid: racing the fastest series. Dotted: your recent pace. Dashed: {targetSafetyRating.toFixed(2)} to promote.
+      </figcaption>
+    </figure>
+  );
+}
+
+function ProjectionCard({ projection }: { projection: PromotionProjection }) {
+  const status = STATUS_LABELS[projection.status];
+
+  return (
+    <li className="rounded-lg border border-racing-gray-200 dark:border-racing-gray-700 p-4">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div>
+          <p className="text-sm font-medium text-racing-gray-900 dark:text-white">
+            {CategoryHelper.getDisplayName(projection.category as Category)}
+          </p>
+          <p className="text-xs text-racing-gray-500 dark:text-racing-gray-400">
+            Class {projection.currentLevel}
+            {projection.nextLevel && ` → ${projection.nextLevel}`} · SR {projection.safetyRating.toFixed(2)}
+            {projection.recentAverageChange !== null && ` (${formatChange(projection.recentAverageChange)} per race lately)`}
+          </p>
+        </div>
+        <span className={`shrink-0 rounded px-2 py-0.5 text-xs font-medium ${status.className}`}>{status.label}</span>
+      </div>
+
+      {projection.status !== 'max_level' && (
+        <>
+          <p className="text-sm text-racing-gray-700 dark:text-racing-gray-300 mb-2">{projection.requirements}</p>
+          <p className="text-xs text-racing-gray-500 dark:text-racing-gray-400 mb-3">
+            Races this season {projection.participation.completed}/{projection.participation.required}
+            {' · '}
+            {projection.cleanRacesNeeded === null
+              ? 'no series this week is expected to gain Safety Rating'
+              : `${projection.cleanRacesNeeded} races needed, about ${projection.racesRemaining} left at your pace`}
+          </p>
+
+          <TrajectoryChart projection={projection} />
+
+          {projection.fastestSeries.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {projection.fastestSeries.map(option => (
+                <li key={option.seriesId} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="min-w-0 truncate text-racing-gray-700 dark:text-racing-gray-300">
+                    {option.seriesName} · {option.trackName} · {option.raceLength} min
+                  </span>
+                  <span className="shrink-0 font-mono text-racing-gray-900 dark:text-white">
+                    {formatChange(option.expectedSafetyRatingChange)}/race
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </li>
+  );
+}
+
+export function PromotionPanel({ promotion, loading, error }: PromotionPanelProps) {
+  return (
+    <div className="card mb-8">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold text-racing-gray-900 dark:text-white">License Promotion</h2>
+        <p className="text-sm text-racing-gray-600 dark:text-racing-gray-300">
+          {promotion
+            ? `${promotion.weeksRemaining} race weeks left in ${promotion.seasonYear} Season ${promotion.seasonQuarter}`
+            : 'Where your Safety Rating is heading this season'}
+        </p>
+      </div>
+
+      {loading && !promotion ? (
+        <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">Projecting your promotion...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Could not project your promotion: {error}</p>
+      ) : !promotion || promotion.projections.length === 0 ? (
+        <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">
+          Sync your profile to see promotion projections for your licenses.
+        </p>
+      ) : (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {promotion.projections.map(projection => (
+            <ProjectionCard key={projection.category} projection={projection} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ShoppingCart } from 'lucide-react';
+
+export interface PurchaseRequiredItem {
+  type: 'track' | 'car';
+  name: string;
+}
+
+interface PurchaseRequiredTagProps {
+  missingContent?: PurchaseRequiredItem[];
+}
+
+/**
+ * Build the "buy X" wording: the track by name, and for cars either the one
+ * eligible car or "one of N cars" since any single car is enough to race
+ */
+function describePurchase(missingContent: PurchaseRequiredItem[]): string {
+  const parts: string[] = [];
+  const track = missingContent.find(item => item.type === 'track');
+  const cars = missingContent.filter(item => item.type === 'car');
+
+  if (track) {
+    parts.push(track.name);
+  }
+  if (cars.length === 1) {
+    parts.push(cars[0].name);
+  } else if (cars.length > 1) {
+    parts.push(`one of ${cars.length} cars`);
+  }
+
+  return parts.join(' and ');
+}
+
+export function PurchaseRequiredTag({ missingContent }: PurchaseRequiredTagProps) {
+  const [showTooltip, setShowTooltip] = useState(false);
+
+  if (!missingContent || missingContent.length === 0) return null;
+
+  const cars = missingContent.filter(item => item.type === 'car');
+
+  return (
+    <div className="relative inline-flex">
+      <button
+        onMouseEnter={() => setShowTooltip(true)}
+        onMouseLeave={() => setShowTooltip(false)}
+        onClick={(event) => {
+          event.stopPropagation();
+          setShowTooltip(!showTooltip);
+        }}
+        className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-[var(--semantic-caution-bg)] border border-[var(--semantic-caution-border)] rounded-md text-xs font-medium text-[var(--semantic-caution)] transition-colors"
+      >
+        <ShoppingCart className="w-3 h-3" />
+        <span>Buy {describePurchase(missingContent)} to race this</span>
+      </button>
+
+      {showTooltip && cars.length > 1 && (
+        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-64 z-10">
+          <div className="bg-[var(--bg-elevated)] border border-[var(--border-medium)] rounded-lg p-3 shadow-xl">
+            <p className="text-xs text-[var(--text-secondary)] leading-relaxed">
+              Any of these cars will do: {cars.map(car => car.name).join(', ')}
+            </p>
+          </div>
+          {/* Arrow */}
+          <div className="absolute top-full left-1/2 -translate-x-1/2 -mt-px">
+            <div className="w-2 h-2 bg-[var(--bg-elevated)] border-r border-b border-[var(--border-medium)] rotate-45" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import React from 'react';
+import type { CategoryRatingHistory, RatingRaceAnnotation } from '@/lib/iracing/rating-history';
+import { Category, CategoryHelper } from '@/lib/types/category';
+
+interface RatingHistoryChartProps {
+  histories: CategoryRatingHistory[];
+  loading: boolean;
+  error: string | null;
+}
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 64;
+const MARKER_HEIGHT = 8;
+
+// Dates come back from the API as ISO strings
+type ChartPoint = { recordedAt: Date | string; value: number };
+
+function time(date: Date | string): number {
+  return new Date(date).getTime();
+}
+
+function formatChange(value: number, digits: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+function describeRace(race: RatingRaceAnnotation): string {
+  const changes = [
+    race.iRatingChange !== null && `iRating ${formatChange(race.iRatingChange, 0)}`,
+    race.safetyRatingChange !== null && `SR ${formatChange(race.safetyRatingChange, 2)}`,
+  ].filter(Boolean).join(', ');
+  return `${new Date(race.raceDate).toLocaleDateString()} · ${race.seriesName} at ${race.trackName}` +
+    `${race.finishingPosition !== null ? ` · P${race.finishingPosition}` : ''} · ${race.incidents}x · ${changes}`;
+}
+
+/**
+ * One rating over time, with a tick below the line for every race that moved it
+ */
+function RatingLine({
+  label,
+  points,
+  races,
+  change,
+  digits,
+  start,
+  end,
+}: {
+  label: string;
+  points: ChartPoint[];
+  races: RatingRaceAnnotation[];
+  change: (race: RatingRaceAnnotation) => number | null;
+  digits: number;
+  start: number;
+  end: number;
+}) {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const values = points.map(point => point.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const x = (date: Date | string) => ((time(date) - start) / Math.max(1, end - start)) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - ((value - min) / range) * CHART_HEIGHT;
+  const moved = races.filter(race => change(race));
+  const latest = points[points.length - 1].value;
+
+  return (
+    <figure>
+      <figcaption className="flex justify-between text-xs text-racing-gray-500 dark:text-racing-gray-400 mb-1">
+        <span>{label}</span>
+        <span className="font-mono text-racing-gray-900 dark:text-white">{latest.toFixed(digits)}</span>
+      </figcaption>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + MARKER_HEIGHT + 2}`}
+        className="w-full h-20"
+        role="img"
+        aria-label={`${label} from ${min.toFixed(digits)} to ${max.toFixed(digits)}, ${moved.length} races`}
+      >
+        {points.length > 1 ? (
+          <polyline
+            points={points.map(point => `${x(point.recordedAt).toFixed(1)},${y(point.value).toFixed(1)}`).join(' ')}
+            fill="none"
+            className="stroke-racing-blue"
+            strokeWidth={2}
+          />
+        ) : (
+          <circle cx={x(points[0].recordedAt)} cy={y(points[0].value)} r={2} className="fill-racing-blue" />
+        )}
+        {moved.map(race => (
+          <line
+            key={race.subsessionId}
+            x1={x(race.raceDate)}
+            x2={x(race.raceDate)}
+            y1={CHART_HEIGHT + 2}
+            y2={CHART_HEIGHT + 2 + MARKER_HEIGHT}
+            className={change(race)! > 0 ? 'stroke-emerald-500' : 'stroke-red-500'}
+            strokeWidth={1.5}
+          >
+            <title>{describeRace(race)}</title>
+          </line>
+        ))}
+      </svg>
+    </figure>
+  );
+}
+
+function CategoryCard({ history }: { history: CategoryRatingHistory }) {
+  const dates = [
+    ...history.iRating.map(point => time(point.recordedAt)),
+    ...history.safetyRating.map(point => time(point.recordedAt)),
+    ...history.races.map(race => time(race.raceDate)),
+  ];
+  const start = Math.min(...dates);
+  const end = Math.max(...dates);
+  const latestRaces = history.races.slice(-3).reverse();
+
+  return (
+    <li className="rounded-lg border border-racing-gray-200 dark:border-racing-gray-700 p-4">
+      <p className="text-sm font-medium text-racing-gray-900 dark:text-white mb-2">
+        {CategoryHelper.getDisplayName(history.category as Category)}
+      </p>
+      <div className="space-y-3">
+        <RatingLine
+          label="iRating"
+          points={history.iRating}
+          races={history.races}
+          change={race => race.iRatingChange}
+          digits={0}
+          start={start}
+          end={end}
+        />
+        <RatingLine
+          label="Safety Rating"
+          points={history.safetyRating}
+          races={history.races}
+          change={race => race.safetyRatingChange}
+          digits={2}
+          start={start}
+          end={end}
+        />
+      </div>
+      {latestRaces.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {latestRaces.map(race => (
+            <li key={race.subsessionId} className="truncate text-xs text-racing-gray-600 dark:text-racing-gray-300">
+              {describeRace(race)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function RatingHistoryChart({ histories, loading, error }: RatingHistoryChartProps) {
+  const charted = histories.filter(history => history.iRating.length > 0 || history.safetyRating.length > 0);
+
+  return (
+    <div className="card mb-8">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold text-racing-gray-900 dark:text-white">Rating History</h2>
+        <p className="text-sm text-racing-gray-600 dark:text-racing-gray-300">
+          iRating and Safety Rating over the last year. Ticks mark the races that moved them: green up, red down.
+        </p>
+      </div>
+
+      {loading && charted.length === 0 ? (
+        <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">Loading your rating history...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Could not load your rating history: {error}</p>
+      ) : charted.length === 0 ? (
+        <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">
+          Rating history is imported after your next race sync.
+        </p>
+      ) : (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {charted.map(history => (
+            <CategoryCard key={history.category} history={history} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
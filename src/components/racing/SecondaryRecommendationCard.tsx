@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import { Clock, Info } from 'lucide-react';
 import { LicenseBadge, LicenseClass } from './LicenseBadge';
+import { PurchaseRequiredTag, PurchaseRequiredItem } from './PurchaseRequiredTag';
 
 export interface SecondaryRecommendation {
   id: string;
@@ -30,6 +31,9 @@ export interface SecondaryRecommendation {
   
   // Lightweight trust affordance
   whyGoodOption?: string[]; // 2-3 concise human-readable reasons
+
+  // Content the user doesn't own yet
+  missingContent?: PurchaseRequiredItem[];
 }
 
 interface SecondaryRecommendationCardProps {
@@ -78,6 +82,11 @@ export function SecondaryRecommendationCard({ recommendation, onClick }: Seconda
           <h4 className="text-sm text-[var(--text-secondary)] leading-snug">
             {recommendation.track}
           </h4>
+          {recommendation.missingContent && recommendation.missingContent.length > 0 && (
+            <div className="mt-2">
+              <PurchaseRequiredTag missingContent={recommendation.missingContent} />
+            </div>
+          )}
         </div>
         <div className="flex items-center gap-2 flex-shrink-0">
           <span className="text-xs px-2 py-0.5 rounded bg-[var(--bg-subtle)] text-[var(--text-tertiary)] font-medium">
@@ -0,0 +1,143 @@
+'use client';
+
+import React from 'react';
+import type { WeeklyPlan } from '@/lib/recommendations/types';
+import { RecommendationMode, RecommendationModeHelper } from '@/lib/types/recommendation';
+import { Category, CategoryHelper } from '@/lib/types/category';
+
+interface WeeklyAgendaProps {
+  plan: WeeklyPlan | null;
+  loading: boolean;
+  error: string | null;
+  mode: RecommendationMode;
+  targetRaces: number;
+  onModeChange: (mode: RecommendationMode) => void;
+  onTargetRacesChange: (targetRaces: number) => void;
+}
+
+const TARGET_RACE_OPTIONS = [3, 5, 7, 10];
+
+function formatDay(date: string): string {
+  // Noon UTC keeps the calendar date in any display timezone
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function formatTime(startsAt: Date | string, timezone: string): string {
+  return new Date(startsAt).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: timezone,
+  });
+}
+
+/**
+ * Why a plan came up short of its target, from the most common rejection
+ */
+function describeShortfall(plan: WeeklyPlan): string {
+  const [reason] = Object.entries(plan.rejected).sort(([, a], [, b]) => b - a).find(([, count]) => count > 0) ?? [];
+  switch (reason) {
+    case 'fatigue':
+      return 'the daily racing time limit';
+    case 'overlap':
+      return 'overlapping sessions';
+    case 'variety':
+      return 'the per-series limit';
+    case 'category':
+      return 'the license category limits';
+    default:
+      return 'too few sessions inside your availability';
+  }
+}
+
+export function WeeklyAgenda({
+  plan,
+  loading,
+  error,
+  mode,
+  targetRaces,
+  onModeChange,
+  onTargetRacesChange,
+}: WeeklyAgendaProps) {
+  return (
+    <div className="card mb-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-racing-gray-900 dark:text-white">This Week&apos;s Plan</h2>
+          <p className="text-sm text-racing-gray-600 dark:text-racing-gray-300">
+            Sessions inside your availability that best fit your goal
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            aria-label="Plan goal mode"
+            value={mode}
+            onChange={(e) => onModeChange(e.target.value as RecommendationMode)}
+            className="px-3 py-2 border border-racing-gray-300 dark:border-racing-gray-600 rounded-lg bg-white dark:bg-racing-gray-800 text-racing-gray-900 dark:text-racing-gray-100"
+          >
+            {RecommendationModeHelper.getAllModes().map(option => (
+              <option key={option} value={option}>{RecommendationModeHelper.getDisplayName(option)}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Races to plan"
+            value={targetRaces}
+            onChange={(e) => onTargetRacesChange(Number(e.target.value))}
+            className="px-3 py-2 border border-racing-gray-300 dark:border-racing-gray-600 rounded-lg bg-white dark:bg-racing-gray-800 text-racing-gray-900 dark:text-racing-gray-100"
+          >
+            {TARGET_RACE_OPTIONS.map(option => (
+              <option key={option} value={option}>{option} races</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && !plan ? (
+        <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">Planning your week...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Could not plan your week: {error}</p>
+      ) : !plan || plan.plannedRaces === 0 ? (
+        <p className="text-sm text-racing-gray-500 dark:text-racing-gray-400">
+          No sessions fit this week. Try widening your availability or racing more per day.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {plan.days.map(day => (
+            <div key={day.date}>
+              <div className="flex items-baseline justify-between mb-2">
+                <h3 className="font-medium text-racing-gray-900 dark:text-white">{formatDay(day.date)}</h3>
+                <span className="text-xs text-racing-gray-500 dark:text-racing-gray-400">{day.totalMinutes} min</span>
+              </div>
+              <ul className="divide-y divide-racing-gray-200 dark:divide-racing-gray-700">
+                {day.sessions.map(session => (
+                  <li key={`${session.seriesId}-${new Date(session.startsAt).getTime()}`} className="py-2 flex items-center gap-4">
+                    <span className="w-20 text-sm font-mono text-racing-gray-700 dark:text-racing-gray-300">
+                      {formatTime(session.startsAt, plan.timezone)}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-racing-gray-900 dark:text-white truncate">{session.seriesName}</p>
+                      <p className="text-xs text-racing-gray-500 dark:text-racing-gray-400 truncate">
+                        {session.trackName} · {CategoryHelper.getDisplayName(session.category as Category)} · {session.raceLength} min
+                        {session.requiresPurchase && ' · Requires purchase'}
+                      </p>
+                    </div>
+                    <span className="text-sm font-semibold text-racing-gray-900 dark:text-white">{session.score.overall}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {plan.plannedRaces < plan.constraints.targetRaces && (
+            <p className="text-xs text-racing-gray-500 dark:text-racing-gray-400">
+              Planned {plan.plannedRaces} of {plan.constraints.targetRaces} races, limited by {describeShortfall(plan)}.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
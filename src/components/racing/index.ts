@@ -12,6 +12,8 @@ export type { RaceRecommendation } from './RaceRecommendationCard';
 
 // Status and feedback components
 export { LimitedHistoryBadge } from './LimitedHistoryBadge';
+export { PurchaseRequiredTag } from './PurchaseRequiredTag';
+export type { PurchaseRequiredItem } from './PurchaseRequiredTag';
 export { UpdatedTag } from './UpdatedTag';
 export { ConfidenceChangeIndicator } from './ConfidenceChangeIndicator';
 export { ProUpgradePrompt } from './ProUpgradePrompt';
@@ -34,8 +36,15 @@ export { StaleDataNotice } from './StaleDataNotice';
 // Interactive controls
 export { GoalModeSelector } from './GoalModeSelector';
 export type { GoalMode } from './GoalModeSelector';
+export { CustomModeEditor } from './CustomModeEditor';
 export { FactorBar } from './FactorBar';
 
+// Planning
+export { WeeklyAgenda } from './WeeklyAgenda';
+export { PromotionPanel } from './PromotionPanel';
+export { RatingHistoryChart } from './RatingHistoryChart';
+export { IncidentTimelinePanel } from './IncidentTimelinePanel';
+
 // Other options
 export { OtherOptionItem } from './OtherOptionItem';
 export type { OtherOption } from './OtherOptionItem';
@@ -1,10 +1,14 @@
 'use client';
 
-import { RecommendationMode } from '@/lib/recommendations/types';
+import type { CustomMode, CustomModeKey } from '@/lib/recommendations/types';
+import { RecommendationMode, RecommendationModeHelper } from '@/lib/types/recommendation';
+import { toCustomModeKey } from '@/lib/recommendations/mode-settings';
 
 interface ModePillSelectorProps {
-  currentMode: RecommendationMode;
+  currentMode: RecommendationMode | CustomModeKey;
   onModeChange: (mode: RecommendationMode) => void;
+  customModes?: CustomMode[];
+  onCustomModeChange?: (mode: CustomModeKey) => void; // Custom modes are only shown when set
   disabled?: boolean;
 }
 
@@ -23,6 +27,15 @@ const modeConfig: Record<RecommendationMode, { label: string; description: strin
   },
 };
 
+const pillClassName = (isActive: boolean, disabled: boolean) => `
+  px-4 py-2 rounded-md text-sm font-medium transition-all
+  ${isActive
+    ? 'bg-white dark:bg-racing-gray-700 text-racing-gray-900 dark:text-white shadow-sm'
+    : 'text-racing-gray-600 dark:text-racing-gray-400 hover:text-racing-gray-900 dark:hover:text-white'
+  }
+  ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+`;
+
 /**
  * Pill-style mode selector for recommendations
  * Text-only design for cleaner appearance
@@ -30,9 +43,16 @@ const modeConfig: Record<RecommendationMode, { label: string; description: strin
 export function ModePillSelector({
   currentMode,
   onModeChange,
+  customModes = [],
+  onCustomModeChange,
   disabled = false,
 }: ModePillSelectorProps) {
-  const modes: RecommendationMode[] = ['balanced', 'irating_push', 'safety_recovery'];
+  const modes = RecommendationModeHelper.getAllModes();
+  const shownCustomModes = onCustomModeChange ? customModes : [];
+  const activeCustomMode = shownCustomModes.find(mode => toCustomModeKey(mode.id) === currentMode);
+  const description = activeCustomMode
+    ? activeCustomMode.description || 'Your custom factor weights'
+    : modeConfig[currentMode as RecommendationMode]?.description;
 
   return (
     <div className="flex flex-col gap-1">
@@ -46,22 +66,29 @@ export function ModePillSelector({
               key={mode}
               onClick={() => onModeChange(mode)}
               disabled={disabled}
-              className={`
-                px-4 py-2 rounded-md text-sm font-medium transition-all
-                ${isActive
-                  ? 'bg-white dark:bg-racing-gray-700 text-racing-gray-900 dark:text-white shadow-sm'
-                  : 'text-racing-gray-600 dark:text-racing-gray-400 hover:text-racing-gray-900 dark:hover:text-white'
-                }
-                ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
-              `}
+              className={pillClassName(isActive, disabled)}
             >
               {config.label}
             </button>
           );
         })}
+        {shownCustomModes.map((mode) => {
+          const key = toCustomModeKey(mode.id);
+
+          return (
+            <button
+              key={key}
+              onClick={() => onCustomModeChange?.(key)}
+              disabled={disabled}
+              className={pillClassName(currentMode === key, disabled)}
+            >
+              {mode.name}
+            </button>
+          );
+        })}
       </div>
       <p className="text-xs text-racing-gray-500 dark:text-racing-gray-400">
-        {modeConfig[currentMode].description}
+        {description}
       </p>
     </div>
   );
@@ -28,6 +28,9 @@ const getRiskColor = (risk: RiskLevel) => {
   }
 };
 
+const formatSigned = (value: number, decimals = 0) =>
+  `${value > 0 ? '+' : ''}${value.toFixed(decimals)}`;
+
 const getScoreColor = (score: number) => {
   if (score >= 80) return 'text-green-600';
   if (score >= 60) return 'text-yellow-600';
@@ -165,6 +168,24 @@ export function RecommendationDetail({ recommendation, onClose }: Recommendation
                       {score.safetyRatingRisk.toUpperCase()}
                     </Badge>
                   </div>
+                  {score.ratingChange?.iRating && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium">Expected iRating</span>
+                      <span className="text-sm">
+                        <strong>{formatSigned(score.ratingChange.iRating.expected)}</strong>
+                        <span className="text-gray-600"> ({formatSigned(score.ratingChange.iRating.low)} to {formatSigned(score.ratingChange.iRating.high)})</span>
+                      </span>
+                    </div>
+                  )}
+                  {score.ratingChange && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium">Expected Safety Rating</span>
+                      <span className="text-sm">
+                        <strong>{formatSigned(score.ratingChange.safetyRating.expected, 2)}</strong>
+                        <span className="text-gray-600"> ({formatSigned(score.ratingChange.safetyRating.low, 2)} to {formatSigned(score.ratingChange.safetyRating.high, 2)})</span>
+                      </span>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
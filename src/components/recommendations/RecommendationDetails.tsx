@@ -1,54 +1,15 @@
 'use client';
 
 import { ScoreProgressBar } from '@/components/ui/ScoreProgressBar';
-import type { ScoredRecommendation, RecommendationMode } from '@/lib/recommendations/types';
+import type { ScoredRecommendation, RecommendationMode, ModeSelection, ModeWeights } from '@/lib/recommendations/types';
+import { getModeWeights } from '@/lib/recommendations/mode-settings';
 
 interface RecommendationDetailsProps {
   recommendation: ScoredRecommendation;
-  mode: RecommendationMode;
+  mode: ModeSelection;
   className?: string;
 }
 
-/**
- * Get weight for a factor based on mode
- */
-function getFactorWeight(factor: string, mode: RecommendationMode): number {
-  const weights: Record<RecommendationMode, Record<string, number>> = {
-    balanced: {
-      performance: 0.15,
-      safety: 0.15,
-      consistency: 0.15,
-      predictability: 0.10,
-      familiarity: 0.15,
-      fatigueRisk: 0.10,
-      attritionRisk: 0.10,
-      timeVolatility: 0.10,
-    },
-    irating_push: {
-      performance: 0.25,
-      safety: 0.10,
-      consistency: 0.10,
-      predictability: 0.15,
-      familiarity: 0.20,
-      fatigueRisk: 0.05,
-      attritionRisk: 0.10,
-      timeVolatility: 0.05,
-    },
-    safety_recovery: {
-      performance: 0.05,
-      safety: 0.30,
-      consistency: 0.20,
-      predictability: 0.15,
-      familiarity: 0.15,
-      fatigueRisk: 0.05,
-      attritionRisk: 0.05,
-      timeVolatility: 0.05,
-    },
-  };
-
-  return weights[mode]?.[factor] ?? 0.1;
-}
-
 /**
  * RecommendationDetails component
  *
@@ -64,9 +25,10 @@ export function RecommendationDetails({
 }: RecommendationDetailsProps) {
   const { score } = recommendation;
   const factors = score.factors;
+  const weights = getModeWeights(mode);
 
   // Calculate contribution for each factor
-  const factorDetails = [
+  const factorRows: Array<{ key: keyof ModeWeights; label: string; icon: string; score: number }> = [
     { key: 'performance', label: 'Performance', icon: '📈', score: factors.performance },
     { key: 'safety', label: 'Safety', icon: '🛡️', score: factors.safety },
     { key: 'consistency', label: 'Consistency', icon: '📊', score: factors.consistency },
@@ -75,10 +37,12 @@ export function RecommendationDetails({
     { key: 'fatigueRisk', label: 'Fatigue Risk', icon: '⏱️', score: factors.fatigueRisk },
     { key: 'attritionRisk', label: 'Attrition Risk', icon: '⚠️', score: factors.attritionRisk },
     { key: 'timeVolatility', label: 'Time Volatility', icon: '📅', score: factors.timeVolatility },
-  ].map((f) => ({
+    { key: 'conditions', label: 'Conditions', icon: '🌦️', score: factors.conditions },
+  ];
+  const factorDetails = factorRows.map((f) => ({
     ...f,
-    weight: getFactorWeight(f.key, mode),
-    contribution: Math.round(f.score * getFactorWeight(f.key, mode)),
+    weight: weights[f.key],
+    contribution: Math.round(f.score * weights[f.key]),
   }));
 
   // Sort by weight (highest first for current mode)
@@ -96,9 +60,9 @@ export function RecommendationDetails({
       <div className="mb-4 p-3 bg-racing-blue/5 dark:bg-racing-blue/10 rounded-lg">
         <p className="text-xs text-racing-gray-600 dark:text-racing-gray-400">
           <strong className="text-racing-gray-700 dark:text-racing-gray-300">
-            {mode === 'balanced' ? 'Balanced' : mode === 'irating_push' ? 'iRating Push' : 'Safety Recovery'} Mode:
+            {typeof mode === 'object' ? mode.name : mode === 'balanced' ? 'Balanced' : mode === 'irating_push' ? 'iRating Push' : 'Safety Recovery'} Mode:
           </strong>{' '}
-          {modeDescriptions[mode]}
+          {typeof mode === 'object' ? mode.description || 'Your custom factor weights.' : modeDescriptions[mode]}
         </p>
       </div>
 
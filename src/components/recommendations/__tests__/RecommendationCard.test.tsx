@@ -38,7 +38,8 @@ const mockRecommendation: ScoredRecommendation = {
       familiarity: 45,
       fatigueRisk: 75,
       attritionRisk: 85,
-      timeVolatility: 70
+      timeVolatility: 70,
+      conditions: 50
     },
     iRatingRisk: 'low',
     safetyRatingRisk: 'medium',
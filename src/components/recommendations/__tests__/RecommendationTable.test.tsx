@@ -34,7 +34,8 @@ const mockRecommendations: ScoredOpportunity[] = [
         familiarity: 45,
         fatigueRisk: 75,
         attritionRisk: 85,
-        timeVolatility: 70
+        timeVolatility: 70,
+        conditions: 50
       },
       iRatingRisk: 'low',
       safetyRatingRisk: 'medium',
@@ -72,7 +73,8 @@ const mockRecommendations: ScoredOpportunity[] = [
         familiarity: 90,
         fatigueRisk: 85,
         attritionRisk: 60,
-        timeVolatility: 75
+        timeVolatility: 75,
+        conditions: 50
       },
       iRatingRisk: 'high' as const,
       safetyRatingRisk: 'low' as const,
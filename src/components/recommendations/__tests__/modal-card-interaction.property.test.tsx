@@ -46,7 +46,8 @@ const createMockRecommendation = (overrides: Partial<ScoredRecommendation> = {})
       familiarity: 45,
       fatigueRisk: 75,
       attritionRisk: 85,
-      timeVolatility: 70
+      timeVolatility: 70,
+      conditions: 50
     },
     iRatingRisk: 'low',
     safetyRatingRisk: 'medium',
@@ -42,7 +42,8 @@ const mockRecommendation: ScoredOpportunity = {
       familiarity: 45,
       fatigueRisk: 75,
       attritionRisk: 85,
-      timeVolatility: 70
+      timeVolatility: 70,
+      conditions: 50
     },
     iRatingRisk: 'low',
     safetyRatingRisk: 'medium',
@@ -1,5 +1,5 @@
 import { db } from '../db';
-import { users, iracingAccounts, licenseClasses } from '../db/schema';
+import { users, iracingAccounts, licenseClasses, ownedContent } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { encrypt, decrypt } from './crypto';
 import { LicenseHelper, LicenseLevel } from '../types/license';
@@ -198,6 +198,45 @@ export async function updateUserLicenses(userId: string, licenses: any[] | any):
   }
 }
 
+/**
+ * Collect content ids from iRacing package lists ([{ package_id, content_ids }])
+ */
+function extractPackageContentIds(packages: any): number[] {
+  if (!Array.isArray(packages)) {
+    return [];
+  }
+
+  const contentIds = new Set<number>();
+  packages.forEach(pkg => {
+    (Array.isArray(pkg?.content_ids) ? pkg.content_ids : []).forEach((id: unknown) => {
+      if (typeof id === 'number') {
+        contentIds.add(id);
+      }
+    });
+  });
+  return Array.from(contentIds);
+}
+
+/**
+ * Update the tracks and cars a user owns from /member/info package lists
+ */
+export async function updateOwnedContent(userId: string, memberInfo: any): Promise<void> {
+  if (!Array.isArray(memberInfo?.track_packages) && !Array.isArray(memberInfo?.car_packages)) {
+    console.warn('updateOwnedContent called without track_packages or car_packages');
+    return;
+  }
+
+  const trackIds = extractPackageContentIds(memberInfo.track_packages);
+  const carIds = extractPackageContentIds(memberInfo.car_packages);
+
+  await db.insert(ownedContent)
+    .values({ userId, trackIds, carIds, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: ownedContent.userId,
+      set: { trackIds, carIds, updatedAt: new Date() },
+    });
+}
+
 /**
  * Get numeric value for license level comparison using centralized helper
  */
@@ -1,6 +1,7 @@
 import { getValidAccessToken } from './refresh';
-import { updateUserLicenses } from './db';
+import { updateOwnedContent, updateUserLicenses } from './db';
 import { makeAuthenticatedRequest } from '../iracing/client';
+import { snapshotLicenseRatings } from '../iracing/rating-history';
 
 /**
  * Fetch fresh user profile data from iRacing API using the same authenticated request pattern
@@ -72,6 +73,15 @@ export async function fetchFreshUserProfile(userId: string): Promise<any> {
         console.log(`Updated ${licensesArray.length} licenses for user`);
       }
     }
+
+    // Store owned tracks and cars so recommendations can flag races that need purchases
+    if (profileData.track_packages || profileData.car_packages) {
+      try {
+        await updateOwnedContent(userId, profileData);
+      } catch (error) {
+        console.warn('Could not update owned content:', error);
+      }
+    }
     
     return profileData;
   } catch (error) {
@@ -81,7 +91,7 @@ export async function fetchFreshUserProfile(userId: string): Promise<any> {
 }
 
 /**
- * Sync user license levels from iRacing
+ * Sync user license levels from iRacing, recording them in the rating history
  */
 export async function syncUserLicenses(userId: string): Promise<void> {
   try {
@@ -89,6 +99,12 @@ export async function syncUserLicenses(userId: string): Promise<void> {
     
     if (profileData.licenses) {
       await updateUserLicenses(userId, profileData.licenses);
+
+      try {
+        await snapshotLicenseRatings(userId);
+      } catch (error) {
+        console.warn('Could not record rating history snapshot:', error);
+      }
     }
   } catch (error) {
     console.error('Failed to sync user licenses:', error);
@@ -15,6 +15,7 @@ export {
 export {
   upsertUser,
   updateUserLicenses,
+  updateOwnedContent,
   storeUserTokens,
   getUserTokens,
   getUserProfile,
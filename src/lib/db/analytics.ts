@@ -1,8 +1,13 @@
-import { eq, and, gte, lte, avg, count, sum, desc, asc, sql, inArray } from 'drizzle-orm';
+import { eq, and, gte, lte, avg, count, sum, desc, asc, sql, inArray, isNotNull } from 'drizzle-orm';
 import { db } from './index';
-import { raceResults, scheduleEntries } from './schema';
+import { raceResults, scheduleEntries, timeSlotStats } from './schema';
 import type { GroupingType, PerformanceMetric } from '@/types';
 import { SessionType } from '../types/session';
+import { Category, CategoryHelper } from '../types/category';
+
+// Average delta within the car class, using the overall delta for results synced
+// before class positions were stored (they match in single-class races)
+const classAwarePositionDelta = sql<string | null>`AVG(COALESCE(${raceResults.classPositionDelta}, ${raceResults.positionDelta}))`;
 
 /**
  * Calculate performance metrics grouped by series, track, or series+track combinations
@@ -66,6 +71,7 @@ export async function getPerformanceMetrics(
           avgStartingPosition: avg(raceResults.startingPosition),
           avgFinishingPosition: avg(raceResults.finishingPosition),
           positionDelta: avg(raceResults.positionDelta),
+          classPositionDelta: classAwarePositionDelta,
           avgIncidents: avg(raceResults.incidents),
           raceCount: count(),
           consistency: sql<number>`COALESCE(STDDEV(${raceResults.finishingPosition}), 0)`,
@@ -84,6 +90,7 @@ export async function getPerformanceMetrics(
           avgStartingPosition: avg(raceResults.startingPosition),
           avgFinishingPosition: avg(raceResults.finishingPosition),
           positionDelta: avg(raceResults.positionDelta),
+          classPositionDelta: classAwarePositionDelta,
           avgIncidents: avg(raceResults.incidents),
           raceCount: count(),
           consistency: sql<number>`COALESCE(STDDEV(${raceResults.finishingPosition}), 0)`,
@@ -102,6 +109,7 @@ export async function getPerformanceMetrics(
           avgStartingPosition: avg(raceResults.startingPosition),
           avgFinishingPosition: avg(raceResults.finishingPosition),
           positionDelta: avg(raceResults.positionDelta),
+          classPositionDelta: classAwarePositionDelta,
           avgIncidents: avg(raceResults.incidents),
           raceCount: count(),
           consistency: sql<number>`COALESCE(STDDEV(${raceResults.finishingPosition}), 0)`,
@@ -128,6 +136,7 @@ export async function getPerformanceMetrics(
     avgStartingPosition: parseFloat(row.avgStartingPosition || '0'),
     avgFinishingPosition: parseFloat(row.avgFinishingPosition || '0'),
     positionDelta: parseFloat(row.positionDelta || '0'),
+    classPositionDelta: parseFloat(row.classPositionDelta || '0'),
     avgIncidents: parseFloat(row.avgIncidents || '0'),
     raceCount: row.raceCount,
     consistency: row.consistency || 0,
@@ -197,6 +206,97 @@ export async function getUserSeasons(userId: string) {
     .orderBy(desc(raceResults.seasonYear), desc(raceResults.seasonQuarter));
 }
 
+/**
+ * Race weeks a user has raced in each series during a season (official race
+ * sessions only, as flagged by official_session in the raw result), for counting
+ * toward the season participation credit
+ */
+export async function getSeasonRaceWeeks(userId: string, seasonYear: number, seasonQuarter: number) {
+  const rows = await db
+    .selectDistinct({
+      seriesId: raceResults.seriesId,
+      raceWeekNum: raceResults.raceWeekNum,
+    })
+    .from(raceResults)
+    .where(
+      and(
+        eq(raceResults.userId, userId),
+        eq(raceResults.seasonYear, seasonYear),
+        eq(raceResults.seasonQuarter, seasonQuarter),
+        eq(raceResults.sessionType, SessionType.RACE),
+        sql`(${raceResults.rawData}->>'official_session')::boolean IS TRUE`,
+        isNotNull(raceResults.raceWeekNum)
+      )
+    );
+
+  const weeksBySeries = new Map<number, number[]>();
+  for (const row of rows) {
+    weeksBySeries.set(row.seriesId, [...(weeksBySeries.get(row.seriesId) || []), row.raceWeekNum!]);
+  }
+  return weeksBySeries;
+}
+
+/**
+ * License category and rating changes iRacing reports with a race result (raw_data):
+ * the old and new iRating and the old and new sub levels (Safety Rating x 100). A
+ * change is null when the result does not report both values.
+ */
+export function readResultRatingChanges(rawData: unknown): {
+  category: Category | null;
+  iRatingChange: number | null;
+  safetyRatingChange: number | null;
+} {
+  const raw = (rawData || {}) as Record<string, unknown>;
+  const category = typeof raw.license_category === 'string' && CategoryHelper.isValid(raw.license_category)
+    ? raw.license_category as Category
+    : null;
+
+  const oldIRating = Number(raw.oldi_rating);
+  const newIRating = Number(raw.newi_rating);
+  const oldSubLevel = raw.old_sub_level;
+  const newSubLevel = raw.new_sub_level;
+
+  return {
+    category,
+    iRatingChange: oldIRating > 0 && newIRating > 0 ? newIRating - oldIRating : null,
+    safetyRatingChange: typeof oldSubLevel === 'number' && typeof newSubLevel === 'number'
+      ? (newSubLevel - oldSubLevel) / 100
+      : null,
+  };
+}
+
+/**
+ * Safety Rating change of the user's most recent race sessions, newest first, read
+ * with readResultRatingChanges; results without a category and change are skipped.
+ */
+export async function getSafetyRatingChanges(userId: string, limit: number = 100) {
+  const rows = await db
+    .select({
+      raceDate: raceResults.raceDate,
+      seasonYear: raceResults.seasonYear,
+      seasonQuarter: raceResults.seasonQuarter,
+      rawData: raceResults.rawData,
+    })
+    .from(raceResults)
+    .where(and(eq(raceResults.userId, userId), eq(raceResults.sessionType, SessionType.RACE)))
+    .orderBy(desc(raceResults.raceDate))
+    .limit(limit);
+
+  return rows.flatMap(row => {
+    const { category, safetyRatingChange } = readResultRatingChanges(row.rawData);
+    if (category === null || safetyRatingChange === null) {
+      return [];
+    }
+    return [{
+      category,
+      raceDate: row.raceDate,
+      seasonYear: row.seasonYear,
+      seasonQuarter: row.seasonQuarter,
+      change: safetyRatingChange,
+    }];
+  });
+}
+
 /**
  * Get current racing opportunities from schedule
  */
@@ -265,6 +365,227 @@ export async function getSeriesTrackPerformance(
   return results[0];
 }
 
+/**
+ * Count a user's results per car, grouped by series and track.
+ * Results synced before cars were captured (car_id NULL) are not counted.
+ */
+export async function getCarExperience(userId: string) {
+  const rows = await db
+    .select({
+      seriesId: raceResults.seriesId,
+      trackId: raceResults.trackId,
+      carId: raceResults.carId,
+      carClassId: raceResults.carClassId,
+      raceCount: count(),
+    })
+    .from(raceResults)
+    .where(and(eq(raceResults.userId, userId), isNotNull(raceResults.carId)))
+    .groupBy(raceResults.seriesId, raceResults.trackId, raceResults.carId, raceResults.carClassId);
+
+  return rows.map(row => ({
+    seriesId: row.seriesId,
+    trackId: row.trackId,
+    carId: row.carId!,
+    carClassId: row.carClassId,
+    raceCount: row.raceCount,
+  }));
+}
+
+/**
+ * A user's individual results with valid positions (the rows getPerformanceMetrics
+ * averages), oldest first, for aggregates that weight races by recency
+ */
+export async function getRaceOutcomes(userId: string) {
+  const rows = await db
+    .select({
+      seriesId: raceResults.seriesId,
+      trackId: raceResults.trackId,
+      raceDate: raceResults.raceDate,
+      startingPosition: raceResults.startingPosition,
+      finishingPosition: raceResults.finishingPosition,
+      positionDelta: raceResults.positionDelta,
+      classPositionDelta: raceResults.classPositionDelta,
+      incidents: raceResults.incidents,
+      pacePercentile: raceResults.pacePercentile,
+    })
+    .from(raceResults)
+    .where(and(
+      eq(raceResults.userId, userId),
+      sql`${raceResults.startingPosition} > 0 AND ${raceResults.finishingPosition} > 0`
+    ))
+    .orderBy(asc(raceResults.raceDate));
+
+  return rows.map(row => ({
+    ...row,
+    startingPosition: row.startingPosition!,
+    finishingPosition: row.finishingPosition!,
+    positionDelta: row.positionDelta ?? row.startingPosition! - row.finishingPosition!,
+    pacePercentile: row.pacePercentile === null ? null : parseFloat(row.pacePercentile),
+  }));
+}
+
+/**
+ * A user's race sessions with their grid slot, finish and qualifying, in class positions
+ * where known, for the qualifying analysis (see recommendations/qualifying-analysis.ts)
+ */
+export async function getQualifyingRaces(userId: string) {
+  const rows = await db
+    .select({
+      seriesId: raceResults.seriesId,
+      startingPosition: raceResults.startingPosition,
+      finishingPosition: raceResults.finishingPosition,
+      startingPositionInClass: raceResults.startingPositionInClass,
+      finishingPositionInClass: raceResults.finishingPositionInClass,
+      fieldSize: raceResults.fieldSize,
+      classFieldSize: raceResults.classFieldSize,
+      incidents: raceResults.incidents,
+      qualLapTime: raceResults.qualLapTime,
+      poleLapTime: raceResults.poleLapTime,
+      qualifyingPercentile: raceResults.qualifyingPercentile,
+    })
+    .from(raceResults)
+    .where(and(
+      eq(raceResults.userId, userId),
+      eq(raceResults.sessionType, SessionType.RACE)
+    ));
+
+  return rows.map(row => {
+    const inClass = row.classFieldSize !== null && row.startingPositionInClass !== null && row.finishingPositionInClass !== null;
+    return {
+      seriesId: row.seriesId,
+      startingPosition: inClass ? row.startingPositionInClass : row.startingPosition,
+      finishingPosition: inClass ? row.finishingPositionInClass : row.finishingPosition,
+      fieldSize: inClass ? row.classFieldSize : row.fieldSize,
+      incidents: row.incidents,
+      qualLapTime: row.qualLapTime,
+      poleLapTime: row.poleLapTime,
+      qualifyingPercentile: row.qualifyingPercentile === null ? null : parseFloat(row.qualifyingPercentile),
+    };
+  });
+}
+
+/**
+ * Average a user's race incidents per set of conditions (time of day, dynamic
+ * weather, rain). Results without captured conditions are not counted.
+ */
+export async function getConditionsIncidentStats(userId: string) {
+  const rows = await db
+    .select({
+      timeOfDay: raceResults.timeOfDay,
+      dynamicWeather: raceResults.dynamicWeather,
+      rain: raceResults.rain,
+      avgIncidents: avg(raceResults.incidents),
+      raceCount: count(),
+    })
+    .from(raceResults)
+    .where(
+      and(
+        eq(raceResults.userId, userId),
+        eq(raceResults.sessionType, SessionType.RACE),
+        isNotNull(raceResults.dynamicWeather)
+      )
+    )
+    .groupBy(raceResults.timeOfDay, raceResults.dynamicWeather, raceResults.rain);
+
+  return rows.map(row => ({
+    timeOfDay: row.timeOfDay,
+    dynamicWeather: row.dynamicWeather ?? false,
+    rain: row.rain ?? false,
+    avgIncidents: parseFloat(row.avgIncidents || '0'),
+    raceCount: row.raceCount,
+  }));
+}
+
+// Races further back than this no longer reflect a slot's turnout
+const TIME_SLOT_STATS_WINDOW_DAYS = 180;
+
+/**
+ * Recompute the time slot aggregates (SOF and field size per weekday and UTC hour)
+ * for the given series/track pairs from stored race results. Each subsession is
+ * counted once, however many users raced in it.
+ */
+export async function refreshTimeSlotStats(pairs: Array<{ seriesId: number; trackId: number }>): Promise<void> {
+  const uniquePairs = [...new Map(pairs.map(pair => [`${pair.seriesId}:${pair.trackId}`, pair])).values()];
+  if (uniquePairs.length === 0) {
+    return;
+  }
+
+  // ISO strings so both statements compare the same UTC timestamp
+  const refreshedAt = new Date().toISOString();
+  const windowStart = new Date(Date.now() - TIME_SLOT_STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const pairList = sql.join(uniquePairs.map(pair => sql`(${pair.seriesId}, ${pair.trackId})`), sql`, `);
+
+  await db.execute(sql`
+    INSERT INTO time_slot_stats (
+      series_id, track_id, day_of_week, hour, race_count,
+      avg_strength_of_field, strength_of_field_std_dev, avg_field_size, field_size_std_dev, updated_at
+    )
+    SELECT
+      series_id,
+      track_id,
+      EXTRACT(DOW FROM race_date)::INTEGER,
+      EXTRACT(HOUR FROM race_date)::INTEGER,
+      COUNT(*),
+      ROUND(AVG(strength_of_field)),
+      ROUND(STDDEV_SAMP(strength_of_field)),
+      AVG(field_size),
+      STDDEV_SAMP(field_size),
+      ${refreshedAt}::TIMESTAMP
+    FROM (
+      SELECT DISTINCT ON (subsession_id)
+        subsession_id, series_id, track_id, race_date,
+        NULLIF(strength_of_field, 0) AS strength_of_field,
+        field_size
+      FROM race_results
+      WHERE session_type = ${SessionType.RACE}
+        AND race_date >= ${windowStart}::TIMESTAMP
+        AND (series_id, track_id) IN (${pairList})
+      ORDER BY subsession_id
+    ) races
+    GROUP BY series_id, track_id, EXTRACT(DOW FROM race_date), EXTRACT(HOUR FROM race_date)
+    ON CONFLICT (series_id, track_id, day_of_week, hour) DO UPDATE SET
+      race_count = EXCLUDED.race_count,
+      avg_strength_of_field = EXCLUDED.avg_strength_of_field,
+      strength_of_field_std_dev = EXCLUDED.strength_of_field_std_dev,
+      avg_field_size = EXCLUDED.avg_field_size,
+      field_size_std_dev = EXCLUDED.field_size_std_dev,
+      updated_at = EXCLUDED.updated_at
+  `);
+
+  // Slots whose races have all aged out of the window
+  await db.execute(sql`
+    DELETE FROM time_slot_stats
+    WHERE (series_id, track_id) IN (${pairList})
+      AND updated_at < ${refreshedAt}::TIMESTAMP
+  `);
+}
+
+/**
+ * Get the time slot aggregates for a set of series, across all of their tracks
+ */
+export async function getTimeSlotStats(seriesIds: number[]) {
+  if (seriesIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select()
+    .from(timeSlotStats)
+    .where(inArray(timeSlotStats.seriesId, [...new Set(seriesIds)]));
+
+  return rows.map(row => ({
+    seriesId: row.seriesId,
+    trackId: row.trackId,
+    dayOfWeek: row.dayOfWeek,
+    hour: row.hour,
+    raceCount: row.raceCount,
+    avgStrengthOfField: row.avgStrengthOfField,
+    strengthOfFieldStdDev: row.strengthOfFieldStdDev,
+    avgFieldSize: row.avgFieldSize === null ? null : parseFloat(row.avgFieldSize),
+    fieldSizeStdDev: row.fieldSizeStdDev === null ? null : parseFloat(row.fieldSizeStdDev),
+  }));
+}
+
 /**
  * Calculate position delta for a single race result
  * Returns positive for improvement, negative for decline
@@ -375,7 +696,110 @@ export async function getSessionTypeComparison(
     .orderBy(asc(raceResults.sessionType));
 }
 
+// Driver results (not sessions) needed before collected public results replace our users' races
+const MIN_GLOBAL_RESULTS = 10;
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Aggregate collected public results for a series/track, either over every stored
+ * week or per race week. Driver-level figures (incidents, finish spread, attrition)
+ * count every driver; session-level ones (SOF, race length) count each subsession once.
+ */
+async function queryGlobalResultStats(seriesId: number, trackId: number, byWeek: boolean) {
+  const groupColumns = byWeek
+    ? sql.raw('season_year, season_quarter, race_week_num')
+    : sql.raw('series_id, track_id');
+
+  const result = await db.execute(sql`
+    SELECT *
+    FROM (
+      SELECT
+        ${groupColumns},
+        COUNT(*)::INTEGER AS result_count,
+        AVG(incidents) AS avg_incidents,
+        STDDEV_SAMP(finishing_position) AS finish_spread,
+        AVG(CASE WHEN reason_out IS NULL OR reason_out = 'Running' THEN 0 ELSE 1 END) AS attrition_rate
+      FROM global_race_results
+      WHERE series_id = ${seriesId} AND track_id = ${trackId}
+      GROUP BY ${groupColumns}
+    ) drivers
+    JOIN (
+      SELECT
+        ${groupColumns},
+        COUNT(*)::INTEGER AS session_count,
+        AVG(strength_of_field) AS avg_strength_of_field,
+        STDDEV_SAMP(strength_of_field) AS strength_of_field_std_dev,
+        AVG(race_length_minutes) AS avg_race_length
+      FROM (
+        SELECT DISTINCT ON (subsession_id)
+          subsession_id, series_id, track_id, season_year, season_quarter, race_week_num,
+          NULLIF(strength_of_field, 0) AS strength_of_field,
+          race_length_minutes
+        FROM global_race_results
+        WHERE series_id = ${seriesId} AND track_id = ${trackId}
+        ORDER BY subsession_id
+      ) sessions
+      GROUP BY ${groupColumns}
+    ) session_stats USING (${groupColumns})
+    ORDER BY ${groupColumns}
+  `);
+
+  return (result.rows ?? []).map((row: any) => ({
+    seasonYear: toNumberOrNull(row.season_year),
+    seasonQuarter: toNumberOrNull(row.season_quarter),
+    raceWeekNum: toNumberOrNull(row.race_week_num),
+    sessionCount: toNumberOrNull(row.session_count) ?? 0,
+    resultCount: toNumberOrNull(row.result_count) ?? 0,
+    avgIncidents: toNumberOrNull(row.avg_incidents),
+    finishPositionSpread: toNumberOrNull(row.finish_spread),
+    avgStrengthOfField: toNumberOrNull(row.avg_strength_of_field),
+    strengthOfFieldVariability: toNumberOrNull(row.strength_of_field_std_dev),
+    attritionRate: toNumberOrNull(row.attrition_rate),
+    avgRaceLength: toNumberOrNull(row.avg_race_length),
+  }));
+}
+
+/**
+ * Series-wide statistics for a series/track per race week, from collected public
+ * results. Attrition is the share of drivers not running at the finish (0-1).
+ */
+export async function getGlobalResultsWeekStats(seriesId: number, trackId: number) {
+  return queryGlobalResultStats(seriesId, trackId, true);
+}
+
+/**
+ * Series-wide statistics for a series/track. Prefers collected public results
+ * (every driver in sampled sessions); falls back to our own users' races from the
+ * last 3 months, which cannot tell SOF variability or race length.
+ */
 export async function getGlobalSeriesTrackStats(seriesId: number, trackId: number) {
+  // Collected results are optional - fall back to our users' races if they cannot be read
+  const globalStats = await queryGlobalResultStats(seriesId, trackId, false)
+    .then(rows => rows[0])
+    .catch(error => {
+      console.warn(`Failed to read collected results for series ${seriesId}, track ${trackId}:`, error);
+      return undefined;
+    });
+  if (globalStats && globalStats.resultCount >= MIN_GLOBAL_RESULTS) {
+    return {
+      totalRaces: globalStats.resultCount,
+      avgIncidents: globalStats.avgIncidents,
+      avgStrengthOfField: globalStats.avgStrengthOfField,
+      consistencyMetric: globalStats.finishPositionSpread,
+      attritionRate: globalStats.attritionRate,
+      strengthOfFieldVariability: globalStats.strengthOfFieldVariability,
+      avgRaceLength: globalStats.avgRaceLength,
+      source: 'global_results' as const,
+    };
+  }
+
   const results = await db
     .select({
       totalRaces: count(),
@@ -410,9 +834,17 @@ export async function getGlobalSeriesTrackStats(seriesId: number, trackId: numbe
       avgIncidents: null,
       avgStrengthOfField: null,
       consistencyMetric: null,
-      attritionRate: null
+      attritionRate: null,
+      strengthOfFieldVariability: null,
+      avgRaceLength: null,
+      source: 'race_results' as const,
     };
   }
   
-  return result;
-}
\ No newline at end of file
+  return {
+    ...result,
+    strengthOfFieldVariability: null,
+    avgRaceLength: null,
+    source: 'race_results' as const,
+  };
+}
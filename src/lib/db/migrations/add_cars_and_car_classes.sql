@@ -0,0 +1,43 @@
+-- Add car and car class lookups, and capture cars on race results and schedule entries
+-- cars / car_classes are synced from the /car/get and /carclass/get lookup endpoints
+
+CREATE TABLE IF NOT EXISTS cars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  car_id INTEGER NOT NULL UNIQUE,
+  car_name VARCHAR(255) NOT NULL,
+  car_name_abbreviated VARCHAR(50),
+  car_types JSONB,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS car_classes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  car_class_id INTEGER NOT NULL UNIQUE,
+  name VARCHAR(255) NOT NULL,
+  short_name VARCHAR(100),
+  relative_speed INTEGER,
+  car_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE race_results
+  ADD COLUMN IF NOT EXISTS car_id INTEGER,
+  ADD COLUMN IF NOT EXISTS car_class_id INTEGER,
+  ADD COLUMN IF NOT EXISTS car_class_name VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_race_results_user_car
+  ON race_results(user_id, car_id);
+
+ALTER TABLE schedule_entries
+  ADD COLUMN IF NOT EXISTS car_class_ids JSONB;
+
+-- Backfill cars on existing results from the stored API response
+UPDATE race_results
+SET
+  car_id = (raw_data->>'car_id')::INTEGER,
+  car_class_id = (raw_data->>'car_class_id')::INTEGER,
+  car_class_name = raw_data->>'car_class_name'
+WHERE car_id IS NULL
+  AND raw_data ? 'car_id';
+
+COMMENT ON COLUMN schedule_entries.car_class_ids IS 'Car classes allowed in the series (several for multiclass), filled on the next schedule sync';
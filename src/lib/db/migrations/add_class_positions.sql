@@ -0,0 +1,28 @@
+-- Track class-relative positions and field sizes so multi-class races are judged
+-- against the driver's own class instead of the overall field.
+
+ALTER TABLE race_results
+  ADD COLUMN IF NOT EXISTS starting_position_in_class INTEGER,
+  ADD COLUMN IF NOT EXISTS finishing_position_in_class INTEGER,
+  ADD COLUMN IF NOT EXISTS class_position_delta INTEGER
+    GENERATED ALWAYS AS (starting_position_in_class - finishing_position_in_class) STORED,
+  ADD COLUMN IF NOT EXISTS field_size INTEGER,
+  ADD COLUMN IF NOT EXISTS class_field_size INTEGER;
+
+-- Backfill from the stored API response. Class field sizes are only known from the
+-- response for single-class races (in-class positions match the overall ones).
+UPDATE race_results
+SET
+  starting_position_in_class = (raw_data->>'starting_position_in_class')::INTEGER,
+  finishing_position_in_class = (raw_data->>'finish_position_in_class')::INTEGER,
+  field_size = (raw_data->>'num_drivers')::INTEGER
+WHERE starting_position_in_class IS NULL
+  AND raw_data ? 'finish_position_in_class';
+
+UPDATE race_results
+SET class_field_size = field_size
+WHERE class_field_size IS NULL
+  AND starting_position_in_class = starting_position
+  AND finishing_position_in_class = finishing_position;
+
+COMMENT ON COLUMN race_results.class_field_size IS 'Drivers in the user''s car class; multi-class races are filled from the subsession results by the qualifying and lap data imports';
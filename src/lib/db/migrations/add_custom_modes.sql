@@ -0,0 +1,17 @@
+-- User-defined recommendation modes. weights holds one entry per scoring factor
+-- ({ "performance": 0.3, "safety": 0.1, ... }) summing to 1; primary_sort is the
+-- factor ranked on first, or 'overall' for the weighted score.
+
+CREATE TABLE IF NOT EXISTS custom_modes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  description VARCHAR(255),
+  weights JSONB NOT NULL,
+  primary_sort VARCHAR(30) NOT NULL DEFAULT 'overall',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_modes_user ON custom_modes(user_id);
@@ -0,0 +1,34 @@
+-- Race results of every driver in sampled official sessions of scheduled series,
+-- collected from public results (/results/get). Series-wide statistics are computed
+-- from these instead of only our own users' races.
+
+CREATE TABLE IF NOT EXISTS global_race_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subsession_id INTEGER NOT NULL,
+  series_id INTEGER NOT NULL,
+  track_id INTEGER NOT NULL,
+  season_year INTEGER NOT NULL,
+  season_quarter INTEGER NOT NULL,
+  race_week_num INTEGER NOT NULL,
+  start_time TIMESTAMP NOT NULL,
+  cust_id INTEGER,
+  car_class_id INTEGER,
+  starting_position INTEGER,
+  finishing_position INTEGER NOT NULL,
+  incidents INTEGER,
+  laps_complete INTEGER,
+  reason_out VARCHAR(50),
+  strength_of_field INTEGER,
+  field_size INTEGER,
+  race_length_minutes INTEGER,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(subsession_id, finishing_position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_global_race_results_series_track_week
+  ON global_race_results(series_id, track_id, season_year, season_quarter, race_week_num);
+
+CREATE INDEX IF NOT EXISTS idx_global_race_results_start_time
+  ON global_race_results(start_time);
+
+COMMENT ON COLUMN global_race_results.reason_out IS 'Running for drivers who finished; anything else counts toward attrition';
@@ -0,0 +1,24 @@
+-- Incidents of every driver in a user's races from /results/event_log, classified by
+-- race phase (start, mid, final laps) and type, for the incident timeline and the
+-- start risk adjustment in scoring.
+
+CREATE TABLE IF NOT EXISTS incident_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  subsession_id BIGINT NOT NULL,
+  event_seq INTEGER NOT NULL,
+  cust_id INTEGER,
+  lap_number INTEGER NOT NULL,
+  session_time INTEGER,
+  incident_points INTEGER NOT NULL,
+  incident_type VARCHAR(20) NOT NULL,
+  phase VARCHAR(10) NOT NULL,
+  description VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, subsession_id, event_seq)
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_events_user_subsession ON incident_events(user_id, subsession_id);
+
+ALTER TABLE race_results
+  ADD COLUMN IF NOT EXISTS event_log_imported_at TIMESTAMP;
@@ -0,0 +1,13 @@
+-- Store the tracks and cars each member owns so recommendations can flag races
+-- that need purchases. Filled from /member/info (track_packages / car_packages)
+-- whenever the member's profile is refreshed.
+
+CREATE TABLE IF NOT EXISTS owned_content (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  track_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  car_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+COMMENT ON TABLE owned_content IS 'Tracks and cars owned by each member; no row means ownership is unknown and nothing is flagged';
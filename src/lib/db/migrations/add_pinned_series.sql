@@ -0,0 +1,11 @@
+-- Series a user follows through the season. The season planner lists them first.
+
+CREATE TABLE IF NOT EXISTS pinned_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  series_id INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, series_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pinned_series_user ON pinned_series(user_id);
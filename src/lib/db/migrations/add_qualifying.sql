@@ -0,0 +1,17 @@
+-- Qualifying of a user's races from the subsession results: the driver's qualifying
+-- lap, the class pole and where the lap ranked among the class qualifiers.
+
+ALTER TABLE race_results
+  ADD COLUMN IF NOT EXISTS qual_lap_time INTEGER,
+  ADD COLUMN IF NOT EXISTS pole_lap_time INTEGER,
+  ADD COLUMN IF NOT EXISTS qualifying_percentile DECIMAL(5, 2),
+  ADD COLUMN IF NOT EXISTS qualifying_imported_at TIMESTAMP;
+
+COMMENT ON COLUMN race_results.qualifying_percentile IS 'Percent of the car class qualifiers whose qualifying lap was slower than the driver''s';
+
+-- The same subsession results give the class field size of multi-class races, so
+-- races already imported without one are imported again
+UPDATE race_results
+SET qualifying_imported_at = NULL
+WHERE class_field_size IS NULL
+  AND qualifying_imported_at IS NOT NULL;
@@ -0,0 +1,37 @@
+-- Persist weather and time of day on schedule weeks and race results so scoring can
+-- compare a driver's incident rate in similar conditions (night, dynamic weather, rain).
+
+ALTER TABLE schedule_entries
+  ADD COLUMN IF NOT EXISTS weather_type INTEGER,
+  ADD COLUMN IF NOT EXISTS dynamic_weather BOOLEAN,
+  ADD COLUMN IF NOT EXISTS rain BOOLEAN,
+  ADD COLUMN IF NOT EXISTS temperature_c INTEGER,
+  ADD COLUMN IF NOT EXISTS time_of_day VARCHAR(10),
+  ADD COLUMN IF NOT EXISTS track_state JSONB;
+
+ALTER TABLE race_results
+  ADD COLUMN IF NOT EXISTS weather_type INTEGER,
+  ADD COLUMN IF NOT EXISTS dynamic_weather BOOLEAN,
+  ADD COLUMN IF NOT EXISTS rain BOOLEAN,
+  ADD COLUMN IF NOT EXISTS temperature_c INTEGER,
+  ADD COLUMN IF NOT EXISTS time_of_day VARCHAR(10);
+
+-- Schedule conditions are filled on the next schedule sync. Once they are, this
+-- copies them onto results from the same series week (safe to re-run).
+UPDATE race_results r
+SET
+  weather_type = s.weather_type,
+  dynamic_weather = s.dynamic_weather,
+  rain = s.rain,
+  temperature_c = s.temperature_c,
+  time_of_day = s.time_of_day
+FROM schedule_entries s
+WHERE r.dynamic_weather IS NULL
+  AND s.dynamic_weather IS NOT NULL
+  AND s.series_id = r.series_id
+  AND s.track_id = r.track_id
+  AND s.season_year = r.season_year
+  AND s.season_quarter = r.season_quarter
+  AND s.race_week_num = r.race_week_num;
+
+COMMENT ON COLUMN race_results.time_of_day IS 'Simulated time of day at the start: day, dusk or night';
@@ -0,0 +1,26 @@
+-- Lap-by-lap data of a user's races from /results/lap_data, and the pace it gives
+-- each race compared with the rest of the car class field.
+
+CREATE TABLE IF NOT EXISTS race_laps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  subsession_id BIGINT NOT NULL,
+  lap_number INTEGER NOT NULL,
+  lap_time INTEGER,
+  incident BOOLEAN NOT NULL DEFAULT FALSE,
+  lap_events JSONB,
+  lap_position INTEGER,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, subsession_id, lap_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_race_laps_user_subsession ON race_laps(user_id, subsession_id);
+
+ALTER TABLE race_results
+  ADD COLUMN IF NOT EXISTS average_lap_time INTEGER,
+  ADD COLUMN IF NOT EXISTS best_lap_time INTEGER,
+  ADD COLUMN IF NOT EXISTS clean_average_lap_time INTEGER,
+  ADD COLUMN IF NOT EXISTS pace_percentile DECIMAL(5, 2),
+  ADD COLUMN IF NOT EXISTS laps_imported_at TIMESTAMP;
+
+COMMENT ON COLUMN race_results.pace_percentile IS 'Percent of the car class field whose average lap was slower than the driver''s average lap';
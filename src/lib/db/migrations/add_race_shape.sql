@@ -0,0 +1,7 @@
+-- Lap limit and corners per lap on schedule weeks, used to estimate the Safety Rating
+-- change of a race (corners completed vs expected incidents). Filled on the next
+-- schedule sync; corners per lap is only stored when the schedule's track carries it.
+
+ALTER TABLE schedule_entries
+  ADD COLUMN IF NOT EXISTS race_lap_limit INTEGER,
+  ADD COLUMN IF NOT EXISTS corners_per_lap INTEGER;
@@ -0,0 +1,24 @@
+-- Add race_sync_checkpoints table
+-- Tracks historical race backfill progress per (user, season year, quarter) so a sync can
+-- resume from the first incomplete season after a failure instead of skipping races
+
+CREATE TABLE IF NOT EXISTS race_sync_checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  season_year INTEGER NOT NULL,
+  season_quarter INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  races_found INTEGER NOT NULL DEFAULT 0,
+  races_inserted INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error VARCHAR(1000),
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(user_id, season_year, season_quarter)
+);
+
+CREATE INDEX IF NOT EXISTS idx_race_sync_checkpoints_user_status
+  ON race_sync_checkpoints(user_id, status);
+
+COMMENT ON COLUMN race_sync_checkpoints.status IS 'pending, in_progress, complete or failed; the current season stays in_progress until it ends';
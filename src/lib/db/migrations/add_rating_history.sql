@@ -0,0 +1,17 @@
+-- iRating and Safety Rating over time per license category, from /member/chart_data
+-- and from license snapshots taken on every profile refresh.
+
+CREATE TABLE IF NOT EXISTS rating_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  category VARCHAR(20) NOT NULL,
+  metric VARCHAR(20) NOT NULL,
+  value DECIMAL(7, 2) NOT NULL,
+  level VARCHAR(10),
+  recorded_at TIMESTAMP NOT NULL,
+  source VARCHAR(20) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, category, metric, recorded_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rating_history_user_category ON rating_history(user_id, category, recorded_at);
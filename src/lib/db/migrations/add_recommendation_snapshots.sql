@@ -0,0 +1,28 @@
+-- Recommendations served to each user, upserted every time the list is served so there
+-- is one row per mode, race week and series/track. matched_result_id is filled in when
+-- a later synced race in that series/track and week is found, for outcome tracking.
+
+CREATE TABLE IF NOT EXISTS recommendation_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  mode VARCHAR(50) NOT NULL,
+  season_year INTEGER NOT NULL,
+  season_quarter INTEGER NOT NULL,
+  race_week_num INTEGER NOT NULL,
+  series_id INTEGER NOT NULL,
+  track_id INTEGER NOT NULL,
+  rank INTEGER NOT NULL,
+  overall_score INTEGER NOT NULL,
+  factors JSONB NOT NULL,
+  irating_risk VARCHAR(10) NOT NULL,
+  safety_rating_risk VARCHAR(10) NOT NULL,
+  served_count INTEGER NOT NULL DEFAULT 1,
+  first_served_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_served_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  matched_result_id UUID REFERENCES race_results(id) ON DELETE SET NULL,
+  matched_at TIMESTAMP,
+  UNIQUE (user_id, mode, season_year, season_quarter, race_week_num, series_id, track_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recommendation_snapshots_user_week
+  ON recommendation_snapshots(user_id, season_year, season_quarter, race_week_num);
@@ -0,0 +1,20 @@
+-- Add season_calendars table
+-- Season boundaries and race week starts derived from the schedule's start_date fields,
+-- replacing the calendar-quarter approximation of iRacing seasons
+
+CREATE TABLE IF NOT EXISTS season_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_year INTEGER NOT NULL,
+  season_quarter INTEGER NOT NULL,
+  starts_at TIMESTAMP NOT NULL,
+  race_weeks INTEGER NOT NULL DEFAULT 12,
+  week_starts JSONB,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(season_year, season_quarter)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_calendars_starts_at
+  ON season_calendars(starts_at);
+
+COMMENT ON COLUMN season_calendars.starts_at IS 'Rollover starting race week 0 (Tuesday 00:00 UTC); the season runs until the next season starts';
@@ -0,0 +1,34 @@
+-- Add sync_jobs table
+-- Postgres-backed queue for race data and schedule syncs so they run in a worker
+-- instead of inside route handlers
+
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(30) NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  dedupe_key VARCHAR(100) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  payload JSONB,
+  progress JSONB,
+  result JSONB,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP,
+  locked_by VARCHAR(100),
+  last_error VARCHAR(1000),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_status_run_at ON sync_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_user ON sync_jobs(user_id, created_at);
+
+-- At most one queued/running job per dedupe key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_active_dedupe
+  ON sync_jobs(dedupe_key)
+  WHERE status IN ('queued', 'running');
+
+COMMENT ON COLUMN sync_jobs.status IS 'queued, running, succeeded or failed';
+COMMENT ON COLUMN sync_jobs.run_at IS 'Earliest time the job may run; pushed back with exponential backoff on retry';
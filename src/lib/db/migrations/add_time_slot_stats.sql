@@ -0,0 +1,50 @@
+-- SOF and field size aggregates per series, track, weekday and UTC hour. Time slot
+-- forecasts in the recommendations are built from these instead of random values.
+
+CREATE TABLE IF NOT EXISTS time_slot_stats (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id INTEGER NOT NULL,
+  track_id INTEGER NOT NULL,
+  day_of_week INTEGER NOT NULL,
+  hour INTEGER NOT NULL,
+  race_count INTEGER NOT NULL,
+  avg_strength_of_field INTEGER,
+  strength_of_field_std_dev INTEGER,
+  avg_field_size DECIMAL(6,2),
+  field_size_std_dev DECIMAL(6,2),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(series_id, track_id, day_of_week, hour)
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_slot_stats_series ON time_slot_stats(series_id);
+
+-- Initial fill from the last 180 days of races (later refreshed per series/track as
+-- races are synced). Each subsession is counted once across users.
+INSERT INTO time_slot_stats (
+  series_id, track_id, day_of_week, hour, race_count,
+  avg_strength_of_field, strength_of_field_std_dev, avg_field_size, field_size_std_dev
+)
+SELECT
+  series_id,
+  track_id,
+  EXTRACT(DOW FROM race_date)::INTEGER,
+  EXTRACT(HOUR FROM race_date)::INTEGER,
+  COUNT(*),
+  ROUND(AVG(strength_of_field)),
+  ROUND(STDDEV_SAMP(strength_of_field)),
+  AVG(field_size),
+  STDDEV_SAMP(field_size)
+FROM (
+  SELECT DISTINCT ON (subsession_id)
+    subsession_id, series_id, track_id, race_date,
+    NULLIF(strength_of_field, 0) AS strength_of_field,
+    field_size
+  FROM race_results
+  WHERE session_type = 'race'
+    AND race_date >= NOW() - INTERVAL '180 days'
+  ORDER BY subsession_id
+) races
+GROUP BY series_id, track_id, EXTRACT(DOW FROM race_date), EXTRACT(HOUR FROM race_date)
+ON CONFLICT (series_id, track_id, day_of_week, hour) DO NOTHING;
+
+COMMENT ON COLUMN time_slot_stats.hour IS 'UTC hour of the session start';
@@ -0,0 +1,18 @@
+-- Add the track lookup, synced from the /track/get lookup endpoint
+-- Configurations of one circuit share a package_id, which relates them for familiarity
+
+CREATE TABLE IF NOT EXISTS tracks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  track_id INTEGER NOT NULL UNIQUE,
+  track_name VARCHAR(255) NOT NULL,
+  config_name VARCHAR(255),
+  package_id INTEGER,
+  category VARCHAR(50),
+  length_miles DECIMAL(6, 3),
+  corners_per_lap INTEGER,
+  track_types JSONB,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracks_package_id
+  ON tracks(package_id);
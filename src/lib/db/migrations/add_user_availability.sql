@@ -0,0 +1,10 @@
+-- Weekly availability windows for session recommendations. Windows are local to the
+-- user's timezone: [{ "dayOfWeek": 5, "start": "19:00", "end": "22:00" }].
+
+CREATE TABLE IF NOT EXISTS user_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  windows JSONB NOT NULL DEFAULT '[]',
+  updated_at TIMESTAMP DEFAULT NOW()
+);
@@ -1,4 +1,4 @@
-import { pgTable, uuid, integer, varchar, timestamp, decimal, bigint, boolean, date, jsonb, index, unique } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, integer, varchar, timestamp, decimal, bigint, boolean, date, jsonb, index, unique, uniqueIndex } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { sql } from 'drizzle-orm';
 
@@ -40,6 +40,67 @@ export const licenseClasses = pgTable('license_classes', {
   userCategoryUnique: unique().on(table.userId, table.category),
 }));
 
+// iRating and Safety Rating over time, per license category. Imported from
+// /member/chart_data and snapshotted from licenseClasses on every profile refresh.
+export const ratingHistory = pgTable('rating_history', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  category: varchar('category', { length: 20 }).notNull(),
+  metric: varchar('metric', { length: 20 }).notNull(), // 'irating' | 'safety_rating'
+  value: decimal('value', { precision: 7, scale: 2 }).notNull(),
+  level: varchar('level', { length: 10 }), // License level, for safety_rating points
+  recordedAt: timestamp('recorded_at').notNull(),
+  source: varchar('source', { length: 20 }).notNull(), // 'chart_data' | 'profile'
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userCategoryIdx: index('idx_rating_history_user_category').on(table.userId, table.category, table.recordedAt),
+  userMetricPointUnique: unique().on(table.userId, table.category, table.metric, table.recordedAt),
+}));
+
+// Tracks and cars the member owns (from /member/info track_packages / car_packages)
+export const ownedContent = pgTable('owned_content', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull().unique(),
+  trackIds: jsonb('track_ids').notNull().default([]), // number[]
+  carIds: jsonb('car_ids').notNull().default([]), // number[]
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Weekly availability for session recommendations (windows are local to the timezone)
+export const userAvailability = pgTable('user_availability', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull().unique(),
+  timezone: varchar('timezone', { length: 64 }).notNull().default('UTC'), // IANA zone, e.g. 'Europe/Berlin'
+  windows: jsonb('windows').notNull().default([]), // [{ dayOfWeek, start: 'HH:MM', end: 'HH:MM' }]
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// User-defined recommendation modes with their own factor weights
+export const customModes = pgTable('custom_modes', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 50 }).notNull(),
+  description: varchar('description', { length: 255 }),
+  weights: jsonb('weights').notNull(), // ModeWeights, summing to 1
+  primarySort: varchar('primary_sort', { length: 30 }).notNull().default('overall'), // Scoring factor or 'overall'
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  userNameUnique: unique().on(table.userId, table.name),
+  userIdx: index('idx_custom_modes_user').on(table.userId),
+}));
+
+// Series a user follows through the season, shown first in the season planner
+export const pinnedSeries = pgTable('pinned_series', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  seriesId: integer('series_id').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userSeriesUnique: unique().on(table.userId, table.seriesId),
+  userIdx: index('idx_pinned_series_user').on(table.userId),
+}));
+
 // Race results with computed position delta
 export const raceResults = pgTable('race_results', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -66,6 +127,38 @@ export const raceResults = pgTable('race_results', {
   seasonQuarter: integer('season_quarter').notNull(), // iRacing season quarter (1, 2, 3, 4)
   raceWeekNum: integer('race_week_num'), // iRacing race week number (0-based)
   raceLength: integer('race_length'), // in minutes
+  carId: integer('car_id'), // Car driven (see cars)
+  carClassId: integer('car_class_id'), // Car class raced in (see car_classes)
+  carClassName: varchar('car_class_name', { length: 255 }),
+  // Positions within the car class; equal to the overall positions in single-class races
+  startingPositionInClass: integer('starting_position_in_class'),
+  finishingPositionInClass: integer('finishing_position_in_class'),
+  classPositionDelta: integer('class_position_delta').generatedAlwaysAs(
+    sql`starting_position_in_class - finishing_position_in_class`
+  ),
+  fieldSize: integer('field_size'), // Drivers in the race across all classes
+  classFieldSize: integer('class_field_size'), // Drivers in the user's class (null until known)
+  // Race conditions (see src/lib/iracing/weather.ts); copied from the schedule week when
+  // the result itself has no weather block
+  weatherType: integer('weather_type'),
+  dynamicWeather: boolean('dynamic_weather'),
+  rain: boolean('rain'),
+  temperatureC: integer('temperature_c'),
+  timeOfDay: varchar('time_of_day', { length: 10 }), // 'day', 'dusk', 'night'
+  // Pace from the lap data (see src/lib/iracing/lap-data.ts), null until it is imported.
+  // Lap times are in 10,000ths of a second
+  averageLapTime: integer('average_lap_time'),
+  bestLapTime: integer('best_lap_time'),
+  cleanAverageLapTime: integer('clean_average_lap_time'), // Laps without incidents, pit stops or invalidation
+  pacePercentile: decimal('pace_percentile', { precision: 5, scale: 2 }), // % of the class field with slower average laps
+  lapsImportedAt: timestamp('laps_imported_at'),
+  eventLogImportedAt: timestamp('event_log_imported_at'), // See incident_events
+  // Qualifying from the subsession results (see src/lib/iracing/qualifying.ts), null until
+  // imported or when the driver set no qualifying time. Lap times are in 10,000ths of a second
+  qualLapTime: integer('qual_lap_time'),
+  poleLapTime: integer('pole_lap_time'), // Fastest qualifying lap in the car class
+  qualifyingPercentile: decimal('qualifying_percentile', { precision: 5, scale: 2 }), // % of the class qualifiers slower
+  qualifyingImportedAt: timestamp('qualifying_imported_at'),
   // Full iRacing API response - contains additional fields like:
   // - official_session: boolean (authoritative source for official status)
   // - event_type: number, event_type_name: string
@@ -80,10 +173,100 @@ export const raceResults = pgTable('race_results', {
   seasonIdx: index('idx_race_results_season').on(table.seasonYear, table.seasonQuarter),
   userSeasonIdx: index('idx_race_results_user_season').on(table.userId, table.seasonYear, table.seasonQuarter),
   subsessionIdx: index('idx_race_results_subsession').on(table.subsessionId),
+  userCarIdx: index('idx_race_results_user_car').on(table.userId, table.carId),
   // Ensure no duplicate results for same user in same subsession
   userSubsessionUnique: unique().on(table.userId, table.subsessionId),
 }));
 
+// Lap-by-lap data of a user's races, from /results/lap_data
+export const raceLaps = pgTable('race_laps', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  subsessionId: bigint('subsession_id', { mode: 'number' }).notNull(),
+  lapNumber: integer('lap_number').notNull(), // 0 is the lap to the start line
+  lapTime: integer('lap_time'), // 10,000ths of a second; null when the lap has no time
+  incident: boolean('incident').notNull().default(false),
+  lapEvents: jsonb('lap_events'), // e.g. ['off track', 'pitted']
+  lapPosition: integer('lap_position'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userSubsessionIdx: index('idx_race_laps_user_subsession').on(table.userId, table.subsessionId),
+  lapUnique: unique().on(table.userId, table.subsessionId, table.lapNumber),
+}));
+
+// Incidents of every driver in a user's races, from /results/event_log, classified by
+// race phase and type (see src/lib/iracing/event-log.ts)
+export const incidentEvents = pgTable('incident_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  subsessionId: bigint('subsession_id', { mode: 'number' }).notNull(),
+  eventSeq: integer('event_seq').notNull(),
+  custId: integer('cust_id'), // Driver with the incident
+  lapNumber: integer('lap_number').notNull(),
+  sessionTime: integer('session_time'), // 10,000ths of a second
+  incidentPoints: integer('incident_points').notNull(),
+  incidentType: varchar('incident_type', { length: 20 }).notNull(), // 'car_contact', 'contact', 'lost_control', 'off_track', 'other'
+  phase: varchar('phase', { length: 10 }).notNull(), // 'start', 'mid', 'final'
+  description: varchar('description', { length: 255 }),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userSubsessionIdx: index('idx_incident_events_user_subsession').on(table.userId, table.subsessionId),
+  eventUnique: unique().on(table.userId, table.subsessionId, table.eventSeq),
+}));
+
+// Per-season race history sync checkpoints (one row per user per iRacing season)
+export const raceSyncCheckpoints = pgTable('race_sync_checkpoints', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  seasonYear: integer('season_year').notNull(), // iRacing season year
+  seasonQuarter: integer('season_quarter').notNull(), // iRacing season quarter (1-4)
+  // 'pending', 'in_progress', 'complete', 'failed'
+  // The current season stays 'in_progress' until it ends so it is re-fetched on every sync
+  status: varchar('status', { length: 20 }).notNull().default('pending'),
+  racesFound: integer('races_found').notNull().default(0),
+  racesInserted: integer('races_inserted').notNull().default(0),
+  attempts: integer('attempts').notNull().default(0),
+  lastError: varchar('last_error', { length: 1000 }),
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  userStatusIdx: index('idx_race_sync_checkpoints_user_status').on(table.userId, table.status),
+  // One checkpoint per user per season
+  userSeasonUnique: unique().on(table.userId, table.seasonYear, table.seasonQuarter),
+}));
+
+// Background sync jobs (Postgres-backed queue processed by the sync worker)
+export const syncJobs = pgTable('sync_jobs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  type: varchar('type', { length: 30 }).notNull(), // 'race_data', 'schedule', 'global_results', 'rating_history', 'lap_data', 'event_log', 'qualifying'
+  // User whose iRacing credentials the job runs with
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  // Jobs with the same key are deduplicated while queued or running (e.g. 'race_data:<userId>')
+  dedupeKey: varchar('dedupe_key', { length: 100 }).notNull(),
+  // 'queued', 'running', 'succeeded', 'failed'
+  status: varchar('status', { length: 20 }).notNull().default('queued'),
+  payload: jsonb('payload'),
+  progress: jsonb('progress'), // Latest progress snapshot reported by the job
+  result: jsonb('result'),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(3),
+  runAt: timestamp('run_at').notNull().defaultNow(), // Earliest time the job may run (retry backoff)
+  lockedAt: timestamp('locked_at'),
+  lockedBy: varchar('locked_by', { length: 100 }),
+  lastError: varchar('last_error', { length: 1000 }),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  completedAt: timestamp('completed_at'),
+}, (table) => ({
+  statusRunAtIdx: index('idx_sync_jobs_status_run_at').on(table.status, table.runAt),
+  userIdx: index('idx_sync_jobs_user').on(table.userId, table.createdAt),
+  // At most one active job per dedupe key
+  activeDedupeUnique: uniqueIndex('idx_sync_jobs_active_dedupe')
+    .on(table.dedupeKey)
+    .where(sql`status IN ('queued', 'running')`),
+}));
+
 // Current schedule cache
 export const scheduleEntries = pgTable('schedule_entries', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -94,6 +277,8 @@ export const scheduleEntries = pgTable('schedule_entries', {
   licenseRequired: varchar('license_required', { length: 10 }).notNull(),
   category: varchar('category', { length: 20 }).notNull(),
   raceLength: integer('race_length'),
+  raceLapLimit: integer('race_lap_limit'), // Laps, for lap-limited races
+  cornersPerLap: integer('corners_per_lap'), // When the schedule's track carries it
   hasOpenSetup: boolean('has_open_setup').default(false),
   seasonYear: integer('season_year').notNull(), // iRacing season year
   seasonQuarter: integer('season_quarter').notNull(), // iRacing season quarter
@@ -101,6 +286,14 @@ export const scheduleEntries = pgTable('schedule_entries', {
   weekStart: date('week_start').notNull(), // actual calendar start date
   weekEnd: date('week_end').notNull(), // actual calendar end date
   raceTimeDescriptors: jsonb('race_time_descriptors'), // Store race timing info from iRacing API
+  carClassIds: jsonb('car_class_ids'), // Car classes allowed in the series (number[], several for multiclass)
+  // Conditions for the week (see src/lib/iracing/weather.ts)
+  weatherType: integer('weather_type'),
+  dynamicWeather: boolean('dynamic_weather'),
+  rain: boolean('rain'),
+  temperatureC: integer('temperature_c'),
+  timeOfDay: varchar('time_of_day', { length: 10 }), // 'day', 'dusk', 'night'
+  trackState: jsonb('track_state'), // Raw track_state block (rubber, marbles)
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => ({
   // Indexes for performance
@@ -111,6 +304,133 @@ export const scheduleEntries = pgTable('schedule_entries', {
   seriesTrackWeekUnique: unique().on(table.seriesId, table.trackId, table.seasonYear, table.seasonQuarter, table.raceWeekNum),
 }));
 
+// iRacing car lookup (synced from /car/get)
+export const cars = pgTable('cars', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  carId: integer('car_id').unique().notNull(),
+  carName: varchar('car_name', { length: 255 }).notNull(),
+  carNameAbbreviated: varchar('car_name_abbreviated', { length: 50 }),
+  carTypes: jsonb('car_types'), // e.g. ['road', 'gt3']
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// iRacing car class lookup (synced from /carclass/get)
+export const carClasses = pgTable('car_classes', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  carClassId: integer('car_class_id').unique().notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  shortName: varchar('short_name', { length: 100 }),
+  relativeSpeed: integer('relative_speed'),
+  carIds: jsonb('car_ids').notNull().default([]), // Cars in the class (number[])
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// iRacing track lookup (synced from /track/get); every configuration of a circuit shares its package
+export const tracks = pgTable('tracks', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  trackId: integer('track_id').unique().notNull(),
+  trackName: varchar('track_name', { length: 255 }).notNull(),
+  configName: varchar('config_name', { length: 255 }),
+  packageId: integer('package_id'), // Track family: the circuit all configurations belong to
+  category: varchar('category', { length: 50 }), // 'road', 'oval', 'dirt_oval', 'dirt_road'
+  lengthMiles: decimal('length_miles', { precision: 6, scale: 3 }),
+  cornersPerLap: integer('corners_per_lap'),
+  trackTypes: jsonb('track_types'), // e.g. ['road']
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  packageIdx: index('idx_tracks_package_id').on(table.packageId),
+}));
+
+// iRacing season calendar, derived from schedule start dates when a season's schedule is synced
+export const seasonCalendars = pgTable('season_calendars', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  seasonYear: integer('season_year').notNull(), // iRacing season year
+  seasonQuarter: integer('season_quarter').notNull(), // iRacing season quarter (1-4)
+  startsAt: timestamp('starts_at').notNull(), // Rollover starting race week 0 (Tuesday 00:00 UTC)
+  raceWeeks: integer('race_weeks').notNull().default(12), // Scheduled race weeks, followed by week 13 until the next season
+  weekStarts: jsonb('week_starts'), // Start of each scheduled race week, indexed by race_week_num
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  startsAtIdx: index('idx_season_calendars_starts_at').on(table.startsAt),
+  seasonUnique: unique().on(table.seasonYear, table.seasonQuarter),
+}));
+
+// SOF and field size aggregates per series, track, weekday and UTC hour, refreshed from
+// race_results as races are synced and used to forecast upcoming time slots
+export const timeSlotStats = pgTable('time_slot_stats', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  seriesId: integer('series_id').notNull(),
+  trackId: integer('track_id').notNull(),
+  dayOfWeek: integer('day_of_week').notNull(), // 0-6 UTC, Sunday = 0
+  hour: integer('hour').notNull(), // 0-23 UTC
+  raceCount: integer('race_count').notNull(), // Distinct subsessions behind the averages
+  avgStrengthOfField: integer('avg_strength_of_field'),
+  strengthOfFieldStdDev: integer('strength_of_field_std_dev'), // null with a single race
+  avgFieldSize: decimal('avg_field_size', { precision: 6, scale: 2 }),
+  fieldSizeStdDev: decimal('field_size_std_dev', { precision: 6, scale: 2 }),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  seriesIdx: index('idx_time_slot_stats_series').on(table.seriesId),
+  slotUnique: unique().on(table.seriesId, table.trackId, table.dayOfWeek, table.hour),
+}));
+
+// Race results of every driver in a sample of each scheduled series' official sessions,
+// collected from public results for series-wide statistics (see src/lib/iracing/global-results.ts)
+export const globalRaceResults = pgTable('global_race_results', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  subsessionId: integer('subsession_id').notNull(),
+  seriesId: integer('series_id').notNull(),
+  trackId: integer('track_id').notNull(),
+  seasonYear: integer('season_year').notNull(),
+  seasonQuarter: integer('season_quarter').notNull(),
+  raceWeekNum: integer('race_week_num').notNull(),
+  startTime: timestamp('start_time').notNull(),
+  custId: integer('cust_id'), // null for team entries
+  carClassId: integer('car_class_id'),
+  startingPosition: integer('starting_position'),
+  finishingPosition: integer('finishing_position').notNull(),
+  incidents: integer('incidents'),
+  lapsComplete: integer('laps_complete'),
+  reasonOut: varchar('reason_out', { length: 50 }), // 'Running' for finishers, e.g. 'Disconnected' otherwise
+  // Per-session values, repeated on each driver's row
+  strengthOfField: integer('strength_of_field'),
+  fieldSize: integer('field_size'),
+  raceLengthMinutes: integer('race_length_minutes'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  seriesTrackWeekIdx: index('idx_global_race_results_series_track_week').on(table.seriesId, table.trackId, table.seasonYear, table.seasonQuarter, table.raceWeekNum),
+  startTimeIdx: index('idx_global_race_results_start_time').on(table.startTime),
+  entryUnique: unique().on(table.subsessionId, table.finishingPosition),
+}));
+
+// Recommendations served to a user, one row per mode, week and series/track, kept to
+// check later whether the user raced them and how it went
+export const recommendationSnapshots = pgTable('recommendation_snapshots', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  mode: varchar('mode', { length: 50 }).notNull(), // Built-in mode or custom:<id>
+  seasonYear: integer('season_year').notNull(),
+  seasonQuarter: integer('season_quarter').notNull(),
+  raceWeekNum: integer('race_week_num').notNull(),
+  seriesId: integer('series_id').notNull(),
+  trackId: integer('track_id').notNull(),
+  rank: integer('rank').notNull(), // 1-based position in the list when last served
+  overallScore: integer('overall_score').notNull(),
+  factors: jsonb('factors').notNull(), // ScoringFactors when last served
+  iratingRisk: varchar('irating_risk', { length: 10 }).notNull(),
+  safetyRatingRisk: varchar('safety_rating_risk', { length: 10 }).notNull(),
+  servedCount: integer('served_count').notNull().default(1),
+  firstServedAt: timestamp('first_served_at').defaultNow().notNull(),
+  lastServedAt: timestamp('last_served_at').defaultNow().notNull(),
+  // First race in this series/track and week after the recommendation was first served
+  matchedResultId: uuid('matched_result_id').references(() => raceResults.id, { onDelete: 'set null' }),
+  matchedAt: timestamp('matched_at'),
+}, (table) => ({
+  userWeekIdx: index('idx_recommendation_snapshots_user_week').on(table.userId, table.seasonYear, table.seasonQuarter, table.raceWeekNum),
+  snapshotUnique: unique().on(table.userId, table.mode, table.seasonYear, table.seasonQuarter, table.raceWeekNum, table.seriesId, table.trackId),
+}));
+
 // Define relationships
 export const usersRelations = relations(users, ({ one, many }) => ({
   iracingAccount: one(iracingAccounts, {
@@ -118,7 +438,23 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     references: [iracingAccounts.userId],
   }),
   licenseClasses: many(licenseClasses),
+  ratingHistory: many(ratingHistory),
+  ownedContent: one(ownedContent, {
+    fields: [users.id],
+    references: [ownedContent.userId],
+  }),
+  availability: one(userAvailability, {
+    fields: [users.id],
+    references: [userAvailability.userId],
+  }),
+  customModes: many(customModes),
+  pinnedSeries: many(pinnedSeries),
   raceResults: many(raceResults),
+  raceLaps: many(raceLaps),
+  incidentEvents: many(incidentEvents),
+  recommendationSnapshots: many(recommendationSnapshots),
+  raceSyncCheckpoints: many(raceSyncCheckpoints),
+  syncJobs: many(syncJobs),
 }));
 
 export const iracingAccountsRelations = relations(iracingAccounts, ({ one }) => ({
@@ -135,9 +471,83 @@ export const licenseClassesRelations = relations(licenseClasses, ({ one }) => ({
   }),
 }));
 
+export const ratingHistoryRelations = relations(ratingHistory, ({ one }) => ({
+  user: one(users, {
+    fields: [ratingHistory.userId],
+    references: [users.id],
+  }),
+}));
+
+export const ownedContentRelations = relations(ownedContent, ({ one }) => ({
+  user: one(users, {
+    fields: [ownedContent.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userAvailabilityRelations = relations(userAvailability, ({ one }) => ({
+  user: one(users, {
+    fields: [userAvailability.userId],
+    references: [users.id],
+  }),
+}));
+
+export const customModesRelations = relations(customModes, ({ one }) => ({
+  user: one(users, {
+    fields: [customModes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const pinnedSeriesRelations = relations(pinnedSeries, ({ one }) => ({
+  user: one(users, {
+    fields: [pinnedSeries.userId],
+    references: [users.id],
+  }),
+}));
+
 export const raceResultsRelations = relations(raceResults, ({ one }) => ({
   user: one(users, {
     fields: [raceResults.userId],
     references: [users.id],
   }),
-}));
\ No newline at end of file
+}));
+
+export const raceLapsRelations = relations(raceLaps, ({ one }) => ({
+  user: one(users, {
+    fields: [raceLaps.userId],
+    references: [users.id],
+  }),
+}));
+
+export const incidentEventsRelations = relations(incidentEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [incidentEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const recommendationSnapshotsRelations = relations(recommendationSnapshots, ({ one }) => ({
+  user: one(users, {
+    fields: [recommendationSnapshots.userId],
+    references: [users.id],
+  }),
+  matchedResult: one(raceResults, {
+    fields: [recommendationSnapshots.matchedResultId],
+    references: [raceResults.id],
+  }),
+}));
+
+export const raceSyncCheckpointsRelations = relations(raceSyncCheckpoints, ({ one }) => ({
+  user: one(users, {
+    fields: [raceSyncCheckpoints.userId],
+    references: [users.id],
+  }),
+}));
+
+export const syncJobsRelations = relations(syncJobs, ({ one }) => ({
+  user: one(users, {
+    fields: [syncJobs.userId],
+    references: [users.id],
+  }),
+}));
@@ -69,6 +69,7 @@ function createRecommendation(
     fatigueRisk: factors.fatigueRisk ?? 50,
     attritionRisk: factors.attritionRisk ?? 50,
     timeVolatility: factors.timeVolatility ?? 50,
+    conditions: factors.conditions ?? 50,
   };
 
   const overall = Math.round(
@@ -1 +1,8 @@
-export { useRecommendations } from './useRecommendations';
\ No newline at end of file
+export { useRecommendations } from './useRecommendations';
+export { useSyncProgress, getSyncPercent, type SyncCompleteEvent, type SyncJobState } from './useSyncProgress';
+export { useCustomModes } from './useCustomModes';
+export { useWeeklyPlan } from './useWeeklyPlan';
+export { useSeasonPlan } from './useSeasonPlan';
+export { usePromotionPlan } from './usePromotionPlan';
+export { useRatingHistory } from './useRatingHistory';
+export { useIncidentTimeline } from './useIncidentTimeline';
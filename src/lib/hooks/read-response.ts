@@ -0,0 +1,10 @@
+/**
+ * Read a JSON API response, throwing its message when the request failed
+ */
+export async function readResponse<T>(response: Response): Promise<T> {
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || result.success === false) {
+    throw new Error(result.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return result as T;
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CustomMode, CustomModeKey, ModePreview, ModeSortKey, ModeWeights, RecommendationMode } from '@/lib/recommendations/types';
+import type { CustomModeInput } from '@/lib/recommendations/mode-settings';
+import { readResponse } from './read-response';
+
+interface PreviewOptions {
+  baseline?: RecommendationMode | CustomModeKey;
+  category?: string;
+  maxResults?: number;
+}
+
+interface UseCustomModesReturn {
+  modes: CustomMode[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  saveMode: (mode: CustomModeInput, id?: string) => Promise<CustomMode>;
+  deleteMode: (id: string) => Promise<void>;
+  previewMode: (mode: { weights: ModeWeights; primarySort: ModeSortKey }, options?: PreviewOptions) => Promise<ModePreview>;
+}
+
+/**
+ * The user's custom recommendation modes, with saving, deleting and previewing
+ */
+export function useCustomModes(): UseCustomModesReturn {
+  const [modes, setModes] = useState<CustomMode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await readResponse<{ modes: CustomMode[] }>(await fetch('/api/modes'));
+      setModes(result.modes);
+    } catch (err) {
+      console.error('Error fetching custom modes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load custom modes');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const saveMode = useCallback(async (mode: CustomModeInput, id?: string) => {
+    const response = await fetch(id ? `/api/modes?id=${encodeURIComponent(id)}` : '/api/modes', {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(mode),
+    });
+    const result = await readResponse<{ mode: CustomMode }>(response);
+
+    setModes(current => id
+      ? current.map(existing => existing.id === id ? result.mode : existing)
+      : [...current, result.mode]
+    );
+    return result.mode;
+  }, []);
+
+  const deleteMode = useCallback(async (id: string) => {
+    await readResponse(await fetch(`/api/modes?id=${encodeURIComponent(id)}`, { method: 'DELETE' }));
+    setModes(current => current.filter(existing => existing.id !== id));
+  }, []);
+
+  const previewMode = useCallback(async (
+    mode: { weights: ModeWeights; primarySort: ModeSortKey },
+    options: PreviewOptions = {}
+  ) => {
+    const response = await fetch('/api/modes/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...mode, ...options }),
+    });
+    const result = await readResponse<{ preview: ModePreview }>(response);
+    return result.preview;
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { modes, loading, error, refetch, saveMode, deleteMode, previewMode };
+}
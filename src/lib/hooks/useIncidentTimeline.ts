@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { IncidentTimeline } from '@/lib/iracing/incident-timeline';
+
+interface UseIncidentTimelineOptions {
+  periodMonths?: number;
+  enabled?: boolean;
+}
+
+interface UseIncidentTimelineReturn {
+  timeline: IncidentTimeline | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Incidents by race phase and type from the analytics incidents mode
+ */
+export function useIncidentTimeline(options: UseIncidentTimelineOptions = {}): UseIncidentTimelineReturn {
+  const { periodMonths, enabled = true } = options;
+  const [timeline, setTimeline] = useState<IncidentTimeline | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!enabled) {
+      return;
+    }
+
+    const params = new URLSearchParams({ mode: 'incidents' });
+    if (periodMonths) params.set('periodMonths', String(periodMonths));
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/data/analytics?${params}`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || result.success === false) {
+        throw new Error(result.error || result.message || `HTTP ${response.status}: ${response.statusText}`);
+      }
+      setTimeline(result.data ?? null);
+    } catch (err) {
+      console.error('Error fetching incident timeline:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load incident timeline');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, periodMonths]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { timeline, loading, error, refetch };
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PromotionPlan } from '@/lib/recommendations/types';
+
+interface UsePromotionPlanOptions {
+  category?: string;
+  enabled?: boolean;
+}
+
+interface UsePromotionPlanReturn {
+  promotion: PromotionPlan | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * License promotion projections from /api/promotion
+ */
+export function usePromotionPlan(options: UsePromotionPlanOptions = {}): UsePromotionPlanReturn {
+  const { category, enabled = true } = options;
+  const [promotion, setPromotion] = useState<PromotionPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!enabled) {
+      return;
+    }
+
+    const params = new URLSearchParams();
+    if (category) params.set('category', category);
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/promotion?${params}`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || result.success === false) {
+        throw new Error(result.message || `HTTP ${response.status}: ${response.statusText}`);
+      }
+      setPromotion(result.promotion ?? null);
+    } catch (err) {
+      console.error('Error fetching promotion plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load promotion plan');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, category]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { promotion, loading, error, refetch };
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CategoryRatingHistory } from '@/lib/iracing/rating-history';
+
+interface UseRatingHistoryOptions {
+  periodMonths?: number;
+  enabled?: boolean;
+}
+
+interface UseRatingHistoryReturn {
+  histories: CategoryRatingHistory[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * iRating and Safety Rating history per category from the analytics ratings mode
+ */
+export function useRatingHistory(options: UseRatingHistoryOptions = {}): UseRatingHistoryReturn {
+  const { periodMonths, enabled = true } = options;
+  const [histories, setHistories] = useState<CategoryRatingHistory[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!enabled) {
+      return;
+    }
+
+    const params = new URLSearchParams({ mode: 'ratings' });
+    if (periodMonths) params.set('periodMonths', String(periodMonths));
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/data/analytics?${params}`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || result.success === false) {
+        throw new Error(result.error || result.message || `HTTP ${response.status}: ${response.statusText}`);
+      }
+      setHistories(Array.isArray(result.data) ? result.data : []);
+    } catch (err) {
+      console.error('Error fetching rating history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load rating history');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, periodMonths]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { histories, loading, error, refetch };
+}
@@ -1,15 +1,16 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { RecommendationMode, RecommendationResponse } from '@/lib/recommendations/types';
+import { RecommendationMode, RecommendationResponse, CustomModeKey } from '@/lib/recommendations/types';
 import { useFeatureFlags, getMockProfile } from '@/lib/feature-flags';
 
 interface UseRecommendationsOptions {
-  mode: RecommendationMode;
+  mode: RecommendationMode | CustomModeKey;
   category?: string;
   minScore?: number;
   maxResults?: number;
   includeAlmostEligible?: boolean;
+  ownedOnly?: boolean;
 }
 
 interface UseRecommendationsReturn {
@@ -113,7 +114,8 @@ export function useRecommendations(options: UseRecommendationsOptions): UseRecom
       const params = new URLSearchParams({
         mode: options.mode,
         maxResults: (options.maxResults || 20).toString(),
-        includeAlmostEligible: (options.includeAlmostEligible || false).toString()
+        includeAlmostEligible: (options.includeAlmostEligible || false).toString(),
+        ownedOnly: (options.ownedOnly || false).toString()
       });
       
       if (options.category) {
@@ -177,7 +179,7 @@ export function useRecommendations(options: UseRecommendationsOptions): UseRecom
       setLoading(false);
       setIsRetrying(false);
     }
-  }, [options.mode, options.category, options.minScore, options.maxResults, options.includeAlmostEligible, retryCount, mockProfile]);
+  }, [options.mode, options.category, options.minScore, options.maxResults, options.includeAlmostEligible, options.ownedOnly, retryCount, mockProfile]);
 
   const manualRefetch = useCallback(async () => {
     // If using mock data, just trigger re-render by toggling loading
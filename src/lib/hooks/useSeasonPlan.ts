@@ -0,0 +1,63 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CustomModeKey, RecommendationMode, SeasonPlan } from '@/lib/recommendations/types';
+import { readResponse } from './read-response';
+
+interface UseSeasonPlanOptions {
+  mode?: RecommendationMode | CustomModeKey;
+  category?: string;
+}
+
+interface UseSeasonPlanReturn {
+  season: SeasonPlan | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  togglePin: (seriesId: number, pinned: boolean) => Promise<void>;
+}
+
+/**
+ * The season outlook from /api/season, with pinning and unpinning of series
+ */
+export function useSeasonPlan(options: UseSeasonPlanOptions = {}): UseSeasonPlanReturn {
+  const { mode, category } = options;
+  const [season, setSeason] = useState<SeasonPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (mode) params.set('mode', mode);
+    if (category) params.set('category', category);
+
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await readResponse<{ season: SeasonPlan }>(await fetch(`/api/season?${params}`));
+      setSeason(result.season);
+    } catch (err) {
+      console.error('Error fetching season plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load season plan');
+    } finally {
+      setLoading(false);
+    }
+  }, [mode, category]);
+
+  const togglePin = useCallback(async (seriesId: number, pinned: boolean) => {
+    await readResponse(await fetch(
+      pinned ? '/api/season/pins' : `/api/season/pins?seriesId=${seriesId}`,
+      pinned
+        ? { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ seriesId }) }
+        : { method: 'DELETE' }
+    ));
+    // Pins change the order of the outlook
+    await refetch();
+  }, [refetch]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { season, loading, error, refetch, togglePin };
+}
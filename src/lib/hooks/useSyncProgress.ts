@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { SyncProgress } from '@/lib/iracing/sync';
+
+export interface SyncCompleteEvent {
+  success: boolean;
+  message: string;
+  progress?: SyncProgress;
+  syncStatus?: {
+    lastSyncAt: string | null;
+    totalRaces: number;
+    latestRaceDate: string | null;
+  };
+}
+
+export interface SyncJobState {
+  id: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: string;
+}
+
+interface UseSyncProgressOptions {
+  /** Start (or join) a sync as soon as the hook mounts */
+  autoStart?: boolean;
+  /** Sync even if the data was refreshed recently */
+  force?: boolean;
+  onComplete?: (result: SyncCompleteEvent) => void;
+}
+
+interface UseSyncProgressReturn {
+  progress: SyncProgress | null;
+  /** Background job running the sync (queued jobs wait for the worker; failed attempts are retried) */
+  job: SyncJobState | null;
+  /** Overall completion from 0 to 100, null until the sync reports progress */
+  percent: number | null;
+  syncing: boolean;
+  error: string | null;
+  result: SyncCompleteEvent | null;
+  startSync: (options?: { force?: boolean }) => Promise<SyncCompleteEvent | null>;
+}
+
+/**
+ * Estimate overall completion of a sync.
+ * Seasons are weighted equally; within the season being fetched, inserted batches count.
+ */
+export function getSyncPercent(progress: SyncProgress | null): number | null {
+  if (!progress) return null;
+  if (progress.isComplete) return 100;
+
+  const seasons = progress.seasons || [];
+  if (seasons.length === 0) {
+    return progress.totalRaces > 0
+      ? Math.round((progress.processedRaces / progress.totalRaces) * 100)
+      : 0;
+  }
+
+  let done = 0;
+  for (const season of seasons) {
+    if (season.skipped || season.status === 'complete' || season.status === 'failed') {
+      done += 1;
+    } else if (
+      progress.currentSeason &&
+      season.seasonYear === progress.currentSeason.year &&
+      season.seasonQuarter === progress.currentSeason.quarter
+    ) {
+      // Races of earlier seasons are already processed, so the remainder belongs to this one
+      const processedInSeason = season.racesFound - (progress.totalRaces - progress.processedRaces);
+      done += season.racesFound > 0 ? Math.max(0, processedInSeason) / season.racesFound : 0;
+    }
+  }
+
+  return Math.min(99, Math.round((done / seasons.length) * 100));
+}
+
+// Poll interval for the status endpoint when EventSource is unavailable
+const STATUS_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Follow race data sync progress over server-sent events (/api/data/sync/stream).
+ * Falls back to POST /api/data/sync and polling /api/data/sync/status where
+ * EventSource is unavailable.
+ */
+export function useSyncProgress(options: UseSyncProgressOptions = {}): UseSyncProgressReturn {
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const [job, setJob] = useState<SyncJobState | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SyncCompleteEvent | null>(null);
+
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const cancelledRef = useRef(false);
+  const onCompleteRef = useRef(options.onComplete);
+  onCompleteRef.current = options.onComplete;
+
+  const closeStream = useCallback(() => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+  }, []);
+
+  // Poll the status endpoint until a queued job finishes
+  const waitForJob = useCallback(async (jobId: string): Promise<SyncCompleteEvent> => {
+    while (!cancelledRef.current) {
+      await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+
+      const response = await fetch(`/api/data/sync/status?jobId=${encodeURIComponent(jobId)}`);
+      if (!response.ok) {
+        throw new Error('Failed to get sync status');
+      }
+
+      const status = await response.json();
+      setJob(status.job);
+      if (status.job?.progress) {
+        setProgress(status.job.progress);
+      }
+
+      if (status.job?.status === 'succeeded' || status.job?.status === 'failed') {
+        const succeeded = status.job.status === 'succeeded';
+        return {
+          success: succeeded,
+          message: succeeded ? 'Sync completed successfully' : status.job.lastError || 'Sync failed',
+          progress: status.job.progress ?? undefined,
+          syncStatus: status.syncStatus,
+        };
+      }
+    }
+
+    return { success: false, message: 'Sync cancelled' };
+  }, []);
+
+  const finish = useCallback((completeEvent: SyncCompleteEvent) => {
+    setResult(completeEvent);
+    if (completeEvent.progress) {
+      setProgress(completeEvent.progress);
+    }
+    if (!completeEvent.success) {
+      setError(completeEvent.message || 'Sync failed');
+    }
+    setSyncing(false);
+    onCompleteRef.current?.(completeEvent);
+  }, []);
+
+  const startSync = useCallback(
+    (startOptions: { force?: boolean } = {}): Promise<SyncCompleteEvent | null> => {
+      closeStream();
+      cancelledRef.current = false;
+      setSyncing(true);
+      setError(null);
+      setResult(null);
+      setProgress(null);
+      setJob(null);
+
+      const force = startOptions.force ?? options.force ?? false;
+
+      // Fallback for environments without EventSource
+      if (typeof EventSource === 'undefined') {
+        return fetch(`/api/data/sync${force ? '?force=true' : ''}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+        })
+          .then(async response => {
+            if (!response.ok) {
+              throw new Error('Failed to sync race data');
+            }
+            const queued = await response.json();
+            const completeEvent: SyncCompleteEvent =
+              queued.success && queued.jobId ? await waitForJob(queued.jobId) : queued;
+            finish(completeEvent);
+            return completeEvent;
+          })
+          .catch(err => {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+            setSyncing(false);
+            return null;
+          });
+      }
+
+      return new Promise(resolve => {
+        const eventSource = new EventSource(`/api/data/sync/stream${force ? '?force=true' : ''}`);
+        eventSourceRef.current = eventSource;
+
+        eventSource.addEventListener('job', event => {
+          setJob(JSON.parse((event as MessageEvent).data));
+        });
+
+        eventSource.addEventListener('progress', event => {
+          setProgress(JSON.parse((event as MessageEvent).data));
+        });
+
+        eventSource.addEventListener('complete', event => {
+          const completeEvent = JSON.parse((event as MessageEvent).data) as SyncCompleteEvent;
+          closeStream();
+          finish(completeEvent);
+          resolve(completeEvent);
+        });
+
+        // Named `error` events carry a payload; connection errors do not
+        eventSource.addEventListener('error', event => {
+          const data = (event as MessageEvent).data;
+          let message = 'Lost connection to sync progress stream';
+          if (data) {
+            try {
+              message = JSON.parse(data).message || message;
+            } catch {
+              // Use default error message if JSON parsing fails
+            }
+          }
+          closeStream();
+          setError(message);
+          setSyncing(false);
+          resolve(null);
+        });
+      });
+    },
+    [closeStream, finish, waitForJob, options.force]
+  );
+
+  // Read on mount only, so the sync starts once
+  const autoStartRef = useRef(options.autoStart);
+  const startSyncRef = useRef(startSync);
+  startSyncRef.current = startSync;
+
+  useEffect(() => {
+    if (autoStartRef.current) {
+      startSyncRef.current();
+    }
+    return () => {
+      cancelledRef.current = true;
+      closeStream();
+    };
+  }, [closeStream]);
+
+  return {
+    progress,
+    job,
+    percent: getSyncPercent(progress),
+    syncing,
+    error,
+    result,
+    startSync,
+  };
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CustomModeKey, RecommendationMode, WeeklyPlan } from '@/lib/recommendations/types';
+
+interface UseWeeklyPlanOptions {
+  mode?: RecommendationMode | CustomModeKey;
+  targetRaces?: number;
+  maxMinutesPerDay?: number;
+  maxPerSeries?: number;
+  enabled?: boolean;
+}
+
+interface UseWeeklyPlanReturn {
+  plan: WeeklyPlan | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * The user's plan for the coming week from /api/plan. Days follow the browser's
+ * timezone unless the user has stored availability.
+ */
+export function useWeeklyPlan(options: UseWeeklyPlanOptions = {}): UseWeeklyPlanReturn {
+  const { mode, targetRaces, maxMinutesPerDay, maxPerSeries, enabled = true } = options;
+  const [plan, setPlan] = useState<WeeklyPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!enabled) {
+      return;
+    }
+
+    const params = new URLSearchParams({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+    if (mode) params.set('mode', mode);
+    if (targetRaces) params.set('races', String(targetRaces));
+    if (maxMinutesPerDay) params.set('maxMinutesPerDay', String(maxMinutesPerDay));
+    if (maxPerSeries) params.set('maxPerSeries', String(maxPerSeries));
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/plan?${params}`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || result.success === false) {
+        throw new Error(result.message || `HTTP ${response.status}: ${response.statusText}`);
+      }
+      setPlan(result.plan ?? null);
+    } catch (err) {
+      console.error('Error fetching weekly plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load weekly plan');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, mode, targetRaces, maxMinutesPerDay, maxPerSeries]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { plan, loading, error, refetch };
+}
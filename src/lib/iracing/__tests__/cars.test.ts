@@ -0,0 +1,77 @@
+/**
+ * Tests for the car and car class lookups
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import carsFixture from '../../../../fixtures/iracing/car/get/default.json';
+import carClassesFixture from '../../../../fixtures/iracing/carclass/get/default.json';
+import { carLookupsNeedSync, saveCarLookups } from '../cars';
+import { db } from '../../db';
+
+jest.mock('../../db', () => ({
+  db: {
+    insert: jest.fn(),
+    select: jest.fn(),
+  },
+  cars: { carId: 'car_id' },
+  carClasses: { carClassId: 'car_class_id', updatedAt: 'updated_at' },
+}));
+
+const mockDb = db as any;
+
+describe('saveCarLookups', () => {
+  let inserted: any[][];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    inserted = [];
+    mockDb.insert.mockReturnValue({
+      values: (values: any[]) => {
+        inserted.push(values);
+        return { onConflictDoUpdate: () => Promise.resolve() };
+      },
+    });
+  });
+
+  test('maps lookup payloads to car and car class records', async () => {
+    const result = await saveCarLookups(carsFixture, carClassesFixture);
+
+    expect(result).toEqual({ carsSynced: 1, carClassesSynced: 2 });
+    expect(inserted[0][0]).toEqual({
+      carId: 86,
+      carName: 'Dirt Sprint Car - 410',
+      carNameAbbreviated: 'DSC410',
+      carTypes: ['dirt', 'dirtoval', 'sprint'],
+    });
+    expect(inserted[1].map(carClass => [carClass.carClassId, carClass.carIds])).toEqual([
+      [91, [86]],
+      [93, [86]],
+    ]);
+  });
+
+  test('skips rows without ids or names', async () => {
+    const result = await saveCarLookups([{ car_id: 1 }], [{ name: 'No id' }]);
+
+    expect(result).toEqual({ carsSynced: 0, carClassesSynced: 0 });
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe('carLookupsNeedSync', () => {
+  function lastUpdated(value: Date | null) {
+    mockDb.select.mockReturnValue({ from: () => Promise.resolve([{ lastUpdated: value }]) });
+  }
+
+  test('syncs when lookups are missing or older than a week', async () => {
+    const now = new Date('2025-06-12T12:00:00Z');
+
+    lastUpdated(null);
+    expect(await carLookupsNeedSync(now)).toBe(true);
+
+    lastUpdated(new Date('2025-06-04T12:00:00Z'));
+    expect(await carLookupsNeedSync(now)).toBe(true);
+
+    lastUpdated(new Date('2025-06-10T12:00:00Z'));
+    expect(await carLookupsNeedSync(now)).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for event log incident classification
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildIncidentRecords, classifyPhase, parseIncident } from '../event-log';
+import type { EventLogRow } from '../client';
+
+jest.mock('../../db', () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+  },
+  incidentEvents: {},
+  raceResults: {},
+}));
+
+jest.mock('../client', () => ({
+  fetchEventLog: jest.fn(),
+}));
+
+function event(eventSeq: number, lapNumber: number, description: string, custId: number = 123): EventLogRow {
+  return {
+    subsession_id: 1000,
+    simsession_number: 0,
+    session_time: 1234567.8,
+    event_seq: eventSeq,
+    event_code: 0,
+    group_id: custId,
+    cust_id: custId,
+    display_name: 'Test Driver',
+    lap_number: lapNumber,
+    description,
+    message: '',
+  };
+}
+
+describe('parseIncident', () => {
+  test('reads the type and stated points', () => {
+    expect(parseIncident({ description: '4x Car contact', message: '' })).toEqual({ type: 'car_contact', points: 4 });
+    expect(parseIncident({ description: '2x Lost control', message: '' })).toEqual({ type: 'lost_control', points: 2 });
+    expect(parseIncident({ description: '1x Off track', message: '' })).toEqual({ type: 'off_track', points: 1 });
+    expect(parseIncident({ description: '0x Contact', message: '' })).toEqual({ type: 'contact', points: 0 });
+  });
+
+  test('falls back to road points when none are stated, and skips other events', () => {
+    expect(parseIncident({ description: 'Car contact', message: '' })).toEqual({ type: 'car_contact', points: 4 });
+    expect(parseIncident({ description: '', message: 'Entered pit road' })).toBeNull();
+  });
+});
+
+describe('classifyPhase', () => {
+  test('splits a race into lap 1, the last fifth and the rest', () => {
+    expect(classifyPhase(0, 20)).toBe('start');
+    expect(classifyPhase(1, 20)).toBe('start');
+    expect(classifyPhase(2, 20)).toBe('mid');
+    expect(classifyPhase(16, 20)).toBe('mid');
+    expect(classifyPhase(17, 20)).toBe('final');
+    expect(classifyPhase(5, 5)).toBe('final');
+    expect(classifyPhase(4, 5)).toBe('mid');
+  });
+});
+
+describe('buildIncidentRecords', () => {
+  test('stores incidents of every driver and uses the last logged lap without a race length', () => {
+    const records = buildIncidentRecords('user-1', 1000, [
+      event(1, 1, '4x Car contact'),
+      event(2, 3, 'Entered pit road'),
+      event(3, 9, '1x Off track', 456),
+      event(4, 10, '2x Lost control'),
+    ]);
+
+    expect(records).toEqual([
+      expect.objectContaining({ eventSeq: 1, custId: 123, lapNumber: 1, incidentPoints: 4, incidentType: 'car_contact', phase: 'start', sessionTime: 1234568 }),
+      expect.objectContaining({ eventSeq: 3, custId: 456, incidentType: 'off_track', phase: 'final' }),
+      expect.objectContaining({ eventSeq: 4, incidentType: 'lost_control', phase: 'final' }),
+    ]);
+    expect(buildIncidentRecords('user-1', 1000, [event(3, 9, '1x Off track')], 20)[0].phase).toBe('mid');
+  });
+});
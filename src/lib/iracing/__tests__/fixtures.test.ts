@@ -0,0 +1,79 @@
+/**
+ * Tests for iRacing Data API fixture helpers
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  FIXTURE_BASE_URL_PLACEHOLDER,
+  chunkFixtureKeyFor,
+  defaultFixtureKeyFor,
+  fixtureKeyFor,
+  normalizeEndpoint,
+  resolveFixturePlaceholders,
+  rewriteChunkInfoForFixture,
+} from '../fixtures';
+
+describe('iRacing fixture helpers', () => {
+  test('normalizes endpoint paths', () => {
+    expect(normalizeEndpoint('/results/search_series')).toBe('results/search_series');
+    expect(normalizeEndpoint('/data/member/info/')).toBe('member/info');
+  });
+
+  test('maps requests to deterministic fixture keys regardless of parameter order', () => {
+    const a = fixtureKeyFor('/results/search_series', { season_year: 2025, cust_id: 123 });
+    const b = fixtureKeyFor(
+      '/results/search_series',
+      new URLSearchParams('season_year=2025&cust_id=123')
+    );
+
+    expect(a).toBe('results/search_series/cust_id=123&season_year=2025.json');
+    expect(b).toBe(a);
+  });
+
+  test('uses the default fixture when a request has no parameters', () => {
+    expect(fixtureKeyFor('/member/info')).toBe('member/info/default.json');
+    expect(defaultFixtureKeyFor('/member/info')).toBe('member/info/default.json');
+  });
+
+  test('maps chunk download URLs to chunk fixture files', () => {
+    expect(chunkFixtureKeyFor('https://example.com/a/b/chunk_0.json?sig=abc')).toBe(
+      'chunks/chunk_0.json'
+    );
+    expect(chunkFixtureKeyFor('chunk_1.json')).toBe('chunks/chunk_1.json');
+  });
+
+  test('rewrites chunk download URLs and resolves them back to the serving URL', () => {
+    const payload = {
+      type: 'search_series',
+      data: {
+        success: true,
+        chunk_info: {
+          base_download_url: 'https://scorpio.example.com/download/',
+          chunk_file_names: ['chunk_0.json'],
+        },
+      },
+    };
+
+    const { payload: rewritten, chunkBaseUrl } = rewriteChunkInfoForFixture(payload);
+
+    expect(chunkBaseUrl).toBe('https://scorpio.example.com/download/');
+    expect(rewritten.data.chunk_info.base_download_url).toBe(
+      `${FIXTURE_BASE_URL_PLACEHOLDER}/chunks/`
+    );
+    // Original payload is left untouched
+    expect(payload.data.chunk_info.base_download_url).toBe('https://scorpio.example.com/download/');
+
+    const served = JSON.parse(
+      resolveFixturePlaceholders(JSON.stringify(rewritten), 'http://127.0.0.1:4010/')
+    );
+    expect(served.data.chunk_info.base_download_url).toBe('http://127.0.0.1:4010/chunks/');
+  });
+
+  test('leaves payloads without chunk info unchanged', () => {
+    const payload = { cust_id: 123456, display_name: 'Fixture Driver' };
+    const result = rewriteChunkInfoForFixture(payload);
+
+    expect(result.chunkBaseUrl).toBeNull();
+    expect(result.payload).toBe(payload);
+  });
+});
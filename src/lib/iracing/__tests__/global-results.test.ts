@@ -0,0 +1,171 @@
+/**
+ * Tests for collecting public results for series-wide statistics
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import subsessionFixture from '../../../../fixtures/iracing/results/get/default.json';
+import { buildGlobalResultRecords, collectGlobalResults, sampleSessions } from '../global-results';
+import { fetchSeriesSessions, fetchSubsessionResults } from '../client';
+import { db } from '../../db';
+
+jest.mock('../../db', () => ({
+  db: {
+    select: jest.fn(),
+    selectDistinct: jest.fn(),
+    insert: jest.fn(),
+    delete: jest.fn(),
+  },
+  globalRaceResults: {},
+  scheduleEntries: {},
+}));
+
+jest.mock('../client', () => ({
+  fetchSeriesSessions: jest.fn(),
+  fetchSubsessionResults: jest.fn(),
+}));
+
+const mockDb = db as any;
+const mockFetchSessions = fetchSeriesSessions as jest.Mock;
+const mockFetchSubsession = fetchSubsessionResults as jest.Mock;
+
+const week = { seasonYear: 2025, seasonQuarter: 4, raceWeekNum: 0 };
+
+function session(subsessionId: number, startTime: string, trackId: number = 279) {
+  return { subsession_id: subsessionId, start_time: startTime, track: { track_id: trackId } };
+}
+
+describe('buildGlobalResultRecords', () => {
+  test('stores every driver in the race session', () => {
+    const records = buildGlobalResultRecords(subsessionFixture);
+
+    expect(records).toHaveLength(4);
+    expect(records[3]).toEqual({
+      subsessionId: 80000137,
+      seriesId: 570,
+      trackId: 279,
+      seasonYear: 2025,
+      seasonQuarter: 4,
+      raceWeekNum: 0,
+      startTime: new Date('2025-11-12T01:00:00Z'),
+      strengthOfField: 2066,
+      fieldSize: 4,
+      raceLengthMinutes: 8, // 30 laps of 15.7s
+      custId: 200003,
+      carClassId: 93,
+      startingPosition: 3,
+      finishingPosition: 3,
+      incidents: 8,
+      lapsComplete: 12,
+      reasonOut: 'Disconnected',
+    });
+  });
+
+  test('accepts wrapped payloads and skips payloads without a race session', () => {
+    expect(buildGlobalResultRecords({ results: subsessionFixture })).toHaveLength(4);
+    expect(buildGlobalResultRecords({ ...subsessionFixture, session_results: [] })).toEqual([]);
+    expect(buildGlobalResultRecords(null)).toEqual([]);
+  });
+});
+
+describe('sampleSessions', () => {
+  const sessions = Array.from({ length: 12 }, (_, i) => ({
+    subsessionId: 100 + i,
+    startTime: new Date(Date.UTC(2025, 10, 11 + Math.floor(i / 2), i % 2 === 0 ? 1 : 19)),
+  }));
+
+  test('spreads the sample across the week', () => {
+    const sample = sampleSessions([...sessions].reverse(), 4);
+
+    expect(sample.map(s => s.subsessionId)).toEqual([101, 104, 107, 110]);
+  });
+
+  test('keeps every session when there are few', () => {
+    expect(sampleSessions(sessions.slice(0, 3), 4)).toHaveLength(3);
+  });
+});
+
+describe('collectGlobalResults', () => {
+  let inserted: any[][];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    inserted = [];
+    mockDb.select.mockReturnValue({
+      from: () => ({
+        where: () => Promise.resolve([
+          { seriesId: 570, trackId: 279 },
+          { seriesId: 600, trackId: 50 },
+        ]),
+      }),
+    });
+    mockDb.selectDistinct.mockReturnValue({
+      from: () => ({ where: () => Promise.resolve([{ subsessionId: 80000137 }]) }),
+    });
+    mockDb.insert.mockReturnValue({
+      values: (values: any[]) => {
+        inserted.push(values);
+        return { onConflictDoNothing: () => Promise.resolve() };
+      },
+    });
+    mockDb.delete.mockReturnValue({ where: () => Promise.resolve({ rowCount: 7 }) });
+    mockFetchSubsession.mockImplementation(async (_userId: string, subsessionId: number) => ({
+      ...subsessionFixture,
+      subsession_id: subsessionId,
+    }));
+  });
+
+  test('samples sessions at the scheduled track and skips collected ones', async () => {
+    mockFetchSessions.mockImplementation(async (_userId: string, seriesId: number) =>
+      seriesId === 570
+        ? [
+          session(80000137, '2025-11-12T01:00:00Z'),
+          session(80000138, '2025-11-13T01:00:00Z'),
+          session(80000139, '2025-11-14T01:00:00Z', 18), // Another track
+        ]
+        : []
+    );
+    const progress: number[] = [];
+
+    const result = await collectGlobalResults('service-user', week, {
+      requestIntervalMs: 0,
+      onProgress: p => {
+        progress.push(p.seriesChecked);
+      },
+    });
+
+    expect(mockFetchSessions).toHaveBeenCalledWith('service-user', 570, 2025, 4, 0);
+    expect(mockFetchSubsession).toHaveBeenCalledTimes(1);
+    expect(mockFetchSubsession).toHaveBeenCalledWith('service-user', 80000138);
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0].every(record => record.subsessionId === 80000138)).toBe(true);
+    expect(progress).toEqual([1, 2]);
+    expect(result).toMatchObject({
+      seriesTotal: 2,
+      seriesChecked: 2,
+      sessionsCollected: 1,
+      resultsStored: 4,
+      errors: [],
+      complete: true,
+      resultsPruned: 7,
+    });
+  });
+
+  test('does not fetch series with enough collected sessions', async () => {
+    const result = await collectGlobalResults('service-user', week, { requestIntervalMs: 0, sessionsPerWeek: 1 });
+
+    expect(mockFetchSessions).not.toHaveBeenCalled();
+    expect(result.complete).toBe(true);
+  });
+
+  test('records failing series and stops at the rate limit', async () => {
+    mockFetchSessions
+      .mockRejectedValueOnce(new Error('iRacing API error: 500'))
+      .mockRejectedValueOnce(new Error('Rate limit exceeded. Please wait before making more requests.'));
+
+    const failing = await collectGlobalResults('service-user', week, { requestIntervalMs: 0 });
+
+    expect(failing.errors).toHaveLength(2);
+    expect(failing.seriesChecked).toBe(1);
+    expect(failing.complete).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for the incident timeline
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildIncidentTimeline } from '../incident-timeline';
+
+jest.mock('../../db', () => ({
+  db: {
+    select: jest.fn(),
+  },
+  incidentEvents: {},
+  raceResults: {},
+  users: {},
+}));
+
+const USER = 123;
+
+function incident(subsessionId: number, custId: number, phase: string, incidentPoints: number, incidentType: string = 'car_contact') {
+  return { subsessionId, custId, phase, incidentPoints, incidentType };
+}
+
+describe('buildIncidentTimeline', () => {
+  const races = [
+    { subsessionId: 1, seriesId: 10, seriesName: 'Sprint Cup', fieldSize: 11 },
+    { subsessionId: 2, seriesId: 10, seriesName: 'Sprint Cup', fieldSize: 11 },
+    { subsessionId: 3, seriesId: 20, seriesName: 'Endurance', fieldSize: 21 },
+  ];
+
+  test('breaks the user\'s incidents down by phase and type', () => {
+    const timeline = buildIncidentTimeline([
+      incident(1, USER, 'start', 4),
+      incident(2, USER, 'mid', 2, 'lost_control'),
+      incident(3, USER, 'final', 1, 'off_track'),
+      incident(3, USER, 'start', 0, 'contact'),
+      incident(99, USER, 'start', 4), // Not one of the races
+    ], races, USER);
+
+    expect(timeline.raceCount).toBe(3);
+    expect(timeline.phases).toEqual({
+      start: { incidents: 2, points: 4 },
+      mid: { incidents: 1, points: 2 },
+      final: { incidents: 1, points: 1 },
+    });
+    expect(timeline.types.car_contact).toEqual({ incidents: 1, points: 4 });
+    expect(timeline.types.contact).toEqual({ incidents: 1, points: 0 });
+    expect(timeline.startShare).toBeCloseTo(4 / 7);
+  });
+
+  test('compares the field\'s start incidents per driver across series', () => {
+    const timeline = buildIncidentTimeline([
+      incident(1, 456, 'start', 20),
+      incident(1, 789, 'mid', 10),
+      incident(2, 456, 'start', 10),
+      incident(3, 456, 'start', 10),
+      incident(3, 456, 'final', 10),
+      incident(1, USER, 'start', 4),
+    ], races, USER);
+
+    expect(timeline.fieldStartShare).toBeCloseTo(40 / 60);
+    // Per race: 20/10, 10/10 and 10/20 start points per other driver
+    expect(timeline.fieldStartIncidentsPerDriver).toBeCloseTo(3.5 / 3);
+    expect(timeline.series).toEqual([
+      expect.objectContaining({ seriesId: 10, raceCount: 2, fieldStartIncidentsPerDriver: 1.5, startPointsPerRace: 2, startShare: 1 }),
+      expect.objectContaining({ seriesId: 20, raceCount: 1, fieldStartIncidentsPerDriver: 0.5, startPointsPerRace: 0, startShare: null }),
+    ]);
+  });
+});
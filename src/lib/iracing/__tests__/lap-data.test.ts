@@ -0,0 +1,188 @@
+/**
+ * Tests for lap data and pace percentiles
+ */
+
+import { describe, test, expect, afterEach } from '@jest/globals';
+import {
+  buildLapRecords,
+  getFieldAverageLaps,
+  getLapDataRaceLimit,
+  importLapData,
+  summarizeLaps,
+} from '../lap-data';
+import { calculatePacePercentile } from '../race-imports';
+import { fetchLapData, fetchSubsessionResults, type LapDataRow } from '../client';
+import { db } from '../../db';
+
+jest.mock('../../db', () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+  },
+  raceLaps: {},
+  raceResults: {},
+  users: {},
+}));
+
+jest.mock('../client', () => ({
+  fetchLapData: jest.fn(),
+  fetchSubsessionResults: jest.fn(),
+}));
+
+const mockDb = db as any;
+const mockFetchLapData = fetchLapData as jest.Mock;
+const mockFetchSubsession = fetchSubsessionResults as jest.Mock;
+
+function lap(lapNumber: number, seconds: number, overrides: Partial<LapDataRow> = {}): LapDataRow {
+  return {
+    lap_number: lapNumber,
+    lap_time: seconds > 0 ? seconds * 10000 : -1,
+    incident: false,
+    lap_events: [],
+    lap_position: 5,
+    session_time: lapNumber * 900000,
+    ...overrides,
+  };
+}
+
+function entry(custId: number, averageLapSeconds: number, lapsComplete: number = 20, carClassId: number = 74) {
+  return { cust_id: custId, car_class_id: carClassId, average_lap: averageLapSeconds * 10000, laps_complete: lapsComplete };
+}
+
+function subsession(results: any[]) {
+  return { results: { session_results: [{ simsession_number: 0, simsession_type_name: 'Race', results }] } };
+}
+
+describe('summarizeLaps', () => {
+  test('averages timed laps and keeps clean laps apart', () => {
+    const summary = summarizeLaps([
+      lap(0, 0), // To the start line
+      lap(1, 92),
+      lap(2, 90),
+      lap(3, 97, { incident: true, lap_events: ['off track'] }),
+      lap(4, 105, { lap_events: ['pitted'] }),
+      lap(5, 91),
+    ]);
+
+    expect(summary).toEqual({
+      averageLapTime: 950000,
+      bestLapTime: 900000,
+      cleanAverageLapTime: 910000,
+    });
+  });
+
+  test('reports nothing without timed laps', () => {
+    expect(summarizeLaps([lap(0, 0)])).toEqual({ averageLapTime: null, bestLapTime: null, cleanAverageLapTime: null });
+  });
+});
+
+describe('buildLapRecords', () => {
+  test('stores laps without a time as null', () => {
+    const records = buildLapRecords('user-1', 123, [lap(0, 0, { lap_position: 0 }), lap(1, 92, { incident: true, lap_events: ['car contact'] })]);
+
+    expect(records).toEqual([
+      { userId: 'user-1', subsessionId: 123, lapNumber: 0, lapTime: null, incident: false, lapEvents: [], lapPosition: null },
+      { userId: 'user-1', subsessionId: 123, lapNumber: 1, lapTime: 920000, incident: true, lapEvents: ['car contact'], lapPosition: 5 },
+    ]);
+  });
+});
+
+describe('getFieldAverageLaps', () => {
+  test('uses other class entries who ran most of the race', () => {
+    const laps = getFieldAverageLaps(subsession([
+      entry(1, 90),
+      entry(2, 91),
+      entry(3, 80, 5), // Retired early
+      entry(4, 85, 20, 75), // Other class
+      entry(5, 0), // No average lap
+    ]), 74, 1);
+
+    expect(laps).toEqual([910000]);
+  });
+});
+
+describe('calculatePacePercentile', () => {
+  test('counts slower drivers, ties as half', () => {
+    expect(calculatePacePercentile(910000, [900000, 910000, 920000, 930000])).toBe(62.5);
+  });
+
+  test('needs a lap time and a large enough field', () => {
+    expect(calculatePacePercentile(null, [900000, 910000, 920000])).toBeNull();
+    expect(calculatePacePercentile(910000, [900000, 920000])).toBeNull();
+  });
+});
+
+describe('importLapData', () => {
+  const original = process.env.IRACING_LAP_DATA_RACES;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.IRACING_LAP_DATA_RACES;
+    } else {
+      process.env.IRACING_LAP_DATA_RACES = original;
+    }
+  });
+
+  test('is off unless IRACING_LAP_DATA_RACES is set', async () => {
+    delete process.env.IRACING_LAP_DATA_RACES;
+    expect(getLapDataRaceLimit()).toBe(0);
+
+    const result = await importLapData('user-1');
+    expect(result).toEqual({ racesChecked: 0, racesImported: 0, lapsStored: 0, errors: [] });
+    expect(mockDb.select).not.toHaveBeenCalled();
+
+    process.env.IRACING_LAP_DATA_RACES = '25';
+    expect(getLapDataRaceLimit()).toBe(25);
+  });
+
+  test('stores the race\'s qualifying from the same subsession results', async () => {
+    process.env.IRACING_LAP_DATA_RACES = '25';
+    const now = new Date('2025-11-20T12:00:00Z');
+    const updates: any[] = [];
+    mockDb.select
+      .mockReturnValueOnce({ from: () => ({ where: () => ({ limit: () => Promise.resolve([{ customerId: 1 }]) }) }) })
+      .mockReturnValueOnce({
+        from: () => ({
+          where: () => ({
+            orderBy: () => ({
+              limit: () => Promise.resolve([{ id: 'race-1', subsessionId: 80000001, carClassId: 74, rawData: {} }]),
+            }),
+          }),
+        }),
+      });
+    mockDb.insert.mockReturnValue({
+      values: (values: any[]) => ({ onConflictDoNothing: () => ({ returning: () => Promise.resolve(values) }) }),
+    });
+    mockDb.update.mockReturnValue({
+      set: (fields: any) => {
+        updates.push(fields);
+        return { where: () => Promise.resolve() };
+      },
+    });
+    mockFetchLapData.mockResolvedValue({ laps: [lap(1, 92), lap(2, 90)] });
+    mockFetchSubsession.mockResolvedValue(subsession([
+      { ...entry(1, 91), qual_lap_time: 890000 },
+      { ...entry(2, 90), qual_lap_time: 880000 },
+      { ...entry(3, 92), qual_lap_time: 900000 },
+      { ...entry(4, 93), qual_lap_time: 905000 },
+    ]));
+
+    const result = await importLapData('user-1', { requestIntervalMs: 0, now });
+
+    expect(mockFetchSubsession).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ racesChecked: 1, racesImported: 1, lapsStored: 2, errors: [] });
+    expect(updates).toEqual([{
+      averageLapTime: 910000,
+      bestLapTime: 900000,
+      cleanAverageLapTime: 910000,
+      pacePercentile: '66.67',
+      qualLapTime: 890000,
+      poleLapTime: 880000,
+      qualifyingPercentile: '66.67',
+      classFieldSize: 4,
+      lapsImportedAt: now,
+      qualifyingImportedAt: now,
+    }]);
+  });
+});
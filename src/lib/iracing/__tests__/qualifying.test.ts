@@ -0,0 +1,87 @@
+/**
+ * Tests for qualifying extraction from subsession results
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { extractQualifying, getSubsessionFields } from '../qualifying';
+
+jest.mock('../../db', () => ({
+  db: {
+    select: jest.fn(),
+    update: jest.fn(),
+  },
+  raceResults: {},
+  users: {},
+}));
+
+jest.mock('../client', () => ({
+  fetchSubsessionResults: jest.fn(),
+}));
+
+const USER = 123;
+
+function subsession(results: Array<{ cust_id: number; qual_lap_time: number; car_class_id?: number }>) {
+  return {
+    results: {
+      session_results: [
+        { simsession_number: -1, simsession_type_name: 'Qualifying', results: [] },
+        {
+          simsession_number: 0,
+          simsession_type_name: 'Race',
+          results: results.map(result => ({ car_class_id: 1, ...result })),
+        },
+      ],
+    },
+  };
+}
+
+describe('extractQualifying', () => {
+  test('ranks the user\'s qualifying lap among the class qualifiers', () => {
+    const qualifying = extractQualifying(subsession([
+      { cust_id: 1, qual_lap_time: 900000 },
+      { cust_id: USER, qual_lap_time: 905000 },
+      { cust_id: 2, qual_lap_time: 910000 },
+      { cust_id: 3, qual_lap_time: 920000 },
+      { cust_id: 4, qual_lap_time: -1 }, // Did not qualify
+      { cust_id: 5, qual_lap_time: 850000, car_class_id: 2 }, // Another class
+    ]), 1, USER);
+
+    expect(qualifying).toEqual({ qualLapTime: 905000, poleLapTime: 900000, qualifyingPercentile: 66.67 });
+  });
+
+  test('keeps the class pole when the user set no time', () => {
+    expect(extractQualifying(subsession([
+      { cust_id: 1, qual_lap_time: 900000 },
+      { cust_id: USER, qual_lap_time: -1 },
+    ]), 1, USER)).toEqual({ qualLapTime: null, poleLapTime: 900000, qualifyingPercentile: null });
+  });
+
+  test('returns nothing without the user\'s entry', () => {
+    expect(extractQualifying(subsession([{ cust_id: 1, qual_lap_time: 900000 }]), 1, USER))
+      .toEqual({ qualLapTime: null, poleLapTime: null, qualifyingPercentile: null });
+    expect(extractQualifying({}, 1, USER).qualLapTime).toBeNull();
+  });
+});
+
+describe('getSubsessionFields', () => {
+  test('adds the class field size to the qualifying', () => {
+    expect(getSubsessionFields(subsession([
+      { cust_id: 1, qual_lap_time: 900000 },
+      { cust_id: USER, qual_lap_time: 905000 },
+      { cust_id: 2, qual_lap_time: 910000 },
+      { cust_id: 3, qual_lap_time: 920000 },
+      { cust_id: 5, qual_lap_time: 850000, car_class_id: 2 }, // Another class
+    ]), 1, USER)).toEqual({
+      qualLapTime: 905000,
+      poleLapTime: 900000,
+      qualifyingPercentile: '66.67',
+      classFieldSize: 4,
+    });
+  });
+
+  test('leaves the class field size alone when the class is not found', () => {
+    expect(getSubsessionFields({}, 1, USER)).toEqual({ qualLapTime: null, poleLapTime: null, qualifyingPercentile: null });
+    expect(getSubsessionFields(subsession([{ cust_id: USER, qual_lap_time: 905000 }]), null, USER))
+      .not.toHaveProperty('classFieldSize');
+  });
+});
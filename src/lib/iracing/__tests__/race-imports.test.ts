@@ -0,0 +1,97 @@
+/**
+ * Tests for request pacing and the pending race import loop
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { createPacer, importPendingRaces, type RaceImportProgress } from '../race-imports';
+import { db } from '../../db';
+
+jest.mock('../../db', () => ({
+  db: {
+    select: jest.fn(),
+    update: jest.fn(),
+  },
+  raceResults: {},
+}));
+
+const mockDb = db as any;
+
+function race(index: number) {
+  return { id: `race-${index}`, subsessionId: 80000000 + index, carClassId: 1, rawData: {} };
+}
+
+describe('createPacer', () => {
+  test('spaces requests by the interval', async () => {
+    const paced = createPacer(50);
+    const started: number[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      await paced(async () => started.push(Date.now()));
+    }
+
+    expect(started[1] - started[0]).toBeGreaterThanOrEqual(45);
+    expect(started[2] - started[1]).toBeGreaterThanOrEqual(45);
+  });
+});
+
+describe('importPendingRaces', () => {
+  let updates: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    updates = [];
+    mockDb.select.mockReturnValue({
+      from: () => ({
+        where: () => ({
+          orderBy: () => ({ limit: () => Promise.resolve([race(1), race(2), race(3)]) }),
+        }),
+      }),
+    });
+    mockDb.update.mockReturnValue({
+      set: (fields: any) => {
+        updates.push(fields);
+        return { where: () => Promise.resolve() };
+      },
+    });
+  });
+
+  test('stores the returned fields and marks each race as imported', async () => {
+    const now = new Date('2025-11-20T12:00:00Z');
+    const progress: RaceImportProgress = { racesChecked: 0, racesImported: 0, errors: [] };
+    const checked: number[] = [];
+
+    const result = await importPendingRaces('user-1', 'qualifyingImportedAt', async pending => ({
+      qualLapTime: pending.subsessionId - 80000000,
+    }), {
+      races: 25,
+      progress,
+      label: 'qualifying',
+      requestIntervalMs: 0,
+      onProgress: p => {
+        checked.push(p.racesChecked);
+      },
+      now,
+    });
+
+    expect(result).toEqual({ racesChecked: 3, racesImported: 3, errors: [] });
+    expect(updates).toEqual([1, 2, 3].map(index => ({ qualLapTime: index, qualifyingImportedAt: now })));
+    expect(checked).toEqual([1, 2, 3]);
+  });
+
+  test('records failed races for the next run and stops at the rate limit', async () => {
+    const progress: RaceImportProgress = { racesChecked: 0, racesImported: 0, errors: [] };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await importPendingRaces('user-1', 'lapsImportedAt', async pending => {
+      throw new Error(pending.id === 'race-1' ? 'Not found' : 'Rate limit exceeded');
+    }, { races: 25, progress, label: 'lap data', requestIntervalMs: 0 });
+
+    expect(result).toEqual({
+      racesChecked: 1,
+      racesImported: 0,
+      errors: ['Subsession 80000001: Not found', 'Subsession 80000002: Rate limit exceeded'],
+    });
+    expect(updates).toHaveLength(0);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for iRating and Safety Rating history
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildRatingHistory, parseChartData, CHART_TYPE_IRATING, CHART_TYPE_LICENSE } from '../rating-history';
+import { readResultRatingChanges } from '../../db/analytics';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+jest.mock('../../db', () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+  },
+  licenseClasses: {},
+  ratingHistory: {},
+  raceResults: {},
+}));
+
+jest.mock('../client', () => ({
+  fetchMemberChartData: jest.fn(),
+}));
+
+function chart(chartType: number, data: Array<{ when: string; value: number }>) {
+  return { blackout: false, category_id: 5, chart_type: chartType, cust_id: 123, data, success: true };
+}
+
+function race(subsessionId: number, day: number, rawData: Record<string, unknown>) {
+  return {
+    subsessionId,
+    raceDate: new Date(Date.UTC(2025, 9, day)),
+    seriesName: 'GT Sprint',
+    trackName: 'Spa',
+    finishingPosition: 5,
+    incidents: 2,
+    rawData,
+  };
+}
+
+describe('parseChartData', () => {
+  test('stores iRating points by day', () => {
+    const records = parseChartData('user-1', Category.SPORTS_CAR, chart(CHART_TYPE_IRATING, [
+      { when: '2025-10-01', value: 1512 },
+      { when: '2025-10-03', value: 1547 },
+    ]));
+
+    expect(records).toEqual([
+      expect.objectContaining({ category: Category.SPORTS_CAR, metric: 'irating', value: '1512.00', level: null, source: 'chart_data' }),
+      expect.objectContaining({ metric: 'irating', value: '1547.00' }),
+    ]);
+    expect(records[0].recordedAt).toEqual(new Date(Date.UTC(2025, 9, 1)));
+  });
+
+  test('decodes the license group and Safety Rating from license chart values', () => {
+    const [record] = parseChartData('user-1', Category.SPORTS_CAR, chart(CHART_TYPE_LICENSE, [
+      { when: '2025-10-01', value: 4287 },
+    ]));
+
+    expect(record).toMatchObject({ metric: 'safety_rating', value: '2.87', level: LicenseLevel.B });
+  });
+
+  test('skips unknown chart types and malformed points', () => {
+    expect(parseChartData('user-1', Category.OVAL, chart(2, [{ when: '2025-10-01', value: 3 }]))).toEqual([]);
+    expect(parseChartData('user-1', Category.OVAL, chart(CHART_TYPE_IRATING, [
+      { when: 'not a date', value: 1500 },
+      { when: '2025-10-01', value: NaN },
+    ]))).toEqual([]);
+  });
+});
+
+describe('buildRatingHistory', () => {
+  test('groups points by category in order with the races that moved them', () => {
+    const histories = buildRatingHistory(
+      [
+        { category: 'sports_car', metric: 'irating', value: '1547.00', level: null, recordedAt: new Date(Date.UTC(2025, 9, 3)) },
+        { category: 'sports_car', metric: 'irating', value: '1512.00', level: null, recordedAt: new Date(Date.UTC(2025, 9, 1)) },
+        { category: 'sports_car', metric: 'safety_rating', value: '2.87', level: 'B', recordedAt: new Date(Date.UTC(2025, 9, 1)) },
+        { category: 'oval', metric: 'irating', value: '1350.00', level: null, recordedAt: new Date(Date.UTC(2025, 9, 1)) },
+      ],
+      [
+        race(3, 3, { license_category: 'sports_car', oldi_rating: 1512, newi_rating: 1547, old_sub_level: 287, new_sub_level: 301 }),
+        race(2, 2, { license_category: 'sports_car', oldi_rating: 1512, newi_rating: 1512, old_sub_level: 287, new_sub_level: 287 }),
+        race(1, 1, { license_category: 'road', oldi_rating: 1500, newi_rating: 1512 }),
+      ]
+    );
+
+    expect(histories.map(history => history.category)).toEqual([Category.OVAL, Category.SPORTS_CAR]);
+
+    const sportsCar = histories[1];
+    expect(sportsCar.iRating.map(point => point.value)).toEqual([1512, 1547]);
+    expect(sportsCar.safetyRating).toEqual([
+      { recordedAt: new Date(Date.UTC(2025, 9, 1)), value: 2.87, level: LicenseLevel.B },
+    ]);
+    expect(sportsCar.races).toEqual([
+      expect.objectContaining({ subsessionId: 3, iRatingChange: 35, safetyRatingChange: 0.14 }),
+    ]);
+  });
+});
+
+describe('readResultRatingChanges', () => {
+  test('reads the changes the chart and the promotion planner share', () => {
+    expect(readResultRatingChanges({ license_category: 'sports_car', oldi_rating: 1512, newi_rating: 1547, old_sub_level: 287, new_sub_level: 301 }))
+      .toEqual({ category: Category.SPORTS_CAR, iRatingChange: 35, safetyRatingChange: 0.14 });
+  });
+
+  test('leaves out unknown categories and changes the result does not report', () => {
+    expect(readResultRatingChanges({ license_category: 'road', oldi_rating: 1500, newi_rating: -1, old_sub_level: '287', new_sub_level: 301 }))
+      .toEqual({ category: null, iRatingChange: null, safetyRatingChange: null });
+    expect(readResultRatingChanges(null)).toEqual({ category: null, iRatingChange: null, safetyRatingChange: null });
+  });
+});
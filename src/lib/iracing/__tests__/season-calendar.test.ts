@@ -0,0 +1,102 @@
+/**
+ * Tests for the iRacing season calendar
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import {
+  buildSeasonCalendar,
+  getLastWeekRollover,
+  getSeasonAt,
+  getWeekDates,
+  setCachedSeasonCalendars,
+  type SeasonCalendar,
+} from '../season-calendar';
+
+jest.mock('../../db', () => ({
+  db: {},
+  seasonCalendars: {},
+}));
+
+function series(seriesId: number, startDates: string[], season = { season_year: 2026, season_quarter: 1 }) {
+  return {
+    series_id: seriesId,
+    ...season,
+    schedules: startDates.map((startDate, raceWeekNum) => ({ race_week_num: raceWeekNum, start_date: startDate })),
+  };
+}
+
+function weeklyDates(first: string, weeks: number): string[] {
+  return Array.from({ length: weeks }, (_, week) =>
+    new Date(new Date(first).getTime() + week * 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+  );
+}
+
+describe('getLastWeekRollover', () => {
+  test('returns the same Tuesday at 00:00 UTC during a Tuesday', () => {
+    expect(getLastWeekRollover(new Date('2025-06-10T15:30:00Z')).toISOString()).toBe('2025-06-10T00:00:00.000Z');
+  });
+
+  test('returns the previous Tuesday later in the week', () => {
+    expect(getLastWeekRollover(new Date('2025-06-16T23:59:00Z')).toISOString()).toBe('2025-06-10T00:00:00.000Z');
+  });
+});
+
+describe('buildSeasonCalendar', () => {
+  test('uses the most common week 0 start and snaps mid-week starts to the rollover', () => {
+    const calendar = buildSeasonCalendar([
+      series(1, weeklyDates('2025-12-16', 12)),
+      series(2, weeklyDates('2025-12-16', 12)),
+      series(3, weeklyDates('2025-12-17', 12)), // Races from Wednesday
+      series(4, weeklyDates('2025-11-11', 8)), // Special event from an earlier start
+      series(5, weeklyDates('2025-09-16', 12), { season_year: 2025, season_quarter: 4 }),
+    ], 2026, 1);
+
+    expect(calendar?.startsAt.toISOString()).toBe('2025-12-16T00:00:00.000Z');
+    expect(calendar?.raceWeeks).toBe(12);
+    expect(calendar?.weekStarts?.[11].toISOString()).toBe('2026-03-03T00:00:00.000Z');
+  });
+
+  test('returns null without schedule start dates', () => {
+    expect(buildSeasonCalendar([{ series_id: 1, schedules: [{ race_week_num: 0 }] }], 2026, 1)).toBeNull();
+  });
+});
+
+describe('getSeasonAt', () => {
+  beforeEach(() => {
+    setCachedSeasonCalendars([]);
+  });
+
+  test('estimates seasons in 13-week steps from the reference season', () => {
+    const week = getSeasonAt(new Date('2026-01-01T12:00:00Z'));
+
+    expect(week).toMatchObject({ seasonYear: 2026, seasonQuarter: 1, raceWeekNum: 2, isWeek13: false, estimated: true });
+    expect(week.weekStart.toISOString()).toBe('2025-12-30T00:00:00.000Z');
+    expect(week.weekEnd.toISOString()).toBe('2026-01-05T23:59:59.999Z');
+
+    expect(getSeasonAt(new Date('2025-12-15T23:59:00Z'))).toMatchObject({ seasonYear: 2025, seasonQuarter: 4, raceWeekNum: 12 });
+    expect(getSeasonAt(new Date('2025-07-01T00:00:00Z'))).toMatchObject({ seasonYear: 2025, seasonQuarter: 3 });
+  });
+
+  test('reports week 13 after the scheduled race weeks', () => {
+    const week = getSeasonAt(new Date('2026-03-12T00:00:00Z'));
+
+    expect(week).toMatchObject({ seasonYear: 2026, seasonQuarter: 1, raceWeekNum: 12, isWeek13: true });
+    expect(week.weekEnd.toISOString()).toBe('2026-03-16T23:59:59.999Z');
+  });
+
+  test('uses persisted calendars over estimates', () => {
+    const calendars: SeasonCalendar[] = [
+      { seasonYear: 2026, seasonQuarter: 1, startsAt: new Date('2025-12-16T00:00:00Z'), raceWeeks: 12, weekStarts: null },
+      // Next season starts a week later than the 13-week estimate
+      { seasonYear: 2026, seasonQuarter: 2, startsAt: new Date('2026-03-24T00:00:00Z'), raceWeeks: 12, weekStarts: null },
+    ];
+    setCachedSeasonCalendars(calendars);
+
+    const week13 = getSeasonAt(new Date('2026-03-20T00:00:00Z'));
+    expect(week13).toMatchObject({ seasonYear: 2026, seasonQuarter: 1, raceWeekNum: 12, isWeek13: true, estimated: false });
+    expect(week13.weekEnd.toISOString()).toBe('2026-03-23T23:59:59.999Z');
+
+    expect(getSeasonAt(new Date('2026-03-24T00:00:00Z'))).toMatchObject({ seasonYear: 2026, seasonQuarter: 2, raceWeekNum: 0 });
+    expect(getWeekDates(2026, 2, 1).start.toISOString()).toBe('2026-03-31T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for the in-process race sync progress registry
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  isSyncRunning,
+  startTrackedSync,
+  subscribeToSyncProgress,
+} from '../sync-events';
+import { syncUserRaceData, type SyncProgress } from '../sync';
+
+jest.mock('../sync', () => ({
+  syncUserRaceData: jest.fn(),
+}));
+
+const mockSync = syncUserRaceData as jest.Mock;
+
+describe('sync progress events', () => {
+  test('shares one sync per user and streams progress snapshots to subscribers', async () => {
+    let reportProgress: (progress: SyncProgress) => void = () => {};
+    let finishSync: () => void = () => {};
+
+    mockSync.mockImplementation((_userId, _customerId, onProgress) => {
+      reportProgress = onProgress;
+      return new Promise(resolve => {
+        finishSync = () => resolve({ success: true, progress: { newRaces: 3 } });
+      });
+    });
+
+    const first = startTrackedSync('user-1', 123456);
+    const second = startTrackedSync('user-1', 123456);
+
+    expect(second).toBe(first);
+    expect(mockSync).toHaveBeenCalledTimes(1);
+    expect(isSyncRunning('user-1')).toBe(true);
+
+    const received: SyncProgress[] = [];
+    subscribeToSyncProgress('user-1', progress => received.push(progress));
+
+    const progress: SyncProgress = {
+      totalRaces: 10,
+      processedRaces: 5,
+      newRaces: 3,
+      errors: [],
+      isComplete: false,
+    };
+    reportProgress(progress);
+    progress.processedRaces = 10;
+
+    // Listeners receive copies, not the object the sync keeps mutating
+    expect(received).toHaveLength(1);
+    expect(received[0].processedRaces).toBe(5);
+
+    finishSync();
+    await expect(first).resolves.toMatchObject({ success: true });
+
+    expect(isSyncRunning('user-1')).toBe(false);
+  });
+
+  test('subscribing without a running sync is a no-op', () => {
+    const unsubscribe = subscribeToSyncProgress('nobody', () => {});
+    expect(() => unsubscribe()).not.toThrow();
+  });
+});
@@ -23,6 +23,7 @@ jest.mock('../../db', () => ({
     insert: jest.fn(),
     update: jest.fn(),
     delete: jest.fn(),
+    execute: jest.fn(),
   },
   users: {},
   raceResults: {},
@@ -34,6 +35,10 @@ jest.mock('../client', () => ({
   getCurrentSeason: jest.fn(() => ({ year: 2024, quarter: 1 })),
 }));
 
+jest.mock('../season-calendar', () => ({
+  loadSeasonCalendars: jest.fn(),
+}));
+
 describe('Data Synchronization Properties', () => {
   /**
    * Property 9: Data Synchronization Integrity
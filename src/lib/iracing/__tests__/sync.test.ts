@@ -0,0 +1,214 @@
+/**
+ * Tests for resumable per-season race history sync
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { countClassEntries, getPreviousSeason, getSeasonsBetween, isMultiClassRace, syncUserRaceData } from '../sync';
+import { fetchMemberRecentRaces, fetchMemberSince } from '../client';
+import { db } from '../../db';
+
+jest.mock('../../db', () => ({
+  db: {
+    query: {
+      users: {
+        findFirst: jest.fn(),
+      },
+    },
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    execute: jest.fn(),
+  },
+  users: {},
+  raceResults: { id: 'id' },
+  raceSyncCheckpoints: {},
+}));
+
+jest.mock('../client', () => ({
+  fetchMemberRecentRaces: jest.fn(),
+  fetchMemberSince: jest.fn(),
+  getCurrentSeason: jest.fn((date?: Date) =>
+    date ? { year: 2025, quarter: 2 } : { year: 2025, quarter: 4 }
+  ),
+}));
+
+jest.mock('../season-calendar', () => ({
+  loadSeasonCalendars: jest.fn(),
+}));
+
+const mockDb = db as any;
+const mockFetchRaces = fetchMemberRecentRaces as jest.Mock;
+const mockFetchMemberSince = fetchMemberSince as jest.Mock;
+
+function race(subsessionId: number, seasonQuarter: number) {
+  return {
+    subsession_id: subsessionId,
+    series_id: 570,
+    series_name: 'Fixture Series',
+    track: { track_id: 279, track_name: 'Volusia Speedway Park' },
+    event_type: 5,
+    starting_position: 5,
+    finish_position: 3,
+    incidents: 2,
+    start_time: '2025-06-01T18:00:00Z',
+    season_year: 2025,
+    season_quarter: seasonQuarter,
+  };
+}
+
+describe('season enumeration', () => {
+  test('getPreviousSeason wraps to the previous year', () => {
+    expect(getPreviousSeason({ year: 2025, quarter: 1 })).toEqual({ year: 2024, quarter: 4 });
+    expect(getPreviousSeason({ year: 2025, quarter: 3 })).toEqual({ year: 2025, quarter: 2 });
+  });
+
+  test('getSeasonsBetween lists every season oldest first', () => {
+    expect(getSeasonsBetween({ year: 2023, quarter: 4 }, { year: 2024, quarter: 2 })).toEqual([
+      { year: 2023, quarter: 4 },
+      { year: 2024, quarter: 1 },
+      { year: 2024, quarter: 2 },
+    ]);
+  });
+
+  test('getSeasonsBetween returns nothing when the range is reversed', () => {
+    expect(getSeasonsBetween({ year: 2025, quarter: 1 }, { year: 2024, quarter: 4 })).toEqual([]);
+  });
+});
+
+describe('class positions', () => {
+  test('isMultiClassRace compares in-class positions with overall ones', () => {
+    expect(isMultiClassRace({ starting_position: 9, finish_position: 6, starting_position_in_class: 9, finish_position_in_class: 6 })).toBe(false);
+    expect(isMultiClassRace({ starting_position: 14, finish_position: 12, starting_position_in_class: 4, finish_position_in_class: 1 })).toBe(true);
+    expect(isMultiClassRace({ starting_position: 5, finish_position: 3 })).toBe(false);
+  });
+
+  test('countClassEntries counts the class in the main race session', () => {
+    const subsession = {
+      session_results: [
+        { simsession_number: -1, simsession_type_name: 'Qualifying', results: [{ car_class_id: 4029 }] },
+        {
+          simsession_number: 0,
+          simsession_type_name: 'Race',
+          results: [{ car_class_id: 4029 }, { car_class_id: 4083 }, { car_class_id: 4029 }],
+        },
+      ],
+    };
+
+    expect(countClassEntries(subsession, 4029)).toBe(2);
+    expect(countClassEntries({ results: subsession }, 4083)).toBe(1);
+    expect(countClassEntries({}, 4029)).toBeNull();
+  });
+});
+
+describe('syncUserRaceData', () => {
+  let checkpointWrites: any[];
+  let insertedRaces: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    checkpointWrites = [];
+    insertedRaces = [];
+
+    mockDb.query.users.findFirst.mockResolvedValue({ id: 'user-1' });
+    mockFetchMemberSince.mockResolvedValue(new Date('2025-04-01'));
+
+    // Season 2025 Q2 is already complete
+    mockDb.select.mockReturnValue({
+      from: () => ({
+        where: () =>
+          Promise.resolve([{ seasonYear: 2025, seasonQuarter: 2, status: 'complete' }]),
+      }),
+    });
+
+    mockDb.insert.mockImplementation(() => ({
+      values: (values: any) => {
+        if (Array.isArray(values)) {
+          insertedRaces.push(...values);
+          return {
+            onConflictDoNothing: () => ({
+              returning: () => Promise.resolve(values.map((_, i) => ({ id: `row-${i}` }))),
+            }),
+          };
+        }
+        return {
+          onConflictDoUpdate: ({ set }: any) => {
+            checkpointWrites.push({ season: values.seasonQuarter, ...set });
+            return Promise.resolve();
+          },
+        };
+      },
+    }));
+
+    mockDb.update.mockReturnValue({
+      set: () => ({ where: () => Promise.resolve() }),
+    });
+  });
+
+  test('skips completed seasons and keeps the current season in progress', async () => {
+    mockFetchRaces.mockImplementation((_u, _c, _year, quarter) =>
+      Promise.resolve({ results: [race(quarter * 100, quarter)] })
+    );
+
+    const updates: any[] = [];
+    const result = await syncUserRaceData('user-1', 123456, progress =>
+      updates.push(JSON.parse(JSON.stringify(progress)))
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockFetchRaces.mock.calls.map(call => call[3])).toEqual([3, 4]);
+    expect(insertedRaces.map(r => r.subsessionId)).toEqual([300, 400]);
+
+    const seasons = result.progress.seasons!;
+    expect(seasons.map(s => [s.seasonQuarter, s.status, s.skipped])).toEqual([
+      [2, 'complete', true],
+      [3, 'complete', false],
+      [4, 'in_progress', false],
+    ]);
+    expect(result.progress.newRaces).toBe(2);
+    expect(updates[updates.length - 1].isComplete).toBe(true);
+
+    const finalWrites = checkpointWrites.filter(w => w.racesInserted !== undefined);
+    expect(finalWrites.map(w => [w.season, w.status])).toEqual([
+      [3, 'complete'],
+      [4, 'in_progress'],
+    ]);
+  });
+
+  test('stores class positions and field sizes', async () => {
+    mockFetchRaces.mockImplementation((_u, _c, _year, quarter) =>
+      Promise.resolve({
+        results: quarter === 3
+          ? [{ ...race(300, 3), num_drivers: 20, starting_position_in_class: 5, finish_position_in_class: 3 }]
+          : [{ ...race(400, 4), num_drivers: 40, starting_position_in_class: 2, finish_position_in_class: 1 }],
+      })
+    );
+
+    await syncUserRaceData('user-1', 123456);
+
+    expect(insertedRaces.map(r => [r.startingPositionInClass, r.finishingPositionInClass, r.fieldSize, r.classFieldSize])).toEqual([
+      [5, 3, 20, 20],
+      // Multi-class: the class size is counted from the subsession results later
+      [2, 1, 40, null],
+    ]);
+  });
+
+  test('records a failed checkpoint and continues with later seasons', async () => {
+    mockFetchRaces.mockImplementation((_u, _c, _year, quarter) =>
+      quarter === 3
+        ? Promise.reject(new Error('Chunk download failed: 500'))
+        : Promise.resolve({ results: [race(quarter * 100, quarter)] })
+    );
+
+    const result = await syncUserRaceData('user-1', 123456);
+
+    expect(result.success).toBe(true);
+    expect(result.progress.errors).toHaveLength(1);
+    expect(result.progress.seasons!.map(s => s.status)).toEqual([
+      'complete',
+      'failed',
+      'in_progress',
+    ]);
+    expect(checkpointWrites.some(w => w.season === 3 && w.status === 'failed')).toBe(true);
+    expect(insertedRaces.map(r => r.subsessionId)).toEqual([400]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the track lookup
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import tracksFixture from '../../../../fixtures/iracing/track/get/default.json';
+import { getTrackProfiles, saveTrackLookups, trackLookupsNeedSync } from '../tracks';
+import { db } from '../../db';
+
+jest.mock('../../db', () => ({
+  db: {
+    insert: jest.fn(),
+    select: jest.fn(),
+  },
+  tracks: { trackId: 'track_id', updatedAt: 'updated_at' },
+}));
+
+const mockDb = db as any;
+
+describe('saveTrackLookups', () => {
+  let inserted: any[][];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    inserted = [];
+    mockDb.insert.mockReturnValue({
+      values: (values: any[]) => {
+        inserted.push(values);
+        return { onConflictDoUpdate: () => Promise.resolve() };
+      },
+    });
+  });
+
+  test('maps the lookup payload to track records', async () => {
+    const result = await saveTrackLookups(tracksFixture);
+
+    expect(result).toEqual({ tracksSynced: 3 });
+    expect(inserted[0][0]).toEqual({
+      trackId: 163,
+      trackName: 'Circuit de Spa-Francorchamps',
+      configName: 'Grand Prix Pits',
+      packageId: 146,
+      category: 'road',
+      lengthMiles: '4.350',
+      cornersPerLap: 19,
+      trackTypes: ['road'],
+    });
+    // Both Spa configurations belong to the same circuit
+    expect(inserted[0].filter(track => track.packageId === 146)).toHaveLength(2);
+  });
+
+  test('skips rows without ids or names', async () => {
+    const result = await saveTrackLookups([{ track_id: 1 }, { track_name: 'No id' }]);
+
+    expect(result).toEqual({ tracksSynced: 0 });
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe('trackLookupsNeedSync', () => {
+  function lastUpdated(value: Date | null) {
+    mockDb.select.mockReturnValue({ from: () => Promise.resolve([{ lastUpdated: value }]) });
+  }
+
+  test('syncs when the lookup is missing or older than a week', async () => {
+    const now = new Date('2025-06-12T12:00:00Z');
+
+    lastUpdated(null);
+    expect(await trackLookupsNeedSync(now)).toBe(true);
+
+    lastUpdated(new Date('2025-06-04T12:00:00Z'));
+    expect(await trackLookupsNeedSync(now)).toBe(true);
+
+    lastUpdated(new Date('2025-06-10T12:00:00Z'));
+    expect(await trackLookupsNeedSync(now)).toBe(false);
+  });
+});
+
+describe('getTrackProfiles', () => {
+  test('parses stored lengths and skips the query without track ids', async () => {
+    mockDb.select.mockReturnValue({
+      from: () => ({
+        where: () => Promise.resolve([
+          { trackId: 163, packageId: 146, category: 'road', lengthMiles: '4.350', cornersPerLap: 19 },
+          { trackId: 999, packageId: null, category: null, lengthMiles: null, cornersPerLap: null },
+        ]),
+      }),
+    });
+
+    const profiles = await getTrackProfiles([163, 999]);
+    expect(profiles.get(163)).toEqual({ trackId: 163, packageId: 146, category: 'road', lengthMiles: 4.35, cornersPerLap: 19 });
+    expect(profiles.get(999)?.lengthMiles).toBeNull();
+
+    mockDb.select.mockClear();
+    expect((await getTrackProfiles([])).size).toBe(0);
+    expect(mockDb.select).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for normalizing iRacing weather into race conditions
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import seasonsFixture from '../../../../fixtures/iracing/series/seasons/default.json';
+import { describeConditions, extractRaceConditions, getTimeOfDay } from '../weather';
+
+describe('extractRaceConditions', () => {
+  const fixtureWeather = (seasonsFixture as any[])[0].schedules[0].weather;
+
+  test('reads a forecast schedule week', () => {
+    expect(extractRaceConditions(fixtureWeather)).toEqual({
+      weatherType: 1,
+      dynamicWeather: true, // skies change between low and high
+      rain: false,
+      temperatureC: 24,
+      timeOfDay: 'day',
+    });
+  });
+
+  test('treats any chance of rain as a rain race', () => {
+    const weather = {
+      ...fixtureWeather,
+      weather_summary: { ...fixtureWeather.weather_summary, skies_high: 0, precip_chance: 20 },
+    };
+
+    expect(extractRaceConditions(weather)).toMatchObject({ dynamicWeather: true, rain: true });
+  });
+
+  test('reads static weather from older payloads', () => {
+    const conditions = extractRaceConditions({
+      type: 3,
+      temp_units: 1,
+      temp_value: 18,
+      weather_var_ongoing: 0,
+      simulated_start_time: '2024-06-01T21:00:00',
+    });
+
+    expect(conditions).toEqual({
+      weatherType: 3,
+      dynamicWeather: false,
+      rain: false,
+      temperatureC: 18,
+      timeOfDay: 'night',
+    });
+  });
+
+  test('uses the schedule dynamic weather flag', () => {
+    expect(extractRaceConditions({ type: 3 }, true)?.dynamicWeather).toBe(true);
+  });
+
+  test('returns null without a weather block', () => {
+    expect(extractRaceConditions(undefined)).toBeNull();
+  });
+});
+
+describe('getTimeOfDay', () => {
+  test('classifies the simulated start hour', () => {
+    expect(getTimeOfDay('2025-11-15T05:59:00')).toBe('night');
+    expect(getTimeOfDay('2025-11-15T06:00:00')).toBe('day');
+    expect(getTimeOfDay('2025-11-15T18:30:00')).toBe('dusk');
+    expect(getTimeOfDay('2025-11-15T20:00:00')).toBe('night');
+    expect(getTimeOfDay(null)).toBeNull();
+  });
+});
+
+describe('describeConditions', () => {
+  test('lists only notable conditions', () => {
+    expect(describeConditions({ timeOfDay: 'night', dynamicWeather: true, rain: true })).toEqual(['night', 'rain']);
+    expect(describeConditions({ timeOfDay: 'day', dynamicWeather: true, rain: false })).toEqual(['dynamic weather']);
+    expect(describeConditions({ timeOfDay: 'day', dynamicWeather: false, rain: false })).toEqual([]);
+  });
+});
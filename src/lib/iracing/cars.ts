@@ -0,0 +1,150 @@
+/**
+ * Car and Car Class Lookups
+ *
+ * Stores the /car/get and /carclass/get lookups (fetched by syncCarLookups in
+ * ./schedule) in the cars and car_classes tables so schedule entries, which only
+ * list car class ids, can be resolved to the cars a driver would actually race.
+ */
+
+import { db, cars, carClasses } from '../db';
+import { inArray, max, sql } from 'drizzle-orm';
+
+// Lookups rarely change (new cars ship with season builds), so refresh weekly
+export const CAR_LOOKUP_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Rows per upsert statement
+const UPSERT_BATCH_SIZE = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Map a /car/get row to a cars record
+ */
+function buildCarRecord(car: any) {
+  return {
+    carId: car.car_id,
+    carName: car.car_name,
+    carNameAbbreviated: car.car_name_abbreviated || null,
+    carTypes: Array.isArray(car.car_types)
+      ? car.car_types.map((type: any) => type.car_type).filter(Boolean)
+      : null,
+  };
+}
+
+/**
+ * Map a /carclass/get row to a car_classes record
+ */
+function buildCarClassRecord(carClass: any) {
+  return {
+    carClassId: carClass.car_class_id,
+    name: carClass.name,
+    shortName: carClass.short_name || null,
+    relativeSpeed: carClass.relative_speed ?? null,
+    carIds: Array.isArray(carClass.cars_in_class)
+      ? carClass.cars_in_class.map((car: any) => car.car_id).filter((id: unknown) => typeof id === 'number')
+      : [],
+  };
+}
+
+/**
+ * Upsert /car/get and /carclass/get payloads into the lookup tables
+ */
+export async function saveCarLookups(
+  carsData: any[],
+  carClassesData: any[]
+): Promise<{ carsSynced: number; carClassesSynced: number }> {
+  const carRecords = (Array.isArray(carsData) ? carsData : [])
+    .filter(car => car?.car_id && car?.car_name)
+    .map(buildCarRecord);
+  const carClassRecords = (Array.isArray(carClassesData) ? carClassesData : [])
+    .filter(carClass => carClass?.car_class_id && carClass?.name)
+    .map(buildCarClassRecord);
+
+  for (const batch of chunk(carRecords, UPSERT_BATCH_SIZE)) {
+    await db.insert(cars)
+      .values(batch)
+      .onConflictDoUpdate({
+        target: cars.carId,
+        set: {
+          carName: sql`excluded.car_name`,
+          carNameAbbreviated: sql`excluded.car_name_abbreviated`,
+          carTypes: sql`excluded.car_types`,
+          updatedAt: sql`NOW()`,
+        },
+      });
+  }
+
+  for (const batch of chunk(carClassRecords, UPSERT_BATCH_SIZE)) {
+    await db.insert(carClasses)
+      .values(batch)
+      .onConflictDoUpdate({
+        target: carClasses.carClassId,
+        set: {
+          name: sql`excluded.name`,
+          shortName: sql`excluded.short_name`,
+          relativeSpeed: sql`excluded.relative_speed`,
+          carIds: sql`excluded.car_ids`,
+          updatedAt: sql`NOW()`,
+        },
+      });
+  }
+
+  return { carsSynced: carRecords.length, carClassesSynced: carClassRecords.length };
+}
+
+/**
+ * Check whether the car lookups are missing or older than CAR_LOOKUP_MAX_AGE_MS
+ */
+export async function carLookupsNeedSync(now: Date = new Date()): Promise<boolean> {
+  const [row] = await db.select({ lastUpdated: max(carClasses.updatedAt) }).from(carClasses);
+  if (!row?.lastUpdated) {
+    return true;
+  }
+  return now.getTime() - new Date(row.lastUpdated).getTime() >= CAR_LOOKUP_MAX_AGE_MS;
+}
+
+/**
+ * Resolve car class ids to the cars in each class
+ */
+export async function getCarIdsByClass(carClassIds: number[]): Promise<Map<number, number[]>> {
+  const carIdsByClass = new Map<number, number[]>();
+  if (carClassIds.length === 0) {
+    return carIdsByClass;
+  }
+
+  const rows = await db
+    .select({ carClassId: carClasses.carClassId, carIds: carClasses.carIds })
+    .from(carClasses)
+    .where(inArray(carClasses.carClassId, [...new Set(carClassIds)]));
+
+  for (const row of rows) {
+    carIdsByClass.set(row.carClassId, Array.isArray(row.carIds) ? (row.carIds as number[]) : []);
+  }
+  return carIdsByClass;
+}
+
+/**
+ * Look up car names by car id
+ */
+export async function getCarNames(carIds: number[]): Promise<Map<number, string>> {
+  const carNames = new Map<number, string>();
+  if (carIds.length === 0) {
+    return carNames;
+  }
+
+  const rows = await db
+    .select({ carId: cars.carId, carName: cars.carName })
+    .from(cars)
+    .where(inArray(cars.carId, [...new Set(carIds)]));
+
+  for (const row of rows) {
+    carNames.set(row.carId, row.carName);
+  }
+  return carNames;
+}
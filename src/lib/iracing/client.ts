@@ -5,9 +5,12 @@
  * - Rate limiting and error handling
  * - Support for fetching race results and current schedule
  * - Automatic token refresh
+ * - Pluggable transport (live, fixture replay, record) - see ./transport
  */
 
 import { getValidAccessToken } from '../auth/server';
+import { getIRacingTransport } from './transport';
+import { getSeasonAt } from './season-calendar';
 
 // Rate limiting configuration
 const RATE_LIMIT = {
@@ -16,9 +19,6 @@ const RATE_LIMIT = {
   requests: new Map<string, number[]>(),
 };
 
-// iRacing Data API base URL
-const IRACING_DATA_API_BASE = 'https://members-ng.iracing.com/data';
-
 export interface RaceResultsResponse {
   link: string;
   results?: {
@@ -348,6 +348,48 @@ export interface SearchSeriesResponse {
   }>;
 }
 
+export interface ChartDataResponse {
+  blackout: boolean;
+  category_id: number;
+  chart_type: number; // 1 - iRating; 2 - TT Rating; 3 - License/SR
+  cust_id: number;
+  data: Array<{
+    when: string; // YYYY-MM-DD
+    value: number;
+  }>;
+  success: boolean;
+}
+
+export interface LapDataRow {
+  lap_number: number; // 0 is the lap to the start line
+  lap_time: number; // 10,000ths of a second; -1 when the lap has no time
+  incident: boolean;
+  lap_events: string[]; // e.g. 'off track', 'car contact', 'pitted', 'invalid'
+  lap_position: number;
+  session_time: number;
+}
+
+export interface LapDataResponse {
+  success: boolean;
+  best_lap_num?: number;
+  best_lap_time?: number; // 10,000ths of a second
+  laps: LapDataRow[]; // Concatenated from the chunk files
+}
+
+export interface EventLogRow {
+  subsession_id: number;
+  simsession_number: number;
+  session_time: number; // 10,000ths of a second
+  event_seq: number;
+  event_code: number;
+  group_id: number;
+  cust_id: number;
+  display_name: string;
+  lap_number: number;
+  description: string; // e.g. '4x Car contact'
+  message: string;
+}
+
 /**
  * Rate limiting implementation
  */
@@ -383,14 +425,16 @@ export async function makeAuthenticatedRequest<T>(
     throw new Error('Rate limit exceeded. Please wait before making more requests.');
   }
   
-  // Get valid access token
-  const accessToken = await getValidAccessToken(userId);
+  const transport = getIRacingTransport();
+  
+  // Get valid access token (fixture replay does not need live credentials)
+  const accessToken = transport.requiresAuth ? await getValidAccessToken(userId) : 'fixture';
   if (!accessToken) {
     throw new Error('Unable to get valid access token');
   }
   
   // Build URL with parameters
-  const url = new URL(`${IRACING_DATA_API_BASE}${endpoint}`);
+  const url = new URL(`${transport.dataApiBase}${endpoint}`);
   if (params) {
     Object.entries(params).forEach(([key, value]) => {
       if (value !== undefined && value !== null) {
@@ -405,7 +449,7 @@ export async function makeAuthenticatedRequest<T>(
   let lastError: Error | null = null;
   for (let attempt = 1; attempt <= 3; attempt++) {
     try {
-      const response = await fetch(url.toString(), {
+      const response = await transport.fetch(url.toString(), {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Accept': 'application/json',
@@ -434,7 +478,7 @@ export async function makeAuthenticatedRequest<T>(
       // Handle iRacing's link-based response pattern
       if (payload && typeof payload === 'object' && 'link' in payload && typeof payload.link === 'string') {
         // Fetch the actual data from the link
-        const linkResponse = await fetch(payload.link);
+        const linkResponse = await transport.fetch(payload.link);
         if (!linkResponse.ok) {
           const linkErrorText = await linkResponse.text();
           throw new Error(`iRacing link fetch failed: ${linkResponse.status} ${linkErrorText}`);
@@ -474,12 +518,16 @@ export async function makeAuthenticatedRequest<T>(
 /**
  * Fetch member's race results using the search_series endpoint
  * This is the correct endpoint for getting comprehensive race results with season filtering
+ *
+ * In strict mode failures (including individual chunk downloads) are thrown instead of
+ * falling back to recent races, so callers checkpointing a season never record partial data
  */
 export async function fetchMemberRecentRaces(
   userId: string,
   customerId: number,
   seasonYear?: number,
-  seasonQuarter?: number
+  seasonQuarter?: number,
+  strict: boolean = false
 ): Promise<SearchSeriesResponse> {
   const params: Record<string, string | number> = {
     cust_id: customerId,
@@ -497,35 +545,12 @@ export async function fetchMemberRecentRaces(
     );
     
     // Handle chunked responses like the old project
-    if (response.data?.chunk_info) {
-      const chunkInfo = response.data.chunk_info;
-      const baseUrl = chunkInfo.base_download_url;
-      const files = chunkInfo.chunk_file_names_sorted || chunkInfo.chunk_file_names || [];
-      
-      if (baseUrl && files.length > 0) {
-        const allResults: any[] = [];
-        
-        // Fetch each chunk file
-        for (const file of files) {
-          const chunkUrl = file.startsWith('http') ? file : `${baseUrl}${file}`;
-          try {
-            const chunkResponse = await fetch(chunkUrl);
-            if (chunkResponse.ok) {
-              const chunkData = await chunkResponse.json();
-              if (Array.isArray(chunkData)) {
-                allResults.push(...chunkData);
-              }
-            }
-          } catch (error) {
-            console.warn(`Failed to fetch chunk ${file}:`, error);
-          }
-        }
-        
-        return {
-          ...response,
-          results: allResults
-        };
-      }
+    const chunkedResults = await downloadChunks(response.data?.chunk_info, strict);
+    if (chunkedResults) {
+      return {
+        ...response,
+        results: chunkedResults
+      };
     }
     
     // Handle direct results or link-based responses
@@ -544,6 +569,10 @@ export async function fetchMemberRecentRaces(
     
     return response;
   } catch (error) {
+    if (strict) {
+      throw error;
+    }
+
     // If the search_series endpoint fails, try alternative approaches
     console.warn(`search_series endpoint failed for season ${seasonYear}Q${seasonQuarter}:`, error);
     
@@ -558,6 +587,77 @@ export async function fetchMemberRecentRaces(
   }
 }
 
+/**
+ * Download and concatenate the chunk files of a chunked response.
+ * Returns null when the response is not chunked. In strict mode a failed chunk
+ * throws; otherwise it is skipped with a warning.
+ */
+async function downloadChunks(chunkInfo: any, strict: boolean): Promise<any[] | null> {
+  const baseUrl = chunkInfo?.base_download_url;
+  const files: string[] = chunkInfo?.chunk_file_names_sorted || chunkInfo?.chunk_file_names || [];
+  if (!baseUrl || files.length === 0) {
+    return null;
+  }
+
+  const allResults: any[] = [];
+  const transport = getIRacingTransport();
+
+  // Fetch each chunk file
+  for (const file of files) {
+    const chunkUrl = file.startsWith('http') ? file : `${baseUrl}${file}`;
+    try {
+      const chunkResponse = await transport.fetch(chunkUrl);
+      if (chunkResponse.ok) {
+        const chunkData = await chunkResponse.json();
+        if (Array.isArray(chunkData)) {
+          allResults.push(...chunkData);
+        }
+      } else if (strict) {
+        throw new Error(`Chunk download failed: ${chunkResponse.status} ${chunkResponse.statusText}`);
+      }
+    } catch (error) {
+      if (strict) {
+        throw new Error(`Failed to fetch chunk ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+      console.warn(`Failed to fetch chunk ${file}:`, error);
+    }
+  }
+
+  return allResults;
+}
+
+/**
+ * Fetch the official race sessions of a series in one race week (one row per
+ * subsession, without a member filter). Used to sample sessions for series-wide
+ * statistics; chunk failures throw so a partial list is never mistaken for the week.
+ */
+export async function fetchSeriesSessions(
+  userId: string,
+  seriesId: number,
+  seasonYear: number,
+  seasonQuarter: number,
+  raceWeekNum: number
+): Promise<any[]> {
+  const response = await makeAuthenticatedRequest<SearchSeriesResponse>(
+    userId,
+    '/results/search_series',
+    {
+      series_id: seriesId,
+      season_year: seasonYear,
+      season_quarter: seasonQuarter,
+      race_week_num: raceWeekNum,
+      event_types: 5, // Races only
+      official_only: true,
+    }
+  );
+
+  const chunkedResults = await downloadChunks(response.data?.chunk_info, true);
+  if (chunkedResults) {
+    return chunkedResults;
+  }
+  return Array.isArray(response.results) ? response.results : extractItemsFromResponse(response);
+}
+
 /**
  * Extract race results from various response formats
  * Based on the reference implementation's extraction logic
@@ -604,11 +704,57 @@ export async function fetchSubsessionResults(
 ): Promise<RaceResultsResponse> {
   return makeAuthenticatedRequest<RaceResultsResponse>(
     userId,
-    '/data/results/get',
+    '/results/get',
     { subsession_id: subsessionId }
   );
 }
 
+/**
+ * Fetch a driver's laps in a session of a subsession (the main event by default).
+ * Chunk failures throw so a race is never stored with part of its laps.
+ */
+export async function fetchLapData(
+  userId: string,
+  subsessionId: number,
+  customerId: number,
+  simsessionNumber: number = 0
+): Promise<LapDataResponse> {
+  const response = await makeAuthenticatedRequest<any>(
+    userId,
+    '/results/lap_data',
+    {
+      subsession_id: subsessionId,
+      simsession_number: simsessionNumber,
+      cust_id: customerId,
+    }
+  );
+
+  const laps = await downloadChunks(response?.chunk_info, true);
+  return { ...response, laps: laps ?? [] };
+}
+
+/**
+ * Fetch the event log of a session of a subsession (the main event by default):
+ * incidents, pit stops and other events for every driver. Chunk failures throw so a
+ * race is never stored with part of its events.
+ */
+export async function fetchEventLog(
+  userId: string,
+  subsessionId: number,
+  simsessionNumber: number = 0
+): Promise<EventLogRow[]> {
+  const response = await makeAuthenticatedRequest<any>(
+    userId,
+    '/results/event_log',
+    {
+      subsession_id: subsessionId,
+      simsession_number: simsessionNumber,
+    }
+  );
+
+  return (await downloadChunks(response?.chunk_info, true)) ?? [];
+}
+
 /**
  * Fetch current season schedule
  */
@@ -630,28 +776,37 @@ export async function fetchSeasonSchedule(
 }
 
 /**
- * Get current iRacing season info
+ * Fetch the date the member joined iRacing (from /member/info)
  */
-export function getCurrentSeason(): { year: number; quarter: number } {
-  const now = new Date();
-  const year = now.getFullYear();
-  
-  // iRacing seasons roughly align with calendar quarters
-  // Q1: Dec-Feb, Q2: Mar-May, Q3: Jun-Aug, Q4: Sep-Nov
-  const month = now.getMonth() + 1; // 1-based month
-  let quarter: number;
-  
-  if (month >= 12 || month <= 2) {
-    quarter = 1;
-  } else if (month >= 3 && month <= 5) {
-    quarter = 2;
-  } else if (month >= 6 && month <= 8) {
-    quarter = 3;
-  } else {
-    quarter = 4;
-  }
-  
-  return { year, quarter };
+export async function fetchMemberSince(userId: string): Promise<Date | null> {
+  const info = await makeAuthenticatedRequest<any>(userId, '/member/info', {});
+  const memberSince = info?.member_since ? new Date(info.member_since) : null;
+
+  return memberSince && !isNaN(memberSince.getTime()) ? memberSince : null;
+}
+
+/**
+ * Fetch the member's daily rating chart for a license category (from /member/chart_data)
+ */
+export async function fetchMemberChartData(
+  userId: string,
+  categoryId: number,
+  chartType: number
+): Promise<ChartDataResponse> {
+  return makeAuthenticatedRequest<ChartDataResponse>(userId, '/member/chart_data', {
+    category_id: categoryId,
+    chart_type: chartType,
+  });
+}
+
+/**
+ * Get current iRacing season info (optionally for a specific date).
+ * Uses the season calendar loaded in memory - call loadSeasonCalendars() first
+ * (or use resolveSeason) when exact boundaries matter.
+ */
+export function getCurrentSeason(now: Date = new Date()): { year: number; quarter: number } {
+  const { seasonYear, seasonQuarter } = getSeasonAt(now);
+  return { year: seasonYear, quarter: seasonQuarter };
 }
 
 /**
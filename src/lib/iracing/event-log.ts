@@ -0,0 +1,141 @@
+/**
+ * Event Log
+ *
+ * Where incidents happen: lap 1 pileups or late-race mistakes. The event log of each
+ * synced race (/results/event_log) lists every driver's incidents by lap; they are
+ * stored in incident_events, classified by race phase and type:
+ * - start: the lap to the start line and lap 1
+ * - final: the last FINAL_PHASE_SHARE of the race laps (at least one)
+ * - mid: everything in between
+ *
+ * Runs as event_log jobs, queued after every race data sync. Each race takes one paced
+ * request, so the most recent races without an event log are imported first.
+ * incident-timeline.ts reads them back.
+ */
+
+import { db, incidentEvents } from '../db';
+import { fetchEventLog, type EventLogRow } from './client';
+import { importPendingRaces } from './race-imports';
+import type { IncidentPhase, IncidentType } from './incident-timeline';
+
+// Races imported per run; older races follow with the next syncs
+export const EVENT_LOG_RACES_PER_RUN = 25;
+
+// Share of the race laps, at the end, that counts as the final laps
+export const FINAL_PHASE_SHARE = 0.2;
+
+// Road course points, for events whose text does not state them
+const DEFAULT_INCIDENT_POINTS: Record<IncidentType, number> = {
+  car_contact: 4,
+  contact: 0,
+  lost_control: 2,
+  off_track: 1,
+  other: 0,
+};
+
+export type IncidentEventRecord = typeof incidentEvents.$inferInsert;
+
+export interface EventLogImport {
+  racesChecked: number;
+  racesImported: number;
+  incidentsStored: number;
+  errors: string[];
+}
+
+/**
+ * Incident type and points of an event log entry, or null for events that are not
+ * incidents (pit stops, joins, flags...)
+ */
+export function parseIncident(row: Pick<EventLogRow, 'description' | 'message'>): { type: IncidentType; points: number } | null {
+  const text = `${row.description ?? ''} ${row.message ?? ''}`;
+  const stated = text.match(/(\d+)x/i);
+
+  let type: IncidentType | null = null;
+  if (/car contact/i.test(text)) type = 'car_contact';
+  else if (/lost control|loss of control/i.test(text)) type = 'lost_control';
+  else if (/off track/i.test(text)) type = 'off_track';
+  else if (/contact/i.test(text)) type = 'contact';
+  else if (stated) type = 'other';
+
+  if (!type) {
+    return null;
+  }
+  return { type, points: stated ? parseInt(stated[1], 10) : DEFAULT_INCIDENT_POINTS[type] };
+}
+
+/**
+ * Race phase of a lap, in a race of totalLaps laps
+ */
+export function classifyPhase(lapNumber: number, totalLaps: number): IncidentPhase {
+  if (lapNumber <= 1) {
+    return 'start';
+  }
+  const finalLaps = Math.max(1, Math.round(totalLaps * FINAL_PHASE_SHARE));
+  return lapNumber > totalLaps - finalLaps ? 'final' : 'mid';
+}
+
+/**
+ * Incident records of an event log. Race length comes from the laps the winner
+ * completed when known, otherwise from the last lap in the log.
+ */
+export function buildIncidentRecords(
+  userId: string,
+  subsessionId: number,
+  rows: EventLogRow[],
+  raceLaps?: number | null
+): IncidentEventRecord[] {
+  const totalLaps = raceLaps && raceLaps > 0
+    ? raceLaps
+    : Math.max(1, ...rows.map(row => row.lap_number || 0));
+
+  return rows.flatMap(row => {
+    const incident = parseIncident(row);
+    if (!incident || typeof row.event_seq !== 'number') {
+      return [];
+    }
+    const lapNumber = Math.max(0, row.lap_number || 0);
+    return [{
+      userId,
+      subsessionId,
+      eventSeq: row.event_seq,
+      custId: row.cust_id ?? null,
+      lapNumber,
+      sessionTime: typeof row.session_time === 'number' ? Math.round(row.session_time) : null,
+      incidentPoints: incident.points,
+      incidentType: incident.type,
+      phase: classifyPhase(lapNumber, totalLaps),
+      description: (row.description || row.message || '').slice(0, 255) || null,
+    }];
+  });
+}
+
+/**
+ * Import the event logs of the user's most recent races without one
+ */
+export async function importEventLogs(
+  userId: string,
+  options: {
+    races?: number;
+    requestIntervalMs?: number;
+    onProgress?: (progress: EventLogImport) => void | Promise<void>;
+    now?: Date;
+  } = {}
+): Promise<EventLogImport> {
+  const progress: EventLogImport = { racesChecked: 0, racesImported: 0, incidentsStored: 0, errors: [] };
+
+  return importPendingRaces(userId, 'eventLogImportedAt', async (race, paced) => {
+    const rows = await paced(() => fetchEventLog(userId, race.subsessionId));
+    const raw = (race.rawData || {}) as Record<string, unknown>;
+    const records = buildIncidentRecords(userId, race.subsessionId, rows, Number(raw.event_laps_complete) || null);
+
+    if (records.length > 0) {
+      const inserted = await db.insert(incidentEvents)
+        .values(records)
+        .onConflictDoNothing()
+        .returning({ id: incidentEvents.id });
+      progress.incidentsStored += inserted.length;
+    }
+
+    return {};
+  }, { ...options, races: options.races ?? EVENT_LOG_RACES_PER_RUN, progress, label: 'the event log' });
+}
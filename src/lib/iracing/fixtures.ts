@@ -0,0 +1,111 @@
+/**
+ * iRacing Data API Fixtures
+ *
+ * Shared helpers for recording and replaying iRacing Data API responses.
+ * Used by the recording transport (record mode) and by the local fixture
+ * server in scripts/iracing-fixture-server.ts (fixture mode).
+ *
+ * Fixture layout (relative to IRACING_FIXTURES_DIR, default `fixtures/iracing`):
+ * - `<endpoint>/<sorted query>.json` - resolved payload for a specific request
+ * - `<endpoint>/default.json`         - payload served when no exact match exists
+ * - `chunks/<file name>`              - chunk files referenced by `chunk_info`
+ */
+
+/**
+ * Placeholder written into recorded payloads in place of chunk download URLs.
+ * The fixture server substitutes its own base URL when serving the payload.
+ */
+export const FIXTURE_BASE_URL_PLACEHOLDER = '{{FIXTURE_BASE_URL}}';
+
+/**
+ * Default directory (relative to the working directory) holding fixture files
+ */
+export const DEFAULT_FIXTURES_DIR = 'fixtures/iracing';
+
+/**
+ * Default address of the local fixture server
+ */
+export const DEFAULT_FIXTURE_SERVER_URL = 'http://127.0.0.1:4010';
+
+/**
+ * Get the configured fixtures directory
+ */
+export function getFixturesDir(): string {
+  return process.env.IRACING_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+/**
+ * Normalize an endpoint path (e.g. `/results/search_series/`) to `results/search_series`
+ */
+export function normalizeEndpoint(endpoint: string): string {
+  return endpoint.replace(/^\/+|\/+$/g, '').replace(/^data\//, '');
+}
+
+/**
+ * Build a deterministic query string from request parameters.
+ * Parameters are sorted by name so the same request always maps to the same fixture.
+ */
+export function buildFixtureQuery(params: URLSearchParams | Record<string, string | number | boolean>): string {
+  const entries: Array<[string, string]> = params instanceof URLSearchParams
+    ? Array.from(params.entries())
+    : Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => [key, value.toString()]);
+
+  return entries
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+/**
+ * Get the fixture file path (relative to the fixtures dir) for a request
+ */
+export function fixtureKeyFor(
+  endpoint: string,
+  params: URLSearchParams | Record<string, string | number | boolean> = {}
+): string {
+  const query = buildFixtureQuery(params);
+  return `${normalizeEndpoint(endpoint)}/${query || 'default'}.json`;
+}
+
+/**
+ * Get the fallback fixture path for an endpoint
+ */
+export function defaultFixtureKeyFor(endpoint: string): string {
+  return `${normalizeEndpoint(endpoint)}/default.json`;
+}
+
+/**
+ * Get the fixture path for a chunk file
+ */
+export function chunkFixtureKeyFor(fileName: string): string {
+  const baseName = fileName.split('?')[0].split('/').pop() || fileName;
+  return `chunks/${baseName}`;
+}
+
+/**
+ * Replace live chunk download URLs in a payload with the fixture placeholder.
+ * Returns the rewritten payload and the original base URL (if any) so the
+ * recorder can map subsequent chunk downloads to fixture files.
+ */
+export function rewriteChunkInfoForFixture(payload: any): { payload: any; chunkBaseUrl: string | null } {
+  const chunkInfo = payload?.data?.chunk_info ?? payload?.chunk_info;
+  if (!chunkInfo || typeof chunkInfo.base_download_url !== 'string') {
+    return { payload, chunkBaseUrl: null };
+  }
+
+  const chunkBaseUrl = chunkInfo.base_download_url;
+  const rewritten = JSON.parse(JSON.stringify(payload));
+  const target = rewritten.data?.chunk_info ?? rewritten.chunk_info;
+  target.base_download_url = `${FIXTURE_BASE_URL_PLACEHOLDER}/chunks/`;
+
+  return { payload: rewritten, chunkBaseUrl };
+}
+
+/**
+ * Substitute the fixture placeholder with the serving base URL
+ */
+export function resolveFixturePlaceholders(body: string, baseUrl: string): string {
+  return body.split(FIXTURE_BASE_URL_PLACEHOLDER).join(baseUrl.replace(/\/+$/, ''));
+}
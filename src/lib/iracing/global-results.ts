@@ -0,0 +1,236 @@
+/**
+ * Global Results Collector
+ *
+ * Series-wide statistics (incident rates, finish spread, SOF variability, attrition,
+ * race length) come from public results rather than only our own users' races:
+ * - For each series/track scheduled in a race week, the week's official race
+ *   sessions are listed with fetchSeriesSessions
+ * - A sample of them, spread across the week, is fetched with fetchSubsessionResults
+ *   and every driver's race result stored in global_race_results
+ * - Requests are paced to stay under the per-user rate limit, so a full week takes
+ *   a while; subsessions already collected are skipped when a week is collected again
+ *
+ * Runs as global_results jobs, queued by the schedule refresh once a race week ends.
+ * Statistics are read back with getGlobalSeriesTrackStats / getGlobalResultsWeekStats.
+ */
+
+import { db, globalRaceResults, scheduleEntries } from '../db';
+import { and, eq, lt } from 'drizzle-orm';
+import { fetchSeriesSessions, fetchSubsessionResults } from './client';
+import { createPacer } from './race-imports';
+import { findRaceSession } from './sync';
+
+// Sessions sampled per series/track and race week
+export const GLOBAL_RESULTS_SESSIONS_PER_WEEK = 4;
+
+// Collected results older than this are pruned; a track usually returns within a year
+export const GLOBAL_RESULTS_RETENTION_DAYS = 365;
+
+export interface GlobalResultsWeek {
+  seasonYear: number;
+  seasonQuarter: number;
+  raceWeekNum: number;
+}
+
+export interface GlobalResultsProgress extends GlobalResultsWeek {
+  seriesTotal: number;
+  seriesChecked: number;
+  sessionsCollected: number;
+  resultsStored: number;
+  errors: string[];
+}
+
+export interface GlobalResultsCollection extends GlobalResultsProgress {
+  /** False when some series failed or collection stopped early; the week is collected again later */
+  complete: boolean;
+  resultsPruned: number;
+}
+
+export interface SeriesSession {
+  subsessionId: number;
+  startTime: Date;
+}
+
+/**
+ * Pick up to `count` sessions spread evenly across the week, so the sample covers
+ * busy and quiet time slots. Deterministic, so a rerun picks the same sessions.
+ */
+export function sampleSessions<T extends SeriesSession>(sessions: T[], count: number): T[] {
+  const sorted = [...sessions].sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || a.subsessionId - b.subsessionId);
+  if (sorted.length <= count) {
+    return sorted;
+  }
+  return Array.from({ length: count }, (_, i) => sorted[Math.floor(((i + 0.5) * sorted.length) / count)]);
+}
+
+/**
+ * Race length in minutes from the winner's laps and the average lap time
+ * (event_average_lap is in 10,000ths of a second)
+ */
+function getRaceLengthMinutes(subsession: any): number | null {
+  const laps = subsession.event_laps_complete;
+  const averageLap = subsession.event_average_lap;
+  if (!(laps > 0) || !(averageLap > 0)) {
+    return null;
+  }
+  return Math.round((laps * averageLap) / 10000 / 60);
+}
+
+/**
+ * Map a /results/get payload to one global_race_results record per driver (or team)
+ * in the race session. Returns no records without a race session.
+ */
+export function buildGlobalResultRecords(payload: any) {
+  const subsession = payload?.results ?? payload;
+  const raceSession = findRaceSession(subsession);
+  const trackId = subsession?.track?.track_id ?? subsession?.track_id;
+  if (!raceSession || !subsession.subsession_id || !subsession.series_id || !trackId || !subsession.start_time) {
+    return [];
+  }
+
+  const session = {
+    subsessionId: subsession.subsession_id,
+    seriesId: subsession.series_id,
+    trackId,
+    seasonYear: subsession.season_year,
+    seasonQuarter: subsession.season_quarter,
+    raceWeekNum: subsession.race_week_num,
+    startTime: new Date(subsession.start_time),
+    strengthOfField: subsession.event_strength_of_field || null,
+    fieldSize: raceSession.results.length,
+    raceLengthMinutes: getRaceLengthMinutes(subsession),
+  };
+
+  return raceSession.results
+    .filter((result: any) => typeof result.finish_position === 'number')
+    .map((result: any) => ({
+      ...session,
+      custId: result.cust_id ?? null,
+      carClassId: result.car_class_id ?? null,
+      startingPosition: typeof result.starting_position === 'number' && result.starting_position >= 0
+        ? result.starting_position
+        : null,
+      finishingPosition: result.finish_position,
+      incidents: result.incidents ?? null,
+      lapsComplete: result.laps_complete ?? null,
+      reasonOut: result.reason_out || null,
+    }));
+}
+
+/**
+ * Subsessions already collected for a series/track in a race week
+ */
+async function getCollectedSubsessionIds(seriesId: number, trackId: number, week: GlobalResultsWeek): Promise<Set<number>> {
+  const rows = await db
+    .selectDistinct({ subsessionId: globalRaceResults.subsessionId })
+    .from(globalRaceResults)
+    .where(
+      and(
+        eq(globalRaceResults.seriesId, seriesId),
+        eq(globalRaceResults.trackId, trackId),
+        eq(globalRaceResults.seasonYear, week.seasonYear),
+        eq(globalRaceResults.seasonQuarter, week.seasonQuarter),
+        eq(globalRaceResults.raceWeekNum, week.raceWeekNum)
+      )
+    );
+  return new Set(rows.map(row => row.subsessionId));
+}
+
+/**
+ * Collect public results for every series/track scheduled in a race week, using the
+ * given user's iRacing credentials. A failing series is recorded and skipped; hitting
+ * the rate limit stops the run, leaving the rest for the next collection of the week.
+ */
+export async function collectGlobalResults(
+  userId: string,
+  week: GlobalResultsWeek,
+  options: {
+    sessionsPerWeek?: number;
+    requestIntervalMs?: number;
+    onProgress?: (progress: GlobalResultsProgress) => void | Promise<void>;
+    now?: Date;
+  } = {}
+): Promise<GlobalResultsCollection> {
+  const sessionsPerWeek = options.sessionsPerWeek ?? GLOBAL_RESULTS_SESSIONS_PER_WEEK;
+
+  const entries = await db
+    .select({ seriesId: scheduleEntries.seriesId, trackId: scheduleEntries.trackId })
+    .from(scheduleEntries)
+    .where(
+      and(
+        eq(scheduleEntries.seasonYear, week.seasonYear),
+        eq(scheduleEntries.seasonQuarter, week.seasonQuarter),
+        eq(scheduleEntries.raceWeekNum, week.raceWeekNum)
+      )
+    );
+
+  const progress: GlobalResultsProgress = {
+    ...week,
+    seriesTotal: entries.length,
+    seriesChecked: 0,
+    sessionsCollected: 0,
+    resultsStored: 0,
+    errors: [],
+  };
+
+  const paced = createPacer(options.requestIntervalMs);
+
+  let stopped = false;
+  for (const entry of entries) {
+    try {
+      const collected = await getCollectedSubsessionIds(entry.seriesId, entry.trackId, week);
+      if (collected.size < sessionsPerWeek) {
+        const rows = await paced(() =>
+          fetchSeriesSessions(userId, entry.seriesId, week.seasonYear, week.seasonQuarter, week.raceWeekNum)
+        );
+        const sessions: SeriesSession[] = rows
+          .filter(row => row?.subsession_id && row.start_time && (row.track?.track_id ?? row.track_id) === entry.trackId)
+          .map(row => ({ subsessionId: row.subsession_id, startTime: new Date(row.start_time) }));
+
+        const toCollect = sampleSessions(sessions, sessionsPerWeek)
+          .filter(session => !collected.has(session.subsessionId));
+        for (const session of toCollect) {
+          const records = buildGlobalResultRecords(
+            await paced(() => fetchSubsessionResults(userId, session.subsessionId))
+          );
+          if (records.length > 0) {
+            await db.insert(globalRaceResults).values(records).onConflictDoNothing();
+            progress.sessionsCollected++;
+            progress.resultsStored += records.length;
+          }
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      progress.errors.push(`Series ${entry.seriesId} track ${entry.trackId}: ${message}`);
+      if (message.includes('Rate limit exceeded')) {
+        stopped = true;
+        break;
+      }
+      console.warn(`Failed to collect results for series ${entry.seriesId}, track ${entry.trackId}:`, error);
+    }
+
+    progress.seriesChecked++;
+    await options.onProgress?.({ ...progress, errors: [...progress.errors] });
+  }
+
+  const resultsPruned = await pruneGlobalResults(options.now);
+
+  return {
+    ...progress,
+    complete: !stopped && progress.errors.length === 0,
+    resultsPruned,
+  };
+}
+
+/**
+ * Delete collected results older than GLOBAL_RESULTS_RETENTION_DAYS
+ */
+export async function pruneGlobalResults(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - GLOBAL_RESULTS_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const result = await db
+    .delete(globalRaceResults)
+    .where(lt(globalRaceResults.startTime, cutoff));
+
+  return result.rowCount || 0;
+}
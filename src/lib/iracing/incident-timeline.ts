@@ -0,0 +1,197 @@
+/**
+ * Incident Timeline
+ *
+ * Reads back the incidents imported from race event logs (see event-log.ts): the
+ * user's incidents by race phase, type and series, alongside how chaotic the field's
+ * starts were. Scoring uses the start figures to raise expected incidents in series
+ * with chaotic starts for drivers whose incidents cluster on lap 1.
+ */
+
+import { and, eq, gte, inArray, isNotNull } from 'drizzle-orm';
+import { db, incidentEvents, raceResults, users } from '../db';
+import { SessionType } from '../types/session';
+import type { SeriesStartStats, StartIncidentStats } from '../recommendations/types';
+
+export type IncidentPhase = 'start' | 'mid' | 'final';
+export type IncidentType = 'car_contact' | 'contact' | 'lost_control' | 'off_track' | 'other';
+
+export const INCIDENT_PHASES: IncidentPhase[] = ['start', 'mid', 'final'];
+export const INCIDENT_TYPES: IncidentType[] = ['car_contact', 'contact', 'lost_control', 'off_track', 'other'];
+
+export interface IncidentBreakdown {
+  incidents: number;
+  points: number;
+}
+
+export interface IncidentTimelineSeries extends SeriesStartStats {
+  seriesName: string;
+  startPointsPerRace: number; // The user's start incident points per race
+  startShare: number | null;
+}
+
+export interface IncidentTimeline extends StartIncidentStats {
+  phases: Record<IncidentPhase, IncidentBreakdown>;
+  types: Record<IncidentType, IncidentBreakdown>;
+  series: IncidentTimelineSeries[]; // Most races first
+}
+
+function emptyBreakdown<K extends string>(keys: K[]): Record<K, IncidentBreakdown> {
+  return Object.fromEntries(keys.map(key => [key, { incidents: 0, points: 0 }])) as Record<K, IncidentBreakdown>;
+}
+
+function share(part: number, total: number): number | null {
+  return total > 0 ? part / total : null;
+}
+
+/**
+ * Summarize the incidents of races with an event log: the user's incidents by phase
+ * and type, and the field's start incidents per driver overall and per series
+ */
+export function buildIncidentTimeline(
+  events: Array<{ subsessionId: number; custId: number | null; incidentPoints: number; incidentType: string; phase: string }>,
+  races: Array<{ subsessionId: number; seriesId: number; seriesName: string; fieldSize: number | null }>,
+  customerId: number
+): IncidentTimeline {
+  const phases = emptyBreakdown(INCIDENT_PHASES);
+  const types = emptyBreakdown(INCIDENT_TYPES);
+
+  const byRace = new Map(races.map(race => [race.subsessionId, {
+    userPoints: 0,
+    userStartPoints: 0,
+    fieldPoints: 0,
+    fieldStartPoints: 0,
+  }]));
+
+  for (const event of events) {
+    const race = byRace.get(event.subsessionId);
+    if (!race) {
+      continue;
+    }
+    const isStart = event.phase === 'start';
+
+    if (event.custId === customerId) {
+      race.userPoints += event.incidentPoints;
+      if (isStart) race.userStartPoints += event.incidentPoints;
+
+      const phase = phases[event.phase as IncidentPhase];
+      const type = types[event.incidentType as IncidentType] ?? types.other;
+      if (phase) {
+        phase.incidents++;
+        phase.points += event.incidentPoints;
+      }
+      type.incidents++;
+      type.points += event.incidentPoints;
+    } else {
+      race.fieldPoints += event.incidentPoints;
+      if (isStart) race.fieldStartPoints += event.incidentPoints;
+    }
+  }
+
+  const fieldStartPerDriver = (subsessionId: number, fieldSize: number | null) =>
+    byRace.get(subsessionId)!.fieldStartPoints / Math.max(1, (fieldSize ?? 1) - 1);
+
+  const seriesMap = new Map<number, IncidentTimelineSeries & { userPoints: number; userStartPoints: number; fieldStart: number }>();
+  for (const race of races) {
+    const totals = byRace.get(race.subsessionId)!;
+    let series = seriesMap.get(race.seriesId);
+    if (!series) {
+      series = {
+        seriesId: race.seriesId,
+        seriesName: race.seriesName,
+        raceCount: 0,
+        fieldStartIncidentsPerDriver: 0,
+        startPointsPerRace: 0,
+        startShare: null,
+        userPoints: 0,
+        userStartPoints: 0,
+        fieldStart: 0,
+      };
+      seriesMap.set(race.seriesId, series);
+    }
+    series.raceCount++;
+    series.userPoints += totals.userPoints;
+    series.userStartPoints += totals.userStartPoints;
+    series.fieldStart += fieldStartPerDriver(race.subsessionId, race.fieldSize);
+  }
+
+  const totals = [...byRace.values()].reduce((sum, race) => ({
+    userPoints: sum.userPoints + race.userPoints,
+    userStartPoints: sum.userStartPoints + race.userStartPoints,
+    fieldPoints: sum.fieldPoints + race.fieldPoints,
+    fieldStartPoints: sum.fieldStartPoints + race.fieldStartPoints,
+  }), { userPoints: 0, userStartPoints: 0, fieldPoints: 0, fieldStartPoints: 0 });
+
+  const fieldStart = races.reduce((sum, race) => sum + fieldStartPerDriver(race.subsessionId, race.fieldSize), 0);
+
+  return {
+    raceCount: races.length,
+    startShare: share(totals.userStartPoints, totals.userPoints),
+    fieldStartShare: share(totals.fieldStartPoints, totals.fieldPoints),
+    fieldStartIncidentsPerDriver: races.length > 0 ? fieldStart / races.length : 0,
+    phases,
+    types,
+    series: [...seriesMap.values()]
+      .map(({ userPoints, userStartPoints, fieldStart: seriesFieldStart, ...series }) => ({
+        ...series,
+        fieldStartIncidentsPerDriver: seriesFieldStart / series.raceCount,
+        startPointsPerRace: userStartPoints / series.raceCount,
+        startShare: share(userStartPoints, userPoints),
+      }))
+      .sort((a, b) => b.raceCount - a.raceCount || a.seriesId - b.seriesId),
+  };
+}
+
+/**
+ * The user's incident timeline over races with an event log
+ */
+export async function getIncidentTimeline(
+  userId: string,
+  options: { periodMonths?: number } = {} // No period: all races with an event log
+): Promise<IncidentTimeline> {
+  const [user] = await db
+    .select({ customerId: users.iracingCustomerId })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const conditions = [
+    eq(raceResults.userId, userId),
+    eq(raceResults.sessionType, SessionType.RACE),
+    isNotNull(raceResults.eventLogImportedAt),
+  ];
+  if (options.periodMonths) {
+    const startDate = new Date();
+    startDate.setMonth(startDate.getMonth() - options.periodMonths);
+    conditions.push(gte(raceResults.raceDate, startDate));
+  }
+
+  const races = await db
+    .select({
+      subsessionId: raceResults.subsessionId,
+      seriesId: raceResults.seriesId,
+      seriesName: raceResults.seriesName,
+      fieldSize: raceResults.fieldSize,
+    })
+    .from(raceResults)
+    .where(and(...conditions));
+
+  const events = races.length > 0
+    ? await db
+      .select({
+        subsessionId: incidentEvents.subsessionId,
+        custId: incidentEvents.custId,
+        incidentPoints: incidentEvents.incidentPoints,
+        incidentType: incidentEvents.incidentType,
+        phase: incidentEvents.phase,
+      })
+      .from(incidentEvents)
+      .where(
+        and(
+          eq(incidentEvents.userId, userId),
+          inArray(incidentEvents.subsessionId, races.map(race => race.subsessionId))
+        )
+      )
+    : [];
+
+  return buildIncidentTimeline(events, races, user?.customerId ?? 0);
+}
@@ -8,14 +8,30 @@
 export {
   fetchMemberRecentRaces,
   fetchSubsessionResults,
+  fetchSeriesSessions,
   fetchSeasonSchedule,
+  fetchMemberSince,
+  fetchMemberChartData,
+  fetchLapData,
   getCurrentSeason,
   clearRateLimit,
   type RaceResultsResponse,
   type ScheduleResponse,
   type SearchSeriesResponse,
+  type ChartDataResponse,
+  type LapDataResponse,
+  type LapDataRow,
 } from './client';
 
+// Transport exports
+export {
+  getIRacingTransport,
+  setIRacingTransport,
+  createTransport,
+  type IRacingTransport,
+  type IRacingTransportMode,
+} from './transport';
+
 // Session type exports
 export {
   normalizeSessionType,
@@ -32,8 +48,15 @@ export {
   syncUserRaceData,
   getUserSyncStatus,
   needsSync,
+  getUserSyncCheckpoints,
+  resetSyncCheckpoint,
+  getSeasonsBetween,
+  getPreviousSeason,
   type SyncProgress,
   type SyncResult,
+  type SeasonRef,
+  type SeasonSyncProgress,
+  type SeasonSyncStatus,
 } from './sync';
 
 // Schedule exports
@@ -44,6 +67,121 @@ export {
   getSeriesSchedule,
   getTrackSchedule,
   clearOldScheduleData,
+  syncCarLookups,
+  syncTrackLookups,
   type ScheduleEntry,
   type ScheduleCacheStatus,
-} from './schedule';
\ No newline at end of file
+} from './schedule';
+
+// Car lookup exports
+export {
+  saveCarLookups,
+  carLookupsNeedSync,
+  getCarIdsByClass,
+  getCarNames,
+} from './cars';
+
+// Track lookup exports
+export {
+  saveTrackLookups,
+  trackLookupsNeedSync,
+  getTrackProfiles,
+} from './tracks';
+
+// Global results exports
+export {
+  collectGlobalResults,
+  buildGlobalResultRecords,
+  sampleSessions,
+  pruneGlobalResults,
+  GLOBAL_RESULTS_SESSIONS_PER_WEEK,
+  type GlobalResultsWeek,
+  type GlobalResultsProgress,
+  type GlobalResultsCollection,
+} from './global-results';
+
+// Rating history exports
+export {
+  importRatingHistory,
+  snapshotLicenseRatings,
+  getRatingHistory,
+  buildRatingHistory,
+  parseChartData,
+  CHART_CATEGORIES,
+  type RatingPoint,
+  type RatingRaceAnnotation,
+  type CategoryRatingHistory,
+  type RatingHistoryImport,
+} from './rating-history';
+
+// Season calendar exports
+export {
+  getSeasonAt,
+  resolveSeasonAt,
+  resolveSeason,
+  getSeasonCalendar,
+  getWeekDates,
+  getNextSeason,
+  getLastWeekRollover,
+  buildSeasonCalendar,
+  loadSeasonCalendars,
+  saveSeasonCalendar,
+  type SeasonCalendar,
+  type SeasonWeek,
+} from './season-calendar';
+
+// Lap data exports
+export {
+  importLapData,
+  summarizeLaps,
+  buildLapRecords,
+  getFieldAverageLaps,
+  getLapDataRaceLimit,
+  type LapSummary,
+  type LapDataImport,
+} from './lap-data';
+
+// Event log exports
+export {
+  importEventLogs,
+  parseIncident,
+  classifyPhase,
+  buildIncidentRecords,
+  type EventLogImport,
+} from './event-log';
+
+// Incident timeline exports
+export {
+  buildIncidentTimeline,
+  getIncidentTimeline,
+  INCIDENT_PHASES,
+  INCIDENT_TYPES,
+  type IncidentPhase,
+  type IncidentType,
+  type IncidentBreakdown,
+  type IncidentTimeline,
+  type IncidentTimelineSeries,
+} from './incident-timeline';
+
+// Qualifying exports
+export {
+  importQualifying,
+  extractQualifying,
+  toQualifyingFields,
+  getSubsessionFields,
+  type RaceQualifying,
+  type QualifyingImport,
+} from './qualifying';
+
+// Race import exports
+export {
+  importPendingRaces,
+  createPacer,
+  calculatePacePercentile,
+  IRACING_REQUEST_INTERVAL_MS,
+  MIN_PACE_FIELD_SIZE,
+  type Paced,
+  type PendingRace,
+  type RaceImportColumn,
+  type RaceImportProgress,
+} from './race-imports';
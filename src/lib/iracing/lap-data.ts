@@ -0,0 +1,167 @@
+/**
+ * Lap Data
+ *
+ * race_results only holds positions and incidents. When enabled (IRACING_LAP_DATA_RACES),
+ * the laps of the user's recent races are imported from /results/lap_data into race_laps:
+ * - Each race gets its average, best and clean average lap (laps without incidents or
+ *   lap events such as pitting or invalidation)
+ * - The race's pace percentile compares the average lap with the average laps of the
+ *   rest of the car class field, from the subsession results. Both include incident and
+ *   pit laps; the field has no clean averages without lap data for every driver.
+ *
+ * Runs as lap_data jobs, queued after every race data sync. Each race takes two paced
+ * requests, so only the most recent races without lap data are imported per run. The
+ * subsession results also give the race's qualifying and class field size (qualifying.ts),
+ * stored with the laps.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db, raceLaps, users } from '../db';
+import { fetchLapData, fetchSubsessionResults, type LapDataRow } from './client';
+import { calculatePacePercentile, importPendingRaces } from './race-imports';
+import { getSubsessionFields } from './qualifying';
+import { findRaceSession } from './sync';
+
+// Field entries need this share of the class leader's laps to count toward the pace
+// distribution, so early retirements with a few fast laps are left out
+export const FIELD_MIN_LAPS_SHARE = 0.5;
+
+export interface LapSummary {
+  averageLapTime: number | null;
+  bestLapTime: number | null;
+  cleanAverageLapTime: number | null;
+}
+
+export interface LapDataImport {
+  racesChecked: number;
+  racesImported: number;
+  lapsStored: number;
+  errors: string[];
+}
+
+/**
+ * Recent races per sync to import lap data for, from IRACING_LAP_DATA_RACES.
+ * 0 (the default) leaves lap data off.
+ */
+export function getLapDataRaceLimit(): number {
+  const configured = parseInt(process.env.IRACING_LAP_DATA_RACES || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : 0;
+}
+
+function hasTime(lap: LapDataRow): boolean {
+  return lap.lap_number > 0 && lap.lap_time > 0;
+}
+
+function isCleanLap(lap: LapDataRow): boolean {
+  return hasTime(lap) && !lap.incident && (lap.lap_events?.length ?? 0) === 0;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+/**
+ * Average, best and clean average lap time. The lap to the start line is left out.
+ */
+export function summarizeLaps(laps: LapDataRow[]): LapSummary {
+  const timed = laps.filter(hasTime).map(lap => lap.lap_time);
+  return {
+    averageLapTime: mean(timed),
+    bestLapTime: timed.length > 0 ? Math.min(...timed) : null,
+    cleanAverageLapTime: mean(laps.filter(isCleanLap).map(lap => lap.lap_time)),
+  };
+}
+
+export function buildLapRecords(userId: string, subsessionId: number, laps: LapDataRow[]) {
+  return laps
+    .filter(lap => typeof lap.lap_number === 'number')
+    .map(lap => ({
+      userId,
+      subsessionId,
+      lapNumber: lap.lap_number,
+      lapTime: lap.lap_time > 0 ? lap.lap_time : null,
+      incident: !!lap.incident,
+      lapEvents: lap.lap_events ?? [],
+      lapPosition: typeof lap.lap_position === 'number' && lap.lap_position > 0 ? lap.lap_position : null,
+    }));
+}
+
+/**
+ * Average laps of the other drivers in the car class who ran most of the race
+ * (average_lap is in 10,000ths of a second)
+ */
+export function getFieldAverageLaps(subsession: any, carClassId: number | null, customerId: number): number[] {
+  const raceSession = findRaceSession(subsession);
+  if (!raceSession) {
+    return [];
+  }
+
+  const classEntries = raceSession.results.filter((result: any) =>
+    carClassId === null || result.car_class_id === carClassId
+  );
+  const leaderLaps = Math.max(0, ...classEntries.map((result: any) => result.laps_complete ?? 0));
+
+  return classEntries
+    .filter((result: any) =>
+      result.cust_id !== customerId &&
+      result.average_lap > 0 &&
+      (result.laps_complete ?? 0) >= leaderLaps * FIELD_MIN_LAPS_SHARE
+    )
+    .map((result: any) => result.average_lap);
+}
+
+/**
+ * Import lap data for the user's most recent races that do not have it yet
+ */
+export async function importLapData(
+  userId: string,
+  options: {
+    races?: number; // Defaults to getLapDataRaceLimit()
+    requestIntervalMs?: number;
+    onProgress?: (progress: LapDataImport) => void | Promise<void>;
+    now?: Date;
+  } = {}
+): Promise<LapDataImport> {
+  const limit = options.races ?? getLapDataRaceLimit();
+  const progress: LapDataImport = { racesChecked: 0, racesImported: 0, lapsStored: 0, errors: [] };
+  if (limit <= 0) {
+    return progress;
+  }
+
+  const [user] = await db
+    .select({ customerId: users.iracingCustomerId })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  return importPendingRaces(userId, 'lapsImportedAt', async (race, paced) => {
+    const lapData = await paced(() => fetchLapData(userId, race.subsessionId, user.customerId));
+    const subsession = await paced(() => fetchSubsessionResults(userId, race.subsessionId));
+
+    const summary = summarizeLaps(lapData.laps);
+    const pacePercentile = calculatePacePercentile(
+      summary.averageLapTime,
+      getFieldAverageLaps(subsession, race.carClassId, user.customerId)
+    );
+
+    const records = buildLapRecords(userId, race.subsessionId, lapData.laps);
+    if (records.length > 0) {
+      const inserted = await db.insert(raceLaps)
+        .values(records)
+        .onConflictDoNothing()
+        .returning({ id: raceLaps.id });
+      progress.lapsStored += inserted.length;
+    }
+
+    // The subsession results also give qualifying, so the qualifying job skips this race
+    return {
+      ...summary,
+      pacePercentile: pacePercentile === null ? null : pacePercentile.toFixed(2),
+      ...getSubsessionFields(subsession, race.carClassId, user.customerId),
+      qualifyingImportedAt: options.now ?? new Date(),
+    };
+  }, { ...options, races: limit, progress, label: 'lap data' });
+}
@@ -0,0 +1,130 @@
+/**
+ * Qualifying
+ *
+ * race_results only has the grid slot, which does not say whether the driver qualified:
+ * drivers without a qualifying time are gridded behind the qualifiers. The subsession
+ * results (/results/get) of each race give every driver's qualifying lap, so for the
+ * user's races this stores:
+ * - qual_lap_time: the user's qualifying lap, null without one
+ * - pole_lap_time: the fastest qualifying lap in the user's car class
+ * - qualifying_percentile: percent of the class qualifiers with a slower lap
+ * - class_field_size: the drivers in the user's class, which the race history only
+ *   reports for single-class races
+ *
+ * The lap data import (lap-data.ts) already fetches these results and stores qualifying
+ * with the laps. Qualifying jobs, queued after every race data sync behind the lap_data
+ * job, cover the races left: each takes one paced request, so the most recent races are
+ * imported first. The analysis built on it lives in
+ * src/lib/recommendations/qualifying-analysis.ts.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db, users } from '../db';
+import { fetchSubsessionResults } from './client';
+import { countClassEntries, findRaceSession } from './sync';
+import { calculatePacePercentile, importPendingRaces, type RaceResultUpdate } from './race-imports';
+
+// Races imported per run; older races follow with the next syncs
+export const QUALIFYING_RACES_PER_RUN = 25;
+
+export interface RaceQualifying {
+  qualLapTime: number | null;
+  poleLapTime: number | null;
+  qualifyingPercentile: number | null;
+}
+
+export interface QualifyingImport {
+  racesChecked: number;
+  racesImported: number;
+  racesQualified: number;
+  errors: string[];
+}
+
+/**
+ * The user's qualifying lap, the class pole and the user's percentile among the other
+ * class qualifiers. All null when the race session or the user's entry is missing
+ * (team events list drivers under their team).
+ */
+export function extractQualifying(subsession: any, carClassId: number | null, customerId: number): RaceQualifying {
+  const none: RaceQualifying = { qualLapTime: null, poleLapTime: null, qualifyingPercentile: null };
+  const raceSession = findRaceSession(subsession);
+  if (!raceSession) {
+    return none;
+  }
+
+  const classEntries = raceSession.results.filter((result: any) =>
+    carClassId === null || result.car_class_id === carClassId
+  );
+  const entry = classEntries.find((result: any) => result.cust_id === customerId);
+  if (!entry) {
+    return none;
+  }
+
+  const qualifiers = classEntries.filter((result: any) => result.qual_lap_time > 0);
+  const qualLapTime = entry.qual_lap_time > 0 ? entry.qual_lap_time : null;
+
+  return {
+    qualLapTime,
+    poleLapTime: qualifiers.length > 0 ? Math.min(...qualifiers.map((result: any) => result.qual_lap_time)) : null,
+    qualifyingPercentile: calculatePacePercentile(
+      qualLapTime,
+      qualifiers.filter((result: any) => result !== entry).map((result: any) => result.qual_lap_time)
+    ),
+  };
+}
+
+/**
+ * race_results fields for a race's qualifying
+ */
+export function toQualifyingFields(qualifying: RaceQualifying): RaceResultUpdate {
+  return {
+    qualLapTime: qualifying.qualLapTime,
+    poleLapTime: qualifying.poleLapTime,
+    qualifyingPercentile: qualifying.qualifyingPercentile === null ? null : qualifying.qualifyingPercentile.toFixed(2),
+  };
+}
+
+/**
+ * race_results fields read from a race's subsession results: the qualifying and, when
+ * the class is found, the class field size
+ */
+export function getSubsessionFields(subsession: any, carClassId: number | null, customerId: number): RaceResultUpdate {
+  const classFieldSize = carClassId !== null ? countClassEntries(subsession, carClassId) : null;
+  return {
+    ...toQualifyingFields(extractQualifying(subsession, carClassId, customerId)),
+    ...(classFieldSize ? { classFieldSize } : {}),
+  };
+}
+
+/**
+ * Import qualifying for the user's most recent races without it
+ */
+export async function importQualifying(
+  userId: string,
+  options: {
+    races?: number;
+    requestIntervalMs?: number;
+    onProgress?: (progress: QualifyingImport) => void | Promise<void>;
+    now?: Date;
+  } = {}
+): Promise<QualifyingImport> {
+  const progress: QualifyingImport = { racesChecked: 0, racesImported: 0, racesQualified: 0, errors: [] };
+
+  const [user] = await db
+    .select({ customerId: users.iracingCustomerId })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  return importPendingRaces(userId, 'qualifyingImportedAt', async (race, paced) => {
+    const subsession = await paced(() => fetchSubsessionResults(userId, race.subsessionId));
+    const fields = getSubsessionFields(subsession, race.carClassId, user.customerId);
+    if (fields.qualLapTime != null) {
+      progress.racesQualified++;
+    }
+    return fields;
+  }, { ...options, races: options.races ?? QUALIFYING_RACES_PER_RUN, progress, label: 'qualifying' });
+}
@@ -0,0 +1,127 @@
+/**
+ * Race Imports
+ *
+ * Shared by the imports that fetch more than the race history from iRacing:
+ * - Request pacing, so paced imports stay under the client's per-user rate limit
+ * - The loop over the user's races still waiting for a per-race import (lap data,
+ *   event logs, qualifying), newest first, each marked by its own imported-at column
+ * - Percentiles of the user's lap times (average laps, qualifying laps) within the field
+ */
+
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { db, raceResults } from '../db';
+import { SessionType } from '../types/session';
+
+// Spacing between iRacing requests - the client allows 10 per user per minute
+export const IRACING_REQUEST_INTERVAL_MS = 6500;
+
+// Fewer comparable drivers than this leave the race without a pace percentile
+export const MIN_PACE_FIELD_SIZE = 3;
+
+export type Paced = <T>(request: () => Promise<T>) => Promise<T>;
+
+// race_results columns recording when a per-race import ran
+export type RaceImportColumn = 'lapsImportedAt' | 'eventLogImportedAt' | 'qualifyingImportedAt';
+
+export type PendingRace = Pick<typeof raceResults.$inferSelect, 'id' | 'subsessionId' | 'carClassId' | 'rawData'>;
+
+export type RaceResultUpdate = Partial<typeof raceResults.$inferInsert>;
+
+export interface RaceImportProgress {
+  racesChecked: number;
+  racesImported: number;
+  errors: string[];
+}
+
+/**
+ * Percent of the field with a slower lap time, ties counting half (0-100, higher is
+ * faster). Null when the field is too small to compare with.
+ */
+export function calculatePacePercentile(lapTime: number | null, fieldLapTimes: number[]): number | null {
+  if (!lapTime || fieldLapTimes.length < MIN_PACE_FIELD_SIZE) {
+    return null;
+  }
+
+  const slower = fieldLapTimes.filter(time => time > lapTime).length;
+  const tied = fieldLapTimes.filter(time => time === lapTime).length;
+  return Math.round(((slower + tied / 2) / fieldLapTimes.length) * 10000) / 100;
+}
+
+/**
+ * Run requests no closer together than requestIntervalMs
+ */
+export function createPacer(requestIntervalMs: number = IRACING_REQUEST_INTERVAL_MS): Paced {
+  let lastRequestAt = 0;
+  return async request => {
+    const wait = lastRequestAt + requestIntervalMs - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    lastRequestAt = Date.now();
+    return request();
+  };
+}
+
+/**
+ * Import the user's most recent races whose `column` is not set yet. `importRace` makes
+ * its requests through `paced` and returns the fields to store on the race, which is
+ * then marked as imported. A race that fails is recorded in `errors` and retried on the
+ * next run; hitting the rate limit stops the run.
+ */
+export async function importPendingRaces<P extends RaceImportProgress>(
+  userId: string,
+  column: RaceImportColumn,
+  importRace: (race: PendingRace, paced: Paced) => Promise<RaceResultUpdate>,
+  options: {
+    races: number;
+    progress: P;
+    label: string; // What is imported, for warnings ('lap data', 'qualifying'...)
+    requestIntervalMs?: number;
+    onProgress?: (progress: P) => void | Promise<void>;
+    now?: Date;
+  }
+): Promise<P> {
+  const { progress } = options;
+  const paced = createPacer(options.requestIntervalMs);
+
+  const pending = await db
+    .select({
+      id: raceResults.id,
+      subsessionId: raceResults.subsessionId,
+      carClassId: raceResults.carClassId,
+      rawData: raceResults.rawData,
+    })
+    .from(raceResults)
+    .where(
+      and(
+        eq(raceResults.userId, userId),
+        eq(raceResults.sessionType, SessionType.RACE),
+        isNull(raceResults[column])
+      )
+    )
+    .orderBy(desc(raceResults.raceDate))
+    .limit(options.races);
+
+  for (const race of pending) {
+    try {
+      const fields = await importRace(race, paced);
+      await db
+        .update(raceResults)
+        .set({ ...fields, [column]: options.now ?? new Date() })
+        .where(eq(raceResults.id, race.id));
+      progress.racesImported++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      progress.errors.push(`Subsession ${race.subsessionId}: ${message}`);
+      if (message.includes('Rate limit exceeded')) {
+        break;
+      }
+      console.warn(`Failed to import ${options.label} for subsession ${race.subsessionId}:`, error);
+    }
+
+    progress.racesChecked++;
+    await options.onProgress?.({ ...progress, errors: [...progress.errors] });
+  }
+
+  return progress;
+}
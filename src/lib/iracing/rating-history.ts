@@ -0,0 +1,308 @@
+/**
+ * Rating History
+ *
+ * license_classes only holds the current iRating and Safety Rating, overwritten on
+ * every profile refresh, so their history is kept in rating_history:
+ * - importRatingHistory pulls the daily iRating and License/SR charts from
+ *   /member/chart_data for each license category. It runs as a rating_history job,
+ *   queued after every race data sync, with requests paced under the rate limit
+ * - snapshotLicenseRatings records the current license values on every profile
+ *   refresh (syncUserLicenses), so history keeps growing between chart imports
+ *
+ * getRatingHistory reads it back per category, annotated with the races that moved
+ * the ratings (the old/new iRating and sub level iRacing reports with each result).
+ */
+
+import { and, asc, desc, eq, gte } from 'drizzle-orm';
+import { db, licenseClasses, ratingHistory, raceResults } from '../db';
+import { readResultRatingChanges } from '../db/analytics';
+import { fetchMemberChartData, type ChartDataResponse } from './client';
+import { createPacer } from './race-imports';
+import { Category, CategoryHelper } from '../types/category';
+import { LicenseHelper, LicenseLevel } from '../types/license';
+import { SessionType } from '../types/session';
+
+// chart_data category ids. Road (2) was split into sports car and formula car in
+// 2024; its chart ends there and is not imported.
+export const CHART_CATEGORIES: Record<number, Category> = {
+  1: Category.OVAL,
+  3: Category.DIRT_OVAL,
+  4: Category.DIRT_ROAD,
+  5: Category.SPORTS_CAR,
+  6: Category.FORMULA_CAR,
+};
+
+export const CHART_TYPE_IRATING = 1;
+export const CHART_TYPE_LICENSE = 3;
+
+const INSERT_BATCH_SIZE = 500;
+
+export type RatingMetric = 'irating' | 'safety_rating';
+
+export type RatingHistoryRecord = typeof ratingHistory.$inferInsert;
+
+export interface RatingPoint {
+  recordedAt: Date;
+  value: number;
+  level: LicenseLevel | null; // License level, for Safety Rating points
+}
+
+export interface RatingRaceAnnotation {
+  subsessionId: number;
+  raceDate: Date;
+  seriesName: string;
+  trackName: string;
+  finishingPosition: number | null;
+  incidents: number;
+  iRatingChange: number | null;
+  safetyRatingChange: number | null;
+}
+
+export interface CategoryRatingHistory {
+  category: Category;
+  iRating: RatingPoint[];
+  safetyRating: RatingPoint[];
+  races: RatingRaceAnnotation[]; // Races that changed either rating, oldest first
+}
+
+export interface RatingHistoryImport {
+  pointsStored: number;
+  chartsImported: number;
+  errors: string[];
+}
+
+/**
+ * Turn a chart_data response into rating_history rows. License/SR chart values
+ * encode the license group in the thousands and the Safety Rating x 100 below it
+ * (e.g. 4287 is a B license at 2.87).
+ */
+export function parseChartData(userId: string, category: Category, response: ChartDataResponse): RatingHistoryRecord[] {
+  const metric: RatingMetric | null =
+    response.chart_type === CHART_TYPE_IRATING ? 'irating' :
+    response.chart_type === CHART_TYPE_LICENSE ? 'safety_rating' :
+    null;
+  if (!metric || !Array.isArray(response.data)) {
+    return [];
+  }
+
+  return response.data.flatMap(point => {
+    const recordedAt = new Date(`${point?.when}T00:00:00Z`);
+    if (isNaN(recordedAt.getTime()) || typeof point.value !== 'number' || !isFinite(point.value)) {
+      return [];
+    }
+
+    const isLicense = metric === 'safety_rating';
+    return [{
+      userId,
+      category,
+      metric,
+      value: (isLicense ? (point.value % 1000) / 100 : point.value).toFixed(2),
+      level: isLicense ? LicenseHelper.fromIRacingGroup(Math.floor(point.value / 1000)) : null,
+      recordedAt,
+      source: 'chart_data',
+    }];
+  });
+}
+
+async function insertRecords(records: RatingHistoryRecord[]): Promise<number> {
+  let stored = 0;
+  for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+    const inserted = await db.insert(ratingHistory)
+      .values(records.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoNothing()
+      .returning({ id: ratingHistory.id });
+    stored += inserted.length;
+  }
+  return stored;
+}
+
+/**
+ * Import the iRating and License/SR charts of every license category. Charts cover
+ * the member's whole history; points already stored are skipped. A failed chart is
+ * recorded in `errors` and the rest are still imported.
+ */
+export async function importRatingHistory(
+  userId: string,
+  options: {
+    requestIntervalMs?: number;
+    onProgress?: (progress: RatingHistoryImport) => void | Promise<void>;
+  } = {}
+): Promise<RatingHistoryImport> {
+  const paced = createPacer(options.requestIntervalMs);
+  const progress: RatingHistoryImport = { pointsStored: 0, chartsImported: 0, errors: [] };
+
+  for (const [categoryId, category] of Object.entries(CHART_CATEGORIES)) {
+    for (const chartType of [CHART_TYPE_IRATING, CHART_TYPE_LICENSE]) {
+      try {
+        const response = await paced(() => fetchMemberChartData(userId, Number(categoryId), chartType));
+        progress.pointsStored += await insertRecords(parseChartData(userId, category, response));
+        progress.chartsImported++;
+      } catch (error) {
+        progress.errors.push(
+          `Failed to import ${category} chart ${chartType}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+      await options.onProgress?.(progress);
+    }
+  }
+
+  return progress;
+}
+
+/**
+ * Record the user's current license values as history points
+ */
+export async function snapshotLicenseRatings(userId: string, now: Date = new Date()): Promise<number> {
+  const licenses = await db
+    .select()
+    .from(licenseClasses)
+    .where(eq(licenseClasses.userId, userId));
+
+  const records: RatingHistoryRecord[] = licenses.flatMap(license => [
+    {
+      userId,
+      category: license.category,
+      metric: 'irating',
+      value: license.irating.toFixed(2),
+      level: null,
+      recordedAt: now,
+      source: 'profile',
+    },
+    {
+      userId,
+      category: license.category,
+      metric: 'safety_rating',
+      value: Number(license.safetyRating).toFixed(2),
+      level: license.level,
+      recordedAt: now,
+      source: 'profile',
+    },
+  ]);
+
+  return records.length > 0 ? insertRecords(records) : 0;
+}
+
+/**
+ * Group stored points and race results into a history per category. Races without
+ * rating data for their category, or that moved neither rating, are left out.
+ */
+export function buildRatingHistory(
+  points: Array<{ category: string; metric: string; value: string | number; level: string | null; recordedAt: Date }>,
+  races: Array<{
+    subsessionId: number;
+    raceDate: Date;
+    seriesName: string;
+    trackName: string;
+    finishingPosition: number | null;
+    incidents: number;
+    rawData: unknown;
+  }>
+): CategoryRatingHistory[] {
+  const histories = new Map<Category, CategoryRatingHistory>();
+  const historyFor = (category: Category) => {
+    let history = histories.get(category);
+    if (!history) {
+      history = { category, iRating: [], safetyRating: [], races: [] };
+      histories.set(category, history);
+    }
+    return history;
+  };
+
+  for (const point of [...points].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())) {
+    if (!CategoryHelper.isValid(point.category)) {
+      continue;
+    }
+    const history = historyFor(point.category);
+    const ratingPoint = {
+      recordedAt: point.recordedAt,
+      value: Number(point.value),
+      level: (point.level as LicenseLevel | null) ?? null,
+    };
+    if (point.metric === 'irating') {
+      history.iRating.push(ratingPoint);
+    } else if (point.metric === 'safety_rating') {
+      history.safetyRating.push(ratingPoint);
+    }
+  }
+
+  for (const race of [...races].sort((a, b) => a.raceDate.getTime() - b.raceDate.getTime())) {
+    const { category, iRatingChange, safetyRatingChange } = readResultRatingChanges(race.rawData);
+    if (category === null) {
+      continue;
+    }
+
+    if (!iRatingChange && !safetyRatingChange) {
+      continue;
+    }
+
+    historyFor(category).races.push({
+      subsessionId: race.subsessionId,
+      raceDate: race.raceDate,
+      seriesName: race.seriesName,
+      trackName: race.trackName,
+      finishingPosition: race.finishingPosition,
+      incidents: race.incidents,
+      iRatingChange,
+      safetyRatingChange,
+    });
+  }
+
+  return CategoryHelper.ALL_CATEGORIES
+    .filter(category => histories.has(category))
+    .map(category => histories.get(category)!);
+}
+
+/**
+ * iRating and Safety Rating over time per category, with the races that moved them
+ */
+export async function getRatingHistory(
+  userId: string,
+  options: {
+    category?: Category;
+    periodMonths?: number; // Default 12 months
+  } = {}
+): Promise<CategoryRatingHistory[]> {
+  const startDate = new Date();
+  startDate.setMonth(startDate.getMonth() - (options.periodMonths || 12));
+
+  const pointConditions = [eq(ratingHistory.userId, userId), gte(ratingHistory.recordedAt, startDate)];
+  if (options.category) {
+    pointConditions.push(eq(ratingHistory.category, options.category));
+  }
+
+  const [points, races] = await Promise.all([
+    db
+      .select({
+        category: ratingHistory.category,
+        metric: ratingHistory.metric,
+        value: ratingHistory.value,
+        level: ratingHistory.level,
+        recordedAt: ratingHistory.recordedAt,
+      })
+      .from(ratingHistory)
+      .where(and(...pointConditions))
+      .orderBy(asc(ratingHistory.recordedAt)),
+    db
+      .select({
+        subsessionId: raceResults.subsessionId,
+        raceDate: raceResults.raceDate,
+        seriesName: raceResults.seriesName,
+        trackName: raceResults.trackName,
+        finishingPosition: raceResults.finishingPosition,
+        incidents: raceResults.incidents,
+        rawData: raceResults.rawData,
+      })
+      .from(raceResults)
+      .where(
+        and(
+          eq(raceResults.userId, userId),
+          eq(raceResults.sessionType, SessionType.RACE),
+          gte(raceResults.raceDate, startDate)
+        )
+      )
+      .orderBy(desc(raceResults.raceDate)),
+  ]);
+
+  const histories = buildRatingHistory(points, races);
+  return options.category ? histories.filter(history => history.category === options.category) : histories;
+}
@@ -7,7 +7,17 @@
 
 import { db, scheduleEntries } from '../db';
 import { eq, and, lte, desc } from 'drizzle-orm';
-import { getCurrentSeason, makeAuthenticatedRequest } from './client';
+import { makeAuthenticatedRequest } from './client';
+import {
+  buildSeasonCalendar,
+  getWeekDates,
+  resolveSeason,
+  resolveSeasonAt,
+  saveSeasonCalendar,
+} from './season-calendar';
+import { saveCarLookups } from './cars';
+import { saveTrackLookups } from './tracks';
+import { extractRaceConditions } from './weather';
 import { LicenseHelper, LicenseLevel } from '../types/license';
 import { Category, CategoryHelper } from '../types/category';
 
@@ -20,12 +30,20 @@ export interface ScheduleEntry {
   licenseRequired: string;
   category: string;
   raceLength: number | null;
+  raceLapLimit?: number | null;
+  cornersPerLap?: number | null;
   hasOpenSetup: boolean;
   seasonYear: number;
   seasonQuarter: number;
   raceWeekNum: number;
   weekStart: Date;
   weekEnd: Date;
+  carClassIds?: number[] | null;
+  weatherType?: number | null;
+  dynamicWeather?: boolean | null;
+  rain?: boolean | null;
+  temperatureC?: number | null;
+  timeOfDay?: string | null;
   createdAt: Date;
 }
 
@@ -36,35 +54,6 @@ export interface ScheduleCacheStatus {
   needsUpdate: boolean;
 }
 
-/**
- * Get current race week number (0-based)
- */
-function getCurrentRaceWeek(): number {
-  const now = new Date();
-  const seasonStart = new Date(now.getFullYear(), 0, 1); // Approximate season start
-  const weeksSinceStart = Math.floor((now.getTime() - seasonStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
-  return weeksSinceStart % 13; // iRacing seasons are typically 12-13 weeks
-}
-
-/**
- * Calculate week start and end dates for a given race week
- */
-function getWeekDates(raceWeekNum: number, seasonYear: number, seasonQuarter: number): { start: Date; end: Date } {
-  // Approximate calculation - in reality this would need to be more precise
-  // based on iRacing's actual season calendar
-  const quarterStartMonth = (seasonQuarter - 1) * 3;
-  const seasonStart = new Date(seasonYear, quarterStartMonth, 1);
-  
-  const weekStart = new Date(seasonStart);
-  weekStart.setDate(seasonStart.getDate() + (raceWeekNum * 7));
-  
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6);
-  weekEnd.setHours(23, 59, 59, 999);
-  
-  return { start: weekStart, end: weekEnd };
-}
-
 /**
  * Extract license level from series/season data using centralized license helper
  *
@@ -192,6 +181,16 @@ function mapScheduleCategory(categoryId: number | string): Category {
   }
 }
 
+/**
+ * Extract the car classes allowed in a season (several for multiclass series)
+ */
+function extractCarClassIds(seasonData: any): number[] | null {
+  if (!Array.isArray(seasonData.car_class_ids) || seasonData.car_class_ids.length === 0) {
+    return null;
+  }
+  return seasonData.car_class_ids.filter((id: unknown): id is number => typeof id === 'number');
+}
+
 /**
  * Sync schedule data from iRacing API
  */
@@ -203,7 +202,7 @@ export async function syncScheduleData(
   try {
     const season = seasonYear && seasonQuarter 
       ? { year: seasonYear, quarter: seasonQuarter }
-      : getCurrentSeason();
+      : await resolveSeason();
 
     console.log(`Syncing schedule data for ${season.year}Q${season.quarter}...`);
 
@@ -235,6 +234,15 @@ export async function syncScheduleData(
       return { success: true, entriesAdded: 0 };
     }
 
+    // Derive the season's calendar from the schedule start dates before computing week dates
+    const calendar = buildSeasonCalendar(seasonsData, season.year, season.quarter);
+    if (calendar) {
+      await saveSeasonCalendar(calendar);
+      console.log(`Season ${season.year}Q${season.quarter} starts ${calendar.startsAt.toISOString()} (${calendar.raceWeeks} race weeks)`);
+    } else {
+      console.warn(`No schedule start dates for ${season.year}Q${season.quarter}, estimating week dates`);
+    }
+
     let entriesAdded = 0;
     let skippedEntries = 0;
     let debugLogCount = 0;
@@ -304,7 +312,7 @@ export async function syncScheduleData(
           continue;
         }
 
-        const weekDates = getWeekDates(raceWeekNum, season.year, season.quarter);
+        const weekDates = getWeekDates(season.year, season.quarter, raceWeekNum);
         
         // Calculate race length from race_time_descriptors
         let raceLength: number | null = null;
@@ -323,6 +331,7 @@ export async function syncScheduleData(
         const licenseRequired = extractLicenseLevel(seasonData);
         const category = extractCategory(scheduleEntry, seasonData); // Check both levels
         const hasOpenSetup = extractHasOpenSetup(seasonData, scheduleEntry);
+        const conditions = extractRaceConditions(scheduleEntry.weather, scheduleEntry.dynamic_weather);
 
         const dbEntry = {
           seriesId,
@@ -332,6 +341,8 @@ export async function syncScheduleData(
           licenseRequired,
           category,
           raceLength,
+          raceLapLimit: scheduleEntry.race_lap_limit || null,
+          cornersPerLap: scheduleEntry.corners_per_lap ?? scheduleEntry.track?.corners_per_lap ?? null,
           hasOpenSetup,
           seasonYear: season.year,
           seasonQuarter: season.quarter,
@@ -339,6 +350,13 @@ export async function syncScheduleData(
           weekStart: weekDates.start.toISOString().split('T')[0], // Convert to date string
           weekEnd: weekDates.end.toISOString().split('T')[0], // Convert to date string
           raceTimeDescriptors: scheduleEntry.race_time_descriptors || null, // Store race timing info
+          carClassIds: extractCarClassIds(seasonData),
+          weatherType: conditions?.weatherType ?? null,
+          dynamicWeather: conditions?.dynamicWeather ?? null,
+          rain: conditions?.rain ?? null,
+          temperatureC: conditions?.temperatureC ?? null,
+          timeOfDay: conditions?.timeOfDay ?? null,
+          trackState: scheduleEntry.track_state || null,
         };
 
         // Debug: Log the first few entries being inserted
@@ -365,9 +383,18 @@ export async function syncScheduleData(
                 licenseRequired: dbEntry.licenseRequired,
                 category: dbEntry.category,
                 raceLength: dbEntry.raceLength,
+                raceLapLimit: dbEntry.raceLapLimit,
+                cornersPerLap: dbEntry.cornersPerLap,
                 hasOpenSetup: dbEntry.hasOpenSetup,
                 weekStart: dbEntry.weekStart,
-                weekEnd: dbEntry.weekEnd
+                weekEnd: dbEntry.weekEnd,
+                carClassIds: dbEntry.carClassIds,
+                weatherType: dbEntry.weatherType,
+                dynamicWeather: dbEntry.dynamicWeather,
+                rain: dbEntry.rain,
+                temperatureC: dbEntry.temperatureC,
+                timeOfDay: dbEntry.timeOfDay,
+                trackState: dbEntry.trackState
               }
             });
           
@@ -393,6 +420,54 @@ export async function syncScheduleData(
   }
 }
 
+/**
+ * Sync the car and car class lookups from iRacing API
+ */
+export async function syncCarLookups(
+  userId: string
+): Promise<{ success: boolean; carsSynced: number; carClassesSynced: number; error?: string }> {
+  try {
+    const carsData = await makeAuthenticatedRequest<any[]>(userId, '/car/get');
+    const carClassesData = await makeAuthenticatedRequest<any[]>(userId, '/carclass/get');
+
+    const { carsSynced, carClassesSynced } = await saveCarLookups(carsData, carClassesData);
+    console.log(`Car lookups synced: ${carsSynced} cars, ${carClassesSynced} car classes`);
+    return { success: true, carsSynced, carClassesSynced };
+
+  } catch (error) {
+    console.error('Car lookup sync error:', error);
+    return {
+      success: false,
+      carsSynced: 0,
+      carClassesSynced: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Sync the track lookup from iRacing API
+ */
+export async function syncTrackLookups(
+  userId: string
+): Promise<{ success: boolean; tracksSynced: number; error?: string }> {
+  try {
+    const tracksData = await makeAuthenticatedRequest<any[]>(userId, '/track/get');
+
+    const { tracksSynced } = await saveTrackLookups(tracksData);
+    console.log(`Track lookup synced: ${tracksSynced} tracks`);
+    return { success: true, tracksSynced };
+
+  } catch (error) {
+    console.error('Track lookup sync error:', error);
+    return {
+      success: false,
+      tracksSynced: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 /**
  * Get current schedule from cache
  */
@@ -401,11 +476,12 @@ export async function getCurrentSchedule(
   seasonQuarter?: number,
   raceWeekNum?: number
 ): Promise<ScheduleEntry[]> {
+  const current = await resolveSeasonAt();
   const season = seasonYear && seasonQuarter 
     ? { year: seasonYear, quarter: seasonQuarter }
-    : getCurrentSeason();
+    : { year: current.seasonYear, quarter: current.seasonQuarter };
   
-  const currentWeek = raceWeekNum ?? getCurrentRaceWeek();
+  const currentWeek = raceWeekNum ?? current.raceWeekNum;
   
   const entries = await db.query.scheduleEntries.findMany({
     where: and(
@@ -422,6 +498,7 @@ export async function getCurrentSchedule(
     weekEnd: new Date(entry.weekEnd),
     createdAt: new Date(entry.createdAt || new Date()),
     hasOpenSetup: entry.hasOpenSetup ?? false,
+    carClassIds: entry.carClassIds as number[] | null,
   }));
 }
 
@@ -432,9 +509,10 @@ export async function getScheduleCacheStatus(
   seasonYear?: number,
   seasonQuarter?: number
 ): Promise<ScheduleCacheStatus> {
+  const current = await resolveSeasonAt();
   const season = seasonYear && seasonQuarter 
     ? { year: seasonYear, quarter: seasonQuarter }
-    : getCurrentSeason();
+    : { year: current.seasonYear, quarter: current.seasonQuarter };
 
   const entries = await db.query.scheduleEntries.findMany({
     where: and(
@@ -455,7 +533,7 @@ export async function getScheduleCacheStatus(
       eq(scheduleEntries.seasonQuarter, season.quarter)
     ));
 
-  const currentWeek = getCurrentRaceWeek();
+  const currentWeek = current.raceWeekNum;
   
   // Determine if update is needed
   let needsUpdate = false;
@@ -485,7 +563,7 @@ export async function getSeriesSchedule(
 ): Promise<ScheduleEntry[]> {
   const season = seasonYear && seasonQuarter 
     ? { year: seasonYear, quarter: seasonQuarter }
-    : getCurrentSeason();
+    : await resolveSeason();
 
   const entries = await db.query.scheduleEntries.findMany({
     where: and(
@@ -502,6 +580,7 @@ export async function getSeriesSchedule(
     weekEnd: new Date(entry.weekEnd),
     createdAt: new Date(entry.createdAt || new Date()),
     hasOpenSetup: entry.hasOpenSetup ?? false,
+    carClassIds: entry.carClassIds as number[] | null,
   }));
 }
 
@@ -515,7 +594,7 @@ export async function getTrackSchedule(
 ): Promise<ScheduleEntry[]> {
   const season = seasonYear && seasonQuarter 
     ? { year: seasonYear, quarter: seasonQuarter }
-    : getCurrentSeason();
+    : await resolveSeason();
 
   const entries = await db.query.scheduleEntries.findMany({
     where: and(
@@ -532,11 +611,15 @@ export async function getTrackSchedule(
     weekEnd: new Date(entry.weekEnd),
     createdAt: new Date(entry.createdAt || new Date()),
     hasOpenSetup: entry.hasOpenSetup ?? false,
+    carClassIds: entry.carClassIds as number[] | null,
   }));
 }
 
 /**
  * Clear old schedule data (cleanup)
+ *
+ * Prunes by race week end rather than insert time - entries are upserted in place,
+ * so created_at of a still-running season can easily be older than the cutoff.
  */
 export async function clearOldScheduleData(olderThanDays: number = 90): Promise<number> {
   const cutoffDate = new Date();
@@ -544,7 +627,7 @@ export async function clearOldScheduleData(olderThanDays: number = 90): Promise<
 
   const result = await db
     .delete(scheduleEntries)
-    .where(lte(scheduleEntries.createdAt, cutoffDate));
+    .where(lte(scheduleEntries.weekEnd, cutoffDate.toISOString().split('T')[0]));
 
   return result.rowCount || 0;
 }
\ No newline at end of file
@@ -0,0 +1,364 @@
+/**
+ * iRacing Season Calendar
+ *
+ * Season and race week boundaries for any instant:
+ * - Race weeks roll over every Tuesday 00:00 UTC
+ * - A season has 12 scheduled race weeks followed by week 13, which lasts until
+ *   the next season starts
+ * - Season starts are derived from the schedule's start_date fields whenever a season's
+ *   schedule is synced and persisted in season_calendars
+ * - Seasons without a persisted calendar are estimated in 13-week steps from the
+ *   nearest known season
+ *
+ * Lookups are synchronous against an in-memory copy of the persisted calendars;
+ * use the resolve* functions to load it first.
+ */
+
+import { db, seasonCalendars } from '../db';
+import { sql } from 'drizzle-orm';
+import type { SeasonRef } from './sync';
+
+export interface SeasonCalendar {
+  seasonYear: number;
+  seasonQuarter: number;
+  /** Rollover starting race week 0 */
+  startsAt: Date;
+  /** Scheduled race weeks; race_week_num === raceWeeks is week 13 */
+  raceWeeks: number;
+  /** Start of each scheduled race week, indexed by race_week_num */
+  weekStarts: Date[] | null;
+}
+
+export interface SeasonWeek {
+  seasonYear: number;
+  seasonQuarter: number;
+  /** 0-based race week number (race_week_num) */
+  raceWeekNum: number;
+  /** True during the unscheduled week between the last race week and the next season */
+  isWeek13: boolean;
+  weekStart: Date;
+  /** Last instant of the week (the next rollover minus 1ms) */
+  weekEnd: Date;
+  seasonStart: Date;
+  seasonEnd: Date;
+  /** True when the season's boundaries are estimated rather than taken from its schedule */
+  estimated: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_MS = 7 * DAY_MS;
+export const DEFAULT_RACE_WEEKS = 12;
+// 12 race weeks plus week 13
+const SEASON_MS = (DEFAULT_RACE_WEEKS + 1) * WEEK_MS;
+
+// Known season start used for estimates until a calendar has been synced (2026 Season 1)
+const REFERENCE_SEASON: SeasonCalendar = {
+  seasonYear: 2026,
+  seasonQuarter: 1,
+  startsAt: new Date('2025-12-16T00:00:00Z'),
+  raceWeeks: DEFAULT_RACE_WEEKS,
+  weekStarts: null,
+};
+
+// Reload persisted calendars at most this often
+const CALENDAR_CACHE_TTL_MS = 60 * 60 * 1000;
+
+let cachedCalendars = new Map<string, SeasonCalendar>();
+let cacheLoadedAt = 0;
+
+function seasonKey(year: number, quarter: number): string {
+  return `${year}-${quarter}`;
+}
+
+/**
+ * Sequential index of a season, so seasons can be compared and stepped
+ */
+function seasonIndex(year: number, quarter: number): number {
+  return year * 4 + (quarter - 1);
+}
+
+function seasonFromIndex(index: number): SeasonRef {
+  return { year: Math.floor(index / 4), quarter: (index % 4) + 1 };
+}
+
+/**
+ * Get the season after the given one
+ */
+export function getNextSeason(season: SeasonRef): SeasonRef {
+  return seasonFromIndex(seasonIndex(season.year, season.quarter) + 1);
+}
+
+/**
+ * Get the most recent race week rollover (Tuesday 00:00 UTC) at or before `instant`
+ */
+export function getLastWeekRollover(instant: Date = new Date()): Date {
+  const rollover = new Date(Date.UTC(instant.getUTCFullYear(), instant.getUTCMonth(), instant.getUTCDate()));
+  const daysSinceTuesday = (rollover.getUTCDay() - 2 + 7) % 7;
+  rollover.setUTCDate(rollover.getUTCDate() - daysSinceTuesday);
+  return rollover;
+}
+
+/**
+ * Most common value (ties go to the earliest seen)
+ */
+function mode<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const value of values) {
+    const count = (counts.get(value) || 0) + 1;
+    counts.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Derive a season's calendar from /series/seasons data.
+ * Week starts are the most common schedule start_date per race week across series,
+ * snapped to the Tuesday rollover (some series start racing later in the week).
+ * Returns null if the data has no usable start dates.
+ */
+export function buildSeasonCalendar(
+  seasonsData: any[],
+  seasonYear: number,
+  seasonQuarter: number
+): SeasonCalendar | null {
+  const startsByWeek = new Map<number, number[]>();
+  const seriesWeekCounts = new Map<number, number[]>();
+
+  for (const seasonData of seasonsData) {
+    if (
+      (seasonData.season_year && seasonData.season_year !== seasonYear) ||
+      (seasonData.season_quarter && seasonData.season_quarter !== seasonQuarter) ||
+      !Array.isArray(seasonData.schedules)
+    ) {
+      continue;
+    }
+
+    let firstWeekStart: number | null = null;
+    let lastWeekNum = -1;
+    for (const schedule of seasonData.schedules) {
+      const weekNum = schedule.race_week_num;
+      const startDate = schedule.start_date ? new Date(schedule.start_date) : null;
+      if (weekNum === undefined || weekNum === null || !startDate || isNaN(startDate.getTime())) {
+        continue;
+      }
+
+      const rollover = getLastWeekRollover(startDate).getTime();
+      startsByWeek.set(weekNum, [...(startsByWeek.get(weekNum) || []), rollover]);
+      lastWeekNum = Math.max(lastWeekNum, weekNum);
+      if (weekNum === 0) {
+        firstWeekStart = rollover;
+      }
+    }
+
+    if (firstWeekStart !== null) {
+      seriesWeekCounts.set(firstWeekStart, [...(seriesWeekCounts.get(firstWeekStart) || []), lastWeekNum + 1]);
+    }
+  }
+
+  const startsAt = mode(startsByWeek.get(0) || []);
+  if (startsAt === undefined) {
+    return null;
+  }
+
+  // Series that start with the season define its length; shorter special events do not
+  const raceWeeks = mode(seriesWeekCounts.get(startsAt) || []) || DEFAULT_RACE_WEEKS;
+  const weekStarts: Date[] = [];
+  for (let weekNum = 0; weekNum < raceWeeks; weekNum++) {
+    const weekStart = mode(startsByWeek.get(weekNum) || []) ?? startsAt + weekNum * WEEK_MS;
+    weekStarts.push(new Date(weekStart));
+  }
+
+  return {
+    seasonYear,
+    seasonQuarter,
+    startsAt: new Date(startsAt),
+    raceWeeks,
+    weekStarts,
+  };
+}
+
+/**
+ * Persisted calendars currently held in memory
+ */
+export function getCachedSeasonCalendars(): SeasonCalendar[] {
+  return Array.from(cachedCalendars.values());
+}
+
+/**
+ * Replace the in-memory calendars (used after loading, and by tests)
+ */
+export function setCachedSeasonCalendars(calendars: SeasonCalendar[]): void {
+  cachedCalendars = new Map(calendars.map(calendar => [seasonKey(calendar.seasonYear, calendar.seasonQuarter), calendar]));
+  cacheLoadedAt = Date.now();
+}
+
+/**
+ * Load persisted calendars into memory (no-op while the cache is fresh)
+ */
+export async function loadSeasonCalendars(force: boolean = false): Promise<SeasonCalendar[]> {
+  if (!force && cacheLoadedAt > 0 && Date.now() - cacheLoadedAt < CALENDAR_CACHE_TTL_MS) {
+    return getCachedSeasonCalendars();
+  }
+
+  try {
+    const rows = await db.query.seasonCalendars.findMany();
+    setCachedSeasonCalendars(rows.map(row => ({
+      seasonYear: row.seasonYear,
+      seasonQuarter: row.seasonQuarter,
+      startsAt: new Date(row.startsAt),
+      raceWeeks: row.raceWeeks,
+      weekStarts: Array.isArray(row.weekStarts)
+        ? (row.weekStarts as string[]).map(weekStart => new Date(weekStart))
+        : null,
+    })));
+  } catch (error) {
+    // Keep estimating from whatever is cached rather than failing the caller
+    console.warn('Failed to load season calendars, using estimates:', error);
+  }
+
+  return getCachedSeasonCalendars();
+}
+
+/**
+ * Persist a season's calendar and update the in-memory copy
+ */
+export async function saveSeasonCalendar(calendar: SeasonCalendar): Promise<void> {
+  const weekStarts = calendar.weekStarts?.map(weekStart => weekStart.toISOString()) ?? null;
+
+  await db.insert(seasonCalendars)
+    .values({
+      seasonYear: calendar.seasonYear,
+      seasonQuarter: calendar.seasonQuarter,
+      startsAt: calendar.startsAt,
+      raceWeeks: calendar.raceWeeks,
+      weekStarts,
+    })
+    .onConflictDoUpdate({
+      target: [seasonCalendars.seasonYear, seasonCalendars.seasonQuarter],
+      set: {
+        startsAt: calendar.startsAt,
+        raceWeeks: calendar.raceWeeks,
+        weekStarts,
+        updatedAt: sql`NOW()`,
+      },
+    });
+
+  cachedCalendars.set(seasonKey(calendar.seasonYear, calendar.seasonQuarter), calendar);
+}
+
+/**
+ * Get a season's calendar: persisted if known, otherwise estimated from the nearest known season
+ */
+export function getSeasonCalendar(year: number, quarter: number): SeasonCalendar & { estimated: boolean } {
+  const known = cachedCalendars.get(seasonKey(year, quarter));
+  if (known) {
+    return { ...known, estimated: false };
+  }
+
+  const target = seasonIndex(year, quarter);
+  let anchor = REFERENCE_SEASON;
+  let anchorDistance = Math.abs(target - seasonIndex(anchor.seasonYear, anchor.seasonQuarter));
+  for (const calendar of cachedCalendars.values()) {
+    const distance = Math.abs(target - seasonIndex(calendar.seasonYear, calendar.seasonQuarter));
+    if (distance < anchorDistance) {
+      anchor = calendar;
+      anchorDistance = distance;
+    }
+  }
+
+  const seasonsFromAnchor = target - seasonIndex(anchor.seasonYear, anchor.seasonQuarter);
+  return {
+    seasonYear: year,
+    seasonQuarter: quarter,
+    startsAt: new Date(anchor.startsAt.getTime() + seasonsFromAnchor * SEASON_MS),
+    raceWeeks: DEFAULT_RACE_WEEKS,
+    weekStarts: null,
+    estimated: true,
+  };
+}
+
+/**
+ * Get the start and end (last instant) of a race week.
+ * Week 13 runs until the next season starts.
+ */
+export function getWeekDates(seasonYear: number, seasonQuarter: number, raceWeekNum: number): { start: Date; end: Date } {
+  const calendar = getSeasonCalendar(seasonYear, seasonQuarter);
+  const weekStartAt = (weekNum: number): number =>
+    calendar.weekStarts?.[weekNum]?.getTime() ?? calendar.startsAt.getTime() + weekNum * WEEK_MS;
+
+  const start = weekStartAt(raceWeekNum);
+  const next = getNextSeason({ year: seasonYear, quarter: seasonQuarter });
+  const seasonEnd = getSeasonCalendar(next.year, next.quarter).startsAt.getTime();
+
+  let end = raceWeekNum + 1 < calendar.raceWeeks ? weekStartAt(raceWeekNum + 1) : start + WEEK_MS;
+  if (raceWeekNum >= calendar.raceWeeks) {
+    end = Math.max(seasonEnd, start + WEEK_MS);
+  }
+
+  return { start: new Date(start), end: new Date(end - 1) };
+}
+
+/**
+ * Find the season and race week containing an instant
+ */
+export function getSeasonAt(instant: Date = new Date()): SeasonWeek {
+  const time = instant.getTime();
+
+  // Estimate from the reference season, then step until the season actually contains the instant
+  let index = seasonIndex(REFERENCE_SEASON.seasonYear, REFERENCE_SEASON.seasonQuarter) +
+    Math.floor((time - REFERENCE_SEASON.startsAt.getTime()) / SEASON_MS);
+  const startOf = (i: number) => {
+    const season = seasonFromIndex(i);
+    return getSeasonCalendar(season.year, season.quarter).startsAt.getTime();
+  };
+
+  for (let steps = 0; steps < 8 && startOf(index) > time; steps++) index--;
+  for (let steps = 0; steps < 8 && startOf(index + 1) <= time; steps++) index++;
+
+  const season = seasonFromIndex(index);
+  const calendar = getSeasonCalendar(season.year, season.quarter);
+  const seasonEnd = startOf(index + 1);
+
+  // Last scheduled week that has started, or week 13 once all of them have passed
+  let raceWeekNum = 0;
+  for (let weekNum = 0; weekNum <= calendar.raceWeeks; weekNum++) {
+    if (getWeekDates(season.year, season.quarter, weekNum).start.getTime() <= time) {
+      raceWeekNum = weekNum;
+    }
+  }
+
+  const { start, end } = getWeekDates(season.year, season.quarter, raceWeekNum);
+  return {
+    seasonYear: season.year,
+    seasonQuarter: season.quarter,
+    raceWeekNum,
+    isWeek13: raceWeekNum >= calendar.raceWeeks,
+    weekStart: start,
+    weekEnd: end,
+    seasonStart: calendar.startsAt,
+    seasonEnd: new Date(seasonEnd - 1),
+    estimated: calendar.estimated,
+  };
+}
+
+/**
+ * Find the season and race week containing an instant, loading persisted calendars first
+ */
+export async function resolveSeasonAt(instant: Date = new Date()): Promise<SeasonWeek> {
+  await loadSeasonCalendars();
+  return getSeasonAt(instant);
+}
+
+/**
+ * Resolve the season containing an instant as a { year, quarter } reference
+ */
+export async function resolveSeason(instant: Date = new Date()): Promise<SeasonRef> {
+  const { seasonYear, seasonQuarter } = await resolveSeasonAt(instant);
+  return { year: seasonYear, quarter: seasonQuarter };
+}
@@ -0,0 +1,83 @@
+/**
+ * Race Sync Progress Events
+ *
+ * In-process registry of running race data syncs. Every caller that starts a sync for a
+ * user (login background sync, POST /api/data/sync, the SSE progress stream) shares one
+ * syncUserRaceData run, and any number of listeners can subscribe to its progress.
+ */
+
+import { syncUserRaceData, type SyncProgress, type SyncResult } from './sync';
+
+export type SyncProgressListener = (progress: SyncProgress) => void;
+
+interface ActiveSync {
+  promise: Promise<SyncResult>;
+  listeners: Set<SyncProgressListener>;
+}
+
+const activeSyncs = new Map<string, ActiveSync>();
+
+/**
+ * Copy a progress object so listeners never see later in-place mutations
+ */
+function snapshotProgress(progress: SyncProgress): SyncProgress {
+  return {
+    ...progress,
+    errors: [...progress.errors],
+    seasons: progress.seasons?.map(season => ({ ...season })),
+    currentSeason: progress.currentSeason ? { ...progress.currentSeason } : progress.currentSeason,
+  };
+}
+
+/**
+ * Start a race data sync for a user, or join the one already running
+ */
+export function startTrackedSync(userId: string, customerId: number): Promise<SyncResult> {
+  const existing = activeSyncs.get(userId);
+  if (existing) {
+    return existing.promise;
+  }
+
+  const listeners = new Set<SyncProgressListener>();
+  const promise = syncUserRaceData(userId, customerId, progress => {
+    const snapshot = snapshotProgress(progress);
+    listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.warn('Sync progress listener failed:', error);
+      }
+    });
+  }).finally(() => {
+    activeSyncs.delete(userId);
+  });
+
+  activeSyncs.set(userId, { promise, listeners });
+  return promise;
+}
+
+/**
+ * Check whether a sync is currently running for a user
+ */
+export function isSyncRunning(userId: string): boolean {
+  return activeSyncs.has(userId);
+}
+
+/**
+ * Subscribe to progress updates of a user's running sync.
+ * Returns an unsubscribe function; a no-op if no sync is running.
+ */
+export function subscribeToSyncProgress(
+  userId: string,
+  listener: SyncProgressListener
+): () => void {
+  const active = activeSyncs.get(userId);
+  if (!active) {
+    return () => {};
+  }
+
+  active.listeners.add(listener);
+  return () => {
+    active.listeners.delete(listener);
+  };
+}
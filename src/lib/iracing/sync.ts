@@ -5,10 +5,32 @@
  * with incremental sync to avoid duplicates and progress tracking
  */
 
-import { db, raceResults, users } from '../db';
-import { eq, max, count } from 'drizzle-orm';
-import { fetchMemberRecentRaces, getCurrentSeason } from './client';
+import { db, raceResults, raceSyncCheckpoints, users } from '../db';
+import { and, eq, max, count, sql } from 'drizzle-orm';
+import { fetchMemberRecentRaces, fetchMemberSince, getCurrentSeason } from './client';
+import { loadSeasonCalendars } from './season-calendar';
 import { normalizeSessionType } from './session-types';
+import { extractRaceConditions } from './weather';
+import { refreshTimeSlotStats } from '../db/analytics';
+import { matchRecommendationOutcomes } from '../recommendations/outcomes';
+
+export type SeasonSyncStatus = 'pending' | 'in_progress' | 'complete' | 'failed';
+
+export interface SeasonRef {
+  year: number;
+  quarter: number;
+}
+
+export interface SeasonSyncProgress {
+  seasonYear: number;
+  seasonQuarter: number;
+  status: SeasonSyncStatus;
+  racesFound: number;
+  newRaces: number;
+  /** True when the season was already complete and was not fetched again */
+  skipped: boolean;
+  error?: string;
+}
 
 export interface SyncProgress {
   totalRaces: number;
@@ -16,6 +38,10 @@ export interface SyncProgress {
   newRaces: number;
   errors: string[];
   isComplete: boolean;
+  /** Per-season backfill progress, oldest season first */
+  seasons?: SeasonSyncProgress[];
+  /** Season currently being fetched */
+  currentSeason?: SeasonRef | null;
 }
 
 export interface SyncResult {
@@ -24,8 +50,45 @@ export interface SyncResult {
   error?: string;
 }
 
+// Seasons synced when the member's join date is unknown (current + two previous)
+const DEFAULT_SEASON_LOOKBACK = 2;
+
+// How long to wait for the per-user API rate limit window to clear before retrying a season
+const RATE_LIMIT_BACKOFF_MS = 60000;
+const MAX_SEASON_ATTEMPTS = 3;
+
+/**
+ * Get the season immediately before the given season
+ */
+export function getPreviousSeason(season: SeasonRef): SeasonRef {
+  return season.quarter === 1
+    ? { year: season.year - 1, quarter: 4 }
+    : { year: season.year, quarter: season.quarter - 1 };
+}
+
+/**
+ * List every season from `from` to `to` (inclusive), oldest first
+ */
+export function getSeasonsBetween(from: SeasonRef, to: SeasonRef): SeasonRef[] {
+  const seasons: SeasonRef[] = [];
+  let season = { ...to };
+
+  while (season.year > from.year || (season.year === from.year && season.quarter >= from.quarter)) {
+    seasons.unshift(season);
+    season = getPreviousSeason(season);
+  }
+
+  return seasons;
+}
+
 /**
  * Sync user's race data from iRacing API
+ *
+ * Walks every season since the member joined iRacing, oldest first, and records a
+ * checkpoint per season. Seasons with a complete checkpoint are skipped, so a sync that
+ * failed part way resumes from the first incomplete season. The current season is never
+ * marked complete and is re-fetched on every sync; duplicates are ignored by the
+ * (user, subsession) unique constraint.
  */
 export async function syncUserRaceData(
   userId: string,
@@ -38,10 +101,11 @@ export async function syncUserRaceData(
     newRaces: 0,
     errors: [],
     isComplete: false,
+    seasons: [],
+    currentSeason: null,
   };
 
   try {
-    // Get the user's last sync timestamp to determine where to start
     const user = await db.query.users.findFirst({
       where: eq(users.id, userId),
     });
@@ -50,133 +114,54 @@ export async function syncUserRaceData(
       throw new Error('User not found');
     }
 
-    // Get the most recent race date we have for this user
-    const lastRaceResult = await db
-      .select({ raceDate: max(raceResults.raceDate) })
-      .from(raceResults)
-      .where(eq(raceResults.userId, userId))
-      .limit(1);
-
-    const lastSyncDate = lastRaceResult[0]?.raceDate || new Date('2020-01-01');
-    
-    // Get current season info
+    // Season boundaries come from the persisted season calendar
+    await loadSeasonCalendars();
     const currentSeason = getCurrentSeason();
-    
-    // Fetch race data for multiple recent seasons to ensure we get data
-    // Try current season and the last 3 seasons
-    const seasonsToSync = [
-      currentSeason,
-      // Previous seasons (go back further to ensure we get data)
-      currentSeason.quarter === 1 
-        ? { year: currentSeason.year - 1, quarter: 4 }
-        : { year: currentSeason.year, quarter: currentSeason.quarter - 1 },
-      currentSeason.quarter <= 2
-        ? { year: currentSeason.year - 1, quarter: currentSeason.quarter + 2 }
-        : { year: currentSeason.year, quarter: currentSeason.quarter - 2 },
-    ];
-
-    const allRaces: any[] = [];
-    
-    // Fetch races from each season
-    for (const season of seasonsToSync) {
-      try {
-        const response = await fetchMemberRecentRaces(
-          userId,
-          customerId,
-          season.year,
-          season.quarter
-        );
-        
-        if (response.results) {
-          allRaces.push(...response.results);
-        }
-      } catch (error) {
-        const errorMsg = `Failed to fetch races for season ${season.year || 'all'}Q${season.quarter || 'all'}: ${error}`;
-        progress.errors.push(errorMsg);
-        
-        // Don't fail completely if one season fails - continue with others
-        console.warn(errorMsg);
-      }
-    }
+    const firstSeason = await getFirstSeasonToSync(userId, currentSeason);
+    const seasons = getSeasonsBetween(firstSeason, currentSeason);
 
-    // Filter out races we already have and races older than last sync
-    // Handle different possible field names for start time
-    const newRaces = allRaces.filter(race => {
-      const startTime = race.start_time || race.session_start_time || race.event_start_time;
-      if (!startTime) return false;
-      
-      const raceDate = new Date(startTime);
-      return raceDate > lastSyncDate;
-    });
+    // Load existing checkpoints so completed seasons can be skipped
+    const checkpoints = await db
+      .select()
+      .from(raceSyncCheckpoints)
+      .where(eq(raceSyncCheckpoints.userId, userId));
+    const completed = new Set(
+      checkpoints
+        .filter(checkpoint => checkpoint.status === 'complete')
+        .map(checkpoint => `${checkpoint.seasonYear}-${checkpoint.seasonQuarter}`)
+    );
 
-    progress.totalRaces = newRaces.length;
+    progress.seasons = seasons.map(season => {
+      const isComplete = completed.has(`${season.year}-${season.quarter}`);
+      return {
+        seasonYear: season.year,
+        seasonQuarter: season.quarter,
+        status: isComplete ? 'complete' : 'pending',
+        racesFound: 0,
+        newRaces: 0,
+        skipped: isComplete,
+      };
+    });
     onProgress?.(progress);
 
-    // Process races in batches to avoid overwhelming the database
-    const batchSize = 50;
-    const batches = [];
-    for (let i = 0; i < newRaces.length; i += batchSize) {
-      batches.push(newRaces.slice(i, i + batchSize));
-    }
-
-    for (const batch of batches) {
-      const raceRecords = batch.map(race => {
-        try {
-          // Normalize session type
-          const sessionType = normalizeSessionType(
-            race.event_type,
-            race.event_type_name
-          );
-
-          // Handle different possible field names based on the reference implementation
-          const startTime = race.start_time || race.session_start_time || race.event_start_time;
-          const finishPosition = race.finish_position || race.finish_pos || race.finishPos;
-          const startingPosition = race.starting_position || race.start_position || race.start_pos;
-          const trackId = race.track_id || race.track?.track_id;
-          const trackName = race.track_name || race.track?.track_name;
-
-          return {
-            userId,
-            subsessionId: race.subsession_id,
-            seriesId: race.series_id,
-            seriesName: race.series_name,
-            trackId: trackId,
-            trackName: trackName,
-            sessionType,
-            startingPosition: startingPosition,
-            finishingPosition: finishPosition,
-            incidents: race.incidents,
-            strengthOfField: race.event_strength_of_field || race.strength_of_field,
-            raceDate: new Date(startTime),
-            seasonYear: race.season_year,
-            seasonQuarter: race.season_quarter,
-            raceWeekNum: race.race_week_num,
-            raceLength: calculateRaceLength(race),
-            rawData: race,
-          };
-        } catch (error) {
-          progress.errors.push(`Failed to process race ${race.subsession_id}: ${error}`);
-          return null;
-        }
-      }).filter((record): record is NonNullable<typeof record> => record !== null);
-
-      // Insert batch into database
-      if (raceRecords.length > 0) {
-        try {
-          await db.insert(raceResults)
-            .values(raceRecords)
-            .onConflictDoNothing(); // Ignore duplicates based on unique constraint
-          
-          progress.newRaces += raceRecords.length;
-        } catch (error) {
-          progress.errors.push(`Failed to insert batch: ${error}`);
-        }
+    for (const seasonProgress of progress.seasons) {
+      if (seasonProgress.skipped) {
+        continue;
       }
 
-      progress.processedRaces += batch.length;
+      const season = { year: seasonProgress.seasonYear, quarter: seasonProgress.seasonQuarter };
+      const isCurrentSeason =
+        season.year === currentSeason.year && season.quarter === currentSeason.quarter;
+
+      progress.currentSeason = season;
+      seasonProgress.status = 'in_progress';
       onProgress?.(progress);
+
+      await syncSeason(userId, customerId, season, isCurrentSeason, seasonProgress, progress, onProgress);
     }
 
+    progress.currentSeason = null;
+
     // Update user's last sync timestamp
     await db.update(users)
       .set({ lastSyncAt: new Date() })
@@ -200,6 +185,396 @@ export async function syncUserRaceData(
   }
 }
 
+/**
+ * Determine the oldest season to sync: the season the member joined iRacing,
+ * or the last few seasons if the join date cannot be fetched
+ */
+async function getFirstSeasonToSync(userId: string, currentSeason: SeasonRef): Promise<SeasonRef> {
+  try {
+    const memberSince = await fetchMemberSince(userId);
+    if (memberSince) {
+      return getCurrentSeason(memberSince);
+    }
+  } catch (error) {
+    console.warn('Could not fetch member join date, syncing recent seasons only:', error);
+  }
+
+  let season = currentSeason;
+  for (let i = 0; i < DEFAULT_SEASON_LOOKBACK; i++) {
+    season = getPreviousSeason(season);
+  }
+  return season;
+}
+
+/**
+ * Fetch and store one season of races, recording the outcome in its checkpoint
+ */
+async function syncSeason(
+  userId: string,
+  customerId: number,
+  season: SeasonRef,
+  isCurrentSeason: boolean,
+  seasonProgress: SeasonSyncProgress,
+  progress: SyncProgress,
+  onProgress?: (progress: SyncProgress) => void
+): Promise<void> {
+  await upsertCheckpoint(userId, season, {
+    status: 'in_progress',
+    startedAt: new Date(),
+    newAttempt: true,
+  });
+
+  try {
+    const races = await fetchSeasonRaces(userId, customerId, season);
+
+    seasonProgress.racesFound = races.length;
+    progress.totalRaces += races.length;
+    onProgress?.(progress);
+
+    const insertErrors = await storeRaces(userId, races, seasonProgress, progress, onProgress);
+    if (insertErrors > 0) {
+      throw new Error(`${insertErrors} batch(es) failed to insert`);
+    }
+
+    // The current season keeps receiving races, so it is only marked complete once it ends
+    seasonProgress.status = isCurrentSeason ? 'in_progress' : 'complete';
+    await upsertCheckpoint(userId, season, {
+      status: seasonProgress.status,
+      racesFound: races.length,
+      racesInserted: seasonProgress.newRaces,
+      lastError: null,
+      completedAt: isCurrentSeason ? null : new Date(),
+    });
+  } catch (error) {
+    const errorMsg = `Failed to sync season ${season.year}Q${season.quarter}: ${error instanceof Error ? error.message : error}`;
+    console.warn(errorMsg);
+
+    // Don't fail completely if one season fails - continue with others and resume it next sync
+    seasonProgress.status = 'failed';
+    seasonProgress.error = errorMsg;
+    progress.errors.push(errorMsg);
+
+    await upsertCheckpoint(userId, season, {
+      status: 'failed',
+      lastError: errorMsg.slice(0, 1000),
+    }).catch(checkpointError => {
+      console.error('Failed to record sync checkpoint:', checkpointError);
+    });
+  }
+
+  onProgress?.(progress);
+}
+
+/**
+ * Fetch all races for a season, waiting out the API rate limit if it is hit
+ */
+async function fetchSeasonRaces(userId: string, customerId: number, season: SeasonRef): Promise<any[]> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetchMemberRecentRaces(userId, customerId, season.year, season.quarter, true);
+      return (response.results || []).filter(race => {
+        // Guard against responses that are not scoped to the requested season
+        const raceYear = race.season_year ?? season.year;
+        const raceQuarter = race.season_quarter ?? season.quarter;
+        return raceYear === season.year && raceQuarter === season.quarter;
+      });
+    } catch (error) {
+      const isRateLimited = error instanceof Error && error.message.includes('Rate limit exceeded');
+      if (!isRateLimited || attempt >= MAX_SEASON_ATTEMPTS) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_BACKOFF_MS));
+    }
+  }
+}
+
+/**
+ * Insert races in batches, returning the number of batches that failed
+ */
+async function storeRaces(
+  userId: string,
+  races: any[],
+  seasonProgress: SeasonSyncProgress,
+  progress: SyncProgress,
+  onProgress?: (progress: SyncProgress) => void
+): Promise<number> {
+  let failedBatches = 0;
+
+  // Process races in batches to avoid overwhelming the database
+  const batchSize = 50;
+  for (let i = 0; i < races.length; i += batchSize) {
+    const batch = races.slice(i, i + batchSize);
+
+    const raceRecords = batch
+      .map(race => {
+        try {
+          return buildRaceRecord(userId, race);
+        } catch (error) {
+          progress.errors.push(`Failed to process race ${race.subsession_id}: ${error}`);
+          return null;
+        }
+      })
+      .filter((record): record is NonNullable<typeof record> => record !== null);
+
+    // Insert batch into database
+    if (raceRecords.length > 0) {
+      try {
+        const inserted = await db.insert(raceResults)
+          .values(raceRecords)
+          .onConflictDoNothing() // Ignore duplicates based on unique constraint
+          .returning({
+            id: raceResults.id,
+            subsessionId: raceResults.subsessionId,
+            seriesId: raceResults.seriesId,
+            trackId: raceResults.trackId,
+            dynamicWeather: raceResults.dynamicWeather,
+          });
+
+        seasonProgress.newRaces += inserted.length;
+        progress.newRaces += inserted.length;
+
+        await copyScheduleConditions(inserted.filter(row => row.dynamicWeather == null).map(row => row.id));
+        await refreshSlotForecasts(inserted);
+        await matchOutcomes(userId, inserted.map(row => row.id));
+      } catch (error) {
+        failedBatches++;
+        progress.errors.push(`Failed to insert batch: ${error}`);
+      }
+    }
+
+    progress.processedRaces += batch.length;
+    onProgress?.(progress);
+  }
+
+  return failedBatches;
+}
+
+/**
+ * Map an iRacing search_series row to a race_results record
+ */
+function buildRaceRecord(userId: string, race: any) {
+  // Handle different possible field names based on the reference implementation
+  const startTime = race.start_time || race.session_start_time || race.event_start_time;
+  if (!startTime) {
+    throw new Error('Missing start time');
+  }
+
+  // Normalize session type
+  const sessionType = normalizeSessionType(
+    race.event_type,
+    race.event_type_name
+  );
+
+  const finishPosition = race.finish_position || race.finish_pos || race.finishPos;
+  const startingPosition = race.starting_position || race.start_position || race.start_pos;
+  const trackId = race.track_id || race.track?.track_id;
+  const trackName = race.track_name || race.track?.track_name;
+  const fieldSize = race.num_drivers ?? null;
+  const conditions = extractRaceConditions(race.race_summary?.weather ?? race.weather);
+
+  return {
+    userId,
+    subsessionId: race.subsession_id,
+    seriesId: race.series_id,
+    seriesName: race.series_name,
+    trackId: trackId,
+    trackName: trackName,
+    sessionType,
+    startingPosition: startingPosition,
+    finishingPosition: finishPosition,
+    incidents: race.incidents,
+    strengthOfField: race.event_strength_of_field || race.strength_of_field,
+    raceDate: new Date(startTime),
+    seasonYear: race.season_year,
+    seasonQuarter: race.season_quarter,
+    raceWeekNum: race.race_week_num,
+    raceLength: calculateRaceLength(race),
+    carId: race.car_id ?? null,
+    carClassId: race.car_class_id ?? null,
+    carClassName: race.car_class_name ?? null,
+    startingPositionInClass: race.starting_position_in_class ?? null,
+    finishingPositionInClass: race.finish_position_in_class ?? null,
+    fieldSize,
+    // Multi-class class sizes are counted from the subsession results by the qualifying import
+    classFieldSize: isMultiClassRace(race) ? null : fieldSize,
+    weatherType: conditions?.weatherType ?? null,
+    dynamicWeather: conditions?.dynamicWeather ?? null,
+    rain: conditions?.rain ?? null,
+    temperatureC: conditions?.temperatureC ?? null,
+    timeOfDay: conditions?.timeOfDay ?? null,
+    rawData: race,
+  };
+}
+
+/**
+ * Whether a search_series row is from a multi-class race. The row only reports
+ * the overall field, so this relies on in-class positions differing from overall
+ * ones; drivers in the leading class get their class size when the subsession
+ * results are imported (qualifying.ts).
+ */
+export function isMultiClassRace(race: any): boolean {
+  const startInClass = race.starting_position_in_class;
+  const finishInClass = race.finish_position_in_class;
+  return (
+    (typeof startInClass === 'number' && startInClass !== race.starting_position) ||
+    (typeof finishInClass === 'number' && finishInClass !== race.finish_position)
+  );
+}
+
+/**
+ * Find the race session of a subsession result, or null without one
+ */
+export function findRaceSession(subsession: any): any | null {
+  // Results may arrive wrapped ({ results: {...} }) or as the subsession itself
+  const sessionResults = (subsession?.results ?? subsession)?.session_results;
+  if (!Array.isArray(sessionResults)) {
+    return null;
+  }
+
+  // The main event is simsession 0; fall back to the last race-type session
+  const raceSession =
+    sessionResults.find((session: any) => session.simsession_number === 0) ??
+    [...sessionResults].reverse().find((session: any) => session.simsession_type_name === 'Race');
+  if (!raceSession || !Array.isArray(raceSession.results)) {
+    return null;
+  }
+
+  return raceSession;
+}
+
+/**
+ * Count the drivers in a car class in the race session of a subsession result
+ */
+export function countClassEntries(subsession: any, carClassId: number): number | null {
+  const raceSession = findRaceSession(subsession);
+  if (!raceSession) {
+    return null;
+  }
+
+  return raceSession.results.filter((result: any) => result.car_class_id === carClassId).length;
+}
+
+/**
+ * Copy race conditions from the schedule week onto results stored without them.
+ * search_series rows carry no weather, but official races run the week's settings.
+ */
+async function copyScheduleConditions(resultIds: string[]): Promise<void> {
+  if (resultIds.length === 0) {
+    return;
+  }
+
+  try {
+    await db.execute(sql`
+      UPDATE race_results r
+      SET
+        weather_type = s.weather_type,
+        dynamic_weather = s.dynamic_weather,
+        rain = s.rain,
+        temperature_c = s.temperature_c,
+        time_of_day = s.time_of_day
+      FROM schedule_entries s
+      WHERE r.id IN (${sql.join(resultIds.map(id => sql`${id}`), sql`, `)})
+        AND s.series_id = r.series_id
+        AND s.track_id = r.track_id
+        AND s.season_year = r.season_year
+        AND s.season_quarter = r.season_quarter
+        AND s.race_week_num = r.race_week_num
+    `);
+  } catch (error) {
+    console.warn('Failed to copy schedule conditions onto race results:', error);
+  }
+}
+
+/**
+ * Recompute the SOF and field size aggregates behind time slot forecasts for the
+ * series/tracks that just gained races. A failure only leaves the forecasts stale.
+ */
+async function refreshSlotForecasts(inserted: Array<{ seriesId: number; trackId: number }>): Promise<void> {
+  try {
+    await refreshTimeSlotStats(inserted.map(row => ({ seriesId: row.seriesId, trackId: row.trackId })));
+  } catch (error) {
+    console.warn('Failed to refresh time slot stats:', error);
+  }
+}
+
+/**
+ * Link newly stored races to the recommendations served for them. A failure only
+ * leaves those races out of outcome tracking.
+ */
+async function matchOutcomes(userId: string, resultIds: string[]): Promise<void> {
+  try {
+    await matchRecommendationOutcomes(userId, resultIds);
+  } catch (error) {
+    console.warn('Failed to match recommendation outcomes:', error);
+  }
+}
+
+interface CheckpointUpdate {
+  status: SeasonSyncStatus;
+  racesFound?: number;
+  /** Races inserted by this attempt, added to the season total */
+  racesInserted?: number;
+  lastError?: string | null;
+  startedAt?: Date;
+  completedAt?: Date | null;
+  /** Count this call as a new attempt */
+  newAttempt?: boolean;
+}
+
+/**
+ * Create or update the sync checkpoint for a user's season
+ */
+async function upsertCheckpoint(userId: string, season: SeasonRef, update: CheckpointUpdate): Promise<void> {
+  const { newAttempt, racesInserted, ...fields } = update;
+  const updatedAt = new Date();
+
+  await db.insert(raceSyncCheckpoints)
+    .values({
+      userId,
+      seasonYear: season.year,
+      seasonQuarter: season.quarter,
+      ...fields,
+      racesInserted: racesInserted ?? 0,
+      attempts: newAttempt ? 1 : 0,
+      updatedAt,
+    })
+    .onConflictDoUpdate({
+      target: [raceSyncCheckpoints.userId, raceSyncCheckpoints.seasonYear, raceSyncCheckpoints.seasonQuarter],
+      set: {
+        ...fields,
+        ...(racesInserted !== undefined && {
+          racesInserted: sql`${raceSyncCheckpoints.racesInserted} + ${racesInserted}`,
+        }),
+        ...(newAttempt && { attempts: sql`${raceSyncCheckpoints.attempts} + 1` }),
+        updatedAt,
+      },
+    });
+}
+
+/**
+ * Get per-season sync checkpoints for a user, oldest season first
+ */
+export async function getUserSyncCheckpoints(userId: string) {
+  return db
+    .select()
+    .from(raceSyncCheckpoints)
+    .where(eq(raceSyncCheckpoints.userId, userId))
+    .orderBy(raceSyncCheckpoints.seasonYear, raceSyncCheckpoints.seasonQuarter);
+}
+
+/**
+ * Reset a season's checkpoint so the next sync fetches it again
+ */
+export async function resetSyncCheckpoint(userId: string, season: SeasonRef): Promise<void> {
+  await db.update(raceSyncCheckpoints)
+    .set({ status: 'pending', completedAt: null, updatedAt: new Date() })
+    .where(and(
+      eq(raceSyncCheckpoints.userId, userId),
+      eq(raceSyncCheckpoints.seasonYear, season.year),
+      eq(raceSyncCheckpoints.seasonQuarter, season.quarter)
+    ));
+}
+
 /**
  * Calculate race length from race data
  */
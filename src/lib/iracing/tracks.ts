@@ -0,0 +1,116 @@
+/**
+ * Track Lookup
+ *
+ * Stores the /track/get lookup (fetched by syncTrackLookups in ./schedule) in the
+ * tracks table, so tracks can be related to each other for familiarity: the
+ * configurations of a circuit share a package, and length, corners and category
+ * describe how alike two circuits are.
+ */
+
+import { db, tracks } from '../db';
+import { inArray, max, sql } from 'drizzle-orm';
+import type { TrackProfile } from '../recommendations/types';
+
+// Lookups rarely change (new tracks ship with season builds), so refresh weekly
+export const TRACK_LOOKUP_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Rows per upsert statement
+const UPSERT_BATCH_SIZE = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Map a /track/get row to a tracks record
+ */
+function buildTrackRecord(track: any) {
+  return {
+    trackId: track.track_id,
+    trackName: track.track_name,
+    configName: track.config_name || null,
+    packageId: track.package_id ?? null,
+    category: track.category || null,
+    lengthMiles: typeof track.track_config_length === 'number' ? track.track_config_length.toFixed(3) : null,
+    cornersPerLap: track.corners_per_lap ?? null,
+    trackTypes: Array.isArray(track.track_types)
+      ? track.track_types.map((type: any) => type.track_type).filter(Boolean)
+      : null,
+  };
+}
+
+/**
+ * Upsert a /track/get payload into the tracks table
+ */
+export async function saveTrackLookups(tracksData: any[]): Promise<{ tracksSynced: number }> {
+  const trackRecords = (Array.isArray(tracksData) ? tracksData : [])
+    .filter(track => track?.track_id && track?.track_name)
+    .map(buildTrackRecord);
+
+  for (const batch of chunk(trackRecords, UPSERT_BATCH_SIZE)) {
+    await db.insert(tracks)
+      .values(batch)
+      .onConflictDoUpdate({
+        target: tracks.trackId,
+        set: {
+          trackName: sql`excluded.track_name`,
+          configName: sql`excluded.config_name`,
+          packageId: sql`excluded.package_id`,
+          category: sql`excluded.category`,
+          lengthMiles: sql`excluded.length_miles`,
+          cornersPerLap: sql`excluded.corners_per_lap`,
+          trackTypes: sql`excluded.track_types`,
+          updatedAt: sql`NOW()`,
+        },
+      });
+  }
+
+  return { tracksSynced: trackRecords.length };
+}
+
+/**
+ * Check whether the track lookup is missing or older than TRACK_LOOKUP_MAX_AGE_MS
+ */
+export async function trackLookupsNeedSync(now: Date = new Date()): Promise<boolean> {
+  const [row] = await db.select({ lastUpdated: max(tracks.updatedAt) }).from(tracks);
+  if (!row?.lastUpdated) {
+    return true;
+  }
+  return now.getTime() - new Date(row.lastUpdated).getTime() >= TRACK_LOOKUP_MAX_AGE_MS;
+}
+
+/**
+ * Look up track metadata by track id. Tracks missing from the lookup are left out.
+ */
+export async function getTrackProfiles(trackIds: number[]): Promise<Map<number, TrackProfile>> {
+  const profiles = new Map<number, TrackProfile>();
+  if (trackIds.length === 0) {
+    return profiles;
+  }
+
+  const rows = await db
+    .select({
+      trackId: tracks.trackId,
+      packageId: tracks.packageId,
+      category: tracks.category,
+      lengthMiles: tracks.lengthMiles,
+      cornersPerLap: tracks.cornersPerLap,
+    })
+    .from(tracks)
+    .where(inArray(tracks.trackId, [...new Set(trackIds)]));
+
+  for (const row of rows) {
+    profiles.set(row.trackId, {
+      trackId: row.trackId,
+      packageId: row.packageId,
+      category: row.category,
+      lengthMiles: row.lengthMiles != null ? parseFloat(row.lengthMiles) : null,
+      cornersPerLap: row.cornersPerLap,
+    });
+  }
+  return profiles;
+}
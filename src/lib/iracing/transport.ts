@@ -0,0 +1,181 @@
+/**
+ * iRacing Data API Transport
+ *
+ * Pluggable HTTP transport used by the iRacing client. Three transports are available:
+ * - live:    talks to members-ng.iracing.com (default)
+ * - fixture: talks to the local fixture server (scripts/iracing-fixture-server.ts)
+ *            and does not require iRacing credentials
+ * - record:  talks to the live API and captures every response into fixture files
+ *
+ * The transport is selected with the IRACING_TRANSPORT environment variable and can be
+ * overridden in code (e.g. tests) with setIRacingTransport().
+ */
+
+import {
+  DEFAULT_FIXTURE_SERVER_URL,
+  chunkFixtureKeyFor,
+  fixtureKeyFor,
+  getFixturesDir,
+  rewriteChunkInfoForFixture,
+} from './fixtures';
+
+// iRacing Data API base URL
+export const IRACING_DATA_API_BASE = 'https://members-ng.iracing.com/data';
+
+export type IRacingTransportMode = 'live' | 'fixture' | 'record';
+
+export interface IRacingTransport {
+  mode: IRacingTransportMode;
+  /** Base URL that endpoint paths (e.g. `/results/search_series`) are appended to */
+  dataApiBase: string;
+  /** Whether requests need a valid iRacing OAuth access token */
+  requiresAuth: boolean;
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+/**
+ * Live transport - plain fetch against the iRacing Data API
+ */
+export function createLiveTransport(): IRacingTransport {
+  return {
+    mode: 'live',
+    dataApiBase: IRACING_DATA_API_BASE,
+    requiresAuth: true,
+    fetch: (url, init) => fetch(url, init),
+  };
+}
+
+/**
+ * Fixture transport - fetch against the local fixture server
+ */
+export function createFixtureTransport(
+  serverUrl: string = process.env.IRACING_FIXTURE_URL || DEFAULT_FIXTURE_SERVER_URL
+): IRacingTransport {
+  return {
+    mode: 'fixture',
+    dataApiBase: `${serverUrl.replace(/\/+$/, '')}/data`,
+    requiresAuth: false,
+    fetch: (url, init) => fetch(url, init),
+  };
+}
+
+/**
+ * Recording transport - fetch against the live API and write each resolved payload
+ * to the fixtures directory so it can be replayed by the fixture server.
+ *
+ * iRacing responds to data requests with `{ link }` envelopes; the payload behind the
+ * link is stored under the fixture key of the original request. Chunked payloads have
+ * their `chunk_info.base_download_url` rewritten to a placeholder and each chunk file
+ * is stored under `chunks/`.
+ */
+export function createRecordingTransport(
+  fixturesDir: string = getFixturesDir(),
+  inner: IRacingTransport = createLiveTransport()
+): IRacingTransport {
+  // Link URL -> fixture key of the request that produced it
+  const pendingLinks = new Map<string, string>();
+  // Chunk base download URLs seen in recorded payloads
+  const chunkBaseUrls = new Set<string>();
+
+  const writeFixture = async (key: string, body: string) => {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    const filePath = path.join(fixturesDir, key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    console.log(`Recorded iRacing fixture: ${key}`);
+  };
+
+  const recordPayload = async (key: string, payload: any) => {
+    const { payload: rewritten, chunkBaseUrl } = rewriteChunkInfoForFixture(payload);
+    if (chunkBaseUrl) {
+      chunkBaseUrls.add(chunkBaseUrl);
+    }
+    await writeFixture(key, JSON.stringify(rewritten, null, 2));
+  };
+
+  return {
+    mode: 'record',
+    dataApiBase: inner.dataApiBase,
+    requiresAuth: inner.requiresAuth,
+    async fetch(url, init) {
+      const response = await inner.fetch(url, init);
+      if (!response.ok) {
+        return response;
+      }
+
+      try {
+        if (url.startsWith(inner.dataApiBase)) {
+          const parsed = new URL(url);
+          const key = fixtureKeyFor(parsed.pathname.slice(new URL(inner.dataApiBase).pathname.length), parsed.searchParams);
+          const payload = await response.clone().json();
+
+          if (payload && typeof payload === 'object' && typeof payload.link === 'string') {
+            pendingLinks.set(payload.link, key);
+          } else {
+            await recordPayload(key, payload);
+          }
+        } else if (pendingLinks.has(url)) {
+          const key = pendingLinks.get(url)!;
+          pendingLinks.delete(url);
+          await recordPayload(key, await response.clone().json());
+        } else if (Array.from(chunkBaseUrls).some(base => url.startsWith(base))) {
+          await writeFixture(chunkFixtureKeyFor(url), await response.clone().text());
+        }
+      } catch (error) {
+        // Recording must never break the request itself
+        console.warn(`Failed to record iRacing fixture for ${url}:`, error);
+      }
+
+      return response;
+    },
+  };
+}
+
+/**
+ * Create a transport for the given mode
+ */
+export function createTransport(mode: IRacingTransportMode): IRacingTransport {
+  switch (mode) {
+    case 'fixture':
+      return createFixtureTransport();
+    case 'record':
+      return createRecordingTransport();
+    case 'live':
+    default:
+      return createLiveTransport();
+  }
+}
+
+/**
+ * Resolve transport mode from the IRACING_TRANSPORT environment variable
+ */
+export function getTransportModeFromEnv(): IRacingTransportMode {
+  const mode = (process.env.IRACING_TRANSPORT || '').toLowerCase();
+  if (mode === 'fixture' || mode === 'record') {
+    return mode;
+  }
+  return 'live';
+}
+
+let activeTransport: IRacingTransport | null = null;
+
+/**
+ * Get the active transport (lazily created from the environment)
+ */
+export function getIRacingTransport(): IRacingTransport {
+  if (!activeTransport) {
+    activeTransport = createTransport(getTransportModeFromEnv());
+    if (activeTransport.mode !== 'live') {
+      console.log(`Using iRacing ${activeTransport.mode} transport (${activeTransport.dataApiBase})`);
+    }
+  }
+  return activeTransport;
+}
+
+/**
+ * Override the active transport (pass null to fall back to the environment)
+ */
+export function setIRacingTransport(transport: IRacingTransport | null): void {
+  activeTransport = transport;
+}
@@ -0,0 +1,98 @@
+/**
+ * Race Conditions
+ *
+ * Normalizes the iRacing weather block (found on schedule weeks and on subsession
+ * results as race_summary.weather) into the handful of conditions we persist and
+ * score on: weather type, dynamic weather, rain, temperature and time of day.
+ */
+
+export type TimeOfDay = 'day' | 'dusk' | 'night';
+
+export interface RaceConditions {
+  weatherType: number | null; // Raw iRacing weather type (forecast type on newer payloads)
+  dynamicWeather: boolean;
+  rain: boolean;
+  temperatureC: number | null;
+  timeOfDay: TimeOfDay | null;
+}
+
+// Local track time bands for the simulated start
+const DUSK_START_HOUR = 18;
+const NIGHT_START_HOUR = 20;
+const NIGHT_END_HOUR = 6;
+
+/**
+ * Classify a simulated start time ("2025-11-15T12:30:00", local track time)
+ */
+export function getTimeOfDay(simulatedStartTime: unknown): TimeOfDay | null {
+  if (typeof simulatedStartTime !== 'string') {
+    return null;
+  }
+
+  const match = simulatedStartTime.match(/T(\d{2}):/);
+  if (!match) {
+    return null;
+  }
+
+  const hour = parseInt(match[1], 10);
+  if (hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR) {
+    return 'night';
+  }
+  return hour >= DUSK_START_HOUR ? 'dusk' : 'day';
+}
+
+/**
+ * Convert the weather temperature to Celsius (temp_units: 0 = Fahrenheit, 1 = Celsius)
+ */
+function toCelsius(value: unknown, units: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return null;
+  }
+  return Math.round(units === 0 ? (value - 32) * 5 / 9 : value);
+}
+
+/**
+ * Extract race conditions from an iRacing weather block.
+ * `dynamicWeatherFlag` is the schedule week's dynamic_weather setting when present.
+ */
+export function extractRaceConditions(weather: any, dynamicWeatherFlag?: unknown): RaceConditions | null {
+  if (!weather || typeof weather !== 'object') {
+    return null;
+  }
+
+  const summary = weather.weather_summary;
+  const forecastType = weather.forecast_options?.forecast_type;
+
+  // Newer payloads describe a forecast: changing skies or any chance of rain means
+  // conditions evolve during the race. Older ones flag ongoing variation directly.
+  const dynamicWeather =
+    dynamicWeatherFlag === true ||
+    (typeof weather.weather_var_ongoing === 'number' && weather.weather_var_ongoing > 0) ||
+    (!!summary && (summary.skies_high !== summary.skies_low || summary.precip_chance > 0));
+
+  const rain =
+    (!!summary && (summary.precip_chance > 0 || summary.max_precip_rate > 0)) ||
+    (typeof weather.track_water === 'number' && weather.track_water > 0);
+
+  return {
+    weatherType: typeof weather.type === 'number'
+      ? weather.type
+      : typeof forecastType === 'number' ? forecastType : null,
+    dynamicWeather,
+    rain,
+    temperatureC: toCelsius(weather.temp_value, weather.temp_units),
+    timeOfDay: getTimeOfDay(weather.simulated_start_time),
+  };
+}
+
+/**
+ * Describe the notable parts of a set of conditions, e.g. ["night", "dynamic weather"]
+ */
+export function describeConditions(conditions: { dynamicWeather: boolean; rain: boolean; timeOfDay: string | null }): string[] {
+  const parts: string[] = [];
+  if (conditions.timeOfDay === 'night') parts.push('night');
+  if (conditions.timeOfDay === 'dusk') parts.push('dusk');
+  if (conditions.rain) parts.push('rain');
+  else if (conditions.dynamicWeather) parts.push('dynamic weather');
+  return parts;
+}
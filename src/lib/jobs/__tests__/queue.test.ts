@@ -0,0 +1,130 @@
+/**
+ * Tests for the Postgres-backed sync job queue
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { enqueueRaceDataSync, failJob, getRetryDelay, isTerminalStatus, type SyncJob } from '../queue';
+import { db } from '../../db';
+
+jest.mock('../../db', () => ({
+  db: {
+    query: {
+      syncJobs: {
+        findFirst: jest.fn(),
+        findMany: jest.fn(),
+      },
+    },
+    insert: jest.fn(),
+    update: jest.fn(),
+  },
+  syncJobs: {},
+}));
+
+const mockDb = db as any;
+
+function job(overrides: Partial<SyncJob> = {}): SyncJob {
+  return {
+    id: 'job-1',
+    type: 'race_data',
+    userId: 'user-1',
+    dedupeKey: 'race_data:user-1',
+    status: 'running',
+    payload: { customerId: 123456 },
+    progress: null,
+    result: null,
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: new Date('2025-01-01T00:00:00Z'),
+    lockedAt: new Date(),
+    lockedBy: 'worker-1',
+    lastError: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+describe('sync job queue', () => {
+  let updates: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    updates = [];
+    mockDb.update.mockReturnValue({
+      set: (values: any) => {
+        updates.push(values);
+        return { where: () => Promise.resolve() };
+      },
+    });
+  });
+
+  test('retry delay grows exponentially and is capped', () => {
+    expect(getRetryDelay(1)).toBe(30000);
+    expect(getRetryDelay(2)).toBe(60000);
+    expect(getRetryDelay(3)).toBe(120000);
+    expect(getRetryDelay(20)).toBe(15 * 60 * 1000);
+  });
+
+  test('only succeeded and failed are terminal', () => {
+    expect(isTerminalStatus('succeeded')).toBe(true);
+    expect(isTerminalStatus('failed')).toBe(true);
+    expect(isTerminalStatus('queued')).toBe(false);
+    expect(isTerminalStatus('running')).toBe(false);
+  });
+
+  test('failed attempts are requeued with backoff while attempts remain', async () => {
+    const before = Date.now();
+    const delay = await failJob(job({ attempts: 1 }), new Error('iRacing API error: 503'));
+
+    expect(delay).toBe(30000);
+    expect(updates[0].status).toBe('queued');
+    expect(updates[0].lastError).toBe('iRacing API error: 503');
+    expect(updates[0].runAt.getTime()).toBeGreaterThanOrEqual(before + 30000);
+    expect(updates[0].lockedBy).toBeNull();
+  });
+
+  test('jobs fail permanently after the last attempt', async () => {
+    const delay = await failJob(job({ attempts: 3 }), new Error('boom'));
+
+    expect(delay).toBeNull();
+    expect(updates[0].status).toBe('failed');
+    expect(updates[0].completedAt).toBeInstanceOf(Date);
+  });
+
+  test('enqueueing a sync that is already active returns the existing job', async () => {
+    const existing = job({ status: 'queued' });
+    mockDb.insert.mockReturnValue({
+      values: () => ({
+        onConflictDoNothing: () => ({ returning: () => Promise.resolve([]) }),
+      }),
+    });
+    mockDb.query.syncJobs.findFirst.mockResolvedValue(existing);
+
+    const result = await enqueueRaceDataSync('user-1', 123456);
+
+    expect(result).toEqual({ job: existing, deduplicated: true });
+  });
+
+  test('enqueueing a new sync creates a job keyed by user', async () => {
+    let inserted: any;
+    mockDb.insert.mockReturnValue({
+      values: (values: any) => {
+        inserted = values;
+        return {
+          onConflictDoNothing: () => ({ returning: () => Promise.resolve([job({ status: 'queued' })]) }),
+        };
+      },
+    });
+
+    const result = await enqueueRaceDataSync('user-1', 123456);
+
+    expect(result.deduplicated).toBe(false);
+    expect(inserted).toMatchObject({
+      type: 'race_data',
+      dedupeKey: 'race_data:user-1',
+      userId: 'user-1',
+      payload: { customerId: 123456 },
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for the scheduled schedule refresh around race week rollovers
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  getFinishedRaceWeek,
+  getScheduleRefreshReason,
+  getSeasonsToRefresh,
+  refreshScheduleIfNeeded,
+} from '../schedule-refresh';
+import { getUserByIracingId } from '../../auth/db';
+import { getScheduleCacheStatus } from '../../iracing/schedule';
+import { enqueueGlobalResultsSync, enqueueScheduleSync, getLastSucceededJob } from '../queue';
+
+jest.mock('../../auth/db', () => ({
+  getUserByIracingId: jest.fn(),
+}));
+
+// No persisted calendars - seasons are estimated from the built-in reference season
+jest.mock('../../db', () => ({
+  db: {
+    query: {
+      seasonCalendars: {
+        findMany: jest.fn(async () => []),
+      },
+    },
+  },
+  seasonCalendars: {},
+}));
+
+jest.mock('../../iracing/schedule', () => ({
+  getScheduleCacheStatus: jest.fn(),
+}));
+
+jest.mock('../queue', () => ({
+  enqueueScheduleSync: jest.fn(),
+  enqueueGlobalResultsSync: jest.fn(),
+  getLastSucceededJob: jest.fn(),
+  getScheduleJobKey: (year: number, quarter: number) => `schedule:${year}-${quarter}`,
+  getGlobalResultsJobKey: (year: number, quarter: number, week: number) => `global_results:${year}-${quarter}-${week}`,
+}));
+
+const mockGetUser = getUserByIracingId as jest.Mock;
+const mockCacheStatus = getScheduleCacheStatus as jest.Mock;
+const mockEnqueue = enqueueScheduleSync as jest.Mock;
+const mockEnqueueGlobal = enqueueGlobalResultsSync as jest.Mock;
+const mockLastJob = getLastSucceededJob as jest.Mock;
+
+describe('getScheduleRefreshReason', () => {
+  const now = new Date('2025-06-12T12:00:00Z'); // Thursday, rollover was 2025-06-10
+
+  test('syncs a season that has never been synced', () => {
+    expect(getScheduleRefreshReason(0, null, now)).toBe('missing');
+    expect(getScheduleRefreshReason(120, null, now)).toBe('stale');
+  });
+
+  test('re-syncs after a rollover', () => {
+    expect(getScheduleRefreshReason(120, new Date('2025-06-09T23:00:00Z'), now)).toBe('rollover');
+  });
+
+  test('re-syncs schedules older than a day', () => {
+    expect(getScheduleRefreshReason(120, new Date('2025-06-11T11:00:00Z'), now)).toBe('stale');
+    expect(getScheduleRefreshReason(120, new Date('2025-06-12T06:00:00Z'), now)).toBeNull();
+  });
+
+  test('backs off on seasons that are not published yet', () => {
+    expect(getScheduleRefreshReason(0, new Date('2025-06-12T09:00:00Z'), now)).toBeNull();
+    expect(getScheduleRefreshReason(0, new Date('2025-06-12T05:00:00Z'), now)).toBe('missing');
+  });
+});
+
+describe('getSeasonsToRefresh', () => {
+  test('includes only the current season mid-season', () => {
+    expect(getSeasonsToRefresh(new Date(2025, 6, 1))).toEqual([{ year: 2025, quarter: 3 }]);
+  });
+
+  test('includes the next season within the lookahead window', () => {
+    // 2026 Season 1 starts 2025-12-16
+    expect(getSeasonsToRefresh(new Date(2025, 11, 5))).toEqual([
+      { year: 2025, quarter: 4 },
+      { year: 2026, quarter: 1 },
+    ]);
+  });
+});
+
+describe('getFinishedRaceWeek', () => {
+  test('is the race week before the last rollover', () => {
+    // 2025 Season 3 started 2025-06-17; 2025-07-22 starts race week 5
+    const week = getFinishedRaceWeek(new Date('2025-07-22T00:05:00Z'));
+
+    expect(week.seasonYear).toBe(2025);
+    expect(week.seasonQuarter).toBe(3);
+    expect(week.raceWeekNum).toBe(4);
+  });
+});
+
+describe('refreshScheduleIfNeeded', () => {
+  const originalCustId = process.env.IRACING_SERVICE_ACCOUNT_CUST_ID;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.IRACING_SERVICE_ACCOUNT_CUST_ID = '123456';
+    mockGetUser.mockResolvedValue({ id: 'service-user' });
+    mockEnqueue.mockImplementation(async () => ({ job: { id: 'job-1' }, deduplicated: false }));
+    mockEnqueueGlobal.mockImplementation(async () => ({ job: { id: 'global-job' }, deduplicated: false }));
+  });
+
+  afterEach(() => {
+    process.env.IRACING_SERVICE_ACCOUNT_CUST_ID = originalCustId;
+  });
+
+  test('queues the upcoming season with the service account and skips fresh seasons', async () => {
+    const now = new Date(2025, 11, 5, 12);
+    mockCacheStatus.mockImplementation(async (year: number) => ({ entryCount: year === 2025 ? 120 : 0 }));
+    mockLastJob.mockImplementation(async (key: string) =>
+      key === 'schedule:2025-4' ? { completedAt: new Date(now.getTime() - 60 * 60 * 1000) } : null
+    );
+
+    const result = await refreshScheduleIfNeeded(now);
+
+    expect(result.success).toBe(true);
+    expect(result.seasons.map(season => season.reason)).toEqual([null, 'missing']);
+    expect(mockEnqueue).toHaveBeenCalledTimes(1);
+    expect(mockEnqueue).toHaveBeenCalledWith('service-user', 2026, 1);
+  });
+
+  test('re-syncs the current season once per rollover', async () => {
+    mockCacheStatus.mockResolvedValue({ entryCount: 120 });
+    mockLastJob.mockResolvedValue({ completedAt: new Date('2025-07-15T12:00:00Z') });
+
+    const sameWeek = await refreshScheduleIfNeeded(new Date('2025-07-16T06:00:00Z'));
+    const nextWeek = await refreshScheduleIfNeeded(new Date('2025-07-22T00:05:00Z'));
+
+    expect(sameWeek.seasons[0].reason).toBeNull();
+    expect(nextWeek.seasons[0].reason).toBe('rollover');
+  });
+
+  test('collects public results of the finished race week until a collection completes', async () => {
+    const now = new Date('2025-07-22T00:05:00Z');
+    mockCacheStatus.mockResolvedValue({ entryCount: 120 });
+    mockLastJob.mockImplementation(async (key: string) =>
+      key === 'global_results:2025-3-4' ? { completedAt: now, result: { complete: false } } : null
+    );
+
+    const incomplete = await refreshScheduleIfNeeded(now);
+    expect(incomplete.globalResults).toEqual({
+      seasonYear: 2025,
+      seasonQuarter: 3,
+      raceWeekNum: 4,
+      queued: true,
+      jobId: 'global-job',
+      deduplicated: false,
+    });
+    expect(mockEnqueueGlobal).toHaveBeenCalledWith('service-user', 2025, 3, 4);
+
+    mockEnqueueGlobal.mockClear();
+    mockLastJob.mockImplementation(async (key: string) =>
+      key === 'global_results:2025-3-4' ? { completedAt: now, result: { complete: true } } : null
+    );
+
+    const complete = await refreshScheduleIfNeeded(now);
+    expect(complete.globalResults?.queued).toBe(false);
+    expect(mockEnqueueGlobal).not.toHaveBeenCalled();
+  });
+
+  test('fails without a signed-in service account', async () => {
+    mockGetUser.mockResolvedValue(null);
+
+    const result = await refreshScheduleIfNeeded(new Date(2025, 6, 1));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('IRACING_SERVICE_ACCOUNT_CUST_ID');
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Background Jobs
+ *
+ * Main export file for the Postgres-backed sync job queue and worker
+ */
+
+export {
+  enqueueJob,
+  enqueueRaceDataSync,
+  enqueueScheduleSync,
+  enqueueGlobalResultsSync,
+  enqueueRatingHistorySync,
+  enqueueLapDataSync,
+  enqueueEventLogSync,
+  enqueueQualifyingSync,
+  getScheduleJobKey,
+  getGlobalResultsJobKey,
+  claimNextJob,
+  updateJobProgress,
+  completeJob,
+  failJob,
+  getJob,
+  getActiveJob,
+  getLastSucceededJob,
+  getUserJobs,
+  getRetryDelay,
+  isTerminalStatus,
+  toJobStatus,
+  ACTIVE_JOB_STATUSES,
+  STANDALONE_JOB_TYPES,
+  JOB_LOCK_TIMEOUT_MS,
+  type SyncJob,
+  type SyncJobType,
+  type SyncJobStatus,
+  type RaceDataJobPayload,
+  type ScheduleJobPayload,
+  type GlobalResultsJobPayload,
+  type EnqueueResult,
+  type SyncJobStatusResponse,
+} from './queue';
+
+export {
+  processNextJob,
+  runWorker,
+  kickWorker,
+  createWorkerId,
+} from './worker';
+
+export {
+  refreshScheduleIfNeeded,
+  getScheduleRefreshReason,
+  getSeasonsToRefresh,
+  getServiceAccountUserId,
+  getFinishedRaceWeek,
+  SCHEDULE_LOOKAHEAD_MS,
+  SCHEDULE_MAX_AGE_MS,
+  SCHEDULE_EMPTY_RETRY_MS,
+  type ScheduleRefreshReason,
+  type ScheduleRefreshSeason,
+  type GlobalResultsRefresh,
+  type ScheduleRefreshResult,
+} from './schedule-refresh';
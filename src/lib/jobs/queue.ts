@@ -0,0 +1,352 @@
+/**
+ * Sync Job Queue
+ *
+ * Postgres-backed job queue for long-running syncs (no external broker):
+ * - Jobs move through queued -> running -> succeeded | failed
+ * - A partial unique index on dedupe_key keeps at most one active job per key,
+ *   so enqueueing a sync that is already queued or running returns the existing job
+ * - Jobs are claimed with FOR UPDATE SKIP LOCKED, one running job per user at a time
+ * - Standalone job types (hour-long collections) only run in standalone workers and
+ *   do not count towards the per-user limit
+ * - Failed attempts are retried with exponential backoff until max_attempts is reached
+ * - Jobs whose worker stopped heartbeating are reclaimed after a lock timeout
+ */
+
+import { db, syncJobs } from '../db';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+
+export type SyncJobType = 'race_data' | 'schedule' | 'global_results' | 'rating_history' | 'lap_data' | 'event_log' | 'qualifying';
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type SyncJob = typeof syncJobs.$inferSelect;
+
+export interface RaceDataJobPayload {
+  customerId: number;
+}
+
+export interface ScheduleJobPayload {
+  seasonYear?: number;
+  seasonQuarter?: number;
+}
+
+export interface GlobalResultsJobPayload {
+  seasonYear: number;
+  seasonQuarter: number;
+  raceWeekNum: number;
+}
+
+export interface EnqueueResult {
+  job: SyncJob;
+  /** True when an equivalent job was already queued or running */
+  deduplicated: boolean;
+}
+
+/**
+ * Job fields exposed to clients through the status endpoints
+ */
+export interface SyncJobStatusResponse {
+  id: string;
+  type: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  progress: unknown;
+  result: unknown;
+  lastError: string | null;
+  runAt: Date;
+  createdAt: Date | null;
+  completedAt: Date | null;
+}
+
+export const ACTIVE_JOB_STATUSES: SyncJobStatus[] = ['queued', 'running'];
+
+// Job types claimed only by standalone workers (scripts/sync-worker.ts), never by
+// in-process drains of the web server. A running one only blocks the user's other
+// standalone jobs, not their syncs.
+export const STANDALONE_JOB_TYPES: SyncJobType[] = ['global_results'];
+
+// Running jobs not updated within this window are considered abandoned and reclaimed
+export const JOB_LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Check whether a job has finished (successfully or not)
+ */
+export function isTerminalStatus(status: string): boolean {
+  return status === 'succeeded' || status === 'failed';
+}
+
+/**
+ * Strip internal lock fields from a job for API responses
+ */
+export function toJobStatus(job: SyncJob): SyncJobStatusResponse {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    progress: job.progress,
+    result: job.result,
+    lastError: job.lastError,
+    runAt: job.runAt,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
+
+/**
+ * Enqueue a job, returning the existing active job with the same dedupe key if there is one
+ */
+export async function enqueueJob(
+  type: SyncJobType,
+  dedupeKey: string,
+  options: { userId?: string; payload?: unknown; maxAttempts?: number } = {}
+): Promise<EnqueueResult> {
+  const [created] = await db.insert(syncJobs)
+    .values({
+      type,
+      dedupeKey,
+      userId: options.userId,
+      payload: options.payload ?? null,
+      maxAttempts: options.maxAttempts ?? 3,
+    })
+    .onConflictDoNothing() // Conflicts only with an active job on the partial unique index
+    .returning();
+
+  if (created) {
+    return { job: created, deduplicated: false };
+  }
+
+  const existing = await getActiveJob(dedupeKey);
+  if (!existing) {
+    // The active job finished between the insert and the lookup - try again
+    return enqueueJob(type, dedupeKey, options);
+  }
+
+  return { job: existing, deduplicated: true };
+}
+
+/**
+ * Enqueue a full race history sync for a user
+ */
+export async function enqueueRaceDataSync(userId: string, customerId: number): Promise<EnqueueResult> {
+  const payload: RaceDataJobPayload = { customerId };
+  return enqueueJob('race_data', `race_data:${userId}`, { userId, payload });
+}
+
+/**
+ * Enqueue a schedule sync, run with the given user's iRacing credentials.
+ * Schedule data is shared, so jobs are deduplicated per season rather than per user.
+ */
+export async function enqueueScheduleSync(
+  userId: string,
+  seasonYear?: number,
+  seasonQuarter?: number
+): Promise<EnqueueResult> {
+  const payload: ScheduleJobPayload = { seasonYear, seasonQuarter };
+  return enqueueJob('schedule', getScheduleJobKey(seasonYear, seasonQuarter), { userId, payload });
+}
+
+/**
+ * Dedupe key for schedule sync jobs of a season ('current' when no season is given)
+ */
+export function getScheduleJobKey(seasonYear?: number, seasonQuarter?: number): string {
+  const seasonKey = seasonYear && seasonQuarter ? `${seasonYear}-${seasonQuarter}` : 'current';
+  return `schedule:${seasonKey}`;
+}
+
+/**
+ * Enqueue collection of public results for a finished race week, run with the given
+ * user's iRacing credentials. Deduplicated per race week.
+ */
+export async function enqueueGlobalResultsSync(
+  userId: string,
+  seasonYear: number,
+  seasonQuarter: number,
+  raceWeekNum: number
+): Promise<EnqueueResult> {
+  const payload: GlobalResultsJobPayload = { seasonYear, seasonQuarter, raceWeekNum };
+  return enqueueJob('global_results', getGlobalResultsJobKey(seasonYear, seasonQuarter, raceWeekNum), { userId, payload });
+}
+
+/**
+ * Dedupe key for global results jobs of a race week
+ */
+export function getGlobalResultsJobKey(seasonYear: number, seasonQuarter: number, raceWeekNum: number): string {
+  return `global_results:${seasonYear}-${seasonQuarter}-${raceWeekNum}`;
+}
+
+/**
+ * Enqueue an import of a user's iRating and Safety Rating charts
+ */
+export async function enqueueRatingHistorySync(userId: string): Promise<EnqueueResult> {
+  return enqueueJob('rating_history', `rating_history:${userId}`, { userId });
+}
+
+/**
+ * Enqueue an import of lap data for a user's recent races
+ */
+export async function enqueueLapDataSync(userId: string): Promise<EnqueueResult> {
+  return enqueueJob('lap_data', `lap_data:${userId}`, { userId });
+}
+
+/**
+ * Enqueue an import of event logs for a user's recent races
+ */
+export async function enqueueEventLogSync(userId: string): Promise<EnqueueResult> {
+  return enqueueJob('event_log', `event_log:${userId}`, { userId });
+}
+
+/**
+ * Enqueue an import of qualifying for a user's recent races
+ */
+export async function enqueueQualifyingSync(userId: string): Promise<EnqueueResult> {
+  return enqueueJob('qualifying', `qualifying:${userId}`, { userId });
+}
+
+/**
+ * Claim the next runnable job for a worker.
+ * Skips jobs of users who already have a running job so per-user syncs never overlap,
+ * and standalone job types unless the worker is a standalone one.
+ */
+export async function claimNextJob(workerId: string, options: { standalone?: boolean } = {}): Promise<SyncJob | null> {
+  const now = new Date();
+  const lockTimeoutSeconds = Math.round(JOB_LOCK_TIMEOUT_MS / 1000);
+  const standaloneTypes = sql.join(STANDALONE_JOB_TYPES.map(type => sql`${type}`), sql`, `);
+  const claimable = options.standalone ? sql`TRUE` : sql`j.type NOT IN (${standaloneTypes})`;
+
+  const [job] = await db.update(syncJobs)
+    .set({
+      status: 'running',
+      lockedAt: now,
+      lockedBy: workerId,
+      attempts: sql`${syncJobs.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(eq(syncJobs.id, sql`(
+      SELECT j.id FROM sync_jobs j
+      WHERE (
+        (j.status = 'queued' AND j.run_at <= NOW())
+        OR (j.status = 'running' AND j.locked_at < NOW() - make_interval(secs => ${lockTimeoutSeconds}))
+      )
+      AND ${claimable}
+      AND NOT EXISTS (
+        SELECT 1 FROM sync_jobs r
+        WHERE r.user_id = j.user_id
+          AND r.id <> j.id
+          AND r.status = 'running'
+          AND (r.type NOT IN (${standaloneTypes}) OR j.type IN (${standaloneTypes}))
+          AND r.locked_at >= NOW() - make_interval(secs => ${lockTimeoutSeconds})
+      )
+      ORDER BY j.run_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )`))
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Record job progress (also refreshes the lock so the job is not reclaimed)
+ */
+export async function updateJobProgress(jobId: string, progress: unknown): Promise<void> {
+  const now = new Date();
+  await db.update(syncJobs)
+    .set({ progress, lockedAt: now, updatedAt: now })
+    .where(and(eq(syncJobs.id, jobId), eq(syncJobs.status, 'running')));
+}
+
+/**
+ * Mark a job as succeeded
+ */
+export async function completeJob(jobId: string, result: unknown): Promise<void> {
+  const now = new Date();
+  await db.update(syncJobs)
+    .set({
+      status: 'succeeded',
+      result,
+      lastError: null,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(eq(syncJobs.id, jobId));
+}
+
+/**
+ * Record a failed attempt: requeue with backoff, or mark the job failed once
+ * it has used all of its attempts. Returns the delay until the retry, or null.
+ */
+export async function failJob(job: SyncJob, error: unknown): Promise<number | null> {
+  const now = new Date();
+  const message = (error instanceof Error ? error.message : String(error)).slice(0, 1000);
+  const canRetry = job.attempts < job.maxAttempts;
+  const retryDelay = canRetry ? getRetryDelay(job.attempts) : null;
+
+  await db.update(syncJobs)
+    .set({
+      status: canRetry ? 'queued' : 'failed',
+      lastError: message,
+      runAt: retryDelay !== null ? new Date(now.getTime() + retryDelay) : job.runAt,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: canRetry ? null : now,
+      updatedAt: now,
+    })
+    .where(eq(syncJobs.id, job.id));
+
+  return retryDelay;
+}
+
+/**
+ * Get a job by ID
+ */
+export async function getJob(jobId: string): Promise<SyncJob | null> {
+  const job = await db.query.syncJobs.findFirst({
+    where: eq(syncJobs.id, jobId),
+  });
+  return job ?? null;
+}
+
+/**
+ * Get the queued or running job for a dedupe key
+ */
+export async function getActiveJob(dedupeKey: string): Promise<SyncJob | null> {
+  const job = await db.query.syncJobs.findFirst({
+    where: and(eq(syncJobs.dedupeKey, dedupeKey), inArray(syncJobs.status, ACTIVE_JOB_STATUSES)),
+  });
+  return job ?? null;
+}
+
+/**
+ * Get the most recently completed successful job for a dedupe key
+ */
+export async function getLastSucceededJob(dedupeKey: string): Promise<SyncJob | null> {
+  const job = await db.query.syncJobs.findFirst({
+    where: and(eq(syncJobs.dedupeKey, dedupeKey), eq(syncJobs.status, 'succeeded')),
+    orderBy: [desc(syncJobs.completedAt)],
+  });
+  return job ?? null;
+}
+
+/**
+ * Get a user's most recent jobs, newest first
+ */
+export async function getUserJobs(userId: string, limit: number = 10): Promise<SyncJob[]> {
+  return db.query.syncJobs.findMany({
+    where: eq(syncJobs.userId, userId),
+    orderBy: [desc(syncJobs.createdAt)],
+    limit,
+  });
+}
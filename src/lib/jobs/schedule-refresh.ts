@@ -0,0 +1,205 @@
+/**
+ * Scheduled Schedule Refresh
+ *
+ * Keeps schedule_entries populated without anyone hitting a debug route:
+ * - Race weeks roll over every Tuesday 00:00 UTC (see ../iracing/season-calendar);
+ *   the current season is re-synced after each rollover (and at least daily for
+ *   race time changes)
+ * - The next season is synced ahead of time once it is within the lookahead window,
+ *   so recommendations never go empty when a new season starts
+ * - Syncs run as schedule jobs with the service account's iRacing tokens
+ *   (IRACING_SERVICE_ACCOUNT_CUST_ID - an account that has signed in to the app once)
+ * - Cached racing opportunities are keyed by race week, so a rollover needs no
+ *   invalidation here (this may run in another process than the web server)
+ * - Public results of the race week that just ended are collected for series-wide
+ *   statistics (see ../iracing/global-results), until a collection of it completes
+ *
+ * Called periodically by the standalone sync worker and by the cron endpoint.
+ */
+
+import { getUserByIracingId } from '../auth/db';
+import { getScheduleCacheStatus } from '../iracing/schedule';
+import { getLastWeekRollover, getSeasonAt, loadSeasonCalendars } from '../iracing/season-calendar';
+import {
+  enqueueGlobalResultsSync,
+  enqueueScheduleSync,
+  getGlobalResultsJobKey,
+  getLastSucceededJob,
+  getScheduleJobKey,
+} from './queue';
+
+export type ScheduleRefreshReason = 'missing' | 'rollover' | 'stale';
+
+export interface ScheduleRefreshSeason {
+  seasonYear: number;
+  seasonQuarter: number;
+  /** Why a sync was queued, or null if the season's schedule is up to date */
+  reason: ScheduleRefreshReason | null;
+  jobId?: string;
+  deduplicated?: boolean;
+}
+
+export interface GlobalResultsRefresh {
+  seasonYear: number;
+  seasonQuarter: number;
+  raceWeekNum: number;
+  /** True when a collection of the week was queued (or already queued) */
+  queued: boolean;
+  jobId?: string;
+  deduplicated?: boolean;
+}
+
+export interface ScheduleRefreshResult {
+  success: boolean;
+  seasons: ScheduleRefreshSeason[];
+  /** Public results collection for the last finished race week, or null during week 13 */
+  globalResults?: GlobalResultsRefresh | null;
+  error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead of a season start its schedule is synced (iRacing publishes it ~2 weeks early)
+export const SCHEDULE_LOOKAHEAD_MS = 14 * DAY_MS;
+
+// Maximum age of a successful schedule sync before it is refreshed
+export const SCHEDULE_MAX_AGE_MS = DAY_MS;
+
+// Retry interval for seasons whose schedule has not been published yet
+export const SCHEDULE_EMPTY_RETRY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Decide whether a season's schedule needs to be synced.
+ * Returns the reason, or null if the last sync is recent enough.
+ */
+export function getScheduleRefreshReason(
+  entryCount: number,
+  lastSyncedAt: Date | null,
+  now: Date = new Date()
+): ScheduleRefreshReason | null {
+  if (!lastSyncedAt) {
+    return entryCount === 0 ? 'missing' : 'stale';
+  }
+
+  const age = now.getTime() - lastSyncedAt.getTime();
+  if (entryCount === 0) {
+    // Not published yet (or the last sync failed to store anything) - check back later
+    return age >= SCHEDULE_EMPTY_RETRY_MS ? 'missing' : null;
+  }
+  if (lastSyncedAt < getLastWeekRollover(now)) {
+    return 'rollover';
+  }
+  return age >= SCHEDULE_MAX_AGE_MS ? 'stale' : null;
+}
+
+/**
+ * Resolve the app user whose iRacing tokens are used for scheduled syncs
+ */
+export async function getServiceAccountUserId(): Promise<string | null> {
+  const customerId = parseInt(process.env.IRACING_SERVICE_ACCOUNT_CUST_ID || '', 10);
+  if (!customerId) {
+    return null;
+  }
+
+  const user = await getUserByIracingId(customerId);
+  return user?.id ?? null;
+}
+
+/**
+ * Seasons whose schedules should be kept in sync: the current one, plus the next
+ * one once it starts within the lookahead window
+ */
+export function getSeasonsToRefresh(now: Date = new Date()): Array<{ year: number; quarter: number }> {
+  const currentWeek = getSeasonAt(now);
+  const upcomingWeek = getSeasonAt(new Date(now.getTime() + SCHEDULE_LOOKAHEAD_MS));
+  const current = { year: currentWeek.seasonYear, quarter: currentWeek.seasonQuarter };
+  const upcoming = { year: upcomingWeek.seasonYear, quarter: upcomingWeek.seasonQuarter };
+
+  if (upcoming.year === current.year && upcoming.quarter === current.quarter) {
+    return [current];
+  }
+  return [current, upcoming];
+}
+
+/**
+ * The race week that ended at the last rollover
+ */
+export function getFinishedRaceWeek(now: Date = new Date()) {
+  return getSeasonAt(new Date(getLastWeekRollover(now).getTime() - 1));
+}
+
+/**
+ * Queue public results collection for the race week that just ended, unless a
+ * collection of it has already completed. Week 13 has no official series to sample.
+ */
+async function queueGlobalResultsCollection(userId: string, now: Date): Promise<GlobalResultsRefresh | null> {
+  const week = getFinishedRaceWeek(now);
+  if (week.isWeek13) {
+    return null;
+  }
+
+  const refresh: GlobalResultsRefresh = {
+    seasonYear: week.seasonYear,
+    seasonQuarter: week.seasonQuarter,
+    raceWeekNum: week.raceWeekNum,
+    queued: false,
+  };
+
+  const lastRun = await getLastSucceededJob(getGlobalResultsJobKey(week.seasonYear, week.seasonQuarter, week.raceWeekNum));
+  if ((lastRun?.result as { complete?: boolean } | null)?.complete) {
+    return refresh;
+  }
+
+  const { job, deduplicated } = await enqueueGlobalResultsSync(userId, week.seasonYear, week.seasonQuarter, week.raceWeekNum);
+  return { ...refresh, queued: true, jobId: job.id, deduplicated };
+}
+
+/**
+ * Check the current and upcoming seasons and queue schedule syncs where needed
+ */
+export async function refreshScheduleIfNeeded(now: Date = new Date()): Promise<ScheduleRefreshResult> {
+  try {
+    const serviceUserId = await getServiceAccountUserId();
+    if (!serviceUserId) {
+      return {
+        success: false,
+        seasons: [],
+        error: 'Schedule refresh service account is not configured (IRACING_SERVICE_ACCOUNT_CUST_ID) or has not signed in',
+      };
+    }
+
+    await loadSeasonCalendars();
+    const seasons: ScheduleRefreshSeason[] = [];
+    for (const season of getSeasonsToRefresh(now)) {
+      const cacheStatus = await getScheduleCacheStatus(season.year, season.quarter);
+      const lastSync = await getLastSucceededJob(getScheduleJobKey(season.year, season.quarter));
+      const reason = getScheduleRefreshReason(cacheStatus.entryCount, lastSync?.completedAt ?? null, now);
+
+      const refresh: ScheduleRefreshSeason = {
+        seasonYear: season.year,
+        seasonQuarter: season.quarter,
+        reason,
+      };
+
+      if (reason) {
+        const { job, deduplicated } = await enqueueScheduleSync(serviceUserId, season.year, season.quarter);
+        refresh.jobId = job.id;
+        refresh.deduplicated = deduplicated;
+        console.log(`Schedule refresh: ${season.year}Q${season.quarter} ${reason} -> job ${job.id}${deduplicated ? ' (already queued)' : ''}`);
+      }
+
+      seasons.push(refresh);
+    }
+
+    const globalResults = await queueGlobalResultsCollection(serviceUserId, now);
+
+    return { success: true, seasons, globalResults };
+  } catch (error) {
+    console.error('Schedule refresh check failed:', error);
+    return {
+      success: false,
+      seasons: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Sync Job Worker
+ *
+ * Claims jobs from the sync job queue and runs them. Can run as a standalone
+ * long-lived process (scripts/sync-worker.ts) or be kicked in-process after a job
+ * is enqueued, draining the queue in the background of the current server.
+ * Both are safe to run at the same time - claims use SKIP LOCKED. Standalone job
+ * types (global results collection) are left to the standalone process.
+ */
+
+import { clearOldScheduleData, syncCarLookups, syncScheduleData, syncTrackLookups } from '../iracing/schedule';
+import { carLookupsNeedSync } from '../iracing/cars';
+import { trackLookupsNeedSync } from '../iracing/tracks';
+import { collectGlobalResults } from '../iracing/global-results';
+import { importRatingHistory } from '../iracing/rating-history';
+import { getLapDataRaceLimit, importLapData } from '../iracing/lap-data';
+import { importEventLogs } from '../iracing/event-log';
+import { importQualifying } from '../iracing/qualifying';
+import type { RaceImportProgress } from '../iracing/race-imports';
+import { clearOpportunitiesCache } from '../recommendations/data-preparation';
+import { startTrackedSync, subscribeToSyncProgress } from '../iracing/sync-events';
+import type { SyncProgress } from '../iracing/sync';
+import {
+  claimNextJob,
+  completeJob,
+  enqueueEventLogSync,
+  enqueueLapDataSync,
+  enqueueQualifyingSync,
+  enqueueRatingHistorySync,
+  failJob,
+  updateJobProgress,
+  type GlobalResultsJobPayload,
+  type RaceDataJobPayload,
+  type ScheduleJobPayload,
+  type SyncJob,
+  type SyncJobType,
+} from './queue';
+import { refreshScheduleIfNeeded } from './schedule-refresh';
+
+type JobHandler = (job: SyncJob) => Promise<unknown>;
+
+// Minimum time between progress writes for a running job
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+// How often a long-running worker checks whether the schedule needs a refresh
+const SCHEDULE_REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Run a race history sync, persisting progress to the job row
+ */
+async function runRaceDataJob(job: SyncJob): Promise<unknown> {
+  const { customerId } = job.payload as RaceDataJobPayload;
+  if (!job.userId || !customerId) {
+    throw new Error('Race data job is missing userId or customerId');
+  }
+
+  let lastWrite = 0;
+  let pendingWrite: Promise<void> = Promise.resolve();
+  const resultPromise = startTrackedSync(job.userId, customerId);
+
+  const unsubscribe = subscribeToSyncProgress(job.userId, (progress: SyncProgress) => {
+    const now = Date.now();
+    if (now - lastWrite >= PROGRESS_WRITE_INTERVAL_MS) {
+      lastWrite = now;
+      pendingWrite = pendingWrite
+        .then(() => updateJobProgress(job.id, progress))
+        .catch(error => console.warn(`Failed to record progress for job ${job.id}:`, error));
+    }
+  });
+
+  try {
+    const result = await resultPromise;
+    await pendingWrite;
+    await updateJobProgress(job.id, result.progress);
+
+    if (!result.success) {
+      throw new Error(result.error || 'Race data sync failed');
+    }
+
+    // Rating charts follow each sync so the new races show up in the history
+    await enqueueRatingHistorySync(job.userId).catch(error =>
+      console.warn(`Failed to queue rating history import for job ${job.id}:`, error)
+    );
+    if (getLapDataRaceLimit() > 0) {
+      await enqueueLapDataSync(job.userId).catch(error =>
+        console.warn(`Failed to queue lap data import for job ${job.id}:`, error)
+      );
+    }
+    await enqueueEventLogSync(job.userId).catch(error =>
+      console.warn(`Failed to queue event log import for job ${job.id}:`, error)
+    );
+    await enqueueQualifyingSync(job.userId).catch(error =>
+      console.warn(`Failed to queue qualifying import for job ${job.id}:`, error)
+    );
+    return result;
+  } finally {
+    unsubscribe();
+  }
+}
+
+/**
+ * Run a schedule sync, then prune finished weeks and drop cached opportunities.
+ * Stale car and track lookups are refreshed first; a lookup failure does not fail the job.
+ */
+async function runScheduleJob(job: SyncJob): Promise<unknown> {
+  const { seasonYear, seasonQuarter } = (job.payload || {}) as ScheduleJobPayload;
+  if (!job.userId) {
+    throw new Error('Schedule job is missing userId');
+  }
+
+  let carLookups = null;
+  if (await carLookupsNeedSync()) {
+    carLookups = await syncCarLookups(job.userId);
+    if (!carLookups.success) {
+      console.warn('Car lookup sync failed, continuing with schedule sync:', carLookups.error);
+    }
+  }
+
+  let trackLookups = null;
+  if (await trackLookupsNeedSync()) {
+    trackLookups = await syncTrackLookups(job.userId);
+    if (!trackLookups.success) {
+      console.warn('Track lookup sync failed, continuing with schedule sync:', trackLookups.error);
+    }
+  }
+
+  const result = await syncScheduleData(job.userId, seasonYear, seasonQuarter);
+  if (!result.success) {
+    throw new Error(result.error || 'Schedule sync failed');
+  }
+
+  const entriesPruned = await clearOldScheduleData();
+  clearOpportunitiesCache();
+  return { ...result, entriesPruned, carLookups, trackLookups };
+}
+
+/**
+ * Collect public results for a finished race week. Progress is written after each
+ * series, which also keeps the lock fresh through the paced requests.
+ */
+async function runGlobalResultsJob(job: SyncJob): Promise<unknown> {
+  const { seasonYear, seasonQuarter, raceWeekNum } = (job.payload || {}) as GlobalResultsJobPayload;
+  if (!job.userId || !seasonYear || !seasonQuarter || raceWeekNum === undefined) {
+    throw new Error('Global results job is missing userId or race week');
+  }
+
+  return collectGlobalResults(job.userId, { seasonYear, seasonQuarter, raceWeekNum }, {
+    onProgress: progress => updateJobProgress(job.id, progress),
+  });
+}
+
+/**
+ * Import the user's iRating and Safety Rating charts. Charts that fail are retried
+ * with the next sync, so only a run where every chart failed fails the job.
+ */
+async function runRatingHistoryJob(job: SyncJob): Promise<unknown> {
+  if (!job.userId) {
+    throw new Error('Rating history job is missing userId');
+  }
+
+  const result = await importRatingHistory(job.userId, {
+    onProgress: progress => updateJobProgress(job.id, progress),
+  });
+  if (result.chartsImported === 0 && result.errors.length > 0) {
+    throw new Error(result.errors[0]);
+  }
+  return result;
+}
+
+/**
+ * Handler for a per-race import job (lap data, event logs, qualifying) of the user's
+ * most recent races. Races that fail are retried with the next sync, so only a run
+ * where every race failed fails the job.
+ */
+function createRaceImportHandler(
+  name: string,
+  importRaces: (
+    userId: string,
+    options: { onProgress: (progress: RaceImportProgress) => Promise<void> }
+  ) => Promise<RaceImportProgress>
+): JobHandler {
+  return async job => {
+    if (!job.userId) {
+      throw new Error(`${name} job is missing userId`);
+    }
+
+    const result = await importRaces(job.userId, {
+      onProgress: progress => updateJobProgress(job.id, progress),
+    });
+    if (result.racesImported === 0 && result.errors.length > 0) {
+      throw new Error(result.errors[0]);
+    }
+    return result;
+  };
+}
+
+const JOB_HANDLERS: Record<SyncJobType, JobHandler> = {
+  race_data: runRaceDataJob,
+  schedule: runScheduleJob,
+  global_results: runGlobalResultsJob,
+  rating_history: runRatingHistoryJob,
+  lap_data: createRaceImportHandler('Lap data', importLapData),
+  event_log: createRaceImportHandler('Event log', importEventLogs),
+  qualifying: createRaceImportHandler('Qualifying', importQualifying),
+};
+
+/**
+ * Build a worker ID that identifies this process in job locks
+ */
+export function createWorkerId(prefix: string = 'worker'): string {
+  return `${prefix}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Claim and run a single job. Returns the processed job, or null if the queue was empty.
+ */
+export async function processNextJob(workerId: string, options: { standalone?: boolean } = {}): Promise<SyncJob | null> {
+  const job = await claimNextJob(workerId, options);
+  if (!job) {
+    return null;
+  }
+
+  const handler = JOB_HANDLERS[job.type as SyncJobType];
+  console.log(`[${workerId}] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    if (!handler) {
+      throw new Error(`Unknown job type: ${job.type}`);
+    }
+
+    const result = await handler(job);
+    await completeJob(job.id, result);
+    console.log(`[${workerId}] Job ${job.id} succeeded`);
+  } catch (error) {
+    const retryDelay = await failJob(job, error);
+    if (retryDelay !== null) {
+      console.warn(`[${workerId}] Job ${job.id} failed, retrying in ${Math.round(retryDelay / 1000)}s:`, error);
+      // Make sure an in-process drain picks the retry up even without a standalone worker
+      setTimeout(kickWorker, retryDelay);
+    } else {
+      console.error(`[${workerId}] Job ${job.id} failed permanently:`, error);
+    }
+  }
+
+  return job;
+}
+
+/**
+ * Run the worker loop until the signal is aborted (or the queue is empty with stopWhenEmpty).
+ * Long-running workers also queue schedule refreshes around race week rollovers.
+ * Standalone workers also run standalone job types.
+ */
+export async function runWorker(options: {
+  workerId?: string;
+  pollIntervalMs?: number;
+  stopWhenEmpty?: boolean;
+  refreshSchedule?: boolean;
+  standalone?: boolean;
+  signal?: AbortSignal;
+} = {}): Promise<void> {
+  const workerId = options.workerId || createWorkerId();
+  const pollIntervalMs = options.pollIntervalMs ?? 5000;
+  const refreshSchedule = options.refreshSchedule ?? !options.stopWhenEmpty;
+  let lastScheduleCheck = 0;
+
+  while (!options.signal?.aborted) {
+    if (refreshSchedule && Date.now() - lastScheduleCheck >= SCHEDULE_REFRESH_INTERVAL_MS) {
+      lastScheduleCheck = Date.now();
+      const refresh = await refreshScheduleIfNeeded();
+      if (!refresh.success) {
+        console.warn(`[${workerId}] Schedule refresh check failed: ${refresh.error}`);
+      }
+    }
+
+    let job: SyncJob | null = null;
+    try {
+      job = await processNextJob(workerId, { standalone: options.standalone });
+    } catch (error) {
+      console.error(`[${workerId}] Failed to claim job:`, error);
+    }
+
+    if (!job) {
+      if (options.stopWhenEmpty) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+}
+
+// Concurrent in-process drains, so one user's long backfill does not hold up everyone else
+const INLINE_CONCURRENCY = 3;
+let activeDrains = 0;
+
+/**
+ * Drain the queue in the background of the current process.
+ * Route handlers call this after enqueueing so syncs run without a standalone worker.
+ */
+export function kickWorker(): void {
+  if (activeDrains >= INLINE_CONCURRENCY) {
+    return;
+  }
+
+  activeDrains++;
+  runWorker({ workerId: createWorkerId('inline'), stopWhenEmpty: true })
+    .catch(error => console.error('In-process sync worker failed:', error))
+    .finally(() => {
+      activeDrains--;
+    });
+}
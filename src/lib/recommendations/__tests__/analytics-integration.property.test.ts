@@ -14,6 +14,8 @@ jest.mock('../../db/analytics', () => ({
   getPerformanceMetrics: jest.fn(),
   getSeriesTrackPerformance: jest.fn(),
   getGlobalSeriesTrackStats: jest.fn(),
+  getCarExperience: jest.fn(async () => []),
+  getConditionsIncidentStats: jest.fn(async () => []),
 }));
 
 // Mock the database with full query chain support
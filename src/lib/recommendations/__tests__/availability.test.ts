@@ -0,0 +1,73 @@
+/**
+ * Tests for availability windows
+ *
+ * Key behaviors:
+ * 1. Session instants are compared in the user's timezone, including across DST
+ * 2. Windows ending before they start run past midnight
+ * 3. Submitted availability is validated
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { getLocalTime, isWithinAvailability, validateAvailability } from '../availability';
+import type { UserAvailability } from '../types';
+
+jest.mock('../../db', () => ({
+  db: {},
+}));
+
+describe('Availability windows', () => {
+  const fridayEvenings: UserAvailability = {
+    timezone: 'America/New_York',
+    windows: [{ dayOfWeek: 5, start: '19:00', end: '22:00' }],
+  };
+
+  test('reads local weekday and time', () => {
+    // Saturday 01:30 UTC is Friday 21:30 in New York (EDT)
+    expect(getLocalTime(new Date('2025-06-07T01:30:00Z'), 'America/New_York')).toEqual({ dayOfWeek: 5, minutes: 21 * 60 + 30 });
+  });
+
+  test('matches sessions inside the window in the user timezone', () => {
+    expect(isWithinAvailability(new Date('2025-06-06T23:00:00Z'), fridayEvenings)).toBe(true); // 19:00 EDT
+    expect(isWithinAvailability(new Date('2025-06-07T02:00:00Z'), fridayEvenings)).toBe(false); // 22:00 EDT, window end
+    expect(isWithinAvailability(new Date('2025-06-06T22:30:00Z'), fridayEvenings)).toBe(false); // 18:30 EDT
+  });
+
+  test('follows daylight saving time', () => {
+    // 19:30 local is 00:30 UTC in winter (EST) but 23:30 UTC in summer (EDT)
+    expect(isWithinAvailability(new Date('2025-01-11T00:30:00Z'), fridayEvenings)).toBe(true);
+    expect(isWithinAvailability(new Date('2025-01-10T23:30:00Z'), fridayEvenings)).toBe(false);
+  });
+
+  test('supports windows that run past midnight', () => {
+    const lateNights: UserAvailability = {
+      timezone: 'UTC',
+      windows: [{ dayOfWeek: 6, start: '22:00', end: '01:00' }],
+    };
+
+    expect(isWithinAvailability(new Date('2025-06-07T23:15:00Z'), lateNights)).toBe(true); // Saturday
+    expect(isWithinAvailability(new Date('2025-06-08T00:45:00Z'), lateNights)).toBe(true); // Sunday
+    expect(isWithinAvailability(new Date('2025-06-08T01:00:00Z'), lateNights)).toBe(false);
+    expect(isWithinAvailability(new Date('2025-06-08T23:15:00Z'), lateNights)).toBe(false); // Sunday night
+  });
+});
+
+describe('validateAvailability', () => {
+  test('accepts valid availability', () => {
+    expect(validateAvailability(fridayInput())).toEqual({ availability: fridayInput() });
+  });
+
+  test('rejects unknown timezones', () => {
+    expect(validateAvailability({ ...fridayInput(), timezone: 'Mars/Olympus' }).error).toMatch(/Invalid timezone/);
+  });
+
+  test('rejects malformed windows', () => {
+    expect(validateAvailability({ timezone: 'UTC', windows: [{ dayOfWeek: 7, start: '19:00', end: '22:00' }] }).error).toBeDefined();
+    expect(validateAvailability({ timezone: 'UTC', windows: [{ dayOfWeek: 5, start: '7pm', end: '22:00' }] }).error).toBeDefined();
+    expect(validateAvailability({ timezone: 'UTC', windows: [{ dayOfWeek: 5, start: '19:00', end: '19:00' }] }).error).toBeDefined();
+    expect(validateAvailability({ timezone: 'UTC' }).error).toBeDefined();
+  });
+
+  function fridayInput(): UserAvailability {
+    return { timezone: 'Europe/London', windows: [{ dayOfWeek: 5, start: '19:00', end: '22:00' }] };
+  }
+});
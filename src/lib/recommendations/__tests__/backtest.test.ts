@@ -0,0 +1,171 @@
+/**
+ * Tests for recommendation outcome tracking and scoring backtests
+ *
+ * Key behaviors:
+ * 1. Rank correlation handles ties and refuses to report on too little data
+ * 2. Served recommendations are summarized per mode against the races they led to
+ * 3. History is rebuilt from earlier races only, aged from the week scored, and each week is scored with it
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import { rankCorrelation, spearmanCorrelation, summarizeOutcomes } from '../outcomes';
+import { backtestRaces, buildHistoryFromRaces, type BacktestRace } from '../backtest';
+import { RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+jest.mock('../../db', () => ({ db: {} }));
+
+const licenses = [{ category: Category.SPORTS_CAR, level: LicenseLevel.C, safetyRating: 3.0, iRating: 1500 }];
+
+function race(overrides: Partial<BacktestRace>): BacktestRace {
+  return {
+    seriesId: 260,
+    seriesName: 'Global Mazda MX-5 Cup',
+    trackId: 50,
+    trackName: 'Lime Rock Park',
+    category: Category.SPORTS_CAR,
+    licenseRequired: LicenseLevel.ROOKIE,
+    hasOpenSetup: false,
+    raceDate: new Date('2025-01-07T19:00:00Z'),
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 0,
+    startingPosition: 10,
+    finishingPosition: 8,
+    positionDelta: 2,
+    classPositionDelta: null,
+    incidents: 2,
+    strengthOfField: 1400,
+    fieldSize: 20,
+    raceLength: 20,
+    ...overrides,
+  };
+}
+
+describe('spearmanCorrelation', () => {
+  test('is 1 for the same order and -1 for the reverse order', () => {
+    expect(spearmanCorrelation([1, 2, 3, 4], [10, 20, 30, 40])).toBeCloseTo(1);
+    expect(spearmanCorrelation([1, 2, 3, 4], [40, 30, 20, 10])).toBeCloseTo(-1);
+  });
+
+  test('only looks at order, not distance', () => {
+    expect(spearmanCorrelation([1, 2, 3], [1, 100, 1000])).toBeCloseTo(1);
+  });
+
+  test('averages the ranks of ties', () => {
+    expect(spearmanCorrelation([1, 2, 2, 3], [1, 2, 3, 4])).toBeCloseTo(0.949, 3);
+  });
+
+  test('returns null with too few samples or no spread', () => {
+    expect(spearmanCorrelation([1, 2], [1, 2])).toBeNull();
+    expect(spearmanCorrelation([5, 5, 5], [1, 2, 3])).toBeNull();
+    expect(rankCorrelation([1, 2], [2, 1])).toEqual({ coefficient: null, samples: 2 });
+  });
+});
+
+describe('summarizeOutcomes', () => {
+  test('counts served and raced recommendations per mode', () => {
+    const summaries = summarizeOutcomes([
+      { mode: 'balanced', rank: 1, overallScore: 80, positionDelta: 3, incidents: 1 },
+      { mode: 'balanced', rank: 2, overallScore: 70, positionDelta: 1, incidents: 2 },
+      { mode: 'balanced', rank: 3, overallScore: 60, positionDelta: -2, incidents: 6 },
+      { mode: 'balanced', rank: 4, overallScore: 50, positionDelta: null, incidents: null },
+      { mode: 'safety_recovery', rank: 1, overallScore: 75, positionDelta: null, incidents: null },
+    ]);
+
+    expect(summaries).toHaveLength(2);
+    expect(summaries[0]).toEqual({
+      mode: 'balanced',
+      served: 4,
+      raced: 3,
+      topPicksServed: 1,
+      topPicksRaced: 1,
+      scoreVsPositionDelta: { coefficient: 1, samples: 3 },
+      scoreVsIncidents: { coefficient: 1, samples: 3 },
+    });
+    expect(summaries[1]).toMatchObject({ mode: 'safety_recovery', served: 1, raced: 0, topPicksRaced: 0 });
+  });
+});
+
+describe('buildHistoryFromRaces', () => {
+  const asOf = new Date('2025-01-14T19:00:00Z');
+
+  test('aggregates per series/track with real positions and last race dates', () => {
+    const history = buildHistoryFromRaces('user-1', [
+      race({ startingPosition: 10, finishingPosition: 6, positionDelta: 4, incidents: 0 }),
+      race({ startingPosition: 8, finishingPosition: 10, positionDelta: -2, incidents: 4, raceDate: new Date('2025-01-08T19:00:00Z') }),
+      race({ seriesId: 300, trackId: 60, classPositionDelta: 1 }),
+    ], licenses, asOf, Infinity);
+
+    const mx5 = history.seriesTrackHistory.find(entry => entry.seriesId === 260)!;
+    expect(mx5.raceCount).toBe(2);
+    expect(mx5.avgStartingPosition).toBe(9);
+    expect(mx5.avgFinishingPosition).toBe(8);
+    expect(mx5.avgPositionDelta).toBe(1);
+    expect(mx5.avgIncidents).toBe(2);
+    expect(mx5.finishPositionStdDev).toBeCloseTo(Math.SQRT2 * 2);
+    expect(mx5.lastRaceDate).toEqual(new Date('2025-01-08T19:00:00Z'));
+
+    const other = history.seriesTrackHistory.find(entry => entry.seriesId === 300)!;
+    expect(other.avgClassPositionDelta).toBe(1);
+    expect(history.overallStats.totalRaces).toBe(3);
+    expect(history.licenseClasses).toBe(licenses);
+  });
+
+  test('weights races by their age at the week scored', () => {
+    const history = buildHistoryFromRaces('user-1', [
+      race({ positionDelta: 4, raceDate: new Date('2024-12-31T19:00:00Z') }),
+      race({ positionDelta: -2, raceDate: new Date('2025-01-14T19:00:00Z') }),
+    ], licenses, asOf, 14);
+
+    const mx5 = history.seriesTrackHistory[0];
+    expect(mx5.raceCount).toBe(2);
+    expect(mx5.effectiveRaceCount).toBeCloseTo(1.5);
+    // (4 * 0.5 + -2 * 1) / 1.5
+    expect(mx5.avgPositionDelta).toBeCloseTo(0);
+  });
+});
+
+describe('backtestRaces', () => {
+  const races = [
+    race({ raceWeekNum: 0, raceDate: new Date('2025-01-07T19:00:00Z') }),
+    race({ raceWeekNum: 0, raceDate: new Date('2025-01-08T19:00:00Z') }),
+    race({ raceWeekNum: 1, raceDate: new Date('2025-01-14T19:00:00Z'), positionDelta: 5, incidents: 0 }),
+    race({ raceWeekNum: 1, seriesId: 300, trackId: 60, raceDate: new Date('2025-01-15T19:00:00Z'), positionDelta: -4, incidents: 8 }),
+    race({ raceWeekNum: 2, raceDate: new Date('2025-01-21T19:00:00Z'), positionDelta: 1, incidents: 3 }),
+  ];
+
+  test('skips weeks without enough earlier races and samples each series/track raced', () => {
+    const report = backtestRaces('user-1', races, licenses);
+
+    expect(report.weeks).toBe(2);
+    expect(report.samples.map(sample => [sample.raceWeekNum, sample.seriesId, sample.priorRaces])).toEqual([
+      [1, 260, 2],
+      [1, 300, 2],
+      [2, 260, 4],
+    ]);
+    expect(report.samples[0]).toMatchObject({ races: 1, avgPositionDelta: 5, avgIncidents: 0 });
+  });
+
+  test('scores every sample in each requested mode', () => {
+    const report = backtestRaces('user-1', races, licenses, {
+      modes: [RecommendationMode.BALANCED, RecommendationMode.SAFETY_RECOVERY],
+      minPriorRaces: 0,
+    });
+
+    expect(report.weeks).toBe(3);
+    expect(report.modes.map(mode => mode.mode)).toEqual([RecommendationMode.BALANCED, RecommendationMode.SAFETY_RECOVERY]);
+    report.modes.forEach(mode => {
+      expect(mode.scores).toHaveLength(report.samples.length);
+      expect(mode.scoreVsPositionDelta.samples).toBe(report.samples.length);
+    });
+  });
+
+  test('reports no correlation without enough samples', () => {
+    const report = backtestRaces('user-1', races.slice(0, 3), licenses);
+
+    expect(report.samples).toHaveLength(1);
+    report.modes.forEach(mode => expect(mode.scoreVsPositionDelta.coefficient).toBeNull());
+  });
+});
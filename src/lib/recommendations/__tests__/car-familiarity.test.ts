@@ -0,0 +1,112 @@
+/**
+ * Tests for car experience in the familiarity factor
+ *
+ * Key behaviors:
+ * 1. Without car data on either side, familiarity is unchanged (series/track only)
+ * 2. Races in the opportunity's cars count across all series and tracks
+ * 3. Never having driven the car lowers familiarity and adds a reasoning line
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ScoringAlgorithm } from '../scoring';
+import type { RacingOpportunity, UserHistory, SeriesTrackHistory, CarExperience } from '../types';
+import { RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+describe('Car Familiarity', () => {
+  const scoringAlgorithm = new ScoringAlgorithm();
+
+  const createOpportunity = (overrides: Partial<RacingOpportunity> = {}): RacingOpportunity => ({
+    seriesId: 100,
+    seriesName: 'Test Series',
+    trackId: 50,
+    trackName: 'Test Track',
+    licenseRequired: LicenseLevel.C,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 1,
+    raceLength: 30,
+    hasOpenSetup: false,
+    timeSlots: [{ hour: 12, dayOfWeek: 6, strengthOfField: 2000, participantCount: 25 }],
+    globalStats: {
+      avgIncidentsPerRace: 3.0,
+      avgFinishPositionStdDev: 5.0,
+      avgStrengthOfField: 2000,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 30,
+    },
+    carClassIds: [10],
+    carIds: [1, 2],
+    ...overrides,
+  });
+
+  const createHistory = (seriesId: number, trackId: number, raceCount: number, carExperience?: CarExperience[]): SeriesTrackHistory => ({
+    seriesId,
+    trackId,
+    raceCount,
+    avgStartingPosition: 12,
+    avgFinishingPosition: 10,
+    avgPositionDelta: 2,
+    avgIncidents: 2,
+    finishPositionStdDev: 3.0,
+    lastRaceDate: new Date(),
+    carExperience,
+  });
+
+  const createUserHistory = (seriesTrackHistory: SeriesTrackHistory[]): UserHistory => ({
+    userId: 'test-user-123',
+    seriesTrackHistory,
+    overallStats: {
+      totalRaces: 50,
+      avgIncidentsPerRace: 2.5,
+      avgPositionDelta: 1.0,
+      overallConsistency: 4.0,
+    },
+    licenseClasses: [
+      { category: Category.SPORTS_CAR, level: LicenseLevel.B, safetyRating: 3.5, iRating: 2000 },
+    ],
+  });
+
+  test('ignores cars when results have no car data', () => {
+    const userHistory = createUserHistory([createHistory(100, 50, 5)]);
+
+    const withCars = scoringAlgorithm.calculateScore(createOpportunity(), userHistory, RecommendationMode.BALANCED);
+    const withoutCars = scoringAlgorithm.calculateScore(
+      createOpportunity({ carClassIds: undefined, carIds: undefined }),
+      userHistory,
+      RecommendationMode.BALANCED
+    );
+
+    expect(withCars.factors.familiarity).toBe(withoutCars.factors.familiarity);
+  });
+
+  test('counts races in the car from other series and tracks', () => {
+    const driven = createUserHistory([
+      createHistory(100, 50, 5, [{ carId: 3, carClassId: 11, raceCount: 5 }]),
+      createHistory(200, 60, 25, [{ carId: 1, carClassId: 10, raceCount: 25 }]),
+    ]);
+    const notDriven = createUserHistory([
+      createHistory(100, 50, 5, [{ carId: 3, carClassId: 11, raceCount: 5 }]),
+      createHistory(200, 60, 25, [{ carId: 4, carClassId: 12, raceCount: 25 }]),
+    ]);
+
+    const drivenScore = scoringAlgorithm.calculateScore(createOpportunity(), driven, RecommendationMode.BALANCED);
+    const notDrivenScore = scoringAlgorithm.calculateScore(createOpportunity(), notDriven, RecommendationMode.BALANCED);
+
+    expect(drivenScore.factors.familiarity).toBeGreaterThan(notDrivenScore.factors.familiarity);
+    expect(drivenScore.factors.familiarity - notDrivenScore.factors.familiarity).toBe(20);
+  });
+
+  test('explains when the driver has never raced the car', () => {
+    const userHistory = createUserHistory([
+      createHistory(100, 50, 5, [{ carId: 3, carClassId: 11, raceCount: 5 }]),
+    ]);
+
+    const score = scoringAlgorithm.calculateScore(createOpportunity(), userHistory, RecommendationMode.BALANCED);
+
+    expect(score.reasoning).toContain("You haven't raced this car yet - expect time getting up to speed");
+  });
+});
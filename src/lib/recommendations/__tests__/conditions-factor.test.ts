@@ -0,0 +1,111 @@
+/**
+ * Tests for the conditions factor
+ *
+ * Key behaviors:
+ * 1. Neutral without conditions for the week or enough races in similar conditions
+ * 2. Scores below neutral when the user has more incidents than usual in these conditions
+ * 3. Scores above neutral when the user races cleaner than usual in these conditions
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ScoringAlgorithm } from '../scoring';
+import type { RacingOpportunity, UserHistory, WeekConditions, ConditionsIncidentStats } from '../types';
+import { RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+describe('Conditions factor', () => {
+  const scoringAlgorithm = new ScoringAlgorithm();
+
+  const nightConditions: WeekConditions = { dynamicWeather: false, rain: false, temperatureC: 18, timeOfDay: 'night' };
+
+  const createOpportunity = (conditions: WeekConditions | null): RacingOpportunity => ({
+    seriesId: 260,
+    seriesName: 'Global Mazda MX-5 Cup',
+    trackId: 50,
+    trackName: 'Test Track',
+    licenseRequired: LicenseLevel.D,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 1,
+    raceLength: 20,
+    hasOpenSetup: false,
+    timeSlots: [{ hour: 20, dayOfWeek: 3, strengthOfField: 1500, participantCount: 20 }],
+    globalStats: {
+      avgIncidentsPerRace: 3.0,
+      avgFinishPositionStdDev: 5.0,
+      avgStrengthOfField: 1500,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 20,
+    },
+    conditions,
+  });
+
+  const createUserHistory = (conditionsHistory: ConditionsIncidentStats[]): UserHistory => ({
+    userId: 'test-user-123',
+    seriesTrackHistory: [],
+    overallStats: {
+      totalRaces: 40,
+      avgIncidentsPerRace: 3.0,
+      avgPositionDelta: 0,
+      overallConsistency: 4.0,
+    },
+    licenseClasses: [
+      { category: Category.SPORTS_CAR, level: LicenseLevel.C, safetyRating: 3.0, iRating: 1500 },
+    ],
+    conditionsHistory,
+  });
+
+  const nightStats = (raceCount: number, avgIncidents: number): ConditionsIncidentStats => ({
+    timeOfDay: 'night',
+    dynamicWeather: false,
+    rain: false,
+    raceCount,
+    avgIncidents,
+  });
+
+  test('is neutral when the week has no conditions', () => {
+    const score = scoringAlgorithm.calculateScore(createOpportunity(null), createUserHistory([nightStats(10, 4.5)]), RecommendationMode.BALANCED);
+
+    expect(score.factors.conditions).toBe(50);
+  });
+
+  test('is neutral with fewer than 3 races in similar conditions', () => {
+    const score = scoringAlgorithm.calculateScore(createOpportunity(nightConditions), createUserHistory([nightStats(2, 6)]), RecommendationMode.BALANCED);
+
+    expect(score.factors.conditions).toBe(50);
+  });
+
+  test('penalizes conditions with a higher incident rate', () => {
+    const userHistory = createUserHistory([
+      nightStats(10, 4.5),
+      { timeOfDay: 'day', dynamicWeather: false, rain: false, raceCount: 30, avgIncidents: 2.5 },
+    ]);
+
+    const score = scoringAlgorithm.calculateScore(createOpportunity(nightConditions), userHistory, RecommendationMode.BALANCED);
+
+    // 50 + (3.0 - 4.5) / 3.0 * 50 at full confidence
+    expect(score.factors.conditions).toBe(25);
+    expect(score.reasoning).toContain("You've had more incidents than usual in night races");
+  });
+
+  test('rewards conditions with a lower incident rate, scaled by race count', () => {
+    const fewRaces = scoringAlgorithm.calculateScore(createOpportunity(nightConditions), createUserHistory([nightStats(5, 1.5)]), RecommendationMode.BALANCED);
+    const manyRaces = scoringAlgorithm.calculateScore(createOpportunity(nightConditions), createUserHistory([nightStats(10, 1.5)]), RecommendationMode.BALANCED);
+
+    expect(fewRaces.factors.conditions).toBe(63);
+    expect(manyRaces.factors.conditions).toBe(75);
+  });
+
+  test('only compares races with the same time of day and weather', () => {
+    const userHistory = createUserHistory([
+      { timeOfDay: 'night', dynamicWeather: false, rain: true, raceCount: 10, avgIncidents: 6 },
+    ]);
+
+    const score = scoringAlgorithm.calculateScore(createOpportunity(nightConditions), userHistory, RecommendationMode.BALANCED);
+
+    expect(score.factors.conditions).toBe(50);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for custom recommendation modes
+ *
+ * Key behaviors:
+ * 1. Submitted modes must weight every factor and sum to 1
+ * 2. Weights can be normalized and mode keys round-trip
+ * 3. Scoring uses a custom mode's own weights
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  MODE_FACTORS,
+  normalizeWeights,
+  parseCustomModeKey,
+  resolveModeSelection,
+  sumWeights,
+  toCustomModeKey,
+  validateCustomMode
+} from '../mode-settings';
+import { ScoringAlgorithm } from '../scoring';
+import type { CustomMode, ModeWeights, RacingOpportunity, UserHistory } from '../types';
+import { RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+const weightsFor = (overrides: Partial<ModeWeights>): ModeWeights => ({
+  performance: 0,
+  safety: 0,
+  consistency: 0,
+  predictability: 0,
+  familiarity: 0,
+  fatigueRisk: 0,
+  attritionRisk: 0,
+  timeVolatility: 0,
+  conditions: 0,
+  ...overrides,
+});
+
+describe('validateCustomMode', () => {
+  const valid = {
+    name: ' Clean Sprint ',
+    weights: weightsFor({ safety: 0.6, consistency: 0.4 }),
+    primarySort: 'safety',
+  };
+
+  test('accepts a complete, normalized mode', () => {
+    expect(validateCustomMode(valid)).toEqual({
+      mode: {
+        name: 'Clean Sprint',
+        description: null,
+        weights: valid.weights,
+        primarySort: 'safety',
+      },
+    });
+  });
+
+  test('defaults the primary sort to the overall score', () => {
+    expect(validateCustomMode({ ...valid, primarySort: undefined }).mode?.primarySort).toBe('overall');
+  });
+
+  test('rejects weights that do not sum to 1', () => {
+    const result = validateCustomMode({ ...valid, weights: weightsFor({ safety: 0.6, consistency: 0.6 }) });
+    expect(result.error).toMatch(/sum to 1 \(they sum to 1.2\)/);
+  });
+
+  test('rejects missing, out of range and unknown factors', () => {
+    const missing: Partial<ModeWeights> = { ...valid.weights };
+    delete missing.conditions;
+    expect(validateCustomMode({ ...valid, weights: missing }).error).toMatch(/conditions/);
+    expect(validateCustomMode({ ...valid, weights: weightsFor({ safety: 1.5, consistency: -0.5 }) }).error).toBeDefined();
+    expect(validateCustomMode({ ...valid, weights: { ...valid.weights, luck: 0 } }).error).toMatch(/Unknown factors: luck/);
+  });
+
+  test('rejects bad names and sort keys', () => {
+    expect(validateCustomMode({ ...valid, name: '  ' }).error).toBeDefined();
+    expect(validateCustomMode({ ...valid, name: 'x'.repeat(51) }).error).toBeDefined();
+    expect(validateCustomMode({ ...valid, primarySort: 'luck' }).error).toMatch(/primarySort/);
+  });
+});
+
+describe('Mode helpers', () => {
+  test('normalizes weights to sum to 1', () => {
+    const normalized = normalizeWeights(weightsFor({ performance: 3, safety: 1 }));
+
+    expect(normalized.performance).toBeCloseTo(0.75);
+    expect(normalized.safety).toBeCloseTo(0.25);
+    expect(sumWeights(normalized)).toBeCloseTo(1);
+  });
+
+  test('spreads all-zero weights evenly', () => {
+    const normalized = normalizeWeights(weightsFor({}));
+    MODE_FACTORS.forEach(factor => expect(normalized[factor]).toBeCloseTo(1 / MODE_FACTORS.length));
+  });
+
+  test('round-trips custom mode keys', () => {
+    const id = '3f1c2b9a-5d7e-4a10-9c2b-8e6f4d3a2b1c';
+
+    expect(parseCustomModeKey(toCustomModeKey(id))).toBe(id);
+    expect(parseCustomModeKey('balanced')).toBeNull();
+    expect(parseCustomModeKey('custom:not-a-uuid')).toBeNull();
+  });
+
+  test('resolves built-in and stored custom modes from a mode= value', async () => {
+    const stored: CustomMode = {
+      id: '3f1c2b9a-5d7e-4a10-9c2b-8e6f4d3a2b1c',
+      name: 'Clean',
+      description: null,
+      weights: weightsFor({ safety: 1 }),
+      primarySort: 'safety',
+    };
+    const findCustomMode = async (id: string) => (id === stored.id ? stored : null);
+
+    expect(await resolveModeSelection(null, findCustomMode)).toBe(RecommendationMode.BALANCED);
+    expect(await resolveModeSelection('safety_recovery', findCustomMode)).toBe(RecommendationMode.SAFETY_RECOVERY);
+    expect(await resolveModeSelection(toCustomModeKey(stored.id), findCustomMode)).toBe(stored);
+    expect(await resolveModeSelection(toCustomModeKey('9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'), findCustomMode)).toBeNull();
+    expect(await resolveModeSelection('fastest', findCustomMode)).toBeNull();
+  });
+});
+
+describe('Scoring with a custom mode', () => {
+  const scoringAlgorithm = new ScoringAlgorithm();
+
+  const opportunity: RacingOpportunity = {
+    seriesId: 260,
+    seriesName: 'Global Mazda MX-5 Cup',
+    trackId: 50,
+    trackName: 'Test Track',
+    licenseRequired: LicenseLevel.D,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 1,
+    raceLength: 20,
+    hasOpenSetup: false,
+    timeSlots: [{ hour: 19, dayOfWeek: 6, strengthOfField: 1500, participantCount: 20 }],
+    globalStats: {
+      avgIncidentsPerRace: 3.0,
+      avgFinishPositionStdDev: 5.0,
+      avgStrengthOfField: 1500,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 20,
+    },
+  };
+
+  const userHistory: UserHistory = {
+    userId: 'test-user-123',
+    seriesTrackHistory: [],
+    overallStats: {
+      totalRaces: 10,
+      avgIncidentsPerRace: 3.0,
+      avgPositionDelta: 0,
+      overallConsistency: 4.0,
+    },
+    licenseClasses: [{ category: Category.SPORTS_CAR, level: LicenseLevel.C, safetyRating: 3.0, iRating: 1500 }],
+  };
+
+  test('weights the overall score with the custom weights', () => {
+    const safetyOnly: CustomMode = {
+      id: 'safety-only',
+      name: 'Safety only',
+      description: null,
+      weights: weightsFor({ safety: 1 }),
+      primarySort: 'safety',
+    };
+
+    const score = scoringAlgorithm.calculateScore(opportunity, userHistory, safetyOnly);
+    expect(score.overall).toBe(Math.round(score.factors.safety));
+  });
+
+  test('matches a built-in mode when given its weights', () => {
+    const balanced = scoringAlgorithm.calculateScore(opportunity, userHistory, RecommendationMode.BALANCED);
+    const copy: CustomMode = {
+      id: 'balanced-copy',
+      name: 'Balanced copy',
+      description: null,
+      weights: (scoringAlgorithm as any).getModeWeights(RecommendationMode.BALANCED),
+      primarySort: 'overall',
+    };
+
+    expect(scoringAlgorithm.calculateScore(opportunity, userHistory, copy).overall).toBe(balanced.overall);
+  });
+});
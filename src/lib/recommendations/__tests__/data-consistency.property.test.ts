@@ -8,6 +8,7 @@ const mockGetGlobalSeriesTrackStats = jest.fn();
 jest.mock('../../db/analytics', () => ({
   getPerformanceMetrics: mockGetPerformanceMetrics,
   getGlobalSeriesTrackStats: mockGetGlobalSeriesTrackStats,
+  getCarExperience: jest.fn(async () => []),
 }));
 
 // Mock the database
@@ -0,0 +1,143 @@
+/**
+ * Tests for recency-weighted history and shrinkage
+ *
+ * Key behaviors:
+ * 1. A race's weight halves every half-life, and the half-life can come from the environment
+ * 2. Series/track averages are weighted by recency, with raw and effective race counts
+ * 3. Real last race dates and start/finish positions come through
+ * 4. Personal history gets more of the estimate the more races back it
+ * 5. Pace averages only the races with lap data
+ */
+
+import { describe, test, expect, afterEach } from '@jest/globals';
+import {
+  aggregateWeightedHistory,
+  getHistoryHalfLifeDays,
+  recencyWeight,
+  shrinkageWeight,
+  DEFAULT_HISTORY_HALF_LIFE_DAYS,
+  type RaceOutcome,
+} from '../history-weighting';
+
+const asOf = new Date('2025-07-01T00:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+function outcome(overrides: Partial<RaceOutcome>): RaceOutcome {
+  return {
+    seriesId: 260,
+    trackId: 50,
+    raceDate: asOf,
+    startingPosition: 10,
+    finishingPosition: 8,
+    positionDelta: 2,
+    classPositionDelta: null,
+    incidents: 2,
+    ...overrides,
+  };
+}
+
+describe('recencyWeight', () => {
+  test('halves every half-life', () => {
+    expect(recencyWeight(asOf, asOf, 90)).toBe(1);
+    expect(recencyWeight(daysAgo(90), asOf, 90)).toBeCloseTo(0.5);
+    expect(recencyWeight(daysAgo(180), asOf, 90)).toBeCloseTo(0.25);
+  });
+
+  test('does not boost races after asOf', () => {
+    expect(recencyWeight(daysAgo(-30), asOf, 90)).toBe(1);
+  });
+});
+
+describe('getHistoryHalfLifeDays', () => {
+  afterEach(() => {
+    delete process.env.RECOMMENDATION_HISTORY_HALF_LIFE_DAYS;
+  });
+
+  test('reads the environment and falls back on bad values', () => {
+    expect(getHistoryHalfLifeDays()).toBe(DEFAULT_HISTORY_HALF_LIFE_DAYS);
+
+    process.env.RECOMMENDATION_HISTORY_HALF_LIFE_DAYS = '60';
+    expect(getHistoryHalfLifeDays()).toBe(60);
+
+    process.env.RECOMMENDATION_HISTORY_HALF_LIFE_DAYS = '-5';
+    expect(getHistoryHalfLifeDays()).toBe(DEFAULT_HISTORY_HALF_LIFE_DAYS);
+  });
+});
+
+describe('shrinkageWeight', () => {
+  test('grows toward 1 with more races', () => {
+    expect(shrinkageWeight(0)).toBe(0);
+    expect(shrinkageWeight(3)).toBe(0.5);
+    expect(shrinkageWeight(9)).toBe(0.75);
+    expect(shrinkageWeight(2, 2)).toBe(0.5);
+  });
+});
+
+describe('aggregateWeightedHistory', () => {
+  test('weights series/track averages by recency', () => {
+    const { seriesTrackHistory } = aggregateWeightedHistory([
+      outcome({ raceDate: daysAgo(90), positionDelta: 6, incidents: 6 }),
+      outcome({ raceDate: asOf, positionDelta: 0, incidents: 0 }),
+    ], { asOf, halfLifeDays: 90 });
+
+    expect(seriesTrackHistory).toHaveLength(1);
+    expect(seriesTrackHistory[0].raceCount).toBe(2);
+    expect(seriesTrackHistory[0].effectiveRaceCount).toBeCloseTo(1.5);
+    // (6 * 0.5 + 0 * 1) / 1.5
+    expect(seriesTrackHistory[0].avgPositionDelta).toBeCloseTo(2);
+    expect(seriesTrackHistory[0].avgIncidents).toBeCloseTo(2);
+  });
+
+  test('keeps real positions, class deltas and last race dates', () => {
+    const { seriesTrackHistory } = aggregateWeightedHistory([
+      outcome({ raceDate: daysAgo(10), startingPosition: 12, finishingPosition: 6, classPositionDelta: 3 }),
+      outcome({ raceDate: daysAgo(3), startingPosition: 8, finishingPosition: 10 }),
+    ], { asOf, halfLifeDays: Infinity });
+
+    expect(seriesTrackHistory[0].avgStartingPosition).toBe(10);
+    expect(seriesTrackHistory[0].avgFinishingPosition).toBe(8);
+    // Races without a class delta use the overall delta
+    expect(seriesTrackHistory[0].avgClassPositionDelta).toBe(2.5);
+    expect(seriesTrackHistory[0].finishPositionStdDev).toBeCloseTo(Math.SQRT2 * 2);
+    expect(seriesTrackHistory[0].lastRaceDate).toEqual(daysAgo(3));
+  });
+
+  test('reports raw totals with weighted overall averages and per-series consistency', () => {
+    const { overallStats } = aggregateWeightedHistory([
+      outcome({ finishingPosition: 4, incidents: 4 }),
+      outcome({ finishingPosition: 8, incidents: 0 }),
+      outcome({ seriesId: 300, trackId: 60, finishingPosition: 20, incidents: 2 }),
+    ], { asOf, halfLifeDays: Infinity });
+
+    expect(overallStats.totalRaces).toBe(3);
+    expect(overallStats.avgIncidentsPerRace).toBe(2);
+    // Series 260 spreads by 2√2 over two races, series 300 has one race and no spread
+    expect(overallStats.overallConsistency).toBeCloseTo((Math.SQRT2 * 2 * 2) / 3);
+  });
+
+  test('averages pace over the races with lap data only', () => {
+    const { seriesTrackHistory, overallStats } = aggregateWeightedHistory([
+      outcome({ pacePercentile: 80 }),
+      outcome({ pacePercentile: 60 }),
+      outcome({ pacePercentile: null }),
+      outcome({ seriesId: 300, trackId: 60 }),
+    ], { asOf, halfLifeDays: Infinity });
+
+    expect(seriesTrackHistory[0]).toMatchObject({ avgPacePercentile: 70, paceRaceCount: 2 });
+    expect(seriesTrackHistory[1]).toMatchObject({ avgPacePercentile: null, paceRaceCount: 0 });
+    expect(overallStats).toMatchObject({ avgPacePercentile: 70, paceRaceCount: 2 });
+  });
+
+  test('falls back to plain averages when every race has decayed away', () => {
+    const { seriesTrackHistory } = aggregateWeightedHistory([
+      outcome({ raceDate: daysAgo(100000), incidents: 2 }),
+      outcome({ raceDate: daysAgo(100000), incidents: 4 }),
+    ], { asOf, halfLifeDays: 1 });
+
+    expect(seriesTrackHistory[0].effectiveRaceCount).toBe(0);
+    expect(seriesTrackHistory[0].avgIncidents).toBe(3);
+  });
+});
@@ -305,7 +305,7 @@ describe('Mode-Based Weighting Properties', () => {
           const weightSum = 
             weights.performance + weights.safety + weights.consistency + 
             weights.predictability + weights.familiarity + weights.fatigueRisk + 
-            weights.attritionRisk + weights.timeVolatility;
+            weights.attritionRisk + weights.timeVolatility + weights.conditions;
           
           expect(weightSum).toBeCloseTo(1.0, 5);
           
@@ -318,7 +318,8 @@ describe('Mode-Based Weighting Properties', () => {
             (score.factors.familiarity * weights.familiarity) +
             (score.factors.fatigueRisk * weights.fatigueRisk) +
             (score.factors.attritionRisk * weights.attritionRisk) +
-            (score.factors.timeVolatility * weights.timeVolatility)
+            (score.factors.timeVolatility * weights.timeVolatility) +
+            (score.factors.conditions * weights.conditions)
           );
           
           expect(score.overall).toBe(manualScore);
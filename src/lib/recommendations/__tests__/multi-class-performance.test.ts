@@ -0,0 +1,92 @@
+/**
+ * Tests for class-relative positions in the performance factor
+ *
+ * Key behaviors:
+ * 1. Multi-class series score the delta within the car class
+ * 2. Single-class series keep using the overall delta
+ * 3. The cross-series fallback uses the class-aware overall delta for multi-class series
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ScoringAlgorithm } from '../scoring';
+import type { RacingOpportunity, UserHistory, SeriesTrackHistory } from '../types';
+import { RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+describe('Multi-class performance', () => {
+  const scoringAlgorithm = new ScoringAlgorithm();
+
+  const createOpportunity = (carClassIds: number[]): RacingOpportunity => ({
+    seriesId: 447,
+    seriesName: 'IMSA Endurance Series',
+    trackId: 50,
+    trackName: 'Test Track',
+    licenseRequired: LicenseLevel.C,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 1,
+    raceLength: 60,
+    hasOpenSetup: false,
+    timeSlots: [{ hour: 12, dayOfWeek: 6, strengthOfField: 2000, participantCount: 40 }],
+    globalStats: {
+      avgIncidentsPerRace: 3.0,
+      avgFinishPositionStdDev: 5.0,
+      avgStrengthOfField: 2000,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 60,
+    },
+    carClassIds,
+  });
+
+  const createHistory = (raceCount: number): SeriesTrackHistory => ({
+    seriesId: 447,
+    trackId: 50,
+    raceCount,
+    avgStartingPosition: 14,
+    avgFinishingPosition: 18,
+    avgPositionDelta: -4, // Lost places overall to faster classes
+    avgClassPositionDelta: 3, // Gained places within the class
+    avgIncidents: 2,
+    finishPositionStdDev: 3.0,
+    lastRaceDate: new Date(),
+  });
+
+  const createUserHistory = (seriesTrackHistory: SeriesTrackHistory[]): UserHistory => ({
+    userId: 'test-user-123',
+    seriesTrackHistory,
+    overallStats: {
+      totalRaces: 20,
+      avgIncidentsPerRace: 2.5,
+      avgPositionDelta: -4,
+      avgClassPositionDelta: 3,
+      overallConsistency: 4.0,
+    },
+    licenseClasses: [
+      { category: Category.SPORTS_CAR, level: LicenseLevel.B, safetyRating: 3.5, iRating: 2000 },
+    ],
+  });
+
+  test('uses the class delta for multi-class series', () => {
+    const userHistory = createUserHistory([createHistory(5)]);
+
+    const multiClass = scoringAlgorithm.calculateScore(createOpportunity([4029, 4083]), userHistory, RecommendationMode.BALANCED);
+    const singleClass = scoringAlgorithm.calculateScore(createOpportunity([4029]), userHistory, RecommendationMode.BALANCED);
+
+    // (delta + 10) / 20 * 100, pulled toward 50 by the remaining uncertainty:
+    // 5 races give 5/8 of the weight, the cross-series estimate 80% confidence of the rest
+    expect(multiClass.factors.performance).toBe(64);
+    expect(singleClass.factors.performance).toBe(31);
+  });
+
+  test('uses the class-aware overall delta without series history', () => {
+    const userHistory = createUserHistory([]);
+
+    const multiClass = scoringAlgorithm.calculateScore(createOpportunity([4029, 4083]), userHistory, RecommendationMode.BALANCED);
+    const singleClass = scoringAlgorithm.calculateScore(createOpportunity([4029]), userHistory, RecommendationMode.BALANCED);
+
+    expect(multiClass.factors.performance).toBeGreaterThan(singleClass.factors.performance);
+  });
+});
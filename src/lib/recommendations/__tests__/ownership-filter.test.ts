@@ -0,0 +1,106 @@
+/**
+ * Tests for owned-content eligibility
+ *
+ * Key behaviors:
+ * 1. Without synced ownership nothing is flagged or filtered
+ * 2. An unowned track is reported as missing
+ * 3. Cars are only missing when the user owns none of the eligible cars
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { OwnershipFilter } from '../ownership-filter';
+import type { RacingOpportunity, UserHistory, OwnedContent, ScoredRecommendation } from '../types';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+describe('OwnershipFilter', () => {
+  const ownershipFilter = new OwnershipFilter();
+
+  const createOpportunity = (overrides: Partial<RacingOpportunity> = {}): RacingOpportunity => ({
+    seriesId: 570,
+    seriesName: 'Dirt Sprint Series',
+    trackId: 279,
+    trackName: 'Volusia Speedway Park',
+    licenseRequired: LicenseLevel.D,
+    category: Category.DIRT_OVAL,
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 1,
+    raceLength: 20,
+    hasOpenSetup: false,
+    timeSlots: [],
+    globalStats: {
+      avgIncidentsPerRace: 3.0,
+      avgFinishPositionStdDev: 5.0,
+      avgStrengthOfField: 1500,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 20,
+    },
+    carClassIds: [91],
+    carIds: [86, 87],
+    carNames: { 86: 'Dirt Sprint Car - 410', 87: 'Dirt Sprint Car - 360' },
+    ...overrides,
+  });
+
+  const createUserHistory = (ownedContent: OwnedContent | null): UserHistory => ({
+    userId: 'test-user-123',
+    seriesTrackHistory: [],
+    overallStats: {
+      totalRaces: 0,
+      avgIncidentsPerRace: 0,
+      avgPositionDelta: 0,
+      overallConsistency: 0,
+    },
+    licenseClasses: [],
+    ownedContent,
+  });
+
+  test('does not flag anything when ownership is unknown', () => {
+    const userHistory = createUserHistory(null);
+    const opportunities = [createOpportunity(), createOpportunity({ trackId: 531, trackName: "Huset's Speedway" })];
+
+    expect(ownershipFilter.getMissingContent(opportunities[1], userHistory)).toEqual([]);
+    expect(ownershipFilter.filterByOwnership(opportunities, userHistory)).toHaveLength(2);
+  });
+
+  test('reports an unowned track', () => {
+    const userHistory = createUserHistory({ trackIds: [279], carIds: [86] });
+    const opportunity = createOpportunity({ trackId: 531, trackName: "Huset's Speedway" });
+
+    expect(ownershipFilter.getMissingContent(opportunity, userHistory)).toEqual([
+      { type: 'track', id: 531, name: "Huset's Speedway" },
+    ]);
+    expect(ownershipFilter.filterByOwnership([createOpportunity(), opportunity], userHistory)).toHaveLength(1);
+  });
+
+  test('treats owning any eligible car as enough', () => {
+    const ownsOneCar = createUserHistory({ trackIds: [279], carIds: [87] });
+    const ownsNoCars = createUserHistory({ trackIds: [279], carIds: [1] });
+
+    expect(ownershipFilter.getMissingContent(createOpportunity(), ownsOneCar)).toEqual([]);
+    expect(ownershipFilter.getMissingContent(createOpportunity(), ownsNoCars)).toEqual([
+      { type: 'car', id: 86, name: 'Dirt Sprint Car - 410' },
+      { type: 'car', id: 87, name: 'Dirt Sprint Car - 360' },
+    ]);
+  });
+
+  test('skips the car check when the series cars are not known', () => {
+    const userHistory = createUserHistory({ trackIds: [279], carIds: [] });
+
+    expect(ownershipFilter.getMissingContent(createOpportunity({ carIds: undefined }), userHistory)).toEqual([]);
+  });
+
+  test('flags scored recommendations that require a purchase', () => {
+    const userHistory = createUserHistory({ trackIds: [279], carIds: [86] });
+    const recommendations = [
+      createOpportunity(),
+      createOpportunity({ trackId: 531, trackName: "Huset's Speedway" }),
+    ].map(opportunity => ({ ...opportunity, score: { overall: 70 } }) as ScoredRecommendation);
+
+    const flagged = ownershipFilter.flagPurchases(recommendations, userHistory);
+
+    expect(flagged.map(rec => rec.requiresPurchase)).toEqual([false, true]);
+    expect(flagged[1].missingContent).toEqual([{ type: 'track', id: 531, name: "Huset's Speedway" }]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for lap pace in the performance factor
+ *
+ * Key behaviors:
+ * 1. Series/track pace is blended into the position-based score, trusted more with more races
+ * 2. Without lap data at the series/track, pace across all races is used
+ * 3. Without lap data the factor is unchanged
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ScoringAlgorithm } from '../scoring';
+import type { RacingOpportunity, UserHistory, SeriesTrackHistory, UserOverallStats } from '../types';
+import { RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+describe('Pace performance', () => {
+  const scoringAlgorithm = new ScoringAlgorithm();
+
+  const opportunity: RacingOpportunity = {
+    seriesId: 260,
+    seriesName: 'Global Mazda MX-5 Cup',
+    trackId: 50,
+    trackName: 'Test Track',
+    licenseRequired: LicenseLevel.D,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 1,
+    raceLength: 20,
+    hasOpenSetup: false,
+    timeSlots: [{ hour: 12, dayOfWeek: 6, strengthOfField: 2000, participantCount: 20 }],
+    globalStats: {
+      avgIncidentsPerRace: 3.0,
+      avgFinishPositionStdDev: 5.0,
+      avgStrengthOfField: 2000,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 20,
+    },
+  };
+
+  const createHistory = (pace: Partial<SeriesTrackHistory> = {}): SeriesTrackHistory => ({
+    seriesId: 260,
+    trackId: 50,
+    raceCount: 5,
+    avgStartingPosition: 8,
+    avgFinishingPosition: 12,
+    avgPositionDelta: -4,
+    avgIncidents: 2,
+    finishPositionStdDev: 3.0,
+    lastRaceDate: new Date(),
+    ...pace,
+  });
+
+  const createUserHistory = (history: SeriesTrackHistory, pace: Partial<UserOverallStats> = {}): UserHistory => ({
+    userId: 'test-user-123',
+    seriesTrackHistory: [history],
+    overallStats: {
+      totalRaces: 20,
+      avgIncidentsPerRace: 2.5,
+      avgPositionDelta: -4,
+      overallConsistency: 4.0,
+      ...pace,
+    },
+    licenseClasses: [
+      { category: Category.SPORTS_CAR, level: LicenseLevel.B, safetyRating: 3.5, iRating: 2000 },
+    ],
+  });
+
+  const performance = (userHistory: UserHistory) =>
+    scoringAlgorithm.calculateScore(opportunity, userHistory, RecommendationMode.BALANCED).factors.performance;
+
+  test('blends series/track pace into the position-based score', () => {
+    const withoutPace = performance(createUserHistory(createHistory()));
+    const fewRaces = performance(createUserHistory(createHistory({ avgPacePercentile: 90, paceRaceCount: 1 })));
+    const manyRaces = performance(createUserHistory(createHistory({ avgPacePercentile: 90, paceRaceCount: 5 })));
+
+    // Losing 4 places scores about 31; 5 races with lap data give pace 0.4 x 5/8 of the factor
+    expect(withoutPace).toBe(31);
+    expect(manyRaces).toBe(46);
+    expect(fewRaces).toBeGreaterThan(withoutPace);
+    expect(fewRaces).toBeLessThan(manyRaces);
+  });
+
+  test('falls back to pace across all races', () => {
+    const slowOverall = performance(createUserHistory(createHistory(), { avgPacePercentile: 10, paceRaceCount: 20 }));
+    const seriesPace = performance(createUserHistory(
+      createHistory({ avgPacePercentile: 90, paceRaceCount: 5 }),
+      { avgPacePercentile: 10, paceRaceCount: 20 }
+    ));
+
+    expect(slowOverall).toBeLessThan(31);
+    expect(seriesPace).toBe(46);
+  });
+
+  test('ignores pace without races behind it', () => {
+    expect(performance(createUserHistory(createHistory({ avgPacePercentile: 90, paceRaceCount: 0 })))).toBe(31);
+  });
+});
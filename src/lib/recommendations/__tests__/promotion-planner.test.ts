@@ -0,0 +1,156 @@
+/**
+ * Tests for the promotion planner
+ *
+ * Key behaviors:
+ * 1. Races needed come from the series with the best expected Safety Rating gain
+ * 2. The minimum participation requirement can need more races than the Safety Rating
+ * 3. Status compares races needed with the races left at the user's pace
+ * 4. The trajectory projects Safety Rating per race, and the recent pace alongside
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildPromotionProjections } from '../promotion-planner';
+import { MINIMUM_PARTICIPATION_RACES, PRO_PROMOTION_SAFETY_RATING } from '../license-filter';
+import type { LicenseClass, SafetyRatingChange, Score, ScoredOpportunity } from '../types';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+function opportunity(seriesId: number, expectedSafetyRatingChange: number, category = Category.SPORTS_CAR): ScoredOpportunity {
+  return {
+    seriesId,
+    seriesName: `Series ${seriesId}`,
+    trackId: seriesId * 10,
+    trackName: `Track ${seriesId}`,
+    licenseRequired: LicenseLevel.D,
+    category,
+    seasonYear: 2025,
+    seasonQuarter: 4,
+    raceWeekNum: 5,
+    raceLength: 30,
+    hasOpenSetup: false,
+    timeSlots: [],
+    globalStats: {
+      avgIncidentsPerRace: 4,
+      avgFinishPositionStdDev: 5,
+      avgStrengthOfField: 1500,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 30,
+    },
+    score: {
+      overall: 60,
+      ratingChange: {
+        iRating: null,
+        safetyRating: { expected: expectedSafetyRatingChange, low: -0.2, high: 0.3 },
+        expectedFinish: 8,
+        expectedIncidents: 2,
+      },
+    } as unknown as Score,
+  };
+}
+
+function license(level: LicenseLevel, safetyRating: number, category = Category.SPORTS_CAR): LicenseClass {
+  return { category, level, safetyRating, iRating: 1500 };
+}
+
+function races(count: number, change: number, seasonQuarter = 4): SafetyRatingChange[] {
+  return Array.from({ length: count }, (_, i) => ({
+    category: Category.SPORTS_CAR,
+    raceDate: new Date(Date.UTC(2025, 10, 20 - i)),
+    seasonYear: 2025,
+    seasonQuarter,
+    change,
+  }));
+}
+
+const SEASON = { seasonYear: 2025, seasonQuarter: 4, weeksElapsed: 5, weeksRemaining: 7 };
+
+describe('buildPromotionProjections', () => {
+  test('costs races to the target by the fastest series', () => {
+    const [projection] = buildPromotionProjections({
+      ...SEASON,
+      licenses: [license(LicenseLevel.D, 2.6)],
+      recentChanges: races(10, 0.05),
+      opportunities: [opportunity(1, 0.05), opportunity(2, 0.1), opportunity(3, -0.04)],
+    });
+
+    expect(projection).toMatchObject({
+      currentLevel: LicenseLevel.D,
+      nextLevel: LicenseLevel.C,
+      targetSafetyRating: 3,
+      participation: { required: MINIMUM_PARTICIPATION_RACES, completed: 10 },
+      recentAverageChange: 0.05,
+      cleanRacesNeeded: 4,
+      racesRemaining: 14, // 10 races in 5 weeks, 7 weeks left
+      status: 'on_track',
+    });
+    expect(projection.fastestSeries.map(option => [option.seriesId, option.racesToTarget])).toEqual([
+      [2, 4],
+      [1, 8],
+      [3, null],
+    ]);
+  });
+
+  test('needs the remaining participation races even once the rating is there', () => {
+    const [projection] = buildPromotionProjections({
+      ...SEASON,
+      licenses: [license(LicenseLevel.C, 3.2)],
+      recentChanges: races(1, 0.02),
+      opportunities: [opportunity(1, 0.1)],
+    });
+
+    expect(projection.cleanRacesNeeded).toBe(MINIMUM_PARTICIPATION_RACES - 1);
+    expect(projection.status).toBe('on_track');
+    expect(projection.requirements).toContain('3 more');
+  });
+
+  test('marks promotion at risk when the races needed exceed the races left', () => {
+    const [projection] = buildPromotionProjections({
+      ...SEASON,
+      weeksRemaining: 2,
+      licenses: [license(LicenseLevel.B, 2.0)],
+      recentChanges: races(5, -0.01, 3), // Last season's races do not count
+      opportunities: [opportunity(1, 0.05)],
+    });
+
+    expect(projection.participation.completed).toBe(0);
+    expect(projection.cleanRacesNeeded).toBe(20);
+    expect(projection.racesRemaining).toBe(2);
+    expect(projection.status).toBe('at_risk');
+  });
+
+  test('reports eligible and top licenses without series', () => {
+    const projections = buildPromotionProjections({
+      ...SEASON,
+      licenses: [
+        license(LicenseLevel.A, 4.1),
+        license(LicenseLevel.PRO, 4.5, Category.OVAL),
+      ],
+      recentChanges: races(4, 0.02),
+      opportunities: [opportunity(1, 0.1), opportunity(2, 0.1, Category.OVAL)],
+    });
+
+    expect(projections[0]).toMatchObject({
+      nextLevel: LicenseLevel.PRO,
+      targetSafetyRating: PRO_PROMOTION_SAFETY_RATING,
+      status: 'eligible',
+      cleanRacesNeeded: 0,
+    });
+    expect(projections[1]).toMatchObject({ status: 'max_level', fastestSeries: [], trajectory: [] });
+  });
+
+  test('projects the trajectory with the fastest series and the recent pace', () => {
+    const [projection] = buildPromotionProjections({
+      ...SEASON,
+      licenses: [license(LicenseLevel.D, 2.8)],
+      recentChanges: races(10, -0.02),
+      opportunities: [opportunity(1, 0.1)],
+    });
+
+    expect(projection.trajectory).toEqual([
+      { race: 0, projected: 2.8, recentPace: 2.8 },
+      { race: 1, projected: 2.9, recentPace: 2.78 },
+      { race: 2, projected: 3, recentPace: 2.76 },
+    ]);
+  });
+});
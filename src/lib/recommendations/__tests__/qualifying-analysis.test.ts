@@ -0,0 +1,180 @@
+/**
+ * Tests for the qualifying and starting position analysis
+ *
+ * Key behaviors:
+ * 1. Grid slots of 0 or below, or outside the field, are unknown
+ * 2. Qualifying percentile and pole gap average over races with a qualifying time
+ * 3. Per series advice compares front and back half starts
+ * 4. The advice feeds the recommendation reasoning
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildQualifyingStats,
+  correlation,
+  poleGapPercent,
+  positionPercentile,
+  qualifyingAdvice,
+  type QualifyingRace,
+} from '../qualifying-analysis';
+import { ScoringAlgorithm } from '../scoring';
+import type { RacingOpportunity, UserHistory } from '../types';
+import { RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+function race(startingPosition: number | null, finishingPosition: number, incidents: number, qualifying: Partial<QualifyingRace> = {}): QualifyingRace {
+  return {
+    seriesId: 260,
+    startingPosition,
+    finishingPosition,
+    fieldSize: 11,
+    incidents,
+    qualLapTime: null,
+    poleLapTime: null,
+    qualifyingPercentile: null,
+    ...qualifying,
+  };
+}
+
+describe('positionPercentile and poleGapPercent', () => {
+  test('grade positions within the field and ignore unknown grid slots', () => {
+    expect(positionPercentile(1, 11)).toBe(100);
+    expect(positionPercentile(6, 11)).toBe(50);
+    expect(positionPercentile(11, 11)).toBe(0);
+    expect(positionPercentile(-1, 11)).toBeNull();
+    expect(positionPercentile(0, 11)).toBeNull();
+    expect(positionPercentile(12, 11)).toBeNull();
+    expect(positionPercentile(1, 1)).toBeNull();
+  });
+
+  test('measure the qualifying lap against pole', () => {
+    expect(poleGapPercent(905000, 900000)).toBeCloseTo(0.556, 3);
+    expect(poleGapPercent(900000, 900000)).toBe(0);
+    expect(poleGapPercent(null, 900000)).toBeNull();
+  });
+});
+
+describe('correlation', () => {
+  test('needs five races with spread', () => {
+    expect(correlation([1, 2, 3, 4, 5], [2, 4, 6, 8, 10])).toBeCloseTo(1);
+    expect(correlation([1, 2, 3, 4, 5], [10, 8, 6, 4, 2])).toBeCloseTo(-1);
+    expect(correlation([1, 2, 3, 4], [2, 4, 6, 8])).toBeNull();
+    expect(correlation([1, 2, 3, 4, 5], [3, 3, 3, 3, 3])).toBeNull();
+  });
+});
+
+describe('qualifyingAdvice', () => {
+  const group = (avgIncidents: number, avgFinishPercentile: number, raceCount = 3) => ({ raceCount, avgIncidents, avgFinishPercentile });
+
+  test('recommends starting from the back when it is clearly cleaner for a similar result', () => {
+    expect(qualifyingAdvice(group(5, 60), group(2, 50))).toBe('start_from_back');
+  });
+
+  test('recommends qualifying when the front is cleaner, or finishes better without more incidents', () => {
+    expect(qualifyingAdvice(group(1, 60), group(3, 55))).toBe('qualify');
+    expect(qualifyingAdvice(group(2, 80), group(2, 40))).toBe('qualify');
+  });
+
+  test('gives no advice for a trade-off or too few races', () => {
+    expect(qualifyingAdvice(group(5, 80), group(2, 40))).toBeNull();
+    expect(qualifyingAdvice(group(1, 80), group(3, 40, 1))).toBeNull();
+    expect(qualifyingAdvice(group(1, 80), null)).toBeNull();
+  });
+});
+
+describe('buildQualifyingStats', () => {
+  test('summarizes qualifying pace and grid halves per series', () => {
+    const stats = buildQualifyingStats([
+      race(1, 2, 0, { qualLapTime: 900000, poleLapTime: 900000, qualifyingPercentile: 100 }),
+      race(3, 3, 1, { qualLapTime: 909000, poleLapTime: 900000, qualifyingPercentile: 80 }),
+      race(9, 8, 4),
+      race(10, 9, 5),
+      race(-1, 5, 2), // No grid slot
+      race(2, 1, 0, { seriesId: 300 }),
+    ])!;
+
+    expect(stats.raceCount).toBe(5);
+    expect(stats.qualifiedRaceCount).toBe(2);
+    expect(stats.avgQualifyingPercentile).toBe(90);
+    expect(stats.avgPoleGapPercent).toBeCloseTo(0.5);
+    expect(stats.startIncidentCorrelation).toBeLessThan(-0.9);
+    expect(stats.startFinishCorrelation).toBeGreaterThan(0.9);
+
+    const [series] = stats.series;
+    expect(series).toMatchObject({ seriesId: 260, raceCount: 4, qualifiedRaceCount: 2, advice: 'qualify' });
+    expect(series.front).toEqual({ raceCount: 2, avgIncidents: 0.5, avgFinishPercentile: 85 });
+    expect(series.back).toEqual({ raceCount: 2, avgIncidents: 4.5, avgFinishPercentile: 25 });
+    expect(stats.series[1]).toMatchObject({ seriesId: 300, advice: null, back: null });
+  });
+
+  test('returns null without a known grid slot', () => {
+    expect(buildQualifyingStats([race(-1, 5, 2), race(null, 5, 2)])).toBeNull();
+  });
+});
+
+describe('Qualifying reasoning', () => {
+  const scoringAlgorithm = new ScoringAlgorithm();
+
+  const opportunity: RacingOpportunity = {
+    seriesId: 260,
+    seriesName: 'Global Mazda MX-5 Cup',
+    trackId: 50,
+    trackName: 'Test Track',
+    licenseRequired: LicenseLevel.D,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 1,
+    raceLength: 20,
+    hasOpenSetup: false,
+    timeSlots: [{ hour: 12, dayOfWeek: 6, strengthOfField: 2000, participantCount: 20 }],
+    globalStats: {
+      avgIncidentsPerRace: 3.0,
+      avgFinishPositionStdDev: 5.0,
+      avgStrengthOfField: 2000,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 20,
+    },
+  };
+
+  const reasoning = (races: QualifyingRace[]) => {
+    const userHistory: UserHistory = {
+      userId: 'test-user-123',
+      seriesTrackHistory: [],
+      overallStats: { totalRaces: 20, avgIncidentsPerRace: 2.5, avgPositionDelta: 0, overallConsistency: 4.0 },
+      licenseClasses: [{ category: Category.SPORTS_CAR, level: LicenseLevel.B, safetyRating: 3.5, iRating: 2000 }],
+      qualifying: buildQualifyingStats(races),
+    };
+    return scoringAlgorithm.calculateScore(opportunity, userHistory, RecommendationMode.BALANCED).reasoning;
+  };
+
+  test('tells the user to qualify where the front of the grid pays off', () => {
+    expect(reasoning([
+      race(1, 2, 0, { qualLapTime: 900000, poleLapTime: 900000, qualifyingPercentile: 100 }),
+      race(3, 3, 1, { qualLapTime: 909000, poleLapTime: 900000, qualifyingPercentile: 80 }),
+      race(9, 8, 4),
+      race(10, 9, 5),
+    ])).toContain(
+      'Qualify for this one: from the front half of the grid you finish ahead of 85% of the field with 0.5x, ' +
+      'against 25% with 4.5x from the back; your qualifying laps are 0.5% off pole'
+    );
+  });
+
+  test('suggests starting from the back where it is cleaner', () => {
+    expect(reasoning([
+      race(2, 5, 6),
+      race(4, 6, 4),
+      race(8, 6, 1),
+      race(10, 7, 1),
+    ])).toContain(
+      'Consider starting from the back: from the back half of the grid you finish ahead of 45% of the field with 1.0x, ' +
+      'against 55% with 5.0x from the front'
+    );
+  });
+
+  test('says nothing about qualifying for other series', () => {
+    expect(reasoning([race(2, 5, 6, { seriesId: 300 })]).some(line => line.includes('grid'))).toBe(false);
+  });
+});
@@ -5,7 +5,7 @@
  * Longer races = more opportunity for incidents = lower safety score.
  *
  * Key behaviors:
- * 1. Personal history bypasses race length adjustment (uses actual incident data)
+ * 1. Personal series/track history outweighs the race length adjustment the more races back it
  * 2. For unfamiliar series, expected incidents are multiplied by a race length factor
  * 3. The multiplier uses logarithmic scaling: 1 + log2(length/20) * 0.5
  * 4. Multiplier is bounded between 0.8 (short races) and 2.0 (very long races)
@@ -183,25 +183,25 @@ describe('Race Length Safety Adjustment', () => {
     });
   });
 
-  describe('Familiar Series - Race Length Does NOT Affect Safety Score', () => {
-    test('personal history is used regardless of race length', () => {
-      const opportunity = createOpportunity({ seriesId: 100, trackId: 50 });
-
-      // User has history with 1.5 avg incidents in this exact series/track
+  describe('Familiar Series - Race Length Matters Less', () => {
+    test('personal history dampens the race length adjustment', () => {
       const familiarHistory = createFamiliarUserHistory(100, 50);
+      const unfamiliarHistory = createUnfamiliarUserHistory();
 
-      // Test with different race lengths - all should use the same personal history
-      const shortRace = createOpportunity({ ...opportunity, raceLength: 15 });
-      const longRace = createOpportunity({ ...opportunity, raceLength: 120 });
+      const shortRace = createOpportunity({ raceLength: 15 });
+      const longRace = createOpportunity({ raceLength: 120 });
 
-      const shortScore = scoringAlgorithm.calculateScore(shortRace, familiarHistory, 'balanced');
-      const longScore = scoringAlgorithm.calculateScore(longRace, familiarHistory, 'balanced');
+      const familiarDifference = scoringAlgorithm.calculateScore(shortRace, familiarHistory, RecommendationMode.BALANCED).factors.safety
+        - scoringAlgorithm.calculateScore(longRace, familiarHistory, RecommendationMode.BALANCED).factors.safety;
+      const unfamiliarDifference = scoringAlgorithm.calculateScore(shortRace, unfamiliarHistory, RecommendationMode.BALANCED).factors.safety
+        - scoringAlgorithm.calculateScore(longRace, unfamiliarHistory, RecommendationMode.BALANCED).factors.safety;
 
-      // Safety scores should be identical since personal history is used
-      expect(shortScore.factors.safety).toBe(longScore.factors.safety);
+      // 10 races give personal history 10/13 of the weight, leaving under a quarter of the adjustment
+      expect(familiarDifference).toBeGreaterThan(0);
+      expect(familiarDifference).toBeLessThan(unfamiliarDifference / 3);
     });
 
-    test('familiar series uses actual incident history not estimated incidents', () => {
+    test('familiar series leans on actual incident history over estimated incidents', () => {
       const opportunity = createOpportunity({
         seriesId: 100,
         trackId: 50,
@@ -219,24 +219,23 @@ describe('Race Length Safety Adjustment', () => {
       // User has clean record (1.5 incidents) in this series despite high global average
       const familiarHistory = createFamiliarUserHistory(100, 50);
 
-      const score = scoringAlgorithm.calculateScore(opportunity, familiarHistory, 'balanced');
+      const score = scoringAlgorithm.calculateScore(opportunity, familiarHistory, RecommendationMode.BALANCED);
+      const unfamiliarScore = scoringAlgorithm.calculateScore(opportunity, createUnfamiliarUserHistory(), RecommendationMode.BALANCED);
 
-      // Safety should be high because personal history shows clean driving
-      // Personal history: 1.5 incidents → score = (1 - 1.5/20) * 100 = 92.5
-      expect(score.factors.safety).toBeGreaterThanOrEqual(90);
+      // Estimate: (2.25 * 0.7 + 5.0 * 0.3) * 2.0 = 6.15 incidents
+      // Shrunk: 1.5 * 10/13 + 6.15 * 3/13 = 2.57 incidents → score = (1 - 2.57/20) * 100 = 87
+      expect(score.factors.safety).toBe(87);
+      expect(score.factors.safety).toBeGreaterThan(unfamiliarScore.factors.safety);
     });
 
-    test('3+ races in series qualifies as familiar', () => {
-      const opportunity = createOpportunity({ seriesId: 100, trackId: 50, raceLength: 120 });
-
-      // Create history with exactly 3 races (minimum for "familiar")
-      const barelyFamiliarHistory: UserHistory = {
+    test('more races in series leave less of the race length adjustment', () => {
+      const historyWithRaces = (raceCount: number): UserHistory => ({
         userId: 'test-user',
         seriesTrackHistory: [
           {
             seriesId: 100,
             trackId: 50,
-            raceCount: 3, // Minimum for familiar
+            raceCount,
             avgStartingPosition: 15,
             avgFinishingPosition: 12,
             avgPositionDelta: 3,
@@ -246,7 +245,7 @@ describe('Race Length Safety Adjustment', () => {
           },
         ],
         overallStats: {
-          totalRaces: 10,
+          totalRaces: 40,
           avgIncidentsPerRace: 4.0, // Higher overall
           avgPositionDelta: 0,
           overallConsistency: 5.0,
@@ -254,29 +253,41 @@ describe('Race Length Safety Adjustment', () => {
         licenseClasses: [
           { category: 'sports_car' as Category, level: 'C' as LicenseLevel, safetyRating: 3.0, iRating: 1500 },
         ],
-      };
+      });
 
-      const shortRace = createOpportunity({ ...opportunity, raceLength: 20 });
-      const longRace = createOpportunity({ ...opportunity, raceLength: 120 });
+      const shortRace = createOpportunity({ raceLength: 20 });
+      const longRace = createOpportunity({ raceLength: 120 });
+      const difference = (history: UserHistory) =>
+        scoringAlgorithm.calculateScore(shortRace, history, RecommendationMode.BALANCED).factors.safety
+        - scoringAlgorithm.calculateScore(longRace, history, RecommendationMode.BALANCED).factors.safety;
 
-      const shortScore = scoringAlgorithm.calculateScore(shortRace, barelyFamiliarHistory, 'balanced');
-      const longScore = scoringAlgorithm.calculateScore(longRace, barelyFamiliarHistory, 'balanced');
+      expect(difference(historyWithRaces(30))).toBeLessThan(difference(historyWithRaces(3)));
+    });
+
+    test('recency-weighted race count decides how much personal history counts', () => {
+      const familiarHistory = createFamiliarUserHistory(100, 50);
+      const staleHistory: UserHistory = {
+        ...familiarHistory,
+        seriesTrackHistory: [{ ...familiarHistory.seriesTrackHistory[0], effectiveRaceCount: 1 }],
+      };
+      const longRace = createOpportunity({ raceLength: 120 });
 
-      // Should be the same - using personal history not estimated
-      expect(shortScore.factors.safety).toBe(longScore.factors.safety);
+      // Old races count for less, so the estimate pulls the score further from personal history
+      expect(scoringAlgorithm.calculateScore(longRace, staleHistory, RecommendationMode.BALANCED).factors.safety)
+        .toBeLessThan(scoringAlgorithm.calculateScore(longRace, familiarHistory, RecommendationMode.BALANCED).factors.safety);
     });
 
-    test('2 races in series does NOT qualify as familiar - race length adjustment applies', () => {
+    test('2 races in series leave most of the race length adjustment', () => {
       const opportunity = createOpportunity({ seriesId: 100, trackId: 50 });
 
-      // Create history with only 2 races (not enough for "familiar")
+      // Create history with only 2 races
       const notFamiliarHistory: UserHistory = {
         userId: 'test-user',
         seriesTrackHistory: [
           {
             seriesId: 100,
             trackId: 50,
-            raceCount: 2, // Below threshold
+            raceCount: 2, // Personal history gets 2/5 of the weight
             avgStartingPosition: 15,
             avgFinishingPosition: 12,
             avgPositionDelta: 3,
@@ -302,7 +313,7 @@ describe('Race Length Safety Adjustment', () => {
       const shortScore = scoringAlgorithm.calculateScore(shortRace, notFamiliarHistory, 'balanced');
       const longScore = scoringAlgorithm.calculateScore(longRace, notFamiliarHistory, 'balanced');
 
-      // Should be different - race length adjustment applies because not enough history
+      // Should be different - with little history most of the race length adjustment applies
       expect(shortScore.factors.safety).toBeGreaterThan(longScore.factors.safety);
     });
   });
@@ -610,14 +621,14 @@ describe('Race Length Safety Adjustment - Property-Based Tests', () => {
     );
   });
 
-  test('Property: Familiar series ignores race length (same safety for any length)', async () => {
+  test('Property: Familiar series feels race length less than an unfamiliar one', async () => {
     await fc.assert(
       fc.asyncProperty(
         racingOpportunityArb,
         fc.float({ min: Math.fround(0.5), max: Math.fround(5), noNaN: true }), // Personal incident rate
         recommendationModeArb,
         async (opportunity, personalIncidents, mode) => {
-          // Create user with familiar history (3+ races in this series/track)
+          // Create user with familiar history (10 races in this series/track)
           const familiarHistory: UserHistory = {
             userId: 'test-user',
             seriesTrackHistory: [
@@ -648,11 +659,14 @@ describe('Race Length Safety Adjustment - Property-Based Tests', () => {
           const shortRace = { ...opportunity, raceLength: 15 };
           const longRace = { ...opportunity, raceLength: 180 };
 
-          const shortScore = scoringAlgorithm.calculateScore(shortRace, familiarHistory, mode);
-          const longScore = scoringAlgorithm.calculateScore(longRace, familiarHistory, mode);
+          const unfamiliarHistory = { ...familiarHistory, seriesTrackHistory: [] };
+          const difference = (history: UserHistory) =>
+            scoringAlgorithm.calculateScore(shortRace, history, mode).factors.safety
+            - scoringAlgorithm.calculateScore(longRace, history, mode).factors.safety;
 
-          // Safety scores should be identical - personal history used, race length ignored
-          expect(shortScore.factors.safety).toBe(longScore.factors.safety);
+          // Personal history keeps 3/13 of the adjustment (plus a point of rounding)
+          expect(difference(familiarHistory)).toBeGreaterThanOrEqual(0);
+          expect(difference(familiarHistory)).toBeLessThanOrEqual(difference(unfamiliarHistory) * 3 / 13 + 1);
         }
       ),
       { numRuns: 50 }
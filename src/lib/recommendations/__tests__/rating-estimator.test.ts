@@ -0,0 +1,144 @@
+/**
+ * Tests for the iRating and Safety Rating change estimates
+ *
+ * Key behaviors:
+ * 1. iRating follows the ELO-style approximation (no change for the expected finish)
+ * 2. Safety Rating credits corners and charges incidents
+ * 3. Scores carry the estimate, driven by the user's positions gained and incidents
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  chanceToBeat,
+  estimateIRatingChange,
+  estimateSafetyRatingChange,
+  iRatingChangeForFinish,
+  ratingExpectedFinish
+} from '../rating-estimator';
+import { ScoringAlgorithm } from '../scoring';
+import type { RacingOpportunity, UserHistory, SeriesTrackHistory } from '../types';
+import { RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+describe('iRating estimate', () => {
+  test('gives even odds against an equally rated driver', () => {
+    expect(chanceToBeat(2000, 2000)).toBeCloseTo(0.5);
+    expect(chanceToBeat(2500, 2000)).toBeGreaterThan(0.5);
+  });
+
+  test('barely moves for the finish the rating predicts', () => {
+    expect(ratingExpectedFinish(1500, 1500, 21)).toBeCloseTo(11);
+    expect(Math.abs(iRatingChangeForFinish(1500, 1500, 21, 11))).toBeLessThan(1);
+  });
+
+  test('rewards beating the field', () => {
+    // (19 beaten - 9.5 expected - 0.09 fudge) * 200 / 20
+    expect(iRatingChangeForFinish(2000, 2000, 20, 1)).toBeCloseTo(94.1);
+    expect(iRatingChangeForFinish(2000, 2000, 20, 20)).toBeLessThan(-90);
+  });
+
+  test('ranges from one spread worse to one spread better', () => {
+    const estimate = estimateIRatingChange({
+      iRating: 2000,
+      strengthOfField: 2000,
+      fieldSize: 20,
+      expectedFinish: 8,
+      finishStdDev: 3,
+    });
+
+    expect(estimate.expected).toBeGreaterThan(0);
+    expect(estimate.low).toBeLessThan(estimate.expected);
+    expect(estimate.high).toBeGreaterThan(estimate.expected);
+  });
+});
+
+describe('Safety Rating estimate', () => {
+  test('credits corners and charges incidents', () => {
+    // 200 corners * 0.00125 - 4 incidents * 0.05
+    expect(estimateSafetyRatingChange({ corners: 200, expectedIncidents: 4 })).toEqual({
+      expected: 0.05,
+      low: -0.05,
+      high: 0.15,
+    });
+  });
+});
+
+describe('Score rating change', () => {
+  const scoringAlgorithm = new ScoringAlgorithm();
+
+  const opportunity: RacingOpportunity = {
+    seriesId: 260,
+    seriesName: 'Global Mazda MX-5 Cup',
+    trackId: 50,
+    trackName: 'Test Track',
+    licenseRequired: LicenseLevel.D,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 1,
+    raceLength: 20,
+    hasOpenSetup: false,
+    timeSlots: [{ hour: 19, dayOfWeek: 6, strengthOfField: 1500, participantCount: 20 }],
+    globalStats: {
+      avgIncidentsPerRace: 3.0,
+      avgFinishPositionStdDev: 5.0,
+      avgStrengthOfField: 1500,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 20,
+    },
+    raceLapLimit: 15,
+    cornersPerLap: 10,
+  };
+
+  const history = (avgPositionDelta: number, avgIncidents: number): SeriesTrackHistory => ({
+    seriesId: 260,
+    trackId: 50,
+    raceCount: 10,
+    avgStartingPosition: 10,
+    avgFinishingPosition: 10,
+    avgPositionDelta,
+    avgIncidents,
+    finishPositionStdDev: 3,
+    lastRaceDate: new Date(),
+  });
+
+  const createUserHistory = (seriesTrackHistory: SeriesTrackHistory[], withLicense = true): UserHistory => ({
+    userId: 'test-user-123',
+    seriesTrackHistory,
+    overallStats: {
+      totalRaces: 10,
+      avgIncidentsPerRace: 3.0,
+      avgPositionDelta: 0,
+      overallConsistency: 4.0,
+    },
+    licenseClasses: withLicense
+      ? [{ category: Category.SPORTS_CAR, level: LicenseLevel.C, safetyRating: 3.0, iRating: 1500 }]
+      : [],
+  });
+
+  test('expects iRating gains for drivers who gain positions', () => {
+    const gainer = scoringAlgorithm.calculateScore(opportunity, createUserHistory([history(4, 2)]), RecommendationMode.BALANCED);
+    const loser = scoringAlgorithm.calculateScore(opportunity, createUserHistory([history(-4, 2)]), RecommendationMode.BALANCED);
+
+    expect(gainer.ratingChange!.iRating!.expected).toBeGreaterThan(0);
+    expect(loser.ratingChange!.iRating!.expected).toBeLessThan(0);
+  });
+
+  test('uses the schedule laps and corners for Safety Rating', () => {
+    // Personal history matches the cross-series estimate, so shrinkage leaves 3 incidents
+    const score = scoringAlgorithm.calculateScore(opportunity, createUserHistory([history(0, 3)]), RecommendationMode.BALANCED);
+
+    // 150 corners * 0.00125 - 3 incidents * 0.05
+    expect(score.ratingChange!.safetyRating.expected).toBeCloseTo(0.04, 2);
+    expect(score.ratingChange!.expectedIncidents).toBe(3);
+  });
+
+  test('skips iRating without a license in the category', () => {
+    const score = scoringAlgorithm.calculateScore(opportunity, createUserHistory([history(0, 2)], false), RecommendationMode.BALANCED);
+
+    expect(score.ratingChange!.iRating).toBeNull();
+    expect(score.ratingChange!.safetyRating).toBeDefined();
+  });
+});
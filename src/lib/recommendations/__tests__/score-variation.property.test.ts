@@ -145,6 +145,14 @@ describe('Score Variation Based on Experience Properties', () => {
         async (experiencedOpportunity, inexperiencedOpportunity, overallStats, licenseClasses, mode) => {
           // Ensure the opportunities are different series
           fc.pre(experiencedOpportunity.seriesId !== inexperiencedOpportunity.seriesId);
+
+          // Same category and field strength, so both share the cross-series estimate
+          // that series history is shrunk toward
+          inexperiencedOpportunity = {
+            ...inexperiencedOpportunity,
+            category: experiencedOpportunity.category,
+            globalStats: { ...inexperiencedOpportunity.globalStats, avgStrengthOfField: experiencedOpportunity.globalStats.avgStrengthOfField }
+          };
           
           // Create strong performance history for first series
           const strongPerformanceHistory: SeriesTrackHistory = {
@@ -205,6 +213,9 @@ describe('Score Variation Based on Experience Properties', () => {
           const normalizedRaceLength = Math.min(safeOpportunity.raceLength, riskyOpportunity.raceLength);
           safeOpportunity = { ...safeOpportunity, raceLength: normalizedRaceLength };
           riskyOpportunity = { ...riskyOpportunity, raceLength: normalizedRaceLength };
+
+          // Same category, so both share the cross-series estimate that series history is shrunk toward
+          safeOpportunity = { ...safeOpportunity, category: riskyOpportunity.category };
           
           // Create clean safety record for first series
           const cleanSafetyHistory: SeriesTrackHistory = {
@@ -231,7 +242,7 @@ describe('Score Variation Based on Experience Properties', () => {
             licenseClasses
           };
 
-          // Make the risky opportunity have high global incident rate
+          // Make both opportunities high incident series, leaving personal history as the difference
           const riskyOpportunityWithHighIncidents = {
             ...riskyOpportunity,
             globalStats: {
@@ -239,9 +250,13 @@ describe('Score Variation Based on Experience Properties', () => {
               avgIncidentsPerRace: 5.0 // High incident series
             }
           };
+          const safeOpportunityWithHighIncidents = {
+            ...safeOpportunity,
+            globalStats: { ...safeOpportunity.globalStats, avgIncidentsPerRace: 5.0 }
+          };
 
           // Calculate scores for both opportunities
-          const safeScore = scoringAlgorithm.calculateScore(safeOpportunity, userHistory, mode);
+          const safeScore = scoringAlgorithm.calculateScore(safeOpportunityWithHighIncidents, userHistory, mode);
           const riskyScore = scoringAlgorithm.calculateScore(riskyOpportunityWithHighIncidents, userHistory, mode);
 
           // Safety scores should differ based on both personal history and global stats
@@ -279,6 +294,14 @@ describe('Score Variation Based on Experience Properties', () => {
           const normalizedRaceLength = Math.min(expertOpportunity.raceLength, noviceOpportunity.raceLength);
           expertOpportunity = { ...expertOpportunity, raceLength: normalizedRaceLength };
           noviceOpportunity = { ...noviceOpportunity, raceLength: normalizedRaceLength };
+
+          // Same category and field strength, so both share the cross-series estimate
+          // that series history is shrunk toward
+          noviceOpportunity = {
+            ...noviceOpportunity,
+            category: expertOpportunity.category,
+            globalStats: { ...noviceOpportunity.globalStats, avgStrengthOfField: expertOpportunity.globalStats.avgStrengthOfField }
+          };
           
           // Create expert-level experience for first series
           const expertHistory: SeriesTrackHistory = {
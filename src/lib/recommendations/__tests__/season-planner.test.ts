@@ -0,0 +1,112 @@
+/**
+ * Tests for the season planner
+ *
+ * Key behaviors:
+ * 1. Each series lists its remaining weeks with scores, good weeks marked
+ * 2. Weeks already raced count toward the participation credit without double counting
+ * 3. Pinned series come first, then those with the most credit weeks
+ * 4. Highlights are the strongest upcoming tracks with history
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildSeasonPlan, GOOD_WEEK_SCORE, PARTICIPATION_CREDIT_WEEKS, type SeasonOpportunity } from '../season-planner';
+import type { Score } from '../types';
+import { Category } from '../../types/category';
+import { ConfidenceLevel } from '../../types/recommendation';
+import { LicenseLevel } from '../../types/license';
+
+function week(
+  seriesId: number,
+  raceWeekNum: number,
+  overall: number,
+  performance: number = 50,
+  performanceConfidence: ConfidenceLevel = ConfidenceLevel.NO_DATA
+): SeasonOpportunity {
+  return {
+    seriesId,
+    seriesName: `Series ${seriesId}`,
+    trackId: seriesId * 100 + raceWeekNum,
+    trackName: `Track ${seriesId}-${raceWeekNum}`,
+    licenseRequired: LicenseLevel.D,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 4,
+    raceWeekNum,
+    raceLength: 30,
+    hasOpenSetup: false,
+    timeSlots: [],
+    globalStats: {
+      avgIncidentsPerRace: 4,
+      avgFinishPositionStdDev: 5,
+      avgStrengthOfField: 1500,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 30,
+    },
+    weekStart: new Date(Date.UTC(2025, 8, 9 + raceWeekNum * 7)),
+    score: {
+      overall,
+      factors: { performance },
+      dataConfidence: { performance: performanceConfidence },
+    } as unknown as Score,
+  };
+}
+
+// Weeks 2-11 of a season, scoring `good` of them above the threshold
+function series(seriesId: number, good: number): SeasonOpportunity[] {
+  return Array.from({ length: 10 }, (_, i) => week(seriesId, i + 2, i < good ? 75 : 40));
+}
+
+describe('buildSeasonPlan', () => {
+  test('lists remaining weeks per series and counts good weeks', () => {
+    const plan = buildSeasonPlan(series(1, 6), { racedWeeks: new Map(), pinnedSeriesIds: [] });
+
+    expect(plan.goodWeekScore).toBe(GOOD_WEEK_SCORE);
+    expect(plan.participationCreditWeeks).toBe(PARTICIPATION_CREDIT_WEEKS);
+    expect(plan.series).toHaveLength(1);
+    expect(plan.series[0]).toMatchObject({
+      seriesId: 1,
+      goodWeeks: 6,
+      weeksRaced: 0,
+      creditWeeks: 6,
+      earnsParticipationCredit: false,
+      averageScore: 61,
+      pinned: false,
+    });
+    expect(plan.series[0].weeks.map(w => w.raceWeekNum)).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+    expect(plan.series[0].weeks[0]).toMatchObject({ trackName: 'Track 1-2', score: 75, isGoodWeek: true });
+  });
+
+  test('adds weeks already raced toward the participation credit', () => {
+    // Raced weeks 0 and 1, plus week 2 which is also a good remaining week
+    const plan = buildSeasonPlan(series(1, 6), { racedWeeks: new Map([[1, [0, 1, 2]]]), pinnedSeriesIds: [] });
+
+    expect(plan.series[0].weeksRaced).toBe(3);
+    expect(plan.series[0].creditWeeks).toBe(8);
+    expect(plan.series[0].earnsParticipationCredit).toBe(true);
+  });
+
+  test('orders pinned series first, then by credit weeks', () => {
+    const plan = buildSeasonPlan(
+      [...series(1, 2), ...series(2, 9), ...series(3, 5)],
+      { racedWeeks: new Map(), pinnedSeriesIds: [1] }
+    );
+
+    expect(plan.series.map(s => [s.seriesId, s.pinned])).toEqual([[1, true], [2, false], [3, false]]);
+  });
+
+  test('highlights tracks with history where the user performs best', () => {
+    const plan = buildSeasonPlan([
+      week(1, 3, 70, 90, ConfidenceLevel.HIGH),
+      week(1, 4, 80, 60, ConfidenceLevel.ESTIMATED),
+      week(2, 3, 90, 95), // No history at this track
+      { ...week(2, 5, 65, 90, ConfidenceLevel.HIGH), trackId: 103 }, // Same track as series 1 week 3, later
+    ], { racedWeeks: new Map(), pinnedSeriesIds: [] });
+
+    expect(plan.highlights.map(h => [h.trackId, h.seriesId, h.raceWeekNum])).toEqual([
+      [103, 1, 3],
+      [104, 1, 4],
+    ]);
+    expect(plan.highlights[0].weekStart).toEqual(new Date(Date.UTC(2025, 8, 30)));
+  });
+});
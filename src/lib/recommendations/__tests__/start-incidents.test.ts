@@ -0,0 +1,99 @@
+/**
+ * Tests for the start risk adjustment to expected incidents
+ *
+ * Key behaviors:
+ * 1. Series with chaotic starts raise expected incidents for drivers whose incidents cluster on lap 1
+ * 2. Drivers whose incidents do not cluster on lap 1 are not adjusted
+ * 3. Too few races with event logs, overall or in the series, leave incidents unchanged
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ScoringAlgorithm } from '../scoring';
+import type { RacingOpportunity, UserHistory, StartIncidentStats } from '../types';
+import { RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+describe('Start incident risk', () => {
+  const scoringAlgorithm = new ScoringAlgorithm();
+
+  const opportunity: RacingOpportunity = {
+    seriesId: 260,
+    seriesName: 'Global Mazda MX-5 Cup',
+    trackId: 50,
+    trackName: 'Test Track',
+    licenseRequired: LicenseLevel.D,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 1,
+    raceWeekNum: 1,
+    raceLength: 20,
+    hasOpenSetup: false,
+    timeSlots: [{ hour: 12, dayOfWeek: 6, strengthOfField: 2000, participantCount: 20 }],
+    globalStats: {
+      avgIncidentsPerRace: 3.0,
+      avgFinishPositionStdDev: 5.0,
+      avgStrengthOfField: 2000,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 20,
+    },
+  };
+
+  const createStarts = (starts: Partial<StartIncidentStats> = {}): StartIncidentStats => ({
+    raceCount: 20,
+    startShare: 0.6,
+    fieldStartShare: 0.3,
+    fieldStartIncidentsPerDriver: 1.0,
+    series: [{ seriesId: 260, raceCount: 4, fieldStartIncidentsPerDriver: 2.0 }],
+    ...starts,
+  });
+
+  const createUserHistory = (startIncidents: StartIncidentStats | null): UserHistory => ({
+    userId: 'test-user-123',
+    seriesTrackHistory: [],
+    overallStats: {
+      totalRaces: 20,
+      avgIncidentsPerRace: 2.5,
+      avgPositionDelta: 0,
+      overallConsistency: 4.0,
+    },
+    licenseClasses: [
+      { category: Category.SPORTS_CAR, level: LicenseLevel.B, safetyRating: 3.5, iRating: 2000 },
+    ],
+    startIncidents,
+  });
+
+  const score = (startIncidents: StartIncidentStats | null) =>
+    scoringAlgorithm.calculateScore(opportunity, createUserHistory(startIncidents), RecommendationMode.BALANCED);
+
+  const expectedIncidents = (startIncidents: StartIncidentStats | null) =>
+    score(startIncidents).ratingChange?.expectedIncidents;
+
+  test('raises expected incidents in series with chaotic starts for lap 1 clusterers', () => {
+    const baseline = score(null);
+    const chaotic = score(createStarts());
+
+    // 30 points more of the incidents on lap 1, in a series with twice the start incidents: x1.3
+    expect(baseline.ratingChange?.expectedIncidents).toBe(2.5);
+    expect(chaotic.ratingChange?.expectedIncidents).toBe(3.2);
+    expect(chaotic.factors.safety).toBeLessThan(baseline.factors.safety);
+    expect(chaotic.reasoning).toContain('Starts in this series are chaotic, and your incidents tend to come on lap 1');
+    expect(baseline.reasoning).not.toContain('Starts in this series are chaotic, and your incidents tend to come on lap 1');
+  });
+
+  test('leaves drivers whose incidents do not cluster on lap 1 alone', () => {
+    expect(expectedIncidents(createStarts({ startShare: 0.2 }))).toBe(2.5);
+    expect(expectedIncidents(createStarts({
+      series: [{ seriesId: 260, raceCount: 4, fieldStartIncidentsPerDriver: 0.8 }],
+    }))).toBe(2.5);
+  });
+
+  test('needs enough races with event logs', () => {
+    expect(expectedIncidents(createStarts({ raceCount: 4 }))).toBe(2.5);
+    expect(expectedIncidents(createStarts({
+      series: [{ seriesId: 260, raceCount: 1, fieldStartIncidentsPerDriver: 2.0 }],
+    }))).toBe(2.5);
+    expect(expectedIncidents(createStarts({ series: [] }))).toBe(2.5);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for time slot SOF and field size forecasts
+ *
+ * Key behaviors:
+ * 1. Forecasts are deterministic
+ * 2. A well-raced slot forecasts close to its own history
+ * 3. Thin history is shrunk toward the series-wide slot, then the global stats
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { forecastTimeSlot, forecastTimeSlots } from '../time-slot-forecast';
+import type { GlobalStats, TimeSlotStats } from '../types';
+
+describe('Time slot forecasts', () => {
+  const globalStats: GlobalStats = {
+    avgIncidentsPerRace: 3.0,
+    avgFinishPositionStdDev: 5.0,
+    avgStrengthOfField: 1500,
+    strengthOfFieldVariability: 300,
+    attritionRate: 10,
+    avgRaceLength: 20,
+  };
+
+  const saturdayEvening = { dayOfWeek: 6, hour: 19 };
+
+  const createStats = (overrides: Partial<TimeSlotStats>): TimeSlotStats => ({
+    seriesId: 260,
+    trackId: 50,
+    dayOfWeek: 6,
+    hour: 19,
+    raceCount: 20,
+    avgStrengthOfField: 2000,
+    strengthOfFieldStdDev: 200,
+    avgFieldSize: 30,
+    fieldSizeStdDev: 4,
+    ...overrides,
+  });
+
+  test('falls back to the global stats without history', () => {
+    const slot = forecastTimeSlot(saturdayEvening, 260, 50, [], globalStats);
+
+    expect(slot).toEqual({
+      hour: 19,
+      dayOfWeek: 6,
+      strengthOfField: 1500,
+      participantCount: 20,
+      forecast: {
+        strengthOfFieldLow: 1116,
+        strengthOfFieldHigh: 1884,
+        participantCountLow: 10,
+        participantCountHigh: 30,
+        source: 'fallback',
+        raceCount: 0,
+      },
+    });
+  });
+
+  test('forecasts close to a well-raced slot', () => {
+    const slot = forecastTimeSlot(saturdayEvening, 260, 50, [createStats({})], globalStats);
+
+    expect(slot.strengthOfField).toBe(1980);
+    expect(slot.participantCount).toBe(30);
+    expect(slot.forecast).toMatchObject({ source: 'slot', raceCount: 20 });
+    expect(slot.forecast!.strengthOfFieldLow).toBeLessThan(slot.strengthOfField);
+    expect(slot.forecast!.strengthOfFieldHigh).toBeGreaterThan(slot.strengthOfField);
+  });
+
+  test('shrinks a thin slot toward the fallback', () => {
+    const stats = [createStats({ raceCount: 1, avgStrengthOfField: 2100, strengthOfFieldStdDev: null })];
+
+    const slot = forecastTimeSlot(saturdayEvening, 260, 50, stats, globalStats);
+
+    expect(slot.strengthOfField).toBe(1683);
+    expect(slot.forecast).toMatchObject({ source: 'slot', raceCount: 1 });
+  });
+
+  test('uses the series history at other tracks for the same slot', () => {
+    const stats = [
+      createStats({ trackId: 99, raceCount: 10, avgStrengthOfField: 1800 }),
+      createStats({ hour: 3, raceCount: 10, avgStrengthOfField: 900 }), // Different hour
+    ];
+
+    const slot = forecastTimeSlot(saturdayEvening, 260, 50, stats, globalStats);
+
+    expect(slot.strengthOfField).toBe(1700);
+    expect(slot.forecast).toMatchObject({ source: 'series', raceCount: 10 });
+  });
+
+  test('is deterministic', () => {
+    const stats = [createStats({ raceCount: 4 }), createStats({ trackId: 99, raceCount: 7, avgStrengthOfField: 1700 })];
+    const slots = [saturdayEvening, { dayOfWeek: 2, hour: 20 }];
+
+    expect(forecastTimeSlots(slots, 260, 50, stats, globalStats)).toEqual(forecastTimeSlots(slots, 260, 50, stats, globalStats));
+  });
+});
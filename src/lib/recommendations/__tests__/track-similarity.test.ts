@@ -0,0 +1,162 @@
+/**
+ * Tests for transferring experience between related tracks
+ *
+ * Key behaviors:
+ * 1. Other configurations of a circuit are closely related, similar circuits loosely, other categories not at all
+ * 2. Series history at related tracks is blended in at reduced weight
+ * 3. Familiarity, performance and data confidence credit related tracks, and nothing changes without track metadata
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { blendRelatedHistory, findRelatedTracks, trackSimilarity } from '../track-similarity';
+import { ScoringAlgorithm } from '../scoring';
+import type { RacingOpportunity, SeriesTrackHistory, TrackProfile, UserHistory } from '../types';
+import { ConfidenceLevel, RecommendationMode } from '../../types/recommendation';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+const spaGrandPrix: TrackProfile = { trackId: 163, packageId: 146, category: 'road', lengthMiles: 4.35, cornersPerLap: 19 };
+const spaEndurance: TrackProfile = { ...spaGrandPrix, trackId: 165 };
+const spaShort: TrackProfile = { ...spaGrandPrix, trackId: 166, lengthMiles: 3.0, cornersPerLap: 15 };
+const roadAmerica: TrackProfile = { trackId: 18, packageId: 12, category: 'road', lengthMiles: 4.0, cornersPerLap: 14 };
+const limeRock: TrackProfile = { trackId: 50, packageId: 22, category: 'road', lengthMiles: 1.53, cornersPerLap: 7 };
+
+function history(trackProfile: TrackProfile, overrides: Partial<SeriesTrackHistory> = {}): SeriesTrackHistory {
+  return {
+    seriesId: 260,
+    trackId: trackProfile.trackId,
+    raceCount: 10,
+    avgStartingPosition: 12,
+    avgFinishingPosition: 6,
+    avgPositionDelta: 6,
+    avgIncidents: 1,
+    finishPositionStdDev: 3,
+    lastRaceDate: new Date('2025-06-01T00:00:00Z'),
+    trackProfile,
+    ...overrides,
+  };
+}
+
+describe('trackSimilarity', () => {
+  test('relates configurations of the same circuit by layout', () => {
+    expect(trackSimilarity(spaGrandPrix, spaGrandPrix)).toBe(1);
+    expect(trackSimilarity(spaGrandPrix, spaEndurance)).toBe(0.9);
+    expect(trackSimilarity(spaGrandPrix, spaShort)).toBe(0.82);
+    expect(trackSimilarity(spaGrandPrix, { ...spaEndurance, lengthMiles: null, cornersPerLap: null })).toBe(0.75);
+  });
+
+  test('relates other circuits only when similarly shaped', () => {
+    expect(trackSimilarity(spaGrandPrix, roadAmerica)).toBe(0.27);
+    expect(trackSimilarity(spaGrandPrix, limeRock)).toBe(0);
+  });
+
+  test('does not relate other categories or unknown tracks', () => {
+    expect(trackSimilarity(spaGrandPrix, { ...spaEndurance, category: 'oval' })).toBe(0);
+    expect(trackSimilarity(spaGrandPrix, null)).toBe(0);
+    expect(trackSimilarity(spaGrandPrix, { ...roadAmerica, category: null })).toBe(0);
+  });
+});
+
+describe('findRelatedTracks', () => {
+  test('sums races across series and orders by similarity', () => {
+    const related = findRelatedTracks(spaEndurance, [
+      history(roadAmerica, { raceCount: 20 }),
+      history(spaGrandPrix, { raceCount: 4 }),
+      history(spaGrandPrix, { seriesId: 300, raceCount: 6 }),
+      history(limeRock),
+      history(spaEndurance),
+    ]);
+
+    expect(related).toEqual([
+      { trackId: 163, similarity: 0.9, raceCount: 10 },
+      { trackId: 18, similarity: 0.27, raceCount: 20 },
+    ]);
+  });
+});
+
+describe('blendRelatedHistory', () => {
+  test('weights related tracks by similarity', () => {
+    const exact = history(spaEndurance, { raceCount: 2, avgPositionDelta: 0 });
+    const blended = blendRelatedHistory(260, spaEndurance, exact, [exact, history(spaGrandPrix, { avgPositionDelta: 6 })])!;
+
+    // 2 exact races plus 10 races at 0.9 similarity
+    expect(blended.raceCount).toBe(12);
+    expect(blended.effectiveRaceCount).toBeCloseTo(11);
+    expect(blended.avgPositionDelta).toBeCloseTo((6 * 9) / 11);
+    expect(blended.trackId).toBe(165);
+  });
+
+  test('ignores other series and returns the exact history when nothing is related', () => {
+    const exact = history(spaEndurance);
+    const entries = [exact, history(spaGrandPrix, { seriesId: 300 }), history(limeRock)];
+
+    expect(blendRelatedHistory(260, spaEndurance, exact, entries)).toBe(exact);
+    expect(blendRelatedHistory(260, null, exact, entries)).toBe(exact);
+    expect(blendRelatedHistory(260, spaEndurance, undefined, [history(limeRock)])).toBeUndefined();
+  });
+});
+
+describe('Scoring with related tracks', () => {
+  const scoringAlgorithm = new ScoringAlgorithm();
+
+  const opportunity = (trackProfile: TrackProfile | null): RacingOpportunity => ({
+    seriesId: 260,
+    seriesName: 'GT Sprint Series',
+    trackId: 165,
+    trackName: 'Circuit de Spa-Francorchamps - Endurance',
+    licenseRequired: LicenseLevel.C,
+    category: Category.SPORTS_CAR,
+    seasonYear: 2025,
+    seasonQuarter: 3,
+    raceWeekNum: 4,
+    raceLength: 40,
+    hasOpenSetup: false,
+    timeSlots: [{ hour: 18, dayOfWeek: 6, strengthOfField: 1800, participantCount: 24 }],
+    globalStats: {
+      avgIncidentsPerRace: 4,
+      avgFinishPositionStdDev: 5,
+      avgStrengthOfField: 1800,
+      strengthOfFieldVariability: 200,
+      attritionRate: 10,
+      avgRaceLength: 40,
+    },
+    trackProfile,
+  });
+
+  const userHistory = (entries: SeriesTrackHistory[]): UserHistory => ({
+    userId: 'test-user-123',
+    seriesTrackHistory: entries,
+    overallStats: {
+      totalRaces: 10,
+      avgIncidentsPerRace: 3,
+      avgPositionDelta: 0,
+      overallConsistency: 4,
+    },
+    licenseClasses: [{ category: Category.SPORTS_CAR, level: LicenseLevel.C, safetyRating: 3.0, iRating: 1800 }],
+  });
+
+  test('credits races at another configuration of the circuit', () => {
+    const user = userHistory([history(spaGrandPrix)]);
+
+    const related = scoringAlgorithm.calculateScore(opportunity(spaEndurance), user, RecommendationMode.BALANCED);
+    const unrelated = scoringAlgorithm.calculateScore(opportunity(null), user, RecommendationMode.BALANCED);
+
+    expect(related.factors.familiarity).toBeGreaterThan(unrelated.factors.familiarity);
+    expect(related.factors.performance).toBeGreaterThan(unrelated.factors.performance);
+    expect(related.factors.safety).toBeGreaterThan(unrelated.factors.safety);
+    expect(related.dataConfidence.relatedTracks).toEqual([{ trackId: 163, similarity: 0.9, raceCount: 10 }]);
+    expect(related.dataConfidence.familiarity).toBe(ConfidenceLevel.ESTIMATED);
+    expect(related.reasoning).toContain('First time at this layout, but your races at similar tracks carry over');
+    expect(unrelated.dataConfidence.relatedTracks).toBeUndefined();
+  });
+
+  test('leaves exact history scores unchanged without related tracks', () => {
+    const user = userHistory([history(spaEndurance), history(limeRock, { seriesId: 300 })]);
+
+    const withProfile = scoringAlgorithm.calculateScore(opportunity(spaEndurance), user, RecommendationMode.BALANCED);
+    const withoutProfile = scoringAlgorithm.calculateScore(opportunity(null), user, RecommendationMode.BALANCED);
+
+    expect(withProfile.factors).toEqual(withoutProfile.factors);
+    expect(withProfile.dataConfidence).toEqual(withoutProfile.dataConfidence);
+  });
+});
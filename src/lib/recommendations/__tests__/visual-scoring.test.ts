@@ -127,7 +127,8 @@ describe('VisualScoringRenderer', () => {
           familiarity: 70,
           fatigueRisk: 60,
           attritionRisk: 80,
-          timeVolatility: 75
+          timeVolatility: 75,
+          conditions: 50
         },
         iRatingRisk: 'medium',
         safetyRatingRisk: 'low',
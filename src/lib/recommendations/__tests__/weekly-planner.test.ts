@@ -0,0 +1,127 @@
+/**
+ * Tests for the weekly race planner
+ *
+ * Key behaviors:
+ * 1. The plan with the best total score is chosen, up to the target race count
+ * 2. Daily racing minutes, series variety and license categories limit the plan
+ * 3. Overlapping sessions are never both planned
+ * 4. Days are grouped by the plan timezone
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildWeeklyPlan, DEFAULT_WEEKLY_PLAN_CONSTRAINTS } from '../weekly-planner';
+import type { SessionRecommendation } from '../types';
+import { Category } from '../../types/category';
+import { LicenseLevel } from '../../types/license';
+
+jest.mock('../../db', () => ({
+  db: {},
+}));
+
+function session(
+  seriesId: number,
+  startsAt: string,
+  overall: number,
+  overrides: Partial<SessionRecommendation> = {}
+): SessionRecommendation {
+  return {
+    seriesId,
+    seriesName: `Series ${seriesId}`,
+    trackId: 100 + seriesId,
+    trackName: `Track ${seriesId}`,
+    category: Category.SPORTS_CAR,
+    licenseRequired: LicenseLevel.D,
+    startsAt: new Date(startsAt),
+    raceLength: 30,
+    predictedStrengthOfField: 1500,
+    predictedParticipantCount: 20,
+    score: { overall } as SessionRecommendation['score'],
+    ...overrides,
+  };
+}
+
+const constraints = { ...DEFAULT_WEEKLY_PLAN_CONSTRAINTS, targetRaces: 3 };
+
+describe('buildWeeklyPlan', () => {
+  test('plans the best sessions up to the target, grouped by day', () => {
+    const plan = buildWeeklyPlan([
+      session(1, '2025-06-10T18:00:00Z', 60),
+      session(2, '2025-06-11T18:00:00Z', 90),
+      session(3, '2025-06-10T20:00:00Z', 80),
+      session(4, '2025-06-12T18:00:00Z', 70),
+    ], constraints, 'UTC');
+
+    expect(plan.plannedRaces).toBe(3);
+    expect(plan.totalScore).toBe(240);
+    expect(plan.averageScore).toBe(80);
+    expect(plan.days.map(day => [day.date, day.sessions.map(s => s.seriesId)])).toEqual([
+      ['2025-06-10', [3]],
+      ['2025-06-11', [2]],
+      ['2025-06-12', [4]],
+    ]);
+  });
+
+  test('keeps each day within the racing minutes budget', () => {
+    const plan = buildWeeklyPlan([
+      session(1, '2025-06-10T18:00:00Z', 90, { raceLength: 60 }),
+      session(2, '2025-06-10T20:00:00Z', 80, { raceLength: 60 }),
+      session(3, '2025-06-10T22:00:00Z', 70),
+      session(4, '2025-06-11T18:00:00Z', 50),
+    ], { ...constraints, maxMinutesPerDay: 120 }, 'UTC');
+
+    expect(plan.days.map(day => day.totalMinutes)).toEqual([120, 30]);
+    expect(plan.rejected.fatigue).toBe(1);
+  });
+
+  test('limits races per series and skips overlapping sessions', () => {
+    const plan = buildWeeklyPlan([
+      session(1, '2025-06-10T18:00:00Z', 90),
+      session(1, '2025-06-11T18:00:00Z', 85),
+      session(1, '2025-06-12T18:00:00Z', 84),
+      session(2, '2025-06-10T18:30:00Z', 80), // Starts before series 1 ends, plus the gap
+      session(3, '2025-06-10T18:40:00Z', 60),
+    ], { ...constraints, maxPerSeries: 2 }, 'UTC');
+
+    // Taking the best session first (1 on the 10th) would leave 1, 1 and 3 for 235
+    expect(plan.days.flatMap(day => day.sessions.map(s => s.seriesId))).toEqual([2, 1, 1]);
+    expect(plan.totalScore).toBe(249);
+    expect(plan.rejected).toEqual({ fatigue: 0, overlap: 1, variety: 1, category: 0 });
+  });
+
+  test('plans only the chosen license categories, up to their limit', () => {
+    const plan = buildWeeklyPlan([
+      session(1, '2025-06-10T18:00:00Z', 90, { category: Category.OVAL }),
+      session(2, '2025-06-11T18:00:00Z', 80),
+      session(3, '2025-06-12T18:00:00Z', 70),
+      session(4, '2025-06-13T18:00:00Z', 60, { category: Category.FORMULA_CAR }),
+    ], {
+      ...constraints,
+      categories: [Category.SPORTS_CAR, Category.FORMULA_CAR],
+      maxPerCategory: 1,
+    }, 'UTC');
+
+    expect(plan.days.flatMap(day => day.sessions.map(s => s.seriesId))).toEqual([2, 4]);
+    expect(plan.rejected.category).toBe(2);
+  });
+
+  test('counts days in the plan timezone', () => {
+    // 01:00 UTC on the 11th is still the 10th in New York
+    const plan = buildWeeklyPlan([
+      session(1, '2025-06-10T22:00:00Z', 90),
+      session(2, '2025-06-11T01:00:00Z', 80),
+    ], constraints, 'America/New_York');
+
+    expect(plan.days).toHaveLength(1);
+    expect(plan.days[0]).toMatchObject({ date: '2025-06-10', totalMinutes: 60 });
+  });
+
+  test('returns an empty plan without sessions', () => {
+    expect(buildWeeklyPlan([], constraints, 'UTC')).toEqual({
+      days: [],
+      plannedRaces: 0,
+      totalScore: 0,
+      averageScore: 0,
+      rejected: { fatigue: 0, overlap: 0, variety: 0, category: 0 },
+    });
+  });
+});
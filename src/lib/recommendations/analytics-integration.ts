@@ -1,7 +1,11 @@
 import { 
   getPerformanceMetrics, 
   getSeriesTrackPerformance, 
-  getGlobalSeriesTrackStats 
+  getGlobalSeriesTrackStats,
+  getCarExperience,
+  getConditionsIncidentStats,
+  getRaceOutcomes,
+  getQualifyingRaces
 } from '../db/analytics';
 import type { 
   Category, 
@@ -10,14 +14,22 @@ import type {
   SeriesTrackHistory, 
   UserOverallStats, 
   LicenseClass,
-  GlobalStats 
+  GlobalStats,
+  CarExperience,
+  ConditionsIncidentStats,
+  OwnedContent,
+  StartIncidentStats,
+  QualifyingStats
 } from './types';
 import { eq, sql, and, isNotNull } from 'drizzle-orm';
 import { LicenseHelper, LicenseLevel as LicenseEnum } from '../types/license';
 import { db } from '../db';
-import { licenseClasses, raceResults, scheduleEntries } from '../db/schema';
+import { licenseClasses, ownedContent, raceResults, scheduleEntries } from '../db/schema';
 import { recommendationCache, CacheKeys, CacheTTL } from './cache';
 import { batchProcessor } from './batch-processor';
+import { aggregateWeightedHistory, type WeightedHistory } from './history-weighting';
+import { getIncidentTimeline } from '../iracing/incident-timeline';
+import { buildQualifyingStats } from './qualifying-analysis';
 
 // Analytics integration logging
 interface AnalyticsCall {
@@ -76,6 +88,10 @@ export interface UserPerformanceData {
   overallStats: OverallPerformance;
   primaryCategory: Category;
   licenseClasses: LicenseClass[];
+  ownedContent?: OwnedContent | null;
+  conditionsHistory?: ConditionsIncidentStats[];
+  startIncidents?: StartIncidentStats | null;
+  qualifying?: QualifyingStats | null;
 }
 
 export interface SeriesTrackPerformance {
@@ -83,16 +99,28 @@ export interface SeriesTrackPerformance {
   trackId: number;
   raceCount: number;
   avgPositionDelta: number;
+  avgClassPositionDelta?: number; // Delta within the car class (used for multi-class series)
   avgIncidents: number;
   consistency: number;
   confidenceLevel: ConfidenceLevel;
+  carExperience?: CarExperience[];
+  // Set when the recency-weighted aggregates are available
+  effectiveRaceCount?: number;
+  avgStartingPosition?: number;
+  avgFinishingPosition?: number;
+  lastRaceDate?: Date;
+  avgPacePercentile?: number | null;
+  paceRaceCount?: number;
 }
 
 export interface OverallPerformance {
   totalRaces: number;
   avgIncidentsPerRace: number;
   avgPositionDelta: number;
+  avgClassPositionDelta?: number; // Delta within the car class (used for multi-class series)
   overallConsistency: number;
+  avgPacePercentile?: number | null; // Lap pace against the class field, from races with lap data
+  paceRaceCount?: number;
 }
 
 export interface GlobalStatistics {
@@ -161,15 +189,49 @@ export class AnalyticsIntegration {
         trackId: metric.trackId!,
         raceCount: metric.raceCount,
         avgPositionDelta: metric.positionDelta,
+        avgClassPositionDelta: metric.classPositionDelta ?? metric.positionDelta,
         avgIncidents: metric.avgIncidents,
         consistency: metric.consistency, // Keep original value for now to match test expectations
         confidenceLevel: this.getConfidenceLevel(metric.raceCount)
       }));
 
+      // Attach per-car experience so familiarity can tell whether the car has been driven
+      const carExperienceByKey = await this.getCarExperienceByKey(userId);
+      for (const performance of seriesTrackHistory) {
+        const carExperience = carExperienceByKey.get(`${performance.seriesId}-${performance.trackId}`);
+        if (carExperience) {
+          performance.carExperience = carExperience;
+        }
+      }
+
       // Get overall stats using analytics system
       const overallAnalytics = await getPerformanceMetrics(userId, 'series');
       console.log(`Debug: Found ${overallAnalytics?.length || 0} series performance records for user ${userId}`);
-      const overallStats = this.calculateOverallStats(overallAnalytics || []);
+      let overallStats = this.calculateOverallStats(overallAnalytics || []);
+
+      // Prefer recency-weighted averages, so recent form counts more than old races
+      const weightedHistory = await this.getWeightedHistory(userId);
+      if (weightedHistory) {
+        const weightedByKey = new Map(
+          weightedHistory.seriesTrackHistory.map(history => [`${history.seriesId}-${history.trackId}`, history])
+        );
+        for (const performance of seriesTrackHistory) {
+          const weighted = weightedByKey.get(`${performance.seriesId}-${performance.trackId}`);
+          if (weighted) {
+            performance.avgPositionDelta = weighted.avgPositionDelta;
+            performance.avgClassPositionDelta = weighted.avgClassPositionDelta;
+            performance.avgIncidents = weighted.avgIncidents;
+            performance.consistency = weighted.finishPositionStdDev;
+            performance.effectiveRaceCount = weighted.effectiveRaceCount;
+            performance.avgStartingPosition = weighted.avgStartingPosition;
+            performance.avgFinishingPosition = weighted.avgFinishingPosition;
+            performance.lastRaceDate = weighted.lastRaceDate;
+            performance.avgPacePercentile = weighted.avgPacePercentile;
+            performance.paceRaceCount = weighted.paceRaceCount;
+          }
+        }
+        overallStats = weightedHistory.overallStats;
+      }
 
       // Get user's license classes with enhanced debugging (v2)
       console.log(`Debug: Querying licenses for user ${userId}`);
@@ -263,7 +325,11 @@ export class AnalyticsIntegration {
         seriesTrackHistory,
         overallStats,
         primaryCategory,
-        licenseClasses: finalLicenses
+        licenseClasses: finalLicenses,
+        ownedContent: await this.getOwnedContent(userId),
+        conditionsHistory: await this.getConditionsHistory(userId),
+        startIncidents: await this.getStartIncidents(userId),
+        qualifying: await this.getQualifying(userId)
       };
 
       // TEMPORARILY DISABLE CACHE FOR DEBUGGING
@@ -353,9 +419,9 @@ export class AnalyticsIntegration {
           avgIncidentsPerRace: parseFloat(analyticsStats.avgIncidents?.toString() ?? '2.5'),
           avgFinishPositionStdDev: analyticsStats.consistencyMetric ?? 8.0,
           avgStrengthOfField: parseFloat(analyticsStats.avgStrengthOfField?.toString() ?? '1500'),
-          strengthOfFieldVariability: 300, // Default - analytics doesn't track this yet
+          strengthOfFieldVariability: analyticsStats.strengthOfFieldVariability ?? 300, // Only known from collected public results
           attritionRate: (analyticsStats.attritionRate ?? 0.15) * 100, // Convert to percentage
-          avgRaceLength: 60, // Default - analytics doesn't track this yet
+          avgRaceLength: analyticsStats.avgRaceLength ?? 60,
           dataQuality
         };
       }
@@ -522,6 +588,116 @@ export class AnalyticsIntegration {
     batchProcessor.clearAllCaches();
   }
 
+  /**
+   * Get the tracks and cars the user owns, or null if ownership has not been synced.
+   * Ownership only flags races, so failures fall back to unknown ownership.
+   */
+  private async getOwnedContent(userId: string): Promise<OwnedContent | null> {
+    try {
+      const [row] = await db
+        .select()
+        .from(ownedContent)
+        .where(eq(ownedContent.userId, userId));
+
+      if (!row || !Array.isArray(row.trackIds) || !Array.isArray(row.carIds)) {
+        return null;
+      }
+      return { trackIds: row.trackIds as number[], carIds: row.carIds as number[] };
+    } catch (error) {
+      console.warn('Failed to load owned content, purchases will not be flagged:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get incident rates per set of race conditions.
+   * The conditions factor is neutral without them, so failures fall back to none.
+   */
+  private async getConditionsHistory(userId: string): Promise<ConditionsIncidentStats[]> {
+    try {
+      return (await getConditionsIncidentStats(userId)) || [];
+    } catch (error) {
+      console.warn('Failed to load incidents by conditions, conditions factor will be neutral:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get where the user's incidents happen relative to the field's, from race event logs.
+   * Scoring only adjusts for chaotic starts with them, so failures fall back to none.
+   */
+  private async getStartIncidents(userId: string): Promise<StartIncidentStats | null> {
+    try {
+      const timeline = await getIncidentTimeline(userId, { periodMonths: 12 });
+      const { raceCount, startShare, fieldStartShare, fieldStartIncidentsPerDriver, series } = timeline;
+      return raceCount > 0
+        ? {
+          raceCount,
+          startShare,
+          fieldStartShare,
+          fieldStartIncidentsPerDriver,
+          series: series.map(({ seriesId, raceCount, fieldStartIncidentsPerDriver }) => ({
+            seriesId,
+            raceCount,
+            fieldStartIncidentsPerDriver,
+          })),
+        }
+        : null;
+    } catch (error) {
+      console.warn('Failed to load incident timeline, starts will not adjust expected incidents:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get how the user qualifies and how their grid slot plays out.
+   * It only adds reasoning, so failures fall back to none.
+   */
+  private async getQualifying(userId: string): Promise<QualifyingStats | null> {
+    try {
+      return buildQualifyingStats((await getQualifyingRaces(userId)) || []);
+    } catch (error) {
+      console.warn('Failed to load qualifying races, qualifying advice will be left out:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Aggregate the user's races with recency weighting.
+   * Falls back to null (plain averages) when the races cannot be loaded.
+   */
+  private async getWeightedHistory(userId: string): Promise<WeightedHistory | null> {
+    try {
+      const races = (await getRaceOutcomes(userId)) || [];
+      return races.length > 0 ? aggregateWeightedHistory(races) : null;
+    } catch (error) {
+      console.warn('Failed to load race outcomes, history will not be weighted by recency:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get per-car race counts keyed by `${seriesId}-${trackId}`.
+   * Car experience is optional for scoring, so failures fall back to no car data.
+   */
+  private async getCarExperienceByKey(userId: string): Promise<Map<string, CarExperience[]>> {
+    const byKey = new Map<string, CarExperience[]>();
+
+    try {
+      const rows = (await getCarExperience(userId)) || [];
+      for (const row of rows) {
+        const key = `${row.seriesId}-${row.trackId}`;
+        const experience = byKey.get(key) || [];
+        experience.push({ carId: row.carId, carClassId: row.carClassId, raceCount: row.raceCount });
+        byKey.set(key, experience);
+      }
+    } catch (error) {
+      console.warn('Failed to load car experience, familiarity will ignore cars:', error);
+    }
+
+    return byKey;
+  }
+
   /**
    * Get category distribution for primary category detection
    * Performance Optimization: Added caching (Requirements: 8.1)
@@ -587,6 +763,7 @@ export class AnalyticsIntegration {
         totalRaces: 0,
         avgIncidentsPerRace: 0,
         avgPositionDelta: 0,
+        avgClassPositionDelta: 0,
         overallConsistency: 0
       };
     }
@@ -595,12 +772,14 @@ export class AnalyticsIntegration {
     let totalRaces = 0;
     let totalIncidents = 0;
     let totalPositionDelta = 0;
+    let totalClassPositionDelta = 0;
     let totalConsistency = 0;
 
     analyticsData.forEach(metric => {
       totalRaces += metric.raceCount;
       totalIncidents += metric.avgIncidents * metric.raceCount;
       totalPositionDelta += metric.positionDelta * metric.raceCount;
+      totalClassPositionDelta += (metric.classPositionDelta ?? metric.positionDelta) * metric.raceCount;
       
       // Handle NaN consistency values
       const consistencyValue = Number.isFinite(metric.consistency) ? metric.consistency : 0;
@@ -611,6 +790,7 @@ export class AnalyticsIntegration {
       totalRaces,
       avgIncidentsPerRace: totalRaces > 0 ? totalIncidents / totalRaces : 0,
       avgPositionDelta: totalRaces > 0 ? totalPositionDelta / totalRaces : 0,
+      avgClassPositionDelta: totalRaces > 0 ? totalClassPositionDelta / totalRaces : 0,
       overallConsistency: totalRaces > 0 ? totalConsistency / totalRaces : 0
     };
   }
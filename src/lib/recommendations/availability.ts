@@ -0,0 +1,149 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { userAvailability } from '../db/schema';
+import { AvailabilityWindow, UserAvailability } from './types';
+
+/**
+ * Personal availability for session recommendations
+ * Weekly windows in the user's own timezone, matched against session start instants
+ */
+
+const MAX_WINDOWS = 28;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Check that a timezone is a zone Intl knows, e.g. 'Europe/Berlin'
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Weekday and minute of day of an instant in a timezone
+ */
+export function getLocalTime(instant: Date, timezone: string): { dayOfWeek: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+  };
+}
+
+/**
+ * Calendar date ('YYYY-MM-DD') of an instant in a timezone
+ */
+export function getLocalDate(instant: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
+
+/**
+ * Whether a session starting at `instant` falls inside one of the windows.
+ * A window whose end is before its start runs into the next day.
+ */
+export function isWithinAvailability(instant: Date, availability: UserAvailability): boolean {
+  const local = getLocalTime(instant, availability.timezone);
+
+  return availability.windows.some(window => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+
+    if (start < end) {
+      return local.dayOfWeek === window.dayOfWeek && local.minutes >= start && local.minutes < end;
+    }
+
+    return (local.dayOfWeek === window.dayOfWeek && local.minutes >= start) ||
+      (local.dayOfWeek === (window.dayOfWeek + 1) % 7 && local.minutes < end);
+  });
+}
+
+/**
+ * Validate availability submitted by a client
+ */
+export function validateAvailability(input: unknown): { availability?: UserAvailability; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Availability must be an object with timezone and windows.' };
+  }
+
+  const { timezone, windows } = input as { timezone?: unknown; windows?: unknown };
+
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    return { error: `Invalid timezone: ${String(timezone)}. Use an IANA zone such as 'Europe/London'.` };
+  }
+
+  if (!Array.isArray(windows) || windows.length > MAX_WINDOWS) {
+    return { error: `windows must be an array of at most ${MAX_WINDOWS} entries.` };
+  }
+
+  const validated: AvailabilityWindow[] = [];
+  for (const window of windows) {
+    const { dayOfWeek, start, end } = (window ?? {}) as Partial<AvailabilityWindow>;
+    if (!Number.isInteger(dayOfWeek) || dayOfWeek! < 0 || dayOfWeek! > 6) {
+      return { error: 'Each window needs a dayOfWeek from 0 (Sunday) to 6 (Saturday).' };
+    }
+    if (typeof start !== 'string' || typeof end !== 'string' || !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+      return { error: "Each window needs start and end times as 'HH:MM'." };
+    }
+    if (start === end) {
+      return { error: 'A window cannot start and end at the same time.' };
+    }
+    validated.push({ dayOfWeek: dayOfWeek!, start, end });
+  }
+
+  return { availability: { timezone, windows: validated } };
+}
+
+/**
+ * Get a user's stored availability, or null when they have not set any
+ */
+export async function getUserAvailability(userId: string): Promise<UserAvailability | null> {
+  const rows = await db
+    .select({ timezone: userAvailability.timezone, windows: userAvailability.windows })
+    .from(userAvailability)
+    .where(eq(userAvailability.userId, userId))
+    .limit(1);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return {
+    timezone: rows[0].timezone,
+    windows: (rows[0].windows as AvailabilityWindow[] | null) || [],
+  };
+}
+
+/**
+ * Store a user's availability, replacing any previous windows
+ */
+export async function saveUserAvailability(userId: string, availability: UserAvailability): Promise<void> {
+  await db.insert(userAvailability)
+    .values({ userId, timezone: availability.timezone, windows: availability.windows, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: userAvailability.userId,
+      set: { timezone: availability.timezone, windows: availability.windows, updatedAt: new Date() },
+    });
+}
@@ -0,0 +1,307 @@
+import { and, asc, eq, gt, isNotNull } from 'drizzle-orm';
+import { db } from '../db';
+import { licenseClasses, raceResults, scheduleEntries } from '../db/schema';
+import {
+  BacktestModeReport,
+  BacktestReport,
+  BacktestSample,
+  Category,
+  GlobalStats,
+  LicenseClass,
+  ModeSelection,
+  RacingOpportunity,
+  UserHistory
+} from './types';
+import { LicenseLevel } from '../types/license';
+import { RecommendationModeHelper } from '../types/recommendation';
+import { SessionType } from '../types/session';
+import { scoringAlgorithm } from './scoring';
+import { toModeKey } from './mode-settings';
+import { rankCorrelation } from './outcomes';
+import { analyticsIntegration } from './analytics-integration';
+import { batchProcessor } from './batch-processor';
+import { aggregateWeightedHistory, type RaceOutcome } from './history-weighting';
+
+/**
+ * Backtesting the scoring algorithm against a user's own race history
+ * Each historical week is scored with only the races before it, then the scores are
+ * rank-correlated with how those races actually went
+ */
+
+// One of the user's races, with the schedule details of its week where synced
+export interface BacktestRace extends RaceOutcome {
+  seriesName: string;
+  trackName: string;
+  category: Category | null;
+  licenseRequired: LicenseLevel | null;
+  hasOpenSetup: boolean | null;
+  seasonYear: number;
+  seasonQuarter: number;
+  raceWeekNum: number;
+  strengthOfField: number | null;
+  fieldSize: number | null;
+  raceLength: number | null;
+}
+
+export interface BacktestOptions {
+  modes?: ModeSelection[];
+  defaultCategory?: Category; // For races whose week has no schedule entry
+  globalStats?: Map<string, GlobalStats>; // Keyed by seriesId:trackId
+  minPriorRaces?: number; // Skip weeks scored with less history than this
+  halfLifeDays?: number; // Recency half-life for history; defaults to the live setting
+}
+
+// Same fallback as racing opportunities without global statistics
+const DEFAULT_GLOBAL_STATS: GlobalStats = {
+  avgIncidentsPerRace: 2.5,
+  avgFinishPositionStdDev: 8.0,
+  avgStrengthOfField: 1500,
+  strengthOfFieldVariability: 300,
+  attritionRate: 15,
+  avgRaceLength: 60
+};
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function addToGroup<K>(groups: Map<K, BacktestRace[]>, key: K, race: BacktestRace): void {
+  const group = groups.get(key);
+  if (group) {
+    group.push(race);
+  } else {
+    groups.set(key, [race]);
+  }
+}
+
+function classDelta(race: BacktestRace): number {
+  return race.classPositionDelta ?? race.positionDelta;
+}
+
+/**
+ * User history as the recommendation engine would have seen it after these races,
+ * aged relative to asOf
+ */
+export function buildHistoryFromRaces(
+  userId: string,
+  races: BacktestRace[],
+  licenses: LicenseClass[],
+  asOf: Date = new Date(),
+  halfLifeDays?: number
+): UserHistory {
+  const { seriesTrackHistory, overallStats } = aggregateWeightedHistory(races, { asOf, halfLifeDays });
+
+  return {
+    userId,
+    seriesTrackHistory,
+    overallStats: {
+      ...overallStats,
+      overallConsistency: overallStats.overallConsistency || 1
+    },
+    licenseClasses: licenses
+  };
+}
+
+/**
+ * Opportunity for a series/track as it ran in a past week, with the user's own races
+ * standing in for the time slots
+ */
+function buildOpportunity(races: BacktestRace[], options: BacktestOptions): RacingOpportunity {
+  const first = races[0];
+  const globalStats = options.globalStats?.get(`${first.seriesId}:${first.trackId}`) ?? DEFAULT_GLOBAL_STATS;
+  const raceLengths = races.map(race => race.raceLength).filter((length): length is number => length != null);
+
+  return {
+    seriesId: first.seriesId,
+    seriesName: first.seriesName,
+    trackId: first.trackId,
+    trackName: first.trackName,
+    licenseRequired: first.licenseRequired ?? LicenseLevel.ROOKIE,
+    category: first.category ?? options.defaultCategory ?? Category.SPORTS_CAR,
+    seasonYear: first.seasonYear,
+    seasonQuarter: first.seasonQuarter,
+    raceWeekNum: first.raceWeekNum,
+    raceLength: raceLengths.length > 0 ? Math.round(average(raceLengths)) : globalStats.avgRaceLength,
+    hasOpenSetup: first.hasOpenSetup ?? false,
+    timeSlots: races.map(race => ({
+      hour: race.raceDate.getUTCHours(),
+      dayOfWeek: race.raceDate.getUTCDay(),
+      strengthOfField: race.strengthOfField && race.strengthOfField > 0 ? race.strengthOfField : globalStats.avgStrengthOfField,
+      participantCount: race.fieldSize ?? 0
+    })),
+    globalStats
+  };
+}
+
+/**
+ * Replay a user's race weeks through the scoring algorithm. Races must be sorted by
+ * date; each week is scored with the races before its first race.
+ */
+export function backtestRaces(
+  userId: string,
+  races: BacktestRace[],
+  licenses: LicenseClass[],
+  options: BacktestOptions = {}
+): BacktestReport {
+  const { modes = RecommendationModeHelper.getAllModes(), minPriorRaces = 1 } = options;
+
+  // Group by week, then by series/track within the week, keeping chronological order
+  const weeks = new Map<string, { firstIndex: number; combos: Map<string, BacktestRace[]> }>();
+  races.forEach((race, index) => {
+    const weekKey = `${race.seasonYear}:${race.seasonQuarter}:${race.raceWeekNum}`;
+    const week = weeks.get(weekKey) ?? { firstIndex: index, combos: new Map<string, BacktestRace[]>() };
+    addToGroup(week.combos, `${race.seriesId}:${race.trackId}`, race);
+    weeks.set(weekKey, week);
+  });
+
+  const samples: BacktestSample[] = [];
+  const factorsByMode = modes.map(() => [] as Array<{ overall: number; performance: number; safety: number }>);
+  let weeksScored = 0;
+
+  for (const week of weeks.values()) {
+    if (week.firstIndex < minPriorRaces) {
+      continue;
+    }
+    weeksScored++;
+    const history = buildHistoryFromRaces(
+      userId,
+      races.slice(0, week.firstIndex),
+      licenses,
+      races[week.firstIndex].raceDate,
+      options.halfLifeDays
+    );
+
+    for (const comboRaces of week.combos.values()) {
+      const opportunity = buildOpportunity(comboRaces, options);
+
+      samples.push({
+        seasonYear: opportunity.seasonYear,
+        seasonQuarter: opportunity.seasonQuarter,
+        raceWeekNum: opportunity.raceWeekNum,
+        seriesId: opportunity.seriesId,
+        seriesName: opportunity.seriesName,
+        trackId: opportunity.trackId,
+        trackName: opportunity.trackName,
+        races: comboRaces.length,
+        avgPositionDelta: average(comboRaces.map(classDelta)),
+        avgIncidents: average(comboRaces.map(race => race.incidents)),
+        priorRaces: week.firstIndex
+      });
+
+      modes.forEach((mode, modeIndex) => {
+        const score = scoringAlgorithm.calculateScore(opportunity, history, mode);
+        factorsByMode[modeIndex].push({
+          overall: score.overall,
+          performance: score.factors.performance,
+          safety: score.factors.safety
+        });
+      });
+    }
+  }
+
+  const deltas = samples.map(sample => sample.avgPositionDelta);
+  // Negated so a positive correlation means higher scores went with cleaner races
+  const cleanliness = samples.map(sample => -sample.avgIncidents);
+
+  const modeReports: BacktestModeReport[] = modes.map((mode, modeIndex) => {
+    const scores = factorsByMode[modeIndex];
+    return {
+      mode: toModeKey(mode),
+      scores: scores.map(score => score.overall),
+      scoreVsPositionDelta: rankCorrelation(scores.map(score => score.overall), deltas),
+      scoreVsIncidents: rankCorrelation(scores.map(score => score.overall), cleanliness),
+      performanceVsPositionDelta: rankCorrelation(scores.map(score => score.performance), deltas),
+      safetyVsIncidents: rankCorrelation(scores.map(score => score.safety), cleanliness)
+    };
+  });
+
+  return {
+    userId,
+    weeks: weeksScored,
+    samples,
+    modes: modeReports
+  };
+}
+
+/**
+ * Backtest a user's stored race history. Licenses are the user's current ones and
+ * global statistics are today's, since neither is kept per week.
+ */
+export async function runBacktest(
+  userId: string,
+  options: Pick<BacktestOptions, 'modes' | 'minPriorRaces'> = {}
+): Promise<BacktestReport> {
+  const rows = await db
+    .select({
+      seriesId: raceResults.seriesId,
+      seriesName: raceResults.seriesName,
+      trackId: raceResults.trackId,
+      trackName: raceResults.trackName,
+      category: scheduleEntries.category,
+      licenseRequired: scheduleEntries.licenseRequired,
+      hasOpenSetup: scheduleEntries.hasOpenSetup,
+      raceDate: raceResults.raceDate,
+      seasonYear: raceResults.seasonYear,
+      seasonQuarter: raceResults.seasonQuarter,
+      raceWeekNum: raceResults.raceWeekNum,
+      startingPosition: raceResults.startingPosition,
+      finishingPosition: raceResults.finishingPosition,
+      positionDelta: raceResults.positionDelta,
+      classPositionDelta: raceResults.classPositionDelta,
+      incidents: raceResults.incidents,
+      strengthOfField: raceResults.strengthOfField,
+      fieldSize: raceResults.fieldSize,
+      raceLength: raceResults.raceLength
+    })
+    .from(raceResults)
+    .leftJoin(scheduleEntries, and(
+      eq(scheduleEntries.seriesId, raceResults.seriesId),
+      eq(scheduleEntries.trackId, raceResults.trackId),
+      eq(scheduleEntries.seasonYear, raceResults.seasonYear),
+      eq(scheduleEntries.seasonQuarter, raceResults.seasonQuarter),
+      eq(scheduleEntries.raceWeekNum, raceResults.raceWeekNum)
+    ))
+    .where(and(
+      eq(raceResults.userId, userId),
+      eq(raceResults.sessionType, SessionType.RACE),
+      isNotNull(raceResults.raceWeekNum),
+      gt(raceResults.startingPosition, 0),
+      gt(raceResults.finishingPosition, 0)
+    ))
+    .orderBy(asc(raceResults.raceDate));
+
+  const races: BacktestRace[] = rows.map(row => ({
+    ...row,
+    category: row.category as Category | null,
+    licenseRequired: row.licenseRequired as LicenseLevel | null,
+    raceWeekNum: row.raceWeekNum!,
+    startingPosition: row.startingPosition!,
+    finishingPosition: row.finishingPosition!,
+    positionDelta: row.positionDelta ?? row.startingPosition! - row.finishingPosition!
+  }));
+
+  const licenseRows = await db
+    .select()
+    .from(licenseClasses)
+    .where(eq(licenseClasses.userId, userId));
+  const licenses: LicenseClass[] = licenseRows.map(license => ({
+    category: license.category as Category,
+    level: license.level as LicenseLevel,
+    safetyRating: parseFloat(license.safetyRating),
+    iRating: license.irating
+  }));
+
+  const combos = [...new Map(races.map(race => [`${race.seriesId}:${race.trackId}`, race])).values()];
+  const batchGlobalStats = await batchProcessor.getBatchGlobalStats(
+    combos.map(race => ({ seriesId: race.seriesId, trackId: race.trackId }))
+  );
+  const globalStats = new Map<string, GlobalStats>(
+    batchGlobalStats.map(result => [`${result.seriesId}:${result.trackId}`, result.stats])
+  );
+
+  return backtestRaces(userId, races, licenses, {
+    ...options,
+    defaultCategory: await analyticsIntegration.getPrimaryCategory(userId),
+    globalStats
+  });
+}
@@ -90,9 +90,9 @@ export class BatchProcessor {
               avgIncidentsPerRace: parseFloat(analyticsStats.avgIncidents?.toString() ?? '2.5'),
               avgFinishPositionStdDev: analyticsStats.consistencyMetric ?? 8.0,
               avgStrengthOfField: parseFloat(analyticsStats.avgStrengthOfField?.toString() ?? '1500'),
-              strengthOfFieldVariability: 300, // Default - analytics doesn't track this yet
+              strengthOfFieldVariability: analyticsStats.strengthOfFieldVariability ?? 300, // Only known from collected public results
               attritionRate: (analyticsStats.attritionRate ?? 0.15) * 100, // Convert to percentage
-              avgRaceLength: 60, // Default - analytics doesn't track this yet
+              avgRaceLength: analyticsStats.avgRaceLength ?? 60,
               dataQuality
             };
           }
@@ -155,8 +155,12 @@ export class CacheKeys {
     return `category_dist:${userId}`;
   }
 
-  static racingOpportunities(): string {
-    return 'racing_opportunities';
+  static racingOpportunities(seasonYear: number, seasonQuarter: number, raceWeekNum: number): string {
+    return `racing_opportunities:${seasonYear}:${seasonQuarter}:${raceWeekNum}`;
+  }
+
+  static seasonOpportunities(seasonYear: number, seasonQuarter: number, fromWeek: number): string {
+    return `season_opportunities:${seasonYear}:${seasonQuarter}:${fromWeek}`;
   }
 
   static batchGlobalStats(combinations: Array<{seriesId: number, trackId: number}>): string {
@@ -180,6 +184,7 @@ export const CacheTTL = {
   GLOBAL_STATS: 10 * 60 * 1000,         // 10 minutes - global stats are more stable
   PRIMARY_CATEGORY: 30 * 60 * 1000,     // 30 minutes - category rarely changes
   RACING_OPPORTUNITIES: 60 * 1000,      // 1 minute - next race times need frequent updates
+  SEASON_OPPORTUNITIES: 10 * 60 * 1000, // 10 minutes - later weeks only change with the schedule
   USER_LICENSES: 60 * 60 * 1000,        // 1 hour - licenses change infrequently
   BATCH_OPERATIONS: 10 * 60 * 1000       // 10 minutes - batch results are stable
 } as const;
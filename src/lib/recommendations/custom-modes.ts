@@ -0,0 +1,79 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { customModes } from '../db/schema';
+import { CustomMode, ModeSortKey, ModeWeights } from './types';
+import { CustomModeInput } from './mode-settings';
+
+/**
+ * Stored custom recommendation modes
+ * Each user can keep a handful of named weightings, selected with mode=custom:<id>
+ */
+
+type CustomModeRow = typeof customModes.$inferSelect;
+
+function toCustomMode(row: CustomModeRow): CustomMode {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    weights: row.weights as ModeWeights,
+    primarySort: row.primarySort as ModeSortKey,
+  };
+}
+
+/**
+ * Get a user's custom modes, oldest first
+ */
+export async function getCustomModes(userId: string): Promise<CustomMode[]> {
+  const rows = await db
+    .select()
+    .from(customModes)
+    .where(eq(customModes.userId, userId))
+    .orderBy(asc(customModes.createdAt));
+
+  return rows.map(toCustomMode);
+}
+
+/**
+ * Get one of a user's custom modes, or null when it does not exist or belongs to someone else
+ */
+export async function getCustomMode(userId: string, id: string): Promise<CustomMode | null> {
+  const rows = await db
+    .select()
+    .from(customModes)
+    .where(and(eq(customModes.id, id), eq(customModes.userId, userId)))
+    .limit(1);
+
+  return rows.length > 0 ? toCustomMode(rows[0]) : null;
+}
+
+export async function createCustomMode(userId: string, mode: CustomModeInput): Promise<CustomMode> {
+  const [row] = await db.insert(customModes)
+    .values({ userId, ...mode })
+    .returning();
+
+  return toCustomMode(row);
+}
+
+/**
+ * Replace a custom mode's settings, returning null when the user has no such mode
+ */
+export async function updateCustomMode(userId: string, id: string, mode: CustomModeInput): Promise<CustomMode | null> {
+  const rows = await db.update(customModes)
+    .set({ ...mode, updatedAt: new Date() })
+    .where(and(eq(customModes.id, id), eq(customModes.userId, userId)))
+    .returning();
+
+  return rows.length > 0 ? toCustomMode(rows[0]) : null;
+}
+
+/**
+ * Delete a custom mode, returning whether it existed
+ */
+export async function deleteCustomMode(userId: string, id: string): Promise<boolean> {
+  const rows = await db.delete(customModes)
+    .where(and(eq(customModes.id, id), eq(customModes.userId, userId)))
+    .returning({ id: customModes.id });
+
+  return rows.length > 0;
+}
@@ -1,4 +1,4 @@
-import { and, sql } from 'drizzle-orm';
+import { and, eq, gte } from 'drizzle-orm';
 import { db } from '../db';
 import { scheduleEntries } from '../db/schema';
 import { 
@@ -8,6 +8,8 @@ import {
   RacingOpportunity,
   GlobalStats,
   TimeSlot,
+  TimeSlotStats,
+  TrackProfile,
   Category,
   LicenseLevel
 } from './types';
@@ -15,6 +17,13 @@ import { analyticsIntegration } from './analytics-integration';
 import { recommendationCache, CacheKeys, CacheTTL } from './cache';
 import { batchProcessor } from './batch-processor';
 import { calculateNextRaceTime, generateTimeSlots, type RaceTimeDescriptor } from '../iracing/race-time-calculator';
+import { getNextSeason, getWeekDates, resolveSeasonAt } from '../iracing/season-calendar';
+import { getCarIdsByClass, getCarNames } from '../iracing/cars';
+import { getTrackProfiles } from '../iracing/tracks';
+import { getTimeSlotStats } from '../db/analytics';
+import { forecastTimeSlots } from './time-slot-forecast';
+
+type ScheduleEntry = typeof scheduleEntries.$inferSelect;
 
 /**
  * Prepare user history data for scoring algorithm
@@ -38,26 +47,44 @@ export async function prepareUserHistory(userId: string): Promise<UserHistory> {
     seriesId: perf.seriesId,
     trackId: perf.trackId,
     raceCount: perf.raceCount,
-    avgStartingPosition: 0, // Not used in scoring, set to default
-    avgFinishingPosition: 0, // Not used in scoring, set to default
+    effectiveRaceCount: perf.effectiveRaceCount,
+    avgStartingPosition: perf.avgStartingPosition ?? 0, // Known when history is recency-weighted
+    avgFinishingPosition: perf.avgFinishingPosition ?? 0,
     avgPositionDelta: perf.avgPositionDelta,
+    avgClassPositionDelta: perf.avgClassPositionDelta,
     avgIncidents: perf.avgIncidents,
     finishPositionStdDev: perf.consistency,
-    lastRaceDate: new Date() // Not critical for scoring, set to current date
+    lastRaceDate: perf.lastRaceDate ?? new Date(), // Treated as recent when the races could not be loaded
+    avgPacePercentile: perf.avgPacePercentile ?? null,
+    paceRaceCount: perf.paceRaceCount ?? 0,
+    carExperience: perf.carExperience
   }));
 
+  // Track metadata lets scoring relate these tracks to the ones on the schedule
+  const trackProfiles = await loadTrackProfiles(seriesTrackHistory.map(history => history.trackId));
+  for (const history of seriesTrackHistory) {
+    history.trackProfile = trackProfiles.get(history.trackId) ?? null;
+  }
+
   const overallStats: UserOverallStats = {
     totalRaces: performanceData.overallStats?.totalRaces || 0,
     avgIncidentsPerRace: performanceData.overallStats?.avgIncidentsPerRace || 0,
     avgPositionDelta: performanceData.overallStats?.avgPositionDelta || 0,
-    overallConsistency: performanceData.overallStats?.overallConsistency || 1
+    avgClassPositionDelta: performanceData.overallStats?.avgClassPositionDelta ?? performanceData.overallStats?.avgPositionDelta ?? 0,
+    overallConsistency: performanceData.overallStats?.overallConsistency || 1,
+    avgPacePercentile: performanceData.overallStats?.avgPacePercentile ?? null,
+    paceRaceCount: performanceData.overallStats?.paceRaceCount ?? 0
   };
 
   const result: UserHistory = {
     userId,
     seriesTrackHistory,
     overallStats,
-    licenseClasses: performanceData.licenseClasses || []
+    licenseClasses: performanceData.licenseClasses || [],
+    ownedContent: performanceData.ownedContent ?? null,
+    conditionsHistory: performanceData.conditionsHistory || [],
+    startIncidents: performanceData.startIncidents ?? null,
+    qualifying: performanceData.qualifying ?? null
   };
 
   console.log(`Debug: Final UserHistory for ${userId}:`, {
@@ -80,22 +107,27 @@ export async function prepareUserHistory(userId: string): Promise<UserHistory> {
  * IMPORTANT: Filters out races that have already started based on race_time_descriptors
  */
 export async function getCurrentRacingOpportunities(): Promise<RacingOpportunity[]> {
+  // Season and race week from the season calendar; keying the cache by them means a
+  // rollover in any process (e.g. the standalone worker) never serves last week's races
+  const currentDate = new Date();
+  const currentWeek = await resolveSeasonAt(currentDate);
+
   // Check cache first
-  const cacheKey = CacheKeys.racingOpportunities();
+  const cacheKey = CacheKeys.racingOpportunities(currentWeek.seasonYear, currentWeek.seasonQuarter, currentWeek.raceWeekNum);
   const cached = recommendationCache.get<RacingOpportunity[]>(cacheKey);
   if (cached) {
     return cached;
   }
 
   // Get current week's schedule entries
-  const currentDate = new Date();
   const scheduleResults = await db
     .select()
     .from(scheduleEntries)
     .where(
       and(
-        sql`${scheduleEntries.weekStart} <= ${currentDate}`,
-        sql`${scheduleEntries.weekEnd} >= ${currentDate}`
+        eq(scheduleEntries.seasonYear, currentWeek.seasonYear),
+        eq(scheduleEntries.seasonQuarter, currentWeek.seasonQuarter),
+        eq(scheduleEntries.raceWeekNum, currentWeek.raceWeekNum)
       )
     );
 
@@ -130,8 +162,96 @@ export async function getCurrentRacingOpportunities(): Promise<RacingOpportunity
     return emptyResult;
   }
 
+  const opportunities = await buildRacingOpportunities(validScheduleResults, () => currentDate);
+
+  // Cache the result
+  recommendationCache.set(cacheKey, opportunities, CacheTTL.RACING_OPPORTUNITIES);
+
+  return opportunities;
+}
+
+/**
+ * The season still ahead at an instant: the current season from the current race
+ * week, or the next season from its first week during week 13
+ */
+export async function resolveRemainingSeason(instant: Date = new Date()): Promise<{
+  seasonYear: number;
+  seasonQuarter: number;
+  fromWeek: number;
+  inProgress: boolean; // False when the season has not started yet
+}> {
+  const currentWeek = await resolveSeasonAt(instant);
+  if (currentWeek.isWeek13) {
+    const next = getNextSeason({ year: currentWeek.seasonYear, quarter: currentWeek.seasonQuarter });
+    return { seasonYear: next.year, seasonQuarter: next.quarter, fromWeek: 0, inProgress: false };
+  }
+  return {
+    seasonYear: currentWeek.seasonYear,
+    seasonQuarter: currentWeek.seasonQuarter,
+    fromWeek: currentWeek.raceWeekNum,
+    inProgress: true,
+  };
+}
+
+/**
+ * Racing opportunities for every remaining race week of the season (see
+ * resolveRemainingSeason). Later weeks get the time slots of their own week; the
+ * current week keeps only series with a race still to come.
+ */
+export async function getSeasonRacingOpportunities(): Promise<RacingOpportunity[]> {
+  const currentDate = new Date();
+  const season = await resolveRemainingSeason(currentDate);
+
+  const cacheKey = CacheKeys.seasonOpportunities(season.seasonYear, season.seasonQuarter, season.fromWeek);
+  const cached = recommendationCache.get<RacingOpportunity[]>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const scheduleResults = await db
+    .select()
+    .from(scheduleEntries)
+    .where(
+      and(
+        eq(scheduleEntries.seasonYear, season.seasonYear),
+        eq(scheduleEntries.seasonQuarter, season.seasonQuarter),
+        gte(scheduleEntries.raceWeekNum, season.fromWeek)
+      )
+    );
+
+  const isCurrentWeek = (entry: ScheduleEntry) => season.inProgress && entry.raceWeekNum === season.fromWeek;
+  const upcoming = scheduleResults.filter(entry =>
+    !isCurrentWeek(entry) ||
+    !entry.raceTimeDescriptors ||
+    calculateNextRaceTime(entry.raceTimeDescriptors as RaceTimeDescriptor[], currentDate) !== null
+  );
+
+  // Slots are generated from a reference instant; later weeks start from just before their week
+  const opportunities = await buildRacingOpportunities(upcoming, entry =>
+    isCurrentWeek(entry)
+      ? currentDate
+      : new Date(getWeekDates(entry.seasonYear, entry.seasonQuarter, entry.raceWeekNum).start.getTime() - 1)
+  );
+
+  recommendationCache.set(cacheKey, opportunities, CacheTTL.SEASON_OPPORTUNITIES);
+
+  return opportunities;
+}
+
+/**
+ * Build racing opportunities from schedule entries, with global stats, cars, track
+ * metadata and forecast time slots. Time slots start after `referenceTime(entry)`.
+ */
+async function buildRacingOpportunities(
+  scheduleResults: ScheduleEntry[],
+  referenceTime: (entry: ScheduleEntry) => Date
+): Promise<RacingOpportunity[]> {
+  if (scheduleResults.length === 0) {
+    return [];
+  }
+
   // Prepare batch requests for global stats
-  const batchRequests = validScheduleResults.map(entry => ({
+  const batchRequests = scheduleResults.map(entry => ({
     seriesId: entry.seriesId,
     trackId: entry.trackId
   }));
@@ -153,8 +273,18 @@ export async function getCurrentRacingOpportunities(): Promise<RacingOpportunity
     });
   });
   
+  // Resolve each series' car classes to the cars raced in them
+  const carClassIds = scheduleResults.flatMap(entry => (entry.carClassIds as number[] | null) || []);
+  const carIdsByClass = await getCarIdsByClass(carClassIds);
+  const carNamesById = await getCarNames([...carIdsByClass.values()].flat());
+
+  const trackProfiles = await loadTrackProfiles(scheduleResults.map(entry => entry.trackId));
+
+  // SOF and field size history per series, for the time slot forecasts
+  const slotStatsBySeries = await loadSlotStatsBySeries(scheduleResults.map(entry => entry.seriesId));
+
   // Build opportunities with real time slots from race_time_descriptors
-  const opportunities: RacingOpportunity[] = validScheduleResults.map(entry => {
+  return scheduleResults.map((entry): RacingOpportunity => {
     const key = `${entry.seriesId}:${entry.trackId}`;
     const globalStats = globalStatsMap.get(key) || {
       avgIncidentsPerRace: 2.5,
@@ -165,15 +295,21 @@ export async function getCurrentRacingOpportunities(): Promise<RacingOpportunity
       avgRaceLength: 60
     };
     
-    // Generate time slots from race_time_descriptors or use mock data as fallback
+    // Generate time slots from race_time_descriptors or use typical race times as fallback,
+    // with SOF and field size forecast from history
+    const slotStats = slotStatsBySeries.get(entry.seriesId) || [];
     const timeSlots = entry.raceTimeDescriptors
-      ? generateRealTimeSlots(entry.raceTimeDescriptors as RaceTimeDescriptor[], currentDate)
-      : generateMockTimeSlots();
+      ? generateRealTimeSlots(entry.raceTimeDescriptors as RaceTimeDescriptor[], referenceTime(entry), entry, slotStats, globalStats)
+      : generateTypicalTimeSlots(entry, slotStats, globalStats);
     
     // Extract repeat minutes from race_time_descriptors
     const repeatMinutes = entry.raceTimeDescriptors
       ? (entry.raceTimeDescriptors as RaceTimeDescriptor[])[0]?.repeat_minutes || null
       : null;
+
+    const entryCarClassIds = (entry.carClassIds as number[] | null) || [];
+    const trackProfile = trackProfiles.get(entry.trackId) ?? null;
+    const carIds = [...new Set(entryCarClassIds.flatMap(carClassId => carIdsByClass.get(carClassId) || []))];
     
     return {
       seriesId: entry.seriesId,
@@ -186,17 +322,25 @@ export async function getCurrentRacingOpportunities(): Promise<RacingOpportunity
       seasonQuarter: entry.seasonQuarter,
       raceWeekNum: entry.raceWeekNum,
       raceLength: entry.raceLength ?? 60, // Default to 60 minutes
+      raceLapLimit: entry.raceLapLimit ?? null,
+      cornersPerLap: entry.cornersPerLap ?? trackProfile?.cornersPerLap ?? null,
+      trackProfile,
       hasOpenSetup: entry.hasOpenSetup ?? false,
       timeSlots,
       globalStats,
-      repeatMinutes
+      repeatMinutes,
+      carClassIds: entryCarClassIds,
+      carIds,
+      carNames: Object.fromEntries(carIds.filter(carId => carNamesById.has(carId)).map(carId => [carId, carNamesById.get(carId)!])),
+      conditions: entry.dynamicWeather == null ? null : {
+        dynamicWeather: entry.dynamicWeather,
+        rain: entry.rain ?? false,
+        temperatureC: entry.temperatureC ?? null,
+        timeOfDay: entry.timeOfDay ?? null
+      },
+      raceTimeDescriptors: (entry.raceTimeDescriptors as RaceTimeDescriptor[] | null) ?? null
     };
   });
-
-  // Cache the result
-  recommendationCache.set(cacheKey, opportunities, CacheTTL.RACING_OPPORTUNITIES);
-
-  return opportunities;
 }
 
 /**
@@ -204,8 +348,11 @@ export async function getCurrentRacingOpportunities(): Promise<RacingOpportunity
  * Performance Optimization: Updated to use new cache system (Requirements: 8.1)
  */
 export function clearOpportunitiesCache(): void {
-  const cacheKey = CacheKeys.racingOpportunities();
-  recommendationCache.delete(cacheKey);
+  for (const key of recommendationCache.getKeys()) {
+    if (key.startsWith('racing_opportunities:')) {
+      recommendationCache.delete(key);
+    }
+  }
 }
 
 /**
@@ -227,34 +374,87 @@ export function getCachePerformanceMetrics() {
   return analyticsIntegration.getCacheMetrics();
 }
 
+/**
+ * Forecast every session of the given opportunities starting between `from` and
+ * `until` (at most a week ahead), keeping those `include` accepts.
+ * Opportunities without race_time_descriptors have no concrete sessions.
+ */
+export async function getUpcomingSessions(
+  opportunities: RacingOpportunity[],
+  from: Date,
+  until: Date,
+  include: (startsAt: Date) => boolean = () => true
+): Promise<Array<{ opportunity: RacingOpportunity; sessions: TimeSlot[] }>> {
+  const scheduled = opportunities.filter(opportunity => opportunity.raceTimeDescriptors?.length);
+  const slotStatsBySeries = await loadSlotStatsBySeries(scheduled.map(opportunity => opportunity.seriesId));
+
+  return scheduled
+    .map(opportunity => {
+      const starts = generateTimeSlots(opportunity.raceTimeDescriptors, from)
+        .filter(slot => slot.time <= until && include(slot.time));
+
+      return {
+        opportunity,
+        sessions: forecastTimeSlots(
+          starts,
+          opportunity.seriesId,
+          opportunity.trackId,
+          slotStatsBySeries.get(opportunity.seriesId) || [],
+          opportunity.globalStats
+        )
+      };
+    })
+    .filter(({ sessions }) => sessions.length > 0);
+}
+
+/**
+ * Load track metadata for a set of tracks.
+ * The track lookup is optional for scoring, so failures fall back to no metadata.
+ */
+async function loadTrackProfiles(trackIds: number[]): Promise<Map<number, TrackProfile>> {
+  try {
+    return await getTrackProfiles(trackIds);
+  } catch (error) {
+    console.warn('Failed to load track metadata, tracks will not be related:', error);
+    return new Map();
+  }
+}
+
+/**
+ * Load the time slot aggregates for a set of series, grouped by series
+ */
+async function loadSlotStatsBySeries(seriesIds: number[]): Promise<Map<number, TimeSlotStats[]>> {
+  const slotStatsBySeries = new Map<number, TimeSlotStats[]>();
+  for (const row of await getTimeSlotStats(seriesIds)) {
+    slotStatsBySeries.set(row.seriesId, [...(slotStatsBySeries.get(row.seriesId) || []), row]);
+  }
+  return slotStatsBySeries;
+}
+
 /**
  * Generate real time slots from race_time_descriptors
- * Converts the iRacing API data into TimeSlot format
+ * Converts the iRacing API data into TimeSlot format with forecast SOF and field size
  */
 function generateRealTimeSlots(
   raceTimeDescriptors: RaceTimeDescriptor[],
-  currentTime: Date
+  currentTime: Date,
+  entry: { seriesId: number; trackId: number },
+  slotStats: TimeSlotStats[],
+  globalStats: GlobalStats
 ): TimeSlot[] {
   const timeSlotData = generateTimeSlots(raceTimeDescriptors, currentTime);
-  
-  // Convert to TimeSlot format with mock SOF and participant data
-  // In a real implementation, this would come from actual session data
-  return timeSlotData.slice(0, 10).map(slot => ({
-    hour: slot.hour,
-    dayOfWeek: slot.dayOfWeek,
-    strengthOfField: 1400 + Math.random() * 400, // Mock SOF
-    participantCount: 15 + Math.floor(Math.random() * 20) // Mock participant count
-  }));
+
+  return forecastTimeSlots(timeSlotData.slice(0, 10), entry.seriesId, entry.trackId, slotStats, globalStats);
 }
 
 /**
- * Generate mock time slots for demonstration
- * In a real implementation, this would come from iRacing's API
+ * Generate typical race times for series without race_time_descriptors
  */
-function generateMockTimeSlots(): TimeSlot[] {
-  const timeSlots: TimeSlot[] = [];
-  
-  // Generate some typical race times
+function generateTypicalTimeSlots(
+  entry: { seriesId: number; trackId: number },
+  slotStats: TimeSlotStats[],
+  globalStats: GlobalStats
+): TimeSlot[] {
   const raceTimes = [
     { hour: 14, dayOfWeek: 6 }, // Saturday afternoon
     { hour: 19, dayOfWeek: 6 }, // Saturday evening
@@ -263,14 +463,5 @@ function generateMockTimeSlots(): TimeSlot[] {
     { hour: 21, dayOfWeek: 4 }, // Thursday evening
   ];
 
-  for (const time of raceTimes) {
-    timeSlots.push({
-      hour: time.hour,
-      dayOfWeek: time.dayOfWeek,
-      strengthOfField: 1400 + Math.random() * 400, // Random SOF between 1400-1800
-      participantCount: 15 + Math.floor(Math.random() * 20) // Random 15-35 participants
-    });
-  }
-
-  return timeSlots;
+  return forecastTimeSlots(raceTimes, entry.seriesId, entry.trackId, slotStats, globalStats);
 }
\ No newline at end of file
@@ -2,14 +2,41 @@ import {
   RacingOpportunity,
   UserHistory,
   RecommendationMode,
+  ModeSelection,
+  ModeSortKey,
+  CustomMode,
+  ModePreview,
   ScoredRecommendation,
   RecommendationResponse,
-  ExperienceSummary
+  ExperienceSummary,
+  SessionRecommendation,
+  SessionRecommendationResponse,
+  UserAvailability,
+  WeeklyPlan,
+  WeeklyPlanConstraints,
+  SeasonPlan,
+  PromotionPlan
 } from './types';
 import { RecommendationModeHelper, RecommendationMode as RecommendationModeEnum } from '../types/recommendation';
 import { scoringAlgorithm } from './scoring';
 import { licenseFilter } from './license-filter';
-import { prepareUserHistory, getCurrentRacingOpportunities, prefetchRecommendationData } from './data-preparation';
+import { ownershipFilter } from './ownership-filter';
+import {
+  prepareUserHistory,
+  getCurrentRacingOpportunities,
+  getSeasonRacingOpportunities,
+  resolveRemainingSeason,
+  prefetchRecommendationData,
+  getUpcomingSessions
+} from './data-preparation';
+import { getUserAvailability, isWithinAvailability } from './availability';
+import { toModeKey } from './mode-settings';
+import { buildWeeklyPlan, DEFAULT_WEEKLY_PLAN_CONSTRAINTS } from './weekly-planner';
+import { buildSeasonPlan } from './season-planner';
+import { getPinnedSeriesIds } from './pinned-series';
+import { buildPromotionProjections } from './promotion-planner';
+import { getSafetyRatingChanges, getSeasonRaceWeeks } from '../db/analytics';
+import { getSeasonCalendar, getWeekDates } from '../iracing/season-calendar';
 import { visualScoringRenderer } from './visual-scoring';
 import { categoryAnalyzer } from './category-analyzer';
 import { analyticsIntegration } from './analytics-integration';
@@ -23,7 +50,7 @@ export class RecommendationEngine {
    */
   async generateRecommendations(
     userId: string, 
-    mode: RecommendationMode = RecommendationModeHelper.getDefault()
+    mode: ModeSelection = RecommendationModeHelper.getDefault()
   ): Promise<ScoredRecommendation[]> {
     // Prepare user history data
     const userHistory = await prepareUserHistory(userId);
@@ -47,7 +74,7 @@ export class RecommendationEngine {
     });
 
     // Sort using mode-aware logic (Safety Recovery prioritizes safety, iRating Push prioritizes performance)
-    return this.sortByMode(scoredRecommendations, mode);
+    return ownershipFilter.flagPurchases(this.sortByMode(scoredRecommendations, mode), userHistory);
   }
 
   /**
@@ -58,18 +85,20 @@ export class RecommendationEngine {
   async getFilteredRecommendations(
     userId: string,
     options: {
-      mode?: RecommendationMode;
+      mode?: ModeSelection;
       category?: string;
       minScore?: number;
       maxResults?: number;
       includeAlmostEligible?: boolean;
+      ownedOnly?: boolean; // Hide races that need purchases instead of flagging them
     } = {}
   ): Promise<RecommendationResponse> {
     const {
       mode = RecommendationModeHelper.getDefault(),
       category,
       minScore = 0,
-      maxResults = 20
+      maxResults = 20,
+      ownedOnly = false
     } = options;
 
     const startTime = Date.now();
@@ -93,7 +122,12 @@ export class RecommendationEngine {
     const categoryFiltered = allOpportunities.filter(opp => opp.category === effectiveCategory);
     
     // Filter by license eligibility
-    const eligibleOpportunities = licenseFilter.filterByLicense(categoryFiltered, userHistory);
+    const licenseEligible = licenseFilter.filterByLicense(categoryFiltered, userHistory);
+
+    // Optionally drop races that need purchases (otherwise they are flagged below)
+    const eligibleOpportunities = ownedOnly
+      ? ownershipFilter.filterByOwnership(licenseEligible, userHistory)
+      : licenseEligible;
     
     // Score opportunities and create enhanced recommendations with visual indicators
     const allScoredRecommendations: ScoredRecommendation[] = eligibleOpportunities
@@ -110,7 +144,10 @@ export class RecommendationEngine {
       .filter(scored => scored.score.overall >= minScore);
 
     // Sort using mode-aware logic (Safety Recovery prioritizes safety, iRating Push prioritizes performance)
-    const scoredRecommendations = this.sortByMode(allScoredRecommendations, mode).slice(0, maxResults);
+    const scoredRecommendations = ownershipFilter.flagPurchases(
+      this.sortByMode(allScoredRecommendations, mode).slice(0, maxResults),
+      userHistory
+    );
 
     // Calculate experience summary
     const experienceSummary = this.calculateExperienceSummary(userHistory);
@@ -130,6 +167,187 @@ export class RecommendationEngine {
     };
   }
 
+  /**
+   * Rank concrete upcoming sessions inside the user's availability windows.
+   * Each session is scored on its own time slot and forecast SOF/field size, so two
+   * start times of the same series can rank differently.
+   */
+  async getSessionRecommendations(
+    userId: string,
+    options: {
+      mode?: ModeSelection;
+      category?: string;
+      maxResults?: number;
+      days?: number; // How far ahead to look, at most 7
+      ownedOnly?: boolean;
+      from?: Date;
+      availability?: UserAvailability | null; // Defaults to the stored availability
+    } = {}
+  ): Promise<SessionRecommendationResponse> {
+    const {
+      mode = RecommendationModeHelper.getDefault(),
+      category,
+      maxResults = 20,
+      days = 7,
+      ownedOnly = false,
+      from = new Date()
+    } = options;
+
+    const startTime = Date.now();
+    const until = new Date(from.getTime() + Math.min(days, 7) * 24 * 60 * 60 * 1000);
+
+    const storedAvailability = options.availability !== undefined
+      ? options.availability
+      : await getUserAvailability(userId);
+    // Without any windows every session counts as available
+    const availability = storedAvailability && storedAvailability.windows.length > 0 ? storedAvailability : null;
+
+    const userHistory = await prepareUserHistory(userId);
+    const allOpportunities = await getCurrentRacingOpportunities();
+
+    const categoryFiltered = category
+      ? allOpportunities.filter(opp => opp.category === category)
+      : allOpportunities;
+    const licenseEligible = licenseFilter.filterByLicense(categoryFiltered, userHistory);
+    const eligibleOpportunities = ownedOnly
+      ? ownershipFilter.filterByOwnership(licenseEligible, userHistory)
+      : licenseEligible;
+
+    const upcoming = await getUpcomingSessions(
+      eligibleOpportunities,
+      from,
+      until,
+      availability ? startsAt => isWithinAvailability(startsAt, availability) : undefined
+    );
+
+    const sessions: SessionRecommendation[] = upcoming.flatMap(({ opportunity, sessions: slots }) => {
+      const missingContent = ownershipFilter.getMissingContent(opportunity, userHistory);
+
+      return slots.map(slot => ({
+        seriesId: opportunity.seriesId,
+        seriesName: opportunity.seriesName,
+        trackId: opportunity.trackId,
+        trackName: opportunity.trackName,
+        category: opportunity.category,
+        licenseRequired: opportunity.licenseRequired,
+        startsAt: slot.startsAt!,
+        raceLength: opportunity.raceLength,
+        predictedStrengthOfField: slot.strengthOfField,
+        predictedParticipantCount: slot.participantCount,
+        forecast: slot.forecast,
+        score: scoringAlgorithm.calculateScore({ ...opportunity, timeSlots: [slot] }, userHistory, mode),
+        requiresPurchase: missingContent.length > 0,
+        missingContent
+      }));
+    });
+
+    // Best score first; earlier sessions break ties
+    const ranked = sessions.sort((a, b) =>
+      b.score.overall - a.score.overall || a.startsAt.getTime() - b.startsAt.getTime()
+    );
+
+    return {
+      sessions: ranked.slice(0, maxResults),
+      availability,
+      metadata: {
+        from,
+        until,
+        totalSessions: sessions.length,
+        processingTimeMs: Date.now() - startTime
+      }
+    };
+  }
+
+  /**
+   * Plan the coming week: pick concrete sessions inside the user's availability
+   * that score best for the mode, within the plan constraints. Days are counted
+   * in the availability timezone, or `timezone` when no availability is stored.
+   */
+  async getWeeklyPlan(
+    userId: string,
+    options: {
+      mode?: ModeSelection;
+      constraints?: Partial<WeeklyPlanConstraints>;
+      days?: number;
+      ownedOnly?: boolean;
+      from?: Date;
+      timezone?: string;
+    } = {}
+  ): Promise<WeeklyPlan> {
+    const mode = options.mode ?? RecommendationModeHelper.getDefault();
+    const constraints: WeeklyPlanConstraints = { ...DEFAULT_WEEKLY_PLAN_CONSTRAINTS, ...options.constraints };
+
+    const candidates = await this.getSessionRecommendations(userId, {
+      mode,
+      maxResults: Number.POSITIVE_INFINITY,
+      days: options.days,
+      ownedOnly: options.ownedOnly,
+      from: options.from
+    });
+    const timezone = candidates.availability?.timezone ?? options.timezone ?? 'UTC';
+
+    return {
+      ...buildWeeklyPlan(candidates.sessions, constraints, timezone),
+      timezone,
+      mode: toModeKey(mode),
+      constraints,
+      metadata: candidates.metadata
+    };
+  }
+
+  /**
+   * Season outlook: every eligible series scored for each remaining race week, with
+   * the weeks the user already raced, their pinned series and strongest upcoming tracks.
+   * Pins and raced weeks are optional; the outlook is built without them on failure.
+   */
+  async getSeasonPlan(
+    userId: string,
+    options: {
+      mode?: ModeSelection;
+      category?: string;
+      ownedOnly?: boolean;
+    } = {}
+  ): Promise<SeasonPlan> {
+    const { mode = RecommendationModeHelper.getDefault(), category, ownedOnly = false } = options;
+
+    const season = await resolveRemainingSeason();
+    const userHistory = await prepareUserHistory(userId);
+    const allOpportunities = await getSeasonRacingOpportunities();
+
+    const categoryFiltered = category
+      ? allOpportunities.filter(opp => opp.category === category)
+      : allOpportunities;
+    const licenseEligible = licenseFilter.filterByLicense(categoryFiltered, userHistory);
+    const eligibleOpportunities = ownedOnly
+      ? ownershipFilter.filterByOwnership(licenseEligible, userHistory)
+      : licenseEligible;
+
+    const [pinnedSeriesIds, racedWeeks] = await Promise.all([
+      getPinnedSeriesIds(userId).catch(error => {
+        console.warn('Failed to load pinned series:', error);
+        return [];
+      }),
+      getSeasonRaceWeeks(userId, season.seasonYear, season.seasonQuarter).catch(error => {
+        console.warn('Failed to load race weeks for the season:', error);
+        return new Map<number, number[]>();
+      })
+    ]);
+
+    const scored = eligibleOpportunities.map(opportunity => ({
+      ...opportunity,
+      score: scoringAlgorithm.calculateScore(opportunity, userHistory, mode),
+      weekStart: getWeekDates(opportunity.seasonYear, opportunity.seasonQuarter, opportunity.raceWeekNum).start
+    }));
+
+    return {
+      seasonYear: season.seasonYear,
+      seasonQuarter: season.seasonQuarter,
+      currentRaceWeek: season.fromWeek,
+      mode: toModeKey(mode),
+      ...buildSeasonPlan(scored, { racedWeeks, pinnedSeriesIds })
+    };
+  }
+
   /**
    * Get detailed analysis for a specific opportunity with visual indicators
    */
@@ -197,17 +415,75 @@ export class RecommendationEngine {
   }> {
     const userHistory = await prepareUserHistory(userId);
     const allOpportunities = await getCurrentRacingOpportunities();
+    const { projections } = await this.buildPromotionPlan(userId, userHistory, allOpportunities);
     
     return {
       currentLicenses: userHistory.licenseClasses,
       progressionSuggestions: licenseFilter.getLicenseProgressionSuggestions(userHistory),
       almostEligibleOpportunities: licenseFilter.getAlmostEligibleOpportunities(
         allOpportunities, 
-        userHistory
+        userHistory,
+        projections
       )
     };
   }
 
+  /**
+   * Project promotion in each license category: races needed to reach the promotion
+   * Safety Rating and participation requirement before season end, and the series
+   * this week that get there fastest
+   */
+  async getPromotionPlan(userId: string): Promise<PromotionPlan> {
+    const userHistory = await prepareUserHistory(userId);
+    const allOpportunities = await getCurrentRacingOpportunities();
+    return this.buildPromotionPlan(userId, userHistory, allOpportunities);
+  }
+
+  /**
+   * Promotion plan from the user's already loaded history and this week's opportunities
+   */
+  private async buildPromotionPlan(
+    userId: string,
+    userHistory: UserHistory,
+    allOpportunities: RacingOpportunity[]
+  ): Promise<PromotionPlan> {
+    const season = await resolveRemainingSeason();
+    const eligibleOpportunities = licenseFilter.filterByLicense(allOpportunities, userHistory);
+
+    const recentChanges = await getSafetyRatingChanges(userId).catch(error => {
+      console.warn('Failed to load Safety Rating history:', error);
+      return [];
+    });
+
+    // The Safety Rating estimate does not depend on the mode
+    const scored = eligibleOpportunities.map(opportunity => ({
+      ...opportunity,
+      score: scoringAlgorithm.calculateScore(opportunity, userHistory, RecommendationModeHelper.getDefault())
+    }));
+
+    const weeksRemaining = Math.max(
+      1,
+      getSeasonCalendar(season.seasonYear, season.seasonQuarter).raceWeeks - season.fromWeek
+    );
+
+    const projections = buildPromotionProjections({
+      licenses: userHistory.licenseClasses,
+      recentChanges,
+      opportunities: scored,
+      seasonYear: season.seasonYear,
+      seasonQuarter: season.seasonQuarter,
+      weeksElapsed: season.fromWeek,
+      weeksRemaining
+    });
+
+    return {
+      seasonYear: season.seasonYear,
+      seasonQuarter: season.seasonQuarter,
+      weeksRemaining,
+      projections
+    };
+  }
+
   /**
    * Calculate experience summary for user profile
    */
@@ -376,48 +652,117 @@ export class RecommendationEngine {
     await prefetchRecommendationData(userId);
   }
 
+  /**
+   * Preview how a mode would rank the user's current recommendations against a
+   * baseline mode (Balanced by default), without saving anything
+   */
+  async previewMode(
+    userId: string,
+    mode: CustomMode,
+    options: {
+      baseline?: ModeSelection;
+      category?: string;
+      maxResults?: number;
+    } = {}
+  ): Promise<ModePreview> {
+    const {
+      baseline = RecommendationModeHelper.getDefault(),
+      category,
+      maxResults = 20
+    } = options;
+
+    const userHistory = await prepareUserHistory(userId);
+    const effectiveCategory = category || (await categoryAnalyzer.detectPrimaryCategory(userId)).primaryCategory;
+    const allOpportunities = await getCurrentRacingOpportunities();
+    const eligibleOpportunities = licenseFilter.filterByLicense(
+      allOpportunities.filter(opp => opp.category === effectiveCategory),
+      userHistory
+    );
+
+    const rank = (rankMode: ModeSelection) => this.sortByMode(
+      eligibleOpportunities.map(opportunity => ({
+        ...opportunity,
+        score: scoringAlgorithm.calculateScore(opportunity, userHistory, rankMode)
+      })),
+      rankMode
+    );
+
+    const baselineRanking = rank(baseline);
+    const baselineRanks = new Map(
+      baselineRanking.map((rec, index) => [`${rec.seriesId}:${rec.trackId}`, { rank: index + 1, score: rec.score.overall }])
+    );
+
+    return {
+      baseline: toModeKey(baseline),
+      entries: rank(mode).slice(0, maxResults).map((rec, index) => {
+        const before = baselineRanks.get(`${rec.seriesId}:${rec.trackId}`)!;
+
+        return {
+          seriesId: rec.seriesId,
+          seriesName: rec.seriesName,
+          trackId: rec.trackId,
+          trackName: rec.trackName,
+          baselineRank: before.rank,
+          previewRank: index + 1,
+          rankChange: before.rank - (index + 1),
+          baselineScore: before.score,
+          previewScore: rec.score.overall
+        };
+      })
+    };
+  }
+
+  /**
+   * Factor a mode ranks on first: safety for Safety Recovery, performance for
+   * iRating Push, the weighted score for Balanced, and the user's choice for custom modes
+   */
+  private getPrimarySort(mode: ModeSelection): ModeSortKey {
+    if (typeof mode === 'object') {
+      return mode.primarySort;
+    }
+
+    switch (mode) {
+      case RecommendationModeEnum.SAFETY_RECOVERY:
+        return 'safety';
+      case RecommendationModeEnum.IRATING_PUSH:
+        return 'performance';
+      case RecommendationModeEnum.BALANCED:
+      default:
+        return 'overall';
+    }
+  }
+
   /**
    * Mode-aware sorting for recommendations
    *
    * KEY FIX: Previous sorting prioritized familiarity (priorityScore) over mode-weighted scores,
    * which caused Safety Recovery mode to recommend high-incident familiar tracks over
-   * safer unfamiliar ones. Now each mode sorts by its primary factor:
+   * safer unfamiliar ones. Now each mode sorts by its primary factor (see getPrimarySort):
    *
-   * - SAFETY_RECOVERY: Primary sort by safety factor, then overall
-   * - IRATING_PUSH: Primary sort by performance factor, then overall
-   * - BALANCED: Primary sort by overall weighted score, then priorityScore as tiebreaker
+   * - Factor modes (e.g. Safety Recovery, iRating Push): primary sort by the factor, then overall
+   * - Overall modes (e.g. Balanced): primary sort by overall weighted score, then priorityScore as tiebreaker
    */
-  private sortByMode(recommendations: ScoredRecommendation[], mode: RecommendationMode): ScoredRecommendation[] {
+  private sortByMode<T extends { score: ScoredRecommendation['score'] }>(recommendations: T[], mode: ModeSelection): T[] {
+    const primarySort = this.getPrimarySort(mode);
+
     return [...recommendations].sort((a, b) => {
-      switch (mode) {
-        case RecommendationModeEnum.SAFETY_RECOVERY:
-          // Safety Recovery: Sort primarily by safety factor (higher = safer = fewer incidents)
-          const safetyDiff = b.score.factors.safety - a.score.factors.safety;
-          if (Math.abs(safetyDiff) > 3) {
-            return safetyDiff;
-          }
-          // Secondary: overall score (which still weights safety at 30%)
-          return b.score.overall - a.score.overall;
-
-        case RecommendationModeEnum.IRATING_PUSH:
-          // iRating Push: Sort primarily by performance factor (position delta potential)
-          const perfDiff = b.score.factors.performance - a.score.factors.performance;
-          if (Math.abs(perfDiff) > 3) {
-            return perfDiff;
-          }
-          // Secondary: overall score (which weights performance at 25%)
-          return b.score.overall - a.score.overall;
-
-        case RecommendationModeEnum.BALANCED:
-        default:
-          // Balanced: Use overall weighted score, with familiarity as a minor tiebreaker
-          const overallDiff = b.score.overall - a.score.overall;
-          if (Math.abs(overallDiff) > 3) {
-            return overallDiff;
-          }
-          // Tiebreaker: slight preference for familiar combinations
-          return b.score.priorityScore - a.score.priorityScore;
+      if (primarySort === 'overall') {
+        // Use overall weighted score, with familiarity as a minor tiebreaker
+        const overallDiff = b.score.overall - a.score.overall;
+        if (Math.abs(overallDiff) > 3) {
+          return overallDiff;
+        }
+        // Tiebreaker: slight preference for familiar combinations
+        return b.score.priorityScore - a.score.priorityScore;
+      }
+
+      // Sort primarily by the mode's factor (higher is always better, e.g. safer or more positions gained)
+      const factorDiff = (b.score.factors[primarySort] ?? 50) - (a.score.factors[primarySort] ?? 50);
+      if (Math.abs(factorDiff) > 3) {
+        return factorDiff;
       }
+      // Secondary: overall score (which still weights the factor)
+      return b.score.overall - a.score.overall;
     });
   }
 }
@@ -0,0 +1,189 @@
+import { SeriesTrackHistory, UserOverallStats } from './types';
+
+/**
+ * Recency-weighted personal history
+ * Races count less the older they are (exponential decay with a configurable half-life),
+ * and personal series/track averages are shrunk toward the wider estimate in proportion
+ * to how much recent history backs them
+ */
+
+export const DEFAULT_HISTORY_HALF_LIFE_DAYS = 180;
+
+// Series/track history is trusted as much as the prior once it holds this many
+// (recency-weighted) races; at 3 races personal history gets half the weight
+export const HISTORY_PRIOR_RACES = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// One result with valid positions
+export interface RaceOutcome {
+  seriesId: number;
+  trackId: number;
+  raceDate: Date;
+  startingPosition: number;
+  finishingPosition: number;
+  positionDelta: number;
+  classPositionDelta: number | null;
+  incidents: number;
+  pacePercentile?: number | null; // Set for races with lap data
+}
+
+export interface WeightedHistory {
+  seriesTrackHistory: SeriesTrackHistory[];
+  overallStats: UserOverallStats;
+}
+
+export interface WeightingOptions {
+  asOf?: Date; // Races are aged relative to this; defaults to now
+  halfLifeDays?: number; // Defaults to getHistoryHalfLifeDays()
+}
+
+/**
+ * Half-life for race history, from RECOMMENDATION_HISTORY_HALF_LIFE_DAYS when set
+ */
+export function getHistoryHalfLifeDays(): number {
+  const configured = parseFloat(process.env.RECOMMENDATION_HISTORY_HALF_LIFE_DAYS || '');
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_HISTORY_HALF_LIFE_DAYS;
+}
+
+/**
+ * Weight of a race: 1 when it ran at asOf, halving every half-life before that
+ */
+export function recencyWeight(raceDate: Date, asOf: Date, halfLifeDays: number): number {
+  const ageDays = Math.max(0, (asOf.getTime() - raceDate.getTime()) / MS_PER_DAY);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Share of an estimate given to personal history backed by sampleSize races,
+ * the rest going to the prior
+ */
+export function shrinkageWeight(sampleSize: number, priorRaces: number = HISTORY_PRIOR_RACES): number {
+  return sampleSize > 0 ? sampleSize / (sampleSize + priorRaces) : 0;
+}
+
+function weightedMean(values: number[], weights: number[], totalWeight: number): number {
+  return values.reduce((sum, value, i) => sum + value * weights[i], 0) / totalWeight;
+}
+
+/**
+ * Weighted standard deviation with the reliability-weights correction, so equal
+ * weights give the usual sample standard deviation
+ */
+function weightedStdDev(values: number[], weights: number[], totalWeight: number): number {
+  const sumSquaredWeights = weights.reduce((sum, weight) => sum + weight * weight, 0);
+  const denominator = totalWeight - sumSquaredWeights / totalWeight;
+  if (values.length < 2 || denominator <= 0) {
+    return 0;
+  }
+
+  const mean = weightedMean(values, weights, totalWeight);
+  const variance = values.reduce((sum, value, i) => sum + weights[i] * (value - mean) ** 2, 0) / denominator;
+  return Math.sqrt(variance);
+}
+
+function summarize(races: RaceOutcome[], weights: number[]) {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  // Races old enough to underflow to zero weight still give their plain averages
+  const meanWeights = totalWeight > 0 ? weights : weights.map(() => 1);
+  const meanTotal = totalWeight > 0 ? totalWeight : races.length;
+  const mean = (values: number[]) => meanTotal > 0 ? weightedMean(values, meanWeights, meanTotal) : 0;
+
+  // Pace only averages the races with lap data
+  const paced = races.flatMap((race, i) =>
+    race.pacePercentile == null ? [] : [{ pace: race.pacePercentile, weight: meanWeights[i] }]
+  );
+  const paceWeight = paced.reduce((sum, race) => sum + race.weight, 0);
+
+  return {
+    totalWeight,
+    avgStartingPosition: mean(races.map(race => race.startingPosition)),
+    avgFinishingPosition: mean(races.map(race => race.finishingPosition)),
+    avgPositionDelta: mean(races.map(race => race.positionDelta)),
+    avgClassPositionDelta: mean(races.map(race => race.classPositionDelta ?? race.positionDelta)),
+    avgIncidents: mean(races.map(race => race.incidents)),
+    finishPositionStdDev: meanTotal > 0
+      ? weightedStdDev(races.map(race => race.finishingPosition), meanWeights, meanTotal)
+      : 0,
+    avgPacePercentile: paced.length === 0
+      ? null
+      : paceWeight > 0
+        ? paced.reduce((sum, race) => sum + race.pace * race.weight, 0) / paceWeight
+        : paced.reduce((sum, race) => sum + race.pace, 0) / paced.length,
+    paceRaceCount: paced.length
+  };
+}
+
+function groupBy<K>(races: RaceOutcome[], keyOf: (race: RaceOutcome) => K): Map<K, number[]> {
+  const groups = new Map<K, number[]>();
+  races.forEach((race, index) => {
+    const key = keyOf(race);
+    const group = groups.get(key);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(key, [index]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * Aggregate results into series/track and overall history, weighting each race by
+ * its recency. Race counts stay raw; effectiveRaceCount is the sum of the weights.
+ */
+export function aggregateWeightedHistory(races: RaceOutcome[], options: WeightingOptions = {}): WeightedHistory {
+  const { asOf = new Date(), halfLifeDays = getHistoryHalfLifeDays() } = options;
+  const weights = races.map(race => recencyWeight(race.raceDate, asOf, halfLifeDays));
+  const pick = (indexes: number[]) => ({
+    races: indexes.map(i => races[i]),
+    weights: indexes.map(i => weights[i])
+  });
+
+  const seriesTrackHistory: SeriesTrackHistory[] = [...groupBy(races, race => `${race.seriesId}:${race.trackId}`).values()]
+    .map(indexes => {
+      const group = pick(indexes);
+      const stats = summarize(group.races, group.weights);
+
+      return {
+        seriesId: group.races[0].seriesId,
+        trackId: group.races[0].trackId,
+        raceCount: group.races.length,
+        effectiveRaceCount: stats.totalWeight,
+        avgStartingPosition: stats.avgStartingPosition,
+        avgFinishingPosition: stats.avgFinishingPosition,
+        avgPositionDelta: stats.avgPositionDelta,
+        avgClassPositionDelta: stats.avgClassPositionDelta,
+        avgIncidents: stats.avgIncidents,
+        finishPositionStdDev: stats.finishPositionStdDev,
+        avgPacePercentile: stats.avgPacePercentile,
+        paceRaceCount: stats.paceRaceCount,
+        lastRaceDate: new Date(Math.max(...group.races.map(race => race.raceDate.getTime())))
+      };
+    });
+
+  // Consistency is the spread of finishes within each series, averaged over series
+  let seriesWeight = 0;
+  let weightedConsistency = 0;
+  for (const indexes of groupBy(races, race => race.seriesId).values()) {
+    const group = pick(indexes);
+    const stats = summarize(group.races, group.weights);
+    seriesWeight += stats.totalWeight;
+    weightedConsistency += stats.finishPositionStdDev * stats.totalWeight;
+  }
+
+  const overall = summarize(races, weights);
+
+  return {
+    seriesTrackHistory,
+    overallStats: {
+      totalRaces: races.length,
+      avgIncidentsPerRace: overall.avgIncidents,
+      avgPositionDelta: overall.avgPositionDelta,
+      avgClassPositionDelta: overall.avgClassPositionDelta,
+      overallConsistency: seriesWeight > 0 ? weightedConsistency / seriesWeight : 0,
+      avgPacePercentile: overall.avgPacePercentile,
+      paceRaceCount: overall.paceRaceCount
+    }
+  };
+}
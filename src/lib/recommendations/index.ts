@@ -2,9 +2,14 @@ export * from './types';
 export * from './scoring';
 export * from './data-preparation';
 export * from './license-filter';
+export * from './ownership-filter';
+export * from './time-slot-forecast';
+export * from './rating-estimator';
+export * from './mode-settings';
 export * from './engine';
 export * from './visual-scoring';
 export { scoringAlgorithm } from './scoring';
 export { licenseFilter } from './license-filter';
+export { ownershipFilter } from './ownership-filter';
 export { recommendationEngine } from './engine';
 export { visualScoringRenderer } from './visual-scoring';
\ No newline at end of file
@@ -1,6 +1,54 @@
-import { RacingOpportunity, UserHistory, LicenseLevel, Category } from './types';
+import { RacingOpportunity, UserHistory, LicenseLevel, Category, PromotionProjection } from './types';
 import { LicenseHelper, LicenseLevel as CentralizedLicenseLevel } from '../types/license';
 
+// Safety Rating needed at season end to promote, and to promote from A to Pro
+export const PROMOTION_SAFETY_RATING = 3.0;
+export const PRO_PROMOTION_SAFETY_RATING = 4.0;
+
+// Minimum participation requirement: races in the category this season to promote
+export const MINIMUM_PARTICIPATION_RACES = 4;
+
+/**
+ * Safety Rating needed to promote to `nextLevel`, or null when there is no next level
+ */
+export function getPromotionSafetyRating(nextLevel: LicenseLevel | null): number | null {
+  if (!nextLevel) {
+    return null;
+  }
+  return nextLevel === CentralizedLicenseLevel.PRO ? PRO_PROMOTION_SAFETY_RATING : PROMOTION_SAFETY_RATING;
+}
+
+/**
+ * What is left to promote, from the current Safety Rating and, when known, the
+ * races already run in the category this season
+ */
+export function describePromotionRequirements(
+  nextLevel: LicenseLevel | null,
+  safetyRating: number,
+  racesThisSeason?: number
+): string {
+  const target = getPromotionSafetyRating(nextLevel);
+  if (target === null) {
+    return 'Already at the highest license level';
+  }
+
+  const remaining: string[] = [];
+  if (safetyRating < target) {
+    remaining.push(`reach ${target.toFixed(2)} Safety Rating (currently ${safetyRating.toFixed(2)})`);
+  }
+  if (racesThisSeason === undefined) {
+    remaining.push(`complete ${MINIMUM_PARTICIPATION_RACES} races this season`);
+  } else if (racesThisSeason < MINIMUM_PARTICIPATION_RACES) {
+    remaining.push(`complete ${MINIMUM_PARTICIPATION_RACES - racesThisSeason} more of the ${MINIMUM_PARTICIPATION_RACES} races needed this season`);
+  }
+
+  if (remaining.length === 0) {
+    return `Requirements met: promotes to Class ${nextLevel} at season end`;
+  }
+  const text = remaining.join(' and ');
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)} to promote to Class ${nextLevel}`;
+}
+
 /**
  * License-based filtering for racing recommendations
  * Excludes series requiring higher license levels than the user possesses
@@ -123,12 +171,20 @@ export class LicenseFilter {
 
   /**
    * Get opportunities that the user is close to being eligible for
-   * (one license level away)
+   * (one license level away). With promotion projections, only categories where
+   * promotion is within reach this season count.
    */
   getAlmostEligibleOpportunities(
     opportunities: RacingOpportunity[], 
-    userHistory: UserHistory
+    userHistory: UserHistory,
+    projections?: PromotionProjection[]
   ): RacingOpportunity[] {
+    const outOfReach = new Set(
+      (projections || [])
+        .filter(projection => projection.status === 'at_risk' || projection.status === 'max_level')
+        .map(projection => projection.category)
+    );
+
     return opportunities.filter(opportunity => {
       const userLicense = userHistory.licenseClasses.find(
         license => license.category === opportunity.category
@@ -139,6 +195,10 @@ export class LicenseFilter {
         return opportunity.licenseRequired === CentralizedLicenseLevel.ROOKIE;
       }
 
+      if (outOfReach.has(opportunity.category)) {
+        return false;
+      }
+
       // Check if user is exactly one level below the requirement using centralized helper
       const userLevelValue = LicenseHelper.getNumericValue(userLicense.level);
       const requiredLevelValue = LicenseHelper.getNumericValue(opportunity.licenseRequired);
@@ -177,24 +237,24 @@ export class LicenseFilter {
   }[] {
     const suggestions = [];
 
-    // Get unique categories and their highest license levels
-    const categoryLicenses = new Map<Category, LicenseLevel>();
+    // Get unique categories and their highest licenses
+    const categoryLicenses = new Map<Category, UserHistory['licenseClasses'][number]>();
     
     for (const license of userHistory.licenseClasses) {
-      const existingLevel = categoryLicenses.get(license.category);
-      if (!existingLevel || LicenseHelper.compare(license.level, existingLevel) > 0) {
-        categoryLicenses.set(license.category, license.level);
+      const existing = categoryLicenses.get(license.category);
+      if (!existing || LicenseHelper.compare(license.level, existing.level) > 0) {
+        categoryLicenses.set(license.category, license);
       }
     }
 
-    for (const [category, level] of categoryLicenses) {
-      const nextLevel = this.getNextLicenseLevel(level);
+    for (const [category, license] of categoryLicenses) {
+      const nextLevel = this.getNextLicenseLevel(license.level);
       
       suggestions.push({
         category,
-        currentLevel: level,
+        currentLevel: license.level,
         nextLevel,
-        requirements: this.getLicenseRequirements(level, nextLevel)
+        requirements: describePromotionRequirements(nextLevel, license.safetyRating)
       });
     }
 
@@ -260,7 +320,7 @@ export class LicenseFilter {
   /**
    * Get the next license level in the hierarchy using centralized helper
    */
-  private getNextLicenseLevel(currentLevel: LicenseLevel): LicenseLevel | null {
+  getNextLicenseLevel(currentLevel: LicenseLevel): LicenseLevel | null {
     const allLevels = LicenseHelper.getAllLevels();
     const currentIndex = allLevels.indexOf(currentLevel);
     
@@ -270,27 +330,6 @@ export class LicenseFilter {
     
     return allLevels[currentIndex + 1];
   }
-
-  /**
-   * Get requirements for license progression
-   */
-  private getLicenseRequirements(currentLevel: LicenseLevel, nextLevel: LicenseLevel | null): string {
-    if (!nextLevel) {
-      return 'Already at the highest license level';
-    }
-
-    // General requirements for license progression in iRacing
-    const requirements: Record<string, string> = {
-      [`${CentralizedLicenseLevel.ROOKIE}-${CentralizedLicenseLevel.D}`]: 'Complete 4 races or time trials with 3.0+ Safety Rating',
-      [`${CentralizedLicenseLevel.D}-${CentralizedLicenseLevel.C}`]: 'Complete races with 3.0+ Safety Rating and meet minimum participation requirements',
-      [`${CentralizedLicenseLevel.C}-${CentralizedLicenseLevel.B}`]: 'Complete races with 3.0+ Safety Rating and meet minimum participation requirements',
-      [`${CentralizedLicenseLevel.B}-${CentralizedLicenseLevel.A}`]: 'Complete races with 3.0+ Safety Rating and meet minimum participation requirements',
-      [`${CentralizedLicenseLevel.A}-${CentralizedLicenseLevel.PRO}`]: 'Complete races with 4.0+ Safety Rating and meet minimum participation requirements'
-    };
-
-    const key = `${currentLevel}-${nextLevel}`;
-    return requirements[key] || 'Meet Safety Rating and participation requirements';
-  }
 }
 
 // Export singleton instance
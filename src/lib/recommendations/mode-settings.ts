@@ -0,0 +1,214 @@
+import { CustomMode, CustomModeKey, ModeSelection, ModeSortKey, ModeWeights, RecommendationMode } from './types';
+import { RecommendationModeHelper } from '../types/recommendation';
+
+/**
+ * Factor weights for user-defined recommendation modes
+ * Pure helpers shared by the API and the mode editor; persistence lives in custom-modes.ts
+ */
+
+export const MODE_FACTORS: (keyof ModeWeights)[] = [
+  'performance',
+  'safety',
+  'consistency',
+  'predictability',
+  'familiarity',
+  'fatigueRisk',
+  'attritionRisk',
+  'timeVolatility',
+  'conditions',
+];
+
+export const FACTOR_LABELS: Record<keyof ModeWeights, string> = {
+  performance: 'Performance',
+  safety: 'Safety',
+  consistency: 'Consistency',
+  predictability: 'Predictability',
+  familiarity: 'Familiarity',
+  fatigueRisk: 'Race Length',
+  attritionRisk: 'Attrition',
+  timeVolatility: 'Time Slot',
+  conditions: 'Conditions',
+};
+
+// Weights of the built-in modes, used by scoring and shown in the score breakdown.
+// Conditions takes 5% in each mode; the other factors keep their original weights
+// scaled by 0.95, so every mode keeps its relative emphasis.
+export const BUILT_IN_MODE_WEIGHTS: Record<RecommendationMode, ModeWeights> = {
+  [RecommendationMode.BALANCED]: {
+    performance: 0.1425,
+    safety: 0.1425,
+    consistency: 0.1425,
+    predictability: 0.095,
+    familiarity: 0.1425,
+    fatigueRisk: 0.095,
+    attritionRisk: 0.095,
+    timeVolatility: 0.095,
+    conditions: 0.05,
+  },
+  [RecommendationMode.IRATING_PUSH]: {
+    performance: 0.2375, // Higher weight on performance
+    safety: 0.095, // Lower weight on safety
+    consistency: 0.095,
+    predictability: 0.1425, // Higher weight on predictability
+    familiarity: 0.19, // Higher weight on familiarity
+    fatigueRisk: 0.0475,
+    attritionRisk: 0.095,
+    timeVolatility: 0.0475,
+    conditions: 0.05,
+  },
+  [RecommendationMode.SAFETY_RECOVERY]: {
+    performance: 0.0475, // Lower weight on performance
+    safety: 0.285, // Much higher weight on safety
+    consistency: 0.19, // Higher weight on consistency
+    predictability: 0.1425,
+    familiarity: 0.1425,
+    fatigueRisk: 0.0475,
+    attritionRisk: 0.0475, // Lower weight on attrition
+    timeVolatility: 0.0475,
+    conditions: 0.05, // Incident rate in similar conditions
+  },
+};
+
+export const MAX_CUSTOM_MODES = 10;
+const MAX_NAME_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 255;
+
+// Weights must sum to 1 within this tolerance
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+const CUSTOM_MODE_PREFIX = 'custom:';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type CustomModeInput = Omit<CustomMode, 'id'>;
+
+/**
+ * mode= value for a stored custom mode
+ */
+export function toCustomModeKey(id: string): CustomModeKey {
+  return `${CUSTOM_MODE_PREFIX}${id}`;
+}
+
+/**
+ * mode= value selecting a built-in or custom mode
+ */
+export function toModeKey(mode: ModeSelection): RecommendationMode | CustomModeKey {
+  return typeof mode === 'object' ? toCustomModeKey(mode.id) : mode;
+}
+
+/**
+ * Custom mode id from a mode= value, or null when it is not a custom mode key
+ */
+export function parseCustomModeKey(value: string): string | null {
+  if (!value.startsWith(CUSTOM_MODE_PREFIX)) {
+    return null;
+  }
+
+  const id = value.slice(CUSTOM_MODE_PREFIX.length);
+  return UUID_PATTERN.test(id) ? id : null;
+}
+
+/**
+ * Factor weights of a mode. Custom modes carry their own weights, validated to sum
+ * to 1 when saved.
+ */
+export function getModeWeights(mode: ModeSelection): ModeWeights {
+  return typeof mode === 'object' ? mode.weights : BUILT_IN_MODE_WEIGHTS[mode];
+}
+
+/**
+ * Mode selected by a mode= value: a built-in mode, or a stored custom mode looked up
+ * with findCustomMode (getCustomMode on the server). The default mode without a value,
+ * null when the value names neither.
+ */
+export async function resolveModeSelection(
+  value: string | null | undefined,
+  findCustomMode: (id: string) => Promise<CustomMode | null>
+): Promise<ModeSelection | null> {
+  if (!value) {
+    return RecommendationModeHelper.getDefault();
+  }
+
+  const customModeId = parseCustomModeKey(value);
+  return customModeId ? findCustomMode(customModeId) : RecommendationModeHelper.tryFromString(value);
+}
+
+export function sumWeights(weights: ModeWeights): number {
+  return MODE_FACTORS.reduce((sum, factor) => sum + weights[factor], 0);
+}
+
+/**
+ * Scale weights so they sum to 1. All-zero weights become equal weights.
+ */
+export function normalizeWeights(weights: ModeWeights): ModeWeights {
+  const total = sumWeights(weights);
+
+  return Object.fromEntries(
+    MODE_FACTORS.map(factor => [factor, total > 0 ? weights[factor] / total : 1 / MODE_FACTORS.length])
+  ) as unknown as ModeWeights;
+}
+
+export function isModeSortKey(value: unknown): value is ModeSortKey {
+  return value === 'overall' || MODE_FACTORS.includes(value as keyof ModeWeights);
+}
+
+/**
+ * Validate a custom mode submitted by a client
+ */
+export function validateCustomMode(input: unknown): { mode?: CustomModeInput; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Mode must be an object with name, weights and primarySort.' };
+  }
+
+  const { name, description, weights, primarySort } = input as {
+    name?: unknown;
+    description?: unknown;
+    weights?: unknown;
+    primarySort?: unknown;
+  };
+
+  if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `name must be between 1 and ${MAX_NAME_LENGTH} characters.` };
+  }
+
+  if (description !== undefined && description !== null &&
+      (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters.` };
+  }
+
+  if (!weights || typeof weights !== 'object') {
+    return { error: `weights must set every factor: ${MODE_FACTORS.join(', ')}.` };
+  }
+
+  const validated = {} as ModeWeights;
+  for (const factor of MODE_FACTORS) {
+    const value = (weights as Record<string, unknown>)[factor];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+      return { error: `Weight for ${factor} must be a number from 0 to 1.` };
+    }
+    validated[factor] = value;
+  }
+
+  const unknownFactors = Object.keys(weights).filter(key => !MODE_FACTORS.includes(key as keyof ModeWeights));
+  if (unknownFactors.length > 0) {
+    return { error: `Unknown factors: ${unknownFactors.join(', ')}.` };
+  }
+
+  const total = sumWeights(validated);
+  if (Math.abs(total - 1) > WEIGHT_SUM_TOLERANCE) {
+    return { error: `Weights must sum to 1 (they sum to ${Math.round(total * 1000) / 1000}).` };
+  }
+
+  const sortKey = primarySort ?? 'overall';
+  if (!isModeSortKey(sortKey)) {
+    return { error: `primarySort must be 'overall' or one of: ${MODE_FACTORS.join(', ')}.` };
+  }
+
+  return {
+    mode: {
+      name: name.trim(),
+      description: typeof description === 'string' && description.trim() ? description.trim() : null,
+      weights: validated,
+      primarySort: sortKey,
+    },
+  };
+}
@@ -27,7 +27,8 @@ describe('Mode-Based Weighting System', () => {
         weights.familiarity +
         weights.fatigueRisk +
         weights.attritionRisk +
-        weights.timeVolatility;
+        weights.timeVolatility +
+        weights.conditions;
       
       expect(sum).toBeCloseTo(1.0, 5); // Allow for floating point precision
     });
@@ -0,0 +1,232 @@
+import { eq, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { raceResults, recommendationSnapshots } from '../db/schema';
+import { ModeSelection, OutcomeSummary, RankCorrelation, ScoredRecommendation } from './types';
+import { toModeKey } from './mode-settings';
+
+/**
+ * Recommendation outcome tracking
+ * Served recommendations are snapshotted per mode and race week, and matched to the
+ * races the user later syncs so scores can be checked against what happened
+ */
+
+const MIN_CORRELATION_SAMPLES = 3;
+
+// A snapshot with the race it was matched to, if any
+export interface SnapshotOutcome {
+  mode: string;
+  rank: number;
+  overallScore: number;
+  positionDelta: number | null; // Within the car class where known; null when not raced
+  incidents: number | null;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * 1-based ranks, ties sharing the average of the ranks they span
+ */
+function toRanks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) {
+      end++;
+    }
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) {
+      ranks[order[i].index] = rank;
+    }
+    start = end + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Spearman's rank correlation, or null when there are too few samples or one side
+ * does not vary
+ */
+export function spearmanCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length !== ys.length || xs.length < MIN_CORRELATION_SAMPLES) {
+    return null;
+  }
+
+  const xRanks = toRanks(xs);
+  const yRanks = toRanks(ys);
+  const xMean = average(xRanks);
+  const yMean = average(yRanks);
+
+  let covariance = 0;
+  let xVariance = 0;
+  let yVariance = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xRanks[i] - xMean) * (yRanks[i] - yMean);
+    xVariance += (xRanks[i] - xMean) ** 2;
+    yVariance += (yRanks[i] - yMean) ** 2;
+  }
+
+  if (xVariance === 0 || yVariance === 0) {
+    return null;
+  }
+  return covariance / Math.sqrt(xVariance * yVariance);
+}
+
+export function rankCorrelation(xs: number[], ys: number[]): RankCorrelation {
+  const coefficient = spearmanCorrelation(xs, ys);
+  return {
+    coefficient: coefficient === null ? null : Math.round(coefficient * 1000) / 1000,
+    samples: xs.length
+  };
+}
+
+/**
+ * Served and raced counts per mode, with how the scores of the raced recommendations
+ * ranked against their results. Incidents are negated, so positive correlations are good.
+ */
+export function summarizeOutcomes(outcomes: SnapshotOutcome[]): OutcomeSummary[] {
+  const byMode = new Map<string, SnapshotOutcome[]>();
+  for (const outcome of outcomes) {
+    const modeOutcomes = byMode.get(outcome.mode);
+    if (modeOutcomes) {
+      modeOutcomes.push(outcome);
+    } else {
+      byMode.set(outcome.mode, [outcome]);
+    }
+  }
+
+  return [...byMode.entries()].map(([mode, modeOutcomes]) => {
+    const raced = modeOutcomes.filter(outcome => outcome.positionDelta !== null);
+    const topPicks = modeOutcomes.filter(outcome => outcome.rank === 1);
+
+    return {
+      mode,
+      served: modeOutcomes.length,
+      raced: raced.length,
+      topPicksServed: topPicks.length,
+      topPicksRaced: topPicks.filter(outcome => outcome.positionDelta !== null).length,
+      scoreVsPositionDelta: rankCorrelation(
+        raced.map(outcome => outcome.overallScore),
+        raced.map(outcome => outcome.positionDelta!)
+      ),
+      scoreVsIncidents: rankCorrelation(
+        raced.map(outcome => outcome.overallScore),
+        raced.map(outcome => -(outcome.incidents ?? 0))
+      )
+    };
+  });
+}
+
+/**
+ * Upsert snapshots of a served recommendation list. Serving the same mode again in the
+ * same race week refreshes the scores and rank rather than adding rows.
+ */
+export async function recordRecommendationSnapshots(
+  userId: string,
+  mode: ModeSelection,
+  recommendations: ScoredRecommendation[]
+): Promise<void> {
+  if (recommendations.length === 0) {
+    return;
+  }
+
+  const modeKey = toModeKey(mode);
+  const now = new Date();
+
+  await db.insert(recommendationSnapshots)
+    .values(recommendations.map((recommendation, index) => ({
+      userId,
+      mode: modeKey,
+      seasonYear: recommendation.seasonYear,
+      seasonQuarter: recommendation.seasonQuarter,
+      raceWeekNum: recommendation.raceWeekNum,
+      seriesId: recommendation.seriesId,
+      trackId: recommendation.trackId,
+      rank: index + 1,
+      overallScore: recommendation.score.overall,
+      factors: recommendation.score.factors,
+      iratingRisk: recommendation.score.iRatingRisk,
+      safetyRatingRisk: recommendation.score.safetyRatingRisk,
+      firstServedAt: now,
+      lastServedAt: now,
+    })))
+    .onConflictDoUpdate({
+      target: [
+        recommendationSnapshots.userId,
+        recommendationSnapshots.mode,
+        recommendationSnapshots.seasonYear,
+        recommendationSnapshots.seasonQuarter,
+        recommendationSnapshots.raceWeekNum,
+        recommendationSnapshots.seriesId,
+        recommendationSnapshots.trackId,
+      ],
+      set: {
+        rank: sql`excluded.rank`,
+        overallScore: sql`excluded.overall_score`,
+        factors: sql`excluded.factors`,
+        iratingRisk: sql`excluded.irating_risk`,
+        safetyRatingRisk: sql`excluded.safety_rating_risk`,
+        servedCount: sql`${recommendationSnapshots.servedCount} + 1`,
+        lastServedAt: sql`excluded.last_served_at`,
+      },
+    });
+}
+
+/**
+ * Match newly stored races to unmatched snapshots for the same series/track and race
+ * week, taking the first race after the recommendation was first served
+ */
+export async function matchRecommendationOutcomes(userId: string, resultIds: string[]): Promise<void> {
+  if (resultIds.length === 0) {
+    return;
+  }
+
+  await db.execute(sql`
+    UPDATE recommendation_snapshots s
+    SET matched_result_id = m.result_id, matched_at = NOW()
+    FROM (
+      SELECT DISTINCT ON (s2.id) s2.id AS snapshot_id, r.id AS result_id
+      FROM recommendation_snapshots s2
+      JOIN race_results r
+        ON r.user_id = s2.user_id
+        AND r.series_id = s2.series_id
+        AND r.track_id = s2.track_id
+        AND r.season_year = s2.season_year
+        AND r.season_quarter = s2.season_quarter
+        AND r.race_week_num = s2.race_week_num
+        AND r.race_date >= s2.first_served_at
+      WHERE s2.user_id = ${userId}
+        AND s2.matched_result_id IS NULL
+        AND r.session_type = 'race'
+        AND r.id IN (${sql.join(resultIds.map(id => sql`${id}`), sql`, `)})
+      ORDER BY s2.id, r.race_date
+    ) m
+    WHERE s.id = m.snapshot_id
+  `);
+}
+
+/**
+ * Outcome summaries for every mode the user has been served recommendations in
+ */
+export async function getOutcomeSummaries(userId: string): Promise<OutcomeSummary[]> {
+  const rows = await db
+    .select({
+      mode: recommendationSnapshots.mode,
+      rank: recommendationSnapshots.rank,
+      overallScore: recommendationSnapshots.overallScore,
+      positionDelta: sql<number | null>`COALESCE(${raceResults.classPositionDelta}, ${raceResults.positionDelta})`,
+      incidents: raceResults.incidents,
+    })
+    .from(recommendationSnapshots)
+    .leftJoin(raceResults, eq(raceResults.id, recommendationSnapshots.matchedResultId))
+    .where(eq(recommendationSnapshots.userId, userId));
+
+  return summarizeOutcomes(rows.map(row => ({
+    ...row,
+    positionDelta: row.positionDelta === null ? null : Number(row.positionDelta),
+  })));
+}
@@ -0,0 +1,66 @@
+import { RacingOpportunity, UserHistory, MissingContent, ScoredRecommendation } from './types';
+
+/**
+ * Owned-content eligibility for racing recommendations
+ * Flags (or excludes) races the user can't join without buying the track or a car
+ */
+export class OwnershipFilter {
+  /**
+   * Filter racing opportunities down to those the user owns everything for.
+   * Users whose ownership has not been synced keep every opportunity.
+   */
+  filterByOwnership(opportunities: RacingOpportunity[], userHistory: UserHistory): RacingOpportunity[] {
+    if (!opportunities || opportunities.length === 0) {
+      return [];
+    }
+
+    return opportunities.filter(opportunity =>
+      this.getMissingContent(opportunity, userHistory).length === 0
+    );
+  }
+
+  /**
+   * Get the content the user would need to buy to join a race.
+   * A missing track is listed on its own; missing cars list every eligible car,
+   * since owning any one of them is enough.
+   */
+  getMissingContent(opportunity: RacingOpportunity, userHistory: UserHistory): MissingContent[] {
+    const owned = userHistory?.ownedContent;
+    if (!owned) {
+      return [];
+    }
+
+    const missing: MissingContent[] = [];
+
+    if (!owned.trackIds.includes(opportunity.trackId)) {
+      missing.push({ type: 'track', id: opportunity.trackId, name: opportunity.trackName });
+    }
+
+    // Car classes are only known once the car lookups have been synced
+    const carIds = opportunity.carIds || [];
+    if (carIds.length > 0 && !carIds.some(carId => owned.carIds.includes(carId))) {
+      carIds.forEach(carId => {
+        missing.push({ type: 'car', id: carId, name: opportunity.carNames?.[carId] || `Car ${carId}` });
+      });
+    }
+
+    return missing;
+  }
+
+  /**
+   * Add the requiresPurchase flag and missing items to scored recommendations
+   */
+  flagPurchases(recommendations: ScoredRecommendation[], userHistory: UserHistory): ScoredRecommendation[] {
+    return recommendations.map(recommendation => {
+      const missingContent = this.getMissingContent(recommendation, userHistory);
+      return {
+        ...recommendation,
+        requiresPurchase: missingContent.length > 0,
+        missingContent
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const ownershipFilter = new OwnershipFilter();
@@ -0,0 +1,43 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { pinnedSeries } from '../db/schema';
+
+/**
+ * Pinned series
+ * Series a user has chosen to follow through the season; the season planner lists them first
+ */
+
+export const MAX_PINNED_SERIES = 10;
+
+/**
+ * Get the series a user has pinned, oldest pin first
+ */
+export async function getPinnedSeriesIds(userId: string): Promise<number[]> {
+  const rows = await db
+    .select({ seriesId: pinnedSeries.seriesId })
+    .from(pinnedSeries)
+    .where(eq(pinnedSeries.userId, userId))
+    .orderBy(asc(pinnedSeries.createdAt));
+
+  return rows.map(row => row.seriesId);
+}
+
+/**
+ * Pin a series for a user. Pinning an already pinned series changes nothing.
+ */
+export async function pinSeries(userId: string, seriesId: number): Promise<void> {
+  await db.insert(pinnedSeries)
+    .values({ userId, seriesId })
+    .onConflictDoNothing();
+}
+
+/**
+ * Unpin a series, returning whether it was pinned
+ */
+export async function unpinSeries(userId: string, seriesId: number): Promise<boolean> {
+  const rows = await db.delete(pinnedSeries)
+    .where(and(eq(pinnedSeries.userId, userId), eq(pinnedSeries.seriesId, seriesId)))
+    .returning({ id: pinnedSeries.id });
+
+  return rows.length > 0;
+}
@@ -0,0 +1,175 @@
+import { LicenseHelper } from '../types/license';
+import {
+  Category,
+  LicenseClass,
+  PromotionProjection,
+  PromotionSeriesOption,
+  PromotionStatus,
+  PromotionTrajectoryPoint,
+  SafetyRatingChange,
+  ScoredOpportunity
+} from './types';
+import {
+  MINIMUM_PARTICIPATION_RACES,
+  describePromotionRequirements,
+  getPromotionSafetyRating,
+  licenseFilter
+} from './license-filter';
+
+/**
+ * Promotion planner
+ * Projects, per license category, how many races it takes to reach the promotion
+ * Safety Rating and the minimum participation requirement before the season ends.
+ * Each eligible series this week is costed by its expected Safety Rating change at
+ * the user's expected incidents, so the fastest way to promote can be raced first.
+ */
+
+// Recent races averaged for the user's Safety Rating pace
+const RECENT_RACES = 10;
+
+const MAX_SERIES_OPTIONS = 3;
+const MAX_TRAJECTORY_RACES = 20;
+
+// Races per week assumed when the user has not raced the category this season
+const MIN_RACES_PER_WEEK = 1;
+
+const MAX_SAFETY_RATING = 4.99;
+
+function roundRating(value: number): number {
+  return Math.round(Math.min(MAX_SAFETY_RATING, Math.max(0, value)) * 100) / 100;
+}
+
+function racesToGain(gap: number, perRace: number): number | null {
+  if (gap <= 0) {
+    return 0;
+  }
+  return perRace > 0 ? Math.ceil(gap / perRace) : null;
+}
+
+/**
+ * Series in the category costed by races to the target, fewest first. A series
+ * listed on several tracks keeps its best one.
+ */
+function rankSeries(opportunities: ScoredOpportunity[], gap: number): PromotionSeriesOption[] {
+  const bySeries = new Map<number, PromotionSeriesOption>();
+
+  for (const opportunity of opportunities) {
+    const expected = opportunity.score.ratingChange?.safetyRating.expected;
+    if (expected === undefined) {
+      continue;
+    }
+
+    const existing = bySeries.get(opportunity.seriesId);
+    if (!existing || expected > existing.expectedSafetyRatingChange) {
+      bySeries.set(opportunity.seriesId, {
+        seriesId: opportunity.seriesId,
+        seriesName: opportunity.seriesName,
+        trackName: opportunity.trackName,
+        licenseRequired: opportunity.licenseRequired,
+        raceLength: opportunity.raceLength,
+        expectedSafetyRatingChange: expected,
+        racesToTarget: racesToGain(gap, expected),
+      });
+    }
+  }
+
+  return [...bySeries.values()].sort((a, b) =>
+    (a.racesToTarget ?? Infinity) - (b.racesToTarget ?? Infinity) ||
+    b.expectedSafetyRatingChange - a.expectedSafetyRatingChange
+  );
+}
+
+function buildTrajectory(
+  safetyRating: number,
+  perRace: number,
+  recentAverageChange: number | null,
+  races: number
+): PromotionTrajectoryPoint[] {
+  return Array.from({ length: Math.min(MAX_TRAJECTORY_RACES, races) + 1 }, (_, race) => ({
+    race,
+    projected: roundRating(safetyRating + perRace * race),
+    recentPace: recentAverageChange === null ? null : roundRating(safetyRating + recentAverageChange * race),
+  }));
+}
+
+/**
+ * Project promotion for the highest license in each category.
+ * `recentChanges` are the user's per-race Safety Rating changes, newest first, and
+ * `opportunities` this week's license-eligible series, scored.
+ */
+export function buildPromotionProjections(input: {
+  licenses: LicenseClass[];
+  recentChanges: SafetyRatingChange[];
+  opportunities: ScoredOpportunity[];
+  seasonYear: number;
+  seasonQuarter: number;
+  weeksElapsed: number;
+  weeksRemaining: number;
+}): PromotionProjection[] {
+  const highest = new Map<Category, LicenseClass>();
+  for (const license of input.licenses) {
+    const existing = highest.get(license.category);
+    if (!existing || LicenseHelper.compare(license.level, existing.level) > 0) {
+      highest.set(license.category, license);
+    }
+  }
+
+  return [...highest.values()].map(license => {
+    const nextLevel = licenseFilter.getNextLicenseLevel(license.level);
+    const target = getPromotionSafetyRating(nextLevel);
+
+    const changes = input.recentChanges.filter(change => change.category === license.category);
+    const recent = changes.slice(0, RECENT_RACES);
+    const recentAverageChange = recent.length > 0
+      ? Math.round(recent.reduce((sum, change) => sum + change.change, 0) / recent.length * 1000) / 1000
+      : null;
+
+    const completed = changes.filter(change =>
+      change.seasonYear === input.seasonYear && change.seasonQuarter === input.seasonQuarter
+    ).length;
+    const participationRemaining = Math.max(0, MINIMUM_PARTICIPATION_RACES - completed);
+
+    const racesPerWeek = Math.max(MIN_RACES_PER_WEEK, completed / Math.max(1, input.weeksElapsed));
+    const racesRemaining = Math.round(racesPerWeek * input.weeksRemaining);
+
+    // Safety Rating has two decimals; rounding keeps float error out of the race counts
+    const gap = target === null ? 0 : Math.round((target - license.safetyRating) * 100) / 100;
+    const fastestSeries = target === null
+      ? []
+      : rankSeries(input.opportunities.filter(opp => opp.category === license.category), gap)
+        .slice(0, MAX_SERIES_OPTIONS);
+    const perRace = fastestSeries[0]?.expectedSafetyRatingChange ?? 0;
+
+    const ratingRaces = racesToGain(gap, perRace);
+    const cleanRacesNeeded = ratingRaces === null ? null : Math.max(ratingRaces, participationRemaining);
+
+    let status: PromotionStatus;
+    if (target === null) {
+      status = 'max_level';
+    } else if (gap <= 0 && participationRemaining === 0) {
+      status = 'eligible';
+    } else if (cleanRacesNeeded !== null && cleanRacesNeeded <= racesRemaining) {
+      status = 'on_track';
+    } else {
+      status = 'at_risk';
+    }
+
+    return {
+      category: license.category,
+      currentLevel: license.level,
+      nextLevel,
+      safetyRating: license.safetyRating,
+      targetSafetyRating: target,
+      participation: { required: MINIMUM_PARTICIPATION_RACES, completed },
+      recentAverageChange,
+      cleanRacesNeeded,
+      racesRemaining,
+      status,
+      requirements: describePromotionRequirements(nextLevel, license.safetyRating, completed),
+      fastestSeries,
+      trajectory: target === null
+        ? []
+        : buildTrajectory(license.safetyRating, perRace, recentAverageChange, cleanRacesNeeded ?? racesRemaining),
+    };
+  });
+}
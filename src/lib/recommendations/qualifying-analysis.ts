@@ -0,0 +1,171 @@
+import type { GridGroupStats, QualifyingAdvice, QualifyingStats, SeriesQualifyingStats } from './types';
+
+/**
+ * Qualifying and starting position analysis
+ * How well the user qualifies (percentile among the class qualifiers and gap to pole),
+ * how the grid slot relates to incidents and finish, and per series whether a front
+ * grid slot pays off or the user does better starting from the back.
+ *
+ * Grid slots of 0 or below (-1 is stored for sessions without a grid) and slots
+ * outside the field are treated as unknown. Positions are within the car class when
+ * known, so multi-class grids compare like with like.
+ */
+
+// Races needed before correlations are reported
+export const MIN_CORRELATION_RACES = 5;
+
+// Races needed in each half of the grid before a series gets advice
+export const MIN_GRID_GROUP_RACES = 2;
+
+// Differences between front and back half starts that count as clear
+export const ADVICE_INCIDENT_MARGIN = 1.0; // Incidents per race
+export const ADVICE_FINISH_MARGIN = 15; // Finish percentile points
+
+// One race with its grid slot, finish and qualifying
+export interface QualifyingRace {
+  seriesId: number;
+  startingPosition: number | null;
+  finishingPosition: number | null;
+  fieldSize: number | null;
+  incidents: number;
+  qualLapTime: number | null;
+  poleLapTime: number | null;
+  qualifyingPercentile: number | null;
+}
+
+/**
+ * Share of the field behind a position (0-100, 100 is first). Null when the position
+ * is unknown or outside the field.
+ */
+export function positionPercentile(position: number | null, fieldSize: number | null): number | null {
+  if (!position || position < 1 || !fieldSize || fieldSize < 2 || position > fieldSize) {
+    return null;
+  }
+  return ((fieldSize - position) / (fieldSize - 1)) * 100;
+}
+
+/**
+ * Qualifying lap off the class pole, in percent (0 is pole)
+ */
+export function poleGapPercent(qualLapTime: number | null, poleLapTime: number | null): number | null {
+  if (!qualLapTime || !poleLapTime || qualLapTime < poleLapTime) {
+    return null;
+  }
+  return ((qualLapTime - poleLapTime) / poleLapTime) * 100;
+}
+
+/**
+ * Pearson correlation of paired values, or null with too few pairs or no spread
+ */
+export function correlation(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < MIN_CORRELATION_RACES) {
+    return null;
+  }
+
+  const meanX = xs.slice(0, n).reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : null;
+}
+
+/**
+ * Qualify or start from the back: 'start_from_back' when back half starts are clearly
+ * cleaner without a clearly worse finish, 'qualify' when front half starts are clearly
+ * cleaner, or finish clearly better without more incidents. Null for a trade-off.
+ */
+export function qualifyingAdvice(front: GridGroupStats | null, back: GridGroupStats | null): QualifyingAdvice | null {
+  if (!front || !back || front.raceCount < MIN_GRID_GROUP_RACES || back.raceCount < MIN_GRID_GROUP_RACES) {
+    return null;
+  }
+
+  const incidentGain = back.avgIncidents - front.avgIncidents; // Positive when the front is cleaner
+  const finishGain = front.avgFinishPercentile - back.avgFinishPercentile; // Positive when the front finishes better
+
+  if (incidentGain <= -ADVICE_INCIDENT_MARGIN && finishGain < ADVICE_FINISH_MARGIN) {
+    return 'start_from_back';
+  }
+  if (incidentGain >= ADVICE_INCIDENT_MARGIN || (finishGain >= ADVICE_FINISH_MARGIN && incidentGain > -ADVICE_INCIDENT_MARGIN)) {
+    return 'qualify';
+  }
+  return null;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+interface GradedRace {
+  race: QualifyingRace;
+  gridPercentile: number;
+  finishPercentile: number;
+}
+
+function groupStats(races: GradedRace[]): GridGroupStats | null {
+  return races.length > 0
+    ? {
+      raceCount: races.length,
+      avgIncidents: mean(races.map(({ race }) => race.incidents))!,
+      avgFinishPercentile: mean(races.map(graded => graded.finishPercentile))!,
+    }
+    : null;
+}
+
+function qualifyingPace(races: QualifyingRace[]) {
+  const qualified = races.filter(race => race.qualLapTime !== null && race.qualLapTime > 0);
+  return {
+    qualifiedRaceCount: qualified.length,
+    avgQualifyingPercentile: mean(qualified.flatMap(race => race.qualifyingPercentile ?? [])),
+    avgPoleGapPercent: mean(qualified.flatMap(race => poleGapPercent(race.qualLapTime, race.poleLapTime) ?? [])),
+  };
+}
+
+/**
+ * Summarize the user's races overall and per series (most races first). Null without
+ * any race with a known grid slot and finish.
+ */
+export function buildQualifyingStats(races: QualifyingRace[]): QualifyingStats | null {
+  const graded: GradedRace[] = races.flatMap(race => {
+    const gridPercentile = positionPercentile(race.startingPosition, race.fieldSize);
+    const finishPercentile = positionPercentile(race.finishingPosition, race.fieldSize);
+    return gridPercentile === null || finishPercentile === null ? [] : [{ race, gridPercentile, finishPercentile }];
+  });
+  if (graded.length === 0) {
+    return null;
+  }
+
+  const bySeries = new Map<number, GradedRace[]>();
+  for (const entry of graded) {
+    const seriesRaces = bySeries.get(entry.race.seriesId) || [];
+    seriesRaces.push(entry);
+    bySeries.set(entry.race.seriesId, seriesRaces);
+  }
+
+  const series: SeriesQualifyingStats[] = [...bySeries.entries()].map(([seriesId, seriesRaces]) => {
+    const front = groupStats(seriesRaces.filter(entry => entry.gridPercentile >= 50));
+    const back = groupStats(seriesRaces.filter(entry => entry.gridPercentile < 50));
+    return {
+      seriesId,
+      raceCount: seriesRaces.length,
+      ...qualifyingPace(seriesRaces.map(entry => entry.race)),
+      front,
+      back,
+      advice: qualifyingAdvice(front, back),
+    };
+  });
+
+  return {
+    raceCount: graded.length,
+    ...qualifyingPace(graded.map(entry => entry.race)),
+    startIncidentCorrelation: correlation(graded.map(entry => entry.gridPercentile), graded.map(entry => entry.race.incidents)),
+    startFinishCorrelation: correlation(graded.map(entry => entry.gridPercentile), graded.map(entry => entry.finishPercentile)),
+    series: series.sort((a, b) => b.raceCount - a.raceCount || a.seriesId - b.seriesId),
+  };
+}
@@ -0,0 +1,107 @@
+import { RatingRange } from './types';
+
+/**
+ * iRating and Safety Rating change estimates
+ *
+ * iRating uses the community-published approximation of iRacing's ELO-style
+ * formula: every pair of drivers is an exchange whose expected outcome depends on
+ * the rating gap, and the change is the difference between drivers actually beaten
+ * and drivers expected to be beaten, scaled by 200 / field size. Opponents are all
+ * taken to be rated at the SOF, which is itself an exponential average.
+ *
+ * Safety Rating has no published formula. The approximation below credits each
+ * corner completed and charges each incident, tuned so roughly one incident per
+ * 40 corners is neutral. It is meant for comparing races, not predicting to the
+ * hundredth.
+ */
+
+const IRATING_BASE = 1600 / Math.LN2;
+
+const SR_PER_CORNER = 0.00125;
+const SR_PER_INCIDENT = 0.05;
+
+/**
+ * Probability of beating a driver rated `opponent` when rated `rating`
+ */
+export function chanceToBeat(rating: number, opponent: number): number {
+  const own = Math.exp(-rating / IRATING_BASE);
+  const other = Math.exp(-opponent / IRATING_BASE);
+  return ((1 - own) * other) / ((1 - other) * own + (1 - own) * other);
+}
+
+/**
+ * Finish position the rating alone predicts (1-based, fractional)
+ */
+export function ratingExpectedFinish(iRating: number, strengthOfField: number, fieldSize: number): number {
+  return 1 + (fieldSize - 1) * (1 - chanceToBeat(iRating, strengthOfField));
+}
+
+/**
+ * iRating change for finishing at `position` (1-based) in a field rated at the SOF
+ */
+export function iRatingChangeForFinish(
+  iRating: number,
+  strengthOfField: number,
+  fieldSize: number,
+  position: number
+): number {
+  const expectedBeaten = (fieldSize - 1) * chanceToBeat(iRating, strengthOfField);
+  const actualBeaten = fieldSize - position;
+  const fudge = (fieldSize / 2 - position) / 100;
+  return (actualBeaten - expectedBeaten - fudge) * 200 / fieldSize;
+}
+
+/**
+ * Expected iRating change over a normal finish distribution (mean and spread in
+ * positions), with the change one spread either side as the range
+ */
+export function estimateIRatingChange(params: {
+  iRating: number;
+  strengthOfField: number;
+  fieldSize: number;
+  expectedFinish: number;
+  finishStdDev: number;
+}): RatingRange {
+  const fieldSize = Math.max(2, Math.round(params.fieldSize));
+  const mean = Math.min(fieldSize, Math.max(1, params.expectedFinish));
+  const spread = Math.max(0.5, params.finishStdDev);
+  const changeAt = (position: number) =>
+    iRatingChangeForFinish(params.iRating, params.strengthOfField, fieldSize, position);
+
+  // Discrete normal weights over the positions actually available
+  let totalWeight = 0;
+  let weightedChange = 0;
+  for (let position = 1; position <= fieldSize; position++) {
+    const weight = Math.exp(-((position - mean) ** 2) / (2 * spread ** 2));
+    totalWeight += weight;
+    weightedChange += weight * changeAt(position);
+  }
+
+  return {
+    expected: Math.round(weightedChange / totalWeight),
+    low: Math.round(changeAt(Math.min(fieldSize, Math.round(mean + spread)))),
+    high: Math.round(changeAt(Math.max(1, Math.round(mean - spread)))),
+  };
+}
+
+/**
+ * Safety Rating change for a race of `corners` corners with `incidents` incidents
+ */
+export function safetyRatingChangeFor(corners: number, incidents: number): number {
+  return corners * SR_PER_CORNER - incidents * SR_PER_INCIDENT;
+}
+
+/**
+ * Expected Safety Rating change, with incidents one Poisson spread either side as the range
+ */
+export function estimateSafetyRatingChange(params: { corners: number; expectedIncidents: number }): RatingRange {
+  const incidents = Math.max(0, params.expectedIncidents);
+  const spread = Math.sqrt(incidents);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    expected: round(safetyRatingChangeFor(params.corners, incidents)),
+    low: round(safetyRatingChangeFor(params.corners, incidents + spread)),
+    high: round(safetyRatingChangeFor(params.corners, Math.max(0, incidents - spread))),
+  };
+}
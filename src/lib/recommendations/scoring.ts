@@ -1,7 +1,7 @@
 import { 
   RacingOpportunity, 
   UserHistory, 
-  RecommendationMode, 
+  ModeSelection,
   Score, 
   ScoringFactors, 
   RiskLevel,
@@ -9,15 +9,41 @@ import {
   SeriesTrackHistory,
   LicenseLevel,
   ConfidenceLevel,
-  DataConfidence
+  DataConfidence,
+  RatingChangeEstimate,
+  Category
 } from './types';
-import { RecommendationMode as RecommendationModeEnum, RiskLevel as RiskLevelEnum, ConfidenceLevel as ConfidenceLevelEnum } from '../types/recommendation';
+import { RiskLevel as RiskLevelEnum, ConfidenceLevel as ConfidenceLevelEnum } from '../types/recommendation';
 import { analyticsIntegration } from './analytics-integration';
 import { LicenseHelper } from '../types/license';
+import { describeConditions } from '../iracing/weather';
+import { estimateIRatingChange, estimateSafetyRatingChange, ratingExpectedFinish } from './rating-estimator';
+import { shrinkageWeight } from './history-weighting';
+import { getModeWeights } from './mode-settings';
+import { blendRelatedHistory, findRelatedTracks, trackSimilarity } from './track-similarity';
+
+// Races in similar conditions needed before the conditions factor moves off neutral,
+// and the count at which it is fully trusted
+const MIN_CONDITIONS_RACES = 3;
+const FULL_CONFIDENCE_CONDITIONS_RACES = 10;
+
+// Race shape used for Safety Rating estimates when the schedule does not say
+const DEFAULT_LAP_MINUTES = 1.75;
+const DEFAULT_OVAL_CORNERS_PER_LAP = 4;
+const DEFAULT_ROAD_CORNERS_PER_LAP = 12;
+
+// Share of the performance factor given to lap pace once many races with lap data back it
+const MAX_PACE_WEIGHT = 0.4;
+
+// Start risk: races with event logs needed to trust where the user's incidents happen,
+// races in the series needed to judge its starts, and the most it can raise incidents
+const MIN_START_PROFILE_RACES = 5;
+const MIN_SERIES_START_RACES = 2;
+const MAX_START_RISK_MULTIPLIER = 1.5;
 
 /**
  * Multi-factor scoring algorithm for racing recommendations
- * Evaluates 8 factors to produce a 0-100 score with risk indicators
+ * Evaluates 9 factors to produce a 0-100 score with risk indicators
  */
 export class ScoringAlgorithm {
   /**
@@ -26,7 +52,7 @@ export class ScoringAlgorithm {
   calculateScore(
     opportunity: RacingOpportunity, 
     userHistory: UserHistory, 
-    mode: RecommendationMode
+    mode: ModeSelection
   ): Score {
     const factors = this.calculateFactors(opportunity, userHistory);
     const weights = this.getModeWeights(mode);
@@ -36,6 +62,7 @@ export class ScoringAlgorithm {
     const reasoning = this.generateReasoning(factors, opportunity, userHistory);
     const dataConfidence = this.calculateDataConfidence(opportunity, userHistory);
     const priorityScore = this.calculatePriorityScore(opportunity, userHistory, dataConfidence);
+    const ratingChange = this.estimateRatingChange(opportunity, userHistory);
 
     return {
       overall,
@@ -44,66 +71,57 @@ export class ScoringAlgorithm {
       safetyRatingRisk,
       reasoning,
       dataConfidence,
-      priorityScore
+      priorityScore,
+      ratingChange
     };
   }
 
   /**
-   * Calculate all 8 scoring factors
+   * Calculate all 9 scoring factors
    */
   private calculateFactors(opportunity: RacingOpportunity, userHistory: UserHistory): ScoringFactors {
     const seriesTrackHistory = this.findSeriesTrackHistory(opportunity, userHistory);
+    const blendedHistory = this.findBlendedHistory(opportunity, userHistory, seriesTrackHistory);
     
     return {
-      performance: this.calculatePerformanceFactor(opportunity, userHistory, seriesTrackHistory),
-      safety: this.calculateSafetyFactor(opportunity, userHistory, seriesTrackHistory),
+      performance: this.calculatePerformanceFactor(opportunity, userHistory, blendedHistory),
+      safety: this.calculateSafetyFactor(opportunity, userHistory, blendedHistory),
       consistency: this.calculateConsistencyFactor(opportunity, userHistory, seriesTrackHistory),
       predictability: this.calculatePredictabilityFactor(opportunity, userHistory),
       familiarity: this.calculateFamiliarityFactor(seriesTrackHistory, userHistory, opportunity),
       fatigueRisk: this.calculateFatigueRiskFactor(opportunity),
       attritionRisk: this.calculateAttritionRiskFactor(opportunity),
-      timeVolatility: this.calculateTimeVolatilityFactor(opportunity)
+      timeVolatility: this.calculateTimeVolatilityFactor(opportunity),
+      conditions: this.calculateConditionsFactor(opportunity, userHistory)
     };
   }
 
   /**
    * Factor 1: Performance - Expected finish delta positions (higher is better)
-   * Uses blended personal and global performance data with improved cross-series analysis
+   * Personal series/track history is shrunk toward the cross-series estimate, trusting
+   * it more the more (recency-weighted) races back it.
+   * Multi-class series use positions within the car class, since overall positions
+   * mostly reflect which class the driver was in.
+   * Where lap data has been imported, lap pace against the class field is blended in.
    */
   private calculatePerformanceFactor(
     opportunity: RacingOpportunity, 
     userHistory: UserHistory, 
     seriesTrackHistory?: SeriesTrackHistory
   ): number {
-    let expectedDelta = 0;
-    let confidence = 0;
-    
-    if (seriesTrackHistory && seriesTrackHistory.raceCount >= 3) {
-      // Use personal history if sufficient data (3+ races)
-      expectedDelta = seriesTrackHistory.avgPositionDelta;
-      confidence = 1.0;
-    } else {
-      // Enhanced cross-series performance analysis
-      const userLicense = userHistory.licenseClasses.find(l => l.category === opportunity.category);
-      const overallDelta = userHistory.overallStats.avgPositionDelta;
-      
-      if (userHistory.overallStats.totalRaces >= 5 && userLicense) {
-        // Use overall performance adjusted for license class and SOF differential
-        const userIRating = userLicense.iRating;
-        const opportunitySof = opportunity.globalStats.avgStrengthOfField;
-        
-        // Adjust performance based on iRating vs SOF differential
-        const iRatingDiff = userIRating - opportunitySof;
-        const sofAdjustment = Math.max(-5, Math.min(5, iRatingDiff / 200)); // ±5 positions per 200 iRating
-        
-        expectedDelta = overallDelta + sofAdjustment;
-        confidence = Math.min(userHistory.overallStats.totalRaces / 10, 0.8); // Max 80% confidence from cross-series
-      } else {
-        // Limited data - use conservative estimate based on license level
-        const licenseBonus = this.getLicenseLevelBonus(userLicense?.level);
-        expectedDelta = licenseBonus;
-        confidence = 0.3;
-      }
+    const multiClass = this.isMultiClass(opportunity);
+    const prior = this.estimateCrossSeriesDelta(opportunity, userHistory, multiClass);
+    let expectedDelta = prior.delta;
+    let confidence = prior.confidence;
+    
+    if (seriesTrackHistory && seriesTrackHistory.raceCount > 0) {
+      const personalDelta = multiClass
+        ? seriesTrackHistory.avgClassPositionDelta ?? seriesTrackHistory.avgPositionDelta
+        : seriesTrackHistory.avgPositionDelta;
+      const weight = shrinkageWeight(seriesTrackHistory.effectiveRaceCount ?? seriesTrackHistory.raceCount);
+
+      expectedDelta = (personalDelta * weight) + (prior.delta * (1 - weight));
+      confidence = weight + (prior.confidence * (1 - weight));
     }
     
     // Handle NaN values by providing defaults
@@ -119,10 +137,82 @@ export class ScoringAlgorithm {
     
     // Reduce score uncertainty when confidence is low
     const confidenceAdjustedScore = (baseScore * confidence) + (50 * (1 - confidence));
+
+    const pace = this.findPace(userHistory, seriesTrackHistory);
+    if (pace) {
+      const paceWeight = MAX_PACE_WEIGHT * shrinkageWeight(pace.races);
+      return Math.round((confidenceAdjustedScore * (1 - paceWeight)) + (pace.percentile * paceWeight));
+    }
     
     return Math.round(confidenceAdjustedScore);
   }
 
+  /**
+   * Pace percentile for the opportunity: from this series/track (or related tracks)
+   * when its races have lap data, otherwise across all races with lap data
+   */
+  private findPace(
+    userHistory: UserHistory,
+    seriesTrackHistory?: SeriesTrackHistory
+  ): { percentile: number; races: number } | null {
+    for (const history of [seriesTrackHistory, userHistory.overallStats]) {
+      const percentile = history?.avgPacePercentile;
+      const races = history?.paceRaceCount ?? 0;
+      if (percentile != null && isFinite(percentile) && races > 0) {
+        return { percentile, races };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Expected delta from races outside this series/track: overall performance adjusted
+   * for the SOF differential, or a license level estimate with little history
+   */
+  private estimateCrossSeriesDelta(
+    opportunity: RacingOpportunity,
+    userHistory: UserHistory,
+    multiClass: boolean
+  ): { delta: number; confidence: number } {
+    const userLicense = userHistory.licenseClasses.find(l => l.category === opportunity.category);
+    const overallDelta = multiClass
+      ? userHistory.overallStats.avgClassPositionDelta ?? userHistory.overallStats.avgPositionDelta
+      : userHistory.overallStats.avgPositionDelta;
+    let delta: number;
+    let confidence: number;
+    
+    if (userHistory.overallStats.totalRaces >= 5 && userLicense) {
+      // Use overall performance adjusted for license class and SOF differential
+      const userIRating = userLicense.iRating;
+      const opportunitySof = opportunity.globalStats.avgStrengthOfField;
+      
+      // Adjust performance based on iRating vs SOF differential
+      const iRatingDiff = userIRating - opportunitySof;
+      const sofAdjustment = Math.max(-5, Math.min(5, iRatingDiff / 200)); // ±5 positions per 200 iRating
+      
+      delta = overallDelta + sofAdjustment;
+      confidence = Math.min(userHistory.overallStats.totalRaces / 10, 0.8); // Max 80% confidence from cross-series
+    } else {
+      // Limited data - use conservative estimate based on license level
+      delta = this.getLicenseLevelBonus(userLicense?.level);
+      confidence = 0.3;
+    }
+
+    // Unknown license levels or ratings leave no usable estimate
+    if (isNaN(delta) || !isFinite(delta)) {
+      return { delta: 0, confidence: 0.2 };
+    }
+
+    return { delta, confidence };
+  }
+
+  /**
+   * Whether the series races several car classes together
+   */
+  private isMultiClass(opportunity: RacingOpportunity): boolean {
+    return (opportunity.carClassIds?.length ?? 0) > 1;
+  }
+
   /**
    * Get performance bonus based on license level using centralized helper
    */
@@ -143,40 +233,68 @@ export class ScoringAlgorithm {
     userHistory: UserHistory,
     seriesTrackHistory?: SeriesTrackHistory
   ): number {
+    const expectedIncidents = this.estimateIncidents(opportunity, userHistory, seriesTrackHistory);
+
+    // Convert incidents to 0-100 score (lower incidents = higher score)
+    // Range expanded to 0-20 to account for race length multiplier (up to 2x)
+    // This ensures differentiation is preserved even for high incident rates in long races
+    const normalizedIncidents = Math.max(0, Math.min(20, expectedIncidents));
+    const safetyScore = Math.round((1 - (normalizedIncidents / 20)) * 100);
+
+    return safetyScore;
+  }
+
+  /**
+   * Expected incidents in this race: personal series/track history shrunk toward
+   * personal and global rates adjusted for race length
+   */
+  private estimateIncidents(
+    opportunity: RacingOpportunity,
+    userHistory: UserHistory,
+    seriesTrackHistory?: SeriesTrackHistory
+  ): number {
+    // Enhanced cross-series safety analysis with race length adjustment
+    const userLicense = userHistory.licenseClasses.find(l => l.category === opportunity.category);
+    const overallIncidents = userHistory.overallStats.avgIncidentsPerRace;
+    const globalIncidents = opportunity.globalStats.avgIncidentsPerRace;
+
+    // Calculate race length multiplier (baseline: 20 minutes)
+    // Longer races = more opportunity for incidents
+    const baselineRaceLength = 20;
+    const raceLengthMultiplier = this.getRaceLengthIncidentMultiplier(opportunity.raceLength, baselineRaceLength);
     let expectedIncidents = 0;
 
-    if (seriesTrackHistory && seriesTrackHistory.raceCount >= 3) {
-      // Use personal history if sufficient data - no race length adjustment needed
-      // because the history already reflects this specific series/track's race length
-      expectedIncidents = seriesTrackHistory.avgIncidents;
-    } else {
-      // Enhanced cross-series safety analysis with race length adjustment
-      const userLicense = userHistory.licenseClasses.find(l => l.category === opportunity.category);
-      const overallIncidents = userHistory.overallStats.avgIncidentsPerRace;
-      const globalIncidents = opportunity.globalStats.avgIncidentsPerRace;
+    if (userHistory.overallStats.totalRaces >= 3 && userLicense) {
+      // Blend personal overall with global, adjusted for safety rating
+      const safetyRatingBonus = this.getSafetyRatingBonus(userLicense.safetyRating);
+      const personalWeight = Math.min(userHistory.overallStats.totalRaces / 10, 0.7);
+      const globalWeight = 1 - personalWeight;
 
-      // Calculate race length multiplier (baseline: 20 minutes)
-      // Longer races = more opportunity for incidents
-      const baselineRaceLength = 20;
-      const raceLengthMultiplier = this.getRaceLengthIncidentMultiplier(opportunity.raceLength, baselineRaceLength);
+      const adjustedPersonalIncidents = Math.max(0, overallIncidents + safetyRatingBonus);
+      const baseExpectedIncidents = (adjustedPersonalIncidents * personalWeight) + (globalIncidents * globalWeight);
 
-      if (userHistory.overallStats.totalRaces >= 3 && userLicense) {
-        // Blend personal overall with global, adjusted for safety rating
-        const safetyRatingBonus = this.getSafetyRatingBonus(userLicense.safetyRating);
-        const personalWeight = Math.min(userHistory.overallStats.totalRaces / 10, 0.7);
-        const globalWeight = 1 - personalWeight;
+      // Apply race length multiplier for unfamiliar series
+      expectedIncidents = baseExpectedIncidents * raceLengthMultiplier;
+    } else {
+      // Limited data - use global with safety rating adjustment and race length multiplier
+      const safetyRatingBonus = userLicense ? this.getSafetyRatingBonus(userLicense.safetyRating) : 0;
+      const baseExpectedIncidents = Math.max(0, globalIncidents + safetyRatingBonus);
+      expectedIncidents = baseExpectedIncidents * raceLengthMultiplier;
+    }
 
-        const adjustedPersonalIncidents = Math.max(0, overallIncidents + safetyRatingBonus);
-        const baseExpectedIncidents = (adjustedPersonalIncidents * personalWeight) + (globalIncidents * globalWeight);
+    // Unknown safety ratings leave no usable estimate
+    if (isNaN(expectedIncidents) || !isFinite(expectedIncidents)) {
+      expectedIncidents = 2.5; // Default moderate incident rate
+    }
 
-        // Apply race length multiplier for unfamiliar series
-        expectedIncidents = baseExpectedIncidents * raceLengthMultiplier;
-      } else {
-        // Limited data - use global with safety rating adjustment and race length multiplier
-        const safetyRatingBonus = userLicense ? this.getSafetyRatingBonus(userLicense.safetyRating) : 0;
-        const baseExpectedIncidents = Math.max(0, globalIncidents + safetyRatingBonus);
-        expectedIncidents = baseExpectedIncidents * raceLengthMultiplier;
-      }
+    // Series/track history already includes its starts, so only the fallback is adjusted
+    expectedIncidents *= this.getStartRiskMultiplier(opportunity, userHistory);
+
+    if (seriesTrackHistory && seriesTrackHistory.raceCount > 0) {
+      // Personal history needs no race length adjustment because it already
+      // reflects this specific series/track's race length
+      const weight = shrinkageWeight(seriesTrackHistory.effectiveRaceCount ?? seriesTrackHistory.raceCount);
+      expectedIncidents = (seriesTrackHistory.avgIncidents * weight) + (expectedIncidents * (1 - weight));
     }
     
     // Handle NaN values by providing defaults
@@ -184,13 +302,31 @@ export class ScoringAlgorithm {
       expectedIncidents = 2.5; // Default moderate incident rate
     }
 
-    // Convert incidents to 0-100 score (lower incidents = higher score)
-    // Range expanded to 0-20 to account for race length multiplier (up to 2x)
-    // This ensures differentiation is preserved even for high incident rates in long races
-    const normalizedIncidents = Math.max(0, Math.min(20, expectedIncidents));
-    const safetyScore = Math.round((1 - (normalizedIncidents / 20)) * 100);
+    return expectedIncidents;
+  }
 
-    return safetyScore;
+  /**
+   * Incident multiplier for series with chaotic starts, for drivers whose incidents
+   * cluster on lap 1. It grows with how much more of the user's incident points come
+   * at the start than the field's, and with how many more start incidents per driver
+   * the series has than the user's races overall. 1 without enough event log data.
+   */
+  private getStartRiskMultiplier(opportunity: RacingOpportunity, userHistory: UserHistory): number {
+    const starts = userHistory.startIncidents;
+    if (!starts || starts.raceCount < MIN_START_PROFILE_RACES
+      || starts.startShare === null || starts.fieldStartShare === null
+      || starts.fieldStartIncidentsPerDriver <= 0) {
+      return 1;
+    }
+
+    const series = starts.series.find(stats => stats.seriesId === opportunity.seriesId);
+    if (!series || series.raceCount < MIN_SERIES_START_RACES) {
+      return 1;
+    }
+
+    const clustering = Math.max(0, starts.startShare - starts.fieldStartShare);
+    const chaos = Math.min(1, Math.max(0, series.fieldStartIncidentsPerDriver / starts.fieldStartIncidentsPerDriver - 1));
+    return Math.min(MAX_START_RISK_MULTIPLIER, 1 + clustering * chaos);
   }
 
   /**
@@ -293,7 +429,7 @@ export class ScoringAlgorithm {
   }
 
   /**
-   * Factor 5: Familiarity - Combination of series experience and track experience (higher is better)
+   * Factor 5: Familiarity - Combination of series, track and car experience (higher is better)
    * Updated to use real race count data from analytics integration
    */
   private calculateFamiliarityFactor(
@@ -305,8 +441,16 @@ export class ScoringAlgorithm {
       return seriesTrackHistory?.raceCount ? Math.min(100, seriesTrackHistory.raceCount * 10) : 0;
     }
 
+    // Races in this series at related tracks count toward both exact and track
+    // experience, scaled by how alike the tracks are
+    const relatedSeriesRaces = userHistory.seriesTrackHistory
+      .filter(h => h.seriesId === opportunity.seriesId && h.trackId !== opportunity.trackId)
+      .reduce((sum, h) => sum + h.raceCount * trackSimilarity(opportunity.trackProfile, h.trackProfile), 0);
+    const relatedTrackRaces = findRelatedTracks(opportunity.trackProfile, userHistory.seriesTrackHistory)
+      .reduce((sum, track) => sum + track.raceCount * track.similarity, 0);
+
     // Direct series-track experience (highest weight - 60%)
-    const exactRaceCount = seriesTrackHistory?.raceCount ?? 0;
+    const exactRaceCount = Math.round((seriesTrackHistory?.raceCount ?? 0) + relatedSeriesRaces);
     let exactScore = 0;
     
     // Updated thresholds to meet requirements 3.2, 3.3
@@ -330,9 +474,9 @@ export class ScoringAlgorithm {
     else seriesScore = 90;
 
     // Track experience across all series (15% weight)
-    const trackExperience = userHistory.seriesTrackHistory
+    const trackExperience = Math.round(userHistory.seriesTrackHistory
       .filter(h => h.trackId === opportunity.trackId)
-      .reduce((sum, h) => sum + h.raceCount, 0);
+      .reduce((sum, h) => sum + h.raceCount, 0) + relatedTrackRaces);
     
     let trackScore = 0;
     if (trackExperience === 0) trackScore = 0;
@@ -341,12 +485,46 @@ export class ScoringAlgorithm {
     else if (trackExperience <= 20) trackScore = 50 + ((trackExperience - 10) / 10) * 30; // 50-80
     else trackScore = 80;
 
+    // Car experience across all series and tracks (20% weight, only when car data is available)
+    const carExperience = this.getCarRaceCount(userHistory, opportunity);
+    if (carExperience !== null) {
+      let carScore = 0;
+      if (carExperience === 0) carScore = 0;
+      else if (carExperience <= 3) carScore = 30;
+      else if (carExperience <= 10) carScore = 30 + ((carExperience - 3) / 7) * 40; // 30-70
+      else if (carExperience <= 20) carScore = 70 + ((carExperience - 10) / 10) * 30; // 70-100
+      else carScore = 100;
+
+      const weightedWithCar = (exactScore * 0.5) + (seriesScore * 0.2) + (trackScore * 0.1) + (carScore * 0.2);
+      return Math.round(Math.min(100, weightedWithCar));
+    }
+
     // Weighted combination
     const weightedScore = (exactScore * 0.6) + (seriesScore * 0.25) + (trackScore * 0.15);
     
     return Math.round(Math.min(100, weightedScore));
   }
 
+  /**
+   * Races the user has driven in any of the opportunity's cars, across all series and tracks.
+   * Returns null when either side has no car data (older results, lookups not synced yet).
+   */
+  private getCarRaceCount(userHistory: UserHistory, opportunity: RacingOpportunity): number | null {
+    if (!opportunity.carIds || opportunity.carIds.length === 0) {
+      return null;
+    }
+
+    const carExperience = userHistory.seriesTrackHistory.flatMap(h => h.carExperience || []);
+    if (carExperience.length === 0) {
+      return null;
+    }
+
+    const carIds = new Set(opportunity.carIds);
+    return carExperience
+      .filter(experience => carIds.has(experience.carId))
+      .reduce((sum, experience) => sum + experience.raceCount, 0);
+  }
+
   /**
    * Factor 6: Fatigue Risk - Race length and open setup penalty (higher is worse)
    */
@@ -420,46 +598,55 @@ export class ScoringAlgorithm {
   }
 
   /**
-   * Get mode-specific weights for combining factors
+   * Factor 9: Conditions - Incident rate in conditions like this week's (higher is better)
+   * Compares the user's incidents in races with the same time of day, dynamic weather
+   * and rain against their overall rate. Neutral (50) when either side is unknown.
    */
-  private getModeWeights(mode: RecommendationMode): ModeWeights {
-    switch (mode) {
-      case RecommendationModeEnum.BALANCED:
-        return {
-          performance: 0.15,
-          safety: 0.15,
-          consistency: 0.15,
-          predictability: 0.10,
-          familiarity: 0.15,
-          fatigueRisk: 0.10,
-          attritionRisk: 0.10,
-          timeVolatility: 0.10
-        };
-      
-      case RecommendationModeEnum.IRATING_PUSH:
-        return {
-          performance: 0.25, // Higher weight on performance
-          safety: 0.10, // Lower weight on safety
-          consistency: 0.10,
-          predictability: 0.15, // Higher weight on predictability
-          familiarity: 0.20, // Higher weight on familiarity
-          fatigueRisk: 0.05,
-          attritionRisk: 0.10,
-          timeVolatility: 0.05
-        };
-      
-      case RecommendationModeEnum.SAFETY_RECOVERY:
-        return {
-          performance: 0.05, // Lower weight on performance
-          safety: 0.30, // Much higher weight on safety
-          consistency: 0.20, // Higher weight on consistency
-          predictability: 0.15,
-          familiarity: 0.15,
-          fatigueRisk: 0.05,
-          attritionRisk: 0.05, // Lower weight on attrition
-          timeVolatility: 0.05
-        };
+  private calculateConditionsFactor(opportunity: RacingOpportunity, userHistory: UserHistory): number {
+    const similar = this.getSimilarConditionsStats(opportunity, userHistory);
+    const overallIncidents = userHistory.overallStats.avgIncidentsPerRace;
+    if (!similar || !Number.isFinite(overallIncidents) || overallIncidents <= 0) {
+      return 50;
+    }
+
+    // Relative difference from the overall rate: +1 = no incidents, -1 = double the rate
+    const relativeDifference = Math.max(-1, Math.min(1, (overallIncidents - similar.avgIncidents) / overallIncidents));
+    const confidence = Math.min(similar.raceCount / FULL_CONFIDENCE_CONDITIONS_RACES, 1);
+
+    return Math.round(50 + relativeDifference * 50 * confidence);
+  }
+
+  /**
+   * Combine the user's races run in the same conditions as this week
+   */
+  private getSimilarConditionsStats(
+    opportunity: RacingOpportunity,
+    userHistory: UserHistory
+  ): { raceCount: number; avgIncidents: number } | null {
+    const conditions = opportunity.conditions;
+    if (!conditions || !userHistory.conditionsHistory?.length) {
+      return null;
     }
+
+    const matching = userHistory.conditionsHistory.filter(stats =>
+      stats.timeOfDay === conditions.timeOfDay &&
+      stats.dynamicWeather === conditions.dynamicWeather &&
+      stats.rain === conditions.rain
+    );
+    const raceCount = matching.reduce((sum, stats) => sum + stats.raceCount, 0);
+    if (raceCount < MIN_CONDITIONS_RACES) {
+      return null;
+    }
+
+    const totalIncidents = matching.reduce((sum, stats) => sum + stats.avgIncidents * stats.raceCount, 0);
+    return { raceCount, avgIncidents: totalIncidents / raceCount };
+  }
+
+  /**
+   * Get mode-specific weights for combining factors
+   */
+  private getModeWeights(mode: ModeSelection): ModeWeights {
+    return getModeWeights(mode);
   }
 
   /**
@@ -474,7 +661,8 @@ export class ScoringAlgorithm {
       (factors.familiarity * weights.familiarity) +
       (factors.fatigueRisk * weights.fatigueRisk) +
       (factors.attritionRisk * weights.attritionRisk) +
-      (factors.timeVolatility * weights.timeVolatility);
+      (factors.timeVolatility * weights.timeVolatility) +
+      (factors.conditions * weights.conditions);
     
     return Math.round(weightedSum);
   }
@@ -492,6 +680,64 @@ export class ScoringAlgorithm {
     return RiskLevelEnum.LOW;
   }
 
+  /**
+   * Estimate the iRating and Safety Rating change for the race.
+   * The start is taken as the position the user's iRating predicts against the
+   * forecast SOF and field size (the usual grid order), and the expected finish
+   * shifts it by the positions the user historically gains or loses.
+   */
+  private estimateRatingChange(opportunity: RacingOpportunity, userHistory: UserHistory): RatingChangeEstimate {
+    const seriesTrackHistory = this.findSeriesTrackHistory(opportunity, userHistory);
+    const userLicense = userHistory.licenseClasses.find(l => l.category === opportunity.category);
+    const slots = opportunity.timeSlots;
+    const strengthOfField = slots.length > 0
+      ? slots.reduce((sum, slot) => sum + slot.strengthOfField, 0) / slots.length
+      : opportunity.globalStats.avgStrengthOfField;
+    const fieldSize = slots.length > 0
+      ? slots.reduce((sum, slot) => sum + slot.participantCount, 0) / slots.length
+      : 20;
+
+    const hasSeriesHistory = !!seriesTrackHistory && seriesTrackHistory.raceCount >= 3;
+    const multiClass = this.isMultiClass(opportunity);
+    const positionsGained = hasSeriesHistory
+      ? (multiClass ? seriesTrackHistory!.avgClassPositionDelta ?? seriesTrackHistory!.avgPositionDelta : seriesTrackHistory!.avgPositionDelta)
+      : userHistory.overallStats.totalRaces >= 5
+        ? (multiClass ? userHistory.overallStats.avgClassPositionDelta ?? userHistory.overallStats.avgPositionDelta : userHistory.overallStats.avgPositionDelta)
+        : 0;
+    const finishStdDev = hasSeriesHistory
+      ? seriesTrackHistory!.finishPositionStdDev
+      : userHistory.overallStats.overallConsistency || fieldSize / 4;
+
+    const startPosition = userLicense
+      ? ratingExpectedFinish(userLicense.iRating, strengthOfField, Math.max(2, Math.round(fieldSize)))
+      : (fieldSize + 1) / 2;
+    const expectedFinish = Math.min(Math.max(1, startPosition - (positionsGained || 0)), Math.max(2, Math.round(fieldSize)));
+    const expectedIncidents = this.estimateIncidents(
+      opportunity,
+      userHistory,
+      this.findBlendedHistory(opportunity, userHistory, seriesTrackHistory)
+    );
+
+    const laps = opportunity.raceLapLimit || Math.round(opportunity.raceLength / DEFAULT_LAP_MINUTES);
+    const isOval = opportunity.category === Category.OVAL || opportunity.category === Category.DIRT_OVAL;
+    const cornersPerLap = opportunity.cornersPerLap || (isOval ? DEFAULT_OVAL_CORNERS_PER_LAP : DEFAULT_ROAD_CORNERS_PER_LAP);
+
+    return {
+      iRating: userLicense
+        ? estimateIRatingChange({
+          iRating: userLicense.iRating,
+          strengthOfField,
+          fieldSize,
+          expectedFinish,
+          finishStdDev
+        })
+        : null,
+      safetyRating: estimateSafetyRatingChange({ corners: laps * cornersPerLap, expectedIncidents }),
+      expectedFinish: Math.round(expectedFinish * 10) / 10,
+      expectedIncidents: Math.round(expectedIncidents * 10) / 10
+    };
+  }
+
   /**
    * Calculate Safety Rating risk level based on factors
    */
@@ -528,13 +774,57 @@ export class ScoringAlgorithm {
     } else if (factors.safety <= 30) {
       reasoning.push("High incident risk - proceed with caution");
     }
+    if (this.getStartRiskMultiplier(opportunity, userHistory) >= 1.1) {
+      reasoning.push("Starts in this series are chaotic, and your incidents tend to come on lap 1");
+    }
     
     // Familiarity reasoning
-    if (factors.familiarity >= 70) {
+    if (!this.findSeriesTrackHistory(opportunity, userHistory)
+      && findRelatedTracks(opportunity.trackProfile, userHistory.seriesTrackHistory).length > 0) {
+      reasoning.push("First time at this layout, but your races at similar tracks carry over");
+    } else if (factors.familiarity >= 70) {
       reasoning.push("High familiarity with this series/track combination");
     } else if (factors.familiarity === 0) {
       reasoning.push("New series/track combination - consider practice first");
     }
+
+    // Car reasoning
+    if (this.getCarRaceCount(userHistory, opportunity) === 0) {
+      reasoning.push("You haven't raced this car yet - expect time getting up to speed");
+    }
+    
+    // Conditions reasoning
+    if (opportunity.conditions && factors.conditions !== 50) {
+      const notable = describeConditions(opportunity.conditions);
+      const label = notable.length > 0 ? `${notable.join(' and ')} races` : 'similar conditions';
+      if (factors.conditions <= 35) {
+        reasoning.push(`You've had more incidents than usual in ${label}`);
+      } else if (factors.conditions >= 70) {
+        reasoning.push(`You've raced cleaner than usual in ${label}`);
+      }
+    }
+    
+    // Qualifying reasoning
+    const qualifying = userHistory.qualifying?.series.find(stats => stats.seriesId === opportunity.seriesId);
+    if (qualifying?.advice && qualifying.front && qualifying.back) {
+      const { front, back } = qualifying;
+      if (qualifying.advice === 'qualify') {
+        const pace = qualifying.avgPoleGapPercent !== null
+          ? `; your qualifying laps are ${qualifying.avgPoleGapPercent.toFixed(1)}% off pole`
+          : '';
+        reasoning.push(
+          `Qualify for this one: from the front half of the grid you finish ahead of ${Math.round(front.avgFinishPercentile)}% ` +
+          `of the field with ${front.avgIncidents.toFixed(1)}x, against ${Math.round(back.avgFinishPercentile)}% ` +
+          `with ${back.avgIncidents.toFixed(1)}x from the back${pace}`
+        );
+      } else {
+        reasoning.push(
+          `Consider starting from the back: from the back half of the grid you finish ahead of ${Math.round(back.avgFinishPercentile)}% ` +
+          `of the field with ${back.avgIncidents.toFixed(1)}x, against ${Math.round(front.avgFinishPercentile)}% ` +
+          `with ${front.avgIncidents.toFixed(1)}x from the front`
+        );
+      }
+    }
     
     // Fatigue reasoning
     if (factors.fatigueRisk <= 30) {
@@ -561,6 +851,18 @@ export class ScoringAlgorithm {
     );
   }
 
+  /**
+   * Series/track history with the series' history at related tracks (other
+   * configurations, similar circuits) folded in at reduced weight
+   */
+  private findBlendedHistory(
+    opportunity: RacingOpportunity,
+    userHistory: UserHistory,
+    seriesTrackHistory?: SeriesTrackHistory
+  ): SeriesTrackHistory | undefined {
+    return blendRelatedHistory(opportunity.seriesId, opportunity.trackProfile, seriesTrackHistory, userHistory.seriesTrackHistory);
+  }
+
   /**
    * Calculate data confidence levels for each scoring factor
    * Requirements: 5.2
@@ -570,12 +872,15 @@ export class ScoringAlgorithm {
     userHistory: UserHistory
   ): DataConfidence {
     const seriesTrackHistory = this.findSeriesTrackHistory(opportunity, userHistory);
+    const relatedTracks = findRelatedTracks(opportunity.trackProfile, userHistory.seriesTrackHistory);
+    // History borrowed from related tracks is never more than an estimate
+    const hasBorrowedHistory = this.findBlendedHistory(opportunity, userHistory, seriesTrackHistory) !== seriesTrackHistory;
     
     // Performance confidence based on race count
     let performanceConfidence: ConfidenceLevel = ConfidenceLevelEnum.NO_DATA;
     if (seriesTrackHistory && seriesTrackHistory.raceCount >= 3) {
       performanceConfidence = ConfidenceLevelEnum.HIGH;
-    } else if (userHistory.overallStats.totalRaces >= 5) {
+    } else if (userHistory.overallStats.totalRaces >= 5 || hasBorrowedHistory) {
       performanceConfidence = ConfidenceLevelEnum.ESTIMATED;
     }
 
@@ -583,7 +888,7 @@ export class ScoringAlgorithm {
     let safetyConfidence: ConfidenceLevel = ConfidenceLevelEnum.NO_DATA;
     if (seriesTrackHistory && seriesTrackHistory.raceCount >= 3) {
       safetyConfidence = ConfidenceLevelEnum.HIGH;
-    } else if (userHistory.overallStats.totalRaces >= 3) {
+    } else if (userHistory.overallStats.totalRaces >= 3 || hasBorrowedHistory) {
       safetyConfidence = ConfidenceLevelEnum.ESTIMATED;
     }
 
@@ -595,10 +900,13 @@ export class ScoringAlgorithm {
       consistencyConfidence = ConfidenceLevelEnum.ESTIMATED;
     }
 
-    // Familiarity confidence based on any experience
-    const familiarityConfidence = analyticsIntegration.getConfidenceLevel(
+    // Familiarity confidence based on any experience; related tracks alone only estimate it
+    let familiarityConfidence = analyticsIntegration.getConfidenceLevel(
       seriesTrackHistory?.raceCount ?? 0
     );
+    if (familiarityConfidence === ConfidenceLevelEnum.NO_DATA && relatedTracks.length > 0) {
+      familiarityConfidence = ConfidenceLevelEnum.ESTIMATED;
+    }
 
     // Global stats confidence (simplified - in real implementation would come from analytics)
     const globalStatsConfidence: 'high' | 'moderate' | 'default' = 'moderate';
@@ -608,7 +916,8 @@ export class ScoringAlgorithm {
       safety: safetyConfidence,
       consistency: consistencyConfidence,
       familiarity: familiarityConfidence,
-      globalStats: globalStatsConfidence
+      globalStats: globalStatsConfidence,
+      ...(relatedTracks.length > 0 && { relatedTracks })
     };
   }
 
@@ -0,0 +1,137 @@
+import { ConfidenceLevel } from '../types/recommendation';
+import {
+  ScoredOpportunity,
+  SeasonHighlight,
+  SeasonPlan,
+  SeasonSeriesOutlook,
+  SeasonWeekOutlook
+} from './types';
+
+/**
+ * Season planner
+ * Lays out every remaining race week of each series with its score, so users can see
+ * which series have enough good weeks left for the participation credit (racing in
+ * 8 of the 12 weeks) and where their strongest upcoming tracks are.
+ */
+
+// A week scoring at least this is worth racing
+export const GOOD_WEEK_SCORE = 60;
+
+// Race weeks needed in a series for the season participation credit
+export const PARTICIPATION_CREDIT_WEEKS = 8;
+
+const MAX_HIGHLIGHTS = 5;
+
+export type SeasonOpportunity = ScoredOpportunity & { weekStart: Date };
+
+/**
+ * Group scored opportunities of the remaining weeks into a per-series outlook.
+ * `racedWeeks` holds the race weeks the user already raced in each series this season.
+ */
+export function buildSeasonPlan(
+  opportunities: SeasonOpportunity[],
+  options: {
+    racedWeeks: Map<number, number[]>;
+    pinnedSeriesIds: number[];
+  }
+): Pick<SeasonPlan, 'series' | 'highlights' | 'goodWeekScore' | 'participationCreditWeeks'> {
+  const bySeries = new Map<number, SeasonOpportunity[]>();
+  for (const opportunity of opportunities) {
+    bySeries.set(opportunity.seriesId, [...(bySeries.get(opportunity.seriesId) || []), opportunity]);
+  }
+
+  const series: SeasonSeriesOutlook[] = [...bySeries.values()].map(entries => {
+    // One track per week; keep the better one should a week list two
+    const byWeek = new Map<number, SeasonOpportunity>();
+    for (const entry of entries) {
+      const existing = byWeek.get(entry.raceWeekNum);
+      if (!existing || entry.score.overall > existing.score.overall) {
+        byWeek.set(entry.raceWeekNum, entry);
+      }
+    }
+
+    const weeks: SeasonWeekOutlook[] = [...byWeek.values()]
+      .sort((a, b) => a.raceWeekNum - b.raceWeekNum)
+      .map(entry => ({
+        raceWeekNum: entry.raceWeekNum,
+        weekStart: entry.weekStart,
+        trackId: entry.trackId,
+        trackName: entry.trackName,
+        score: entry.score.overall,
+        performance: entry.score.factors.performance,
+        isGoodWeek: entry.score.overall >= GOOD_WEEK_SCORE,
+      }));
+
+    const { seriesId, seriesName, category, licenseRequired } = entries[0];
+    const racedWeeks = new Set(options.racedWeeks.get(seriesId) || []);
+    const goodWeeks = weeks.filter(week => week.isGoodWeek);
+    const creditWeeks = racedWeeks.size + goodWeeks.filter(week => !racedWeeks.has(week.raceWeekNum)).length;
+
+    return {
+      seriesId,
+      seriesName,
+      category,
+      licenseRequired,
+      pinned: options.pinnedSeriesIds.includes(seriesId),
+      weeks,
+      goodWeeks: goodWeeks.length,
+      weeksRaced: racedWeeks.size,
+      creditWeeks,
+      earnsParticipationCredit: creditWeeks >= PARTICIPATION_CREDIT_WEEKS,
+      averageScore: Math.round(weeks.reduce((sum, week) => sum + week.score, 0) / weeks.length),
+    };
+  });
+
+  // Pinned series in pin order, then the series with the most weeks toward the credit
+  const pinOrder = (outlook: SeasonSeriesOutlook) => {
+    const index = options.pinnedSeriesIds.indexOf(outlook.seriesId);
+    return index === -1 ? Number.POSITIVE_INFINITY : index;
+  };
+  series.sort((a, b) =>
+    pinOrder(a) - pinOrder(b) ||
+    b.creditWeeks - a.creditWeeks ||
+    b.goodWeeks - a.goodWeeks ||
+    b.averageScore - a.averageScore
+  );
+
+  // Strongest tracks are those with history (exact or related) predicting the best results
+  const bestByTrack = new Map<number, SeasonOpportunity>();
+  for (const opportunity of opportunities) {
+    if (opportunity.score.dataConfidence.performance === ConfidenceLevel.NO_DATA) {
+      continue;
+    }
+    const existing = bestByTrack.get(opportunity.trackId);
+    if (
+      !existing ||
+      opportunity.score.factors.performance > existing.score.factors.performance ||
+      (opportunity.score.factors.performance === existing.score.factors.performance && opportunity.score.overall > existing.score.overall)
+    ) {
+      bestByTrack.set(opportunity.trackId, opportunity);
+    }
+  }
+
+  const highlights: SeasonHighlight[] = [...bestByTrack.values()]
+    .sort((a, b) =>
+      b.score.factors.performance - a.score.factors.performance ||
+      b.score.overall - a.score.overall ||
+      a.raceWeekNum - b.raceWeekNum
+    )
+    .slice(0, MAX_HIGHLIGHTS)
+    .map(opportunity => ({
+      seriesId: opportunity.seriesId,
+      seriesName: opportunity.seriesName,
+      trackId: opportunity.trackId,
+      trackName: opportunity.trackName,
+      raceWeekNum: opportunity.raceWeekNum,
+      weekStart: opportunity.weekStart,
+      score: opportunity.score.overall,
+      performance: opportunity.score.factors.performance,
+    }));
+
+  return {
+    series,
+    highlights,
+    goodWeekScore: GOOD_WEEK_SCORE,
+    participationCreditWeeks: PARTICIPATION_CREDIT_WEEKS,
+  };
+}
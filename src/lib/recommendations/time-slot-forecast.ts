@@ -0,0 +1,154 @@
+import { GlobalStats, TimeSlot, TimeSlotStats, ForecastSource } from './types';
+
+/**
+ * Time slot forecasts
+ *
+ * Estimates the SOF and field size of an upcoming session from the stored
+ * aggregates for the same series, weekday and UTC hour (see time_slot_stats).
+ *
+ * Thin history is handled by shrinkage rather than cut-offs. The estimate starts
+ * from a fallback (the series/track global stats for SOF, the series' average
+ * field size across all slots), is pulled toward the series' history at that
+ * weekday and hour on any track, then toward the history for this exact track.
+ * Each level counts as many races as it has against PRIOR_RACES for the level
+ * below, so a slot with one or two races barely moves the estimate.
+ */
+
+// Weight, in races, given to the less specific estimate when blending levels
+const PRIOR_RACES = 5;
+
+// z-score for the 80% band around the estimate
+const BAND_Z = 1.28;
+
+// Used when a series has no stored field sizes at all
+const DEFAULT_FIELD_SIZE = 20;
+const DEFAULT_FIELD_SIZE_STD_DEV = 8;
+
+interface Estimate {
+  mean: number;
+  stdDev: number;
+  raceCount: number;
+}
+
+interface SlotKey {
+  hour: number;
+  dayOfWeek: number;
+  time?: Date; // Concrete session start, when known
+}
+
+/**
+ * Combine aggregate rows into one estimate, including the spread between rows
+ */
+function combineRows(
+  rows: TimeSlotStats[],
+  mean: (row: TimeSlotStats) => number | null,
+  stdDev: (row: TimeSlotStats) => number | null
+): Estimate | null {
+  const usable = rows.filter(row => row.raceCount > 0 && mean(row) !== null);
+  const raceCount = usable.reduce((sum, row) => sum + row.raceCount, 0);
+  if (raceCount === 0) {
+    return null;
+  }
+
+  const combinedMean = usable.reduce((sum, row) => sum + mean(row)! * row.raceCount, 0) / raceCount;
+  const withSpread = usable.filter(row => stdDev(row) !== null);
+  const spreadCount = withSpread.reduce((sum, row) => sum + row.raceCount, 0);
+  const variance = spreadCount === 0
+    ? null
+    : withSpread.reduce((sum, row) =>
+        sum + row.raceCount * (stdDev(row)! ** 2 + (mean(row)! - combinedMean) ** 2), 0
+      ) / spreadCount;
+
+  return {
+    mean: combinedMean,
+    stdDev: variance === null ? NaN : Math.sqrt(variance), // NaN: single races, spread unknown
+    raceCount,
+  };
+}
+
+/**
+ * Pull the prior toward a more specific estimate, weighted by race counts
+ */
+function shrink(prior: Estimate, specific: Estimate | null): Estimate {
+  if (!specific) {
+    return prior;
+  }
+
+  const total = specific.raceCount + PRIOR_RACES;
+  const specificStdDev = Number.isNaN(specific.stdDev) ? prior.stdDev : specific.stdDev;
+
+  return {
+    mean: (specific.mean * specific.raceCount + prior.mean * PRIOR_RACES) / total,
+    stdDev: Math.sqrt((specificStdDev ** 2 * specific.raceCount + prior.stdDev ** 2 * PRIOR_RACES) / total),
+    raceCount: specific.raceCount,
+  };
+}
+
+/**
+ * Forecast a single time slot for a series/track.
+ * `seriesStats` are the aggregates for the series across all of its tracks.
+ */
+export function forecastTimeSlot(
+  slot: SlotKey,
+  seriesId: number,
+  trackId: number,
+  seriesStats: TimeSlotStats[],
+  globalStats: GlobalStats
+): TimeSlot {
+  const ownSeries = seriesStats.filter(row => row.seriesId === seriesId);
+  const atSlot = ownSeries.filter(row => row.dayOfWeek === slot.dayOfWeek && row.hour === slot.hour);
+  const atTrack = atSlot.filter(row => row.trackId === trackId);
+
+  const sofOf = (row: TimeSlotStats) => row.avgStrengthOfField;
+  const sofSpreadOf = (row: TimeSlotStats) => row.strengthOfFieldStdDev;
+  const sizeOf = (row: TimeSlotStats) => row.avgFieldSize;
+  const sizeSpreadOf = (row: TimeSlotStats) => row.fieldSizeStdDev;
+
+  const sofFallback: Estimate = {
+    mean: globalStats.avgStrengthOfField,
+    stdDev: globalStats.strengthOfFieldVariability,
+    raceCount: 0,
+  };
+  const seriesFieldSize = combineRows(ownSeries, sizeOf, sizeSpreadOf);
+  const sizeFallback: Estimate = {
+    mean: seriesFieldSize?.mean ?? DEFAULT_FIELD_SIZE,
+    stdDev: seriesFieldSize && !Number.isNaN(seriesFieldSize.stdDev) ? seriesFieldSize.stdDev : DEFAULT_FIELD_SIZE_STD_DEV,
+    raceCount: 0,
+  };
+
+  const sof = shrink(shrink(sofFallback, combineRows(atSlot, sofOf, sofSpreadOf)), combineRows(atTrack, sofOf, sofSpreadOf));
+  const fieldSize = shrink(shrink(sizeFallback, combineRows(atSlot, sizeOf, sizeSpreadOf)), combineRows(atTrack, sizeOf, sizeSpreadOf));
+
+  const trackRaces = atTrack.reduce((sum, row) => sum + row.raceCount, 0);
+  const seriesRaces = atSlot.reduce((sum, row) => sum + row.raceCount, 0);
+  const source: ForecastSource = trackRaces > 0 ? 'slot' : seriesRaces > 0 ? 'series' : 'fallback';
+
+  return {
+    hour: slot.hour,
+    dayOfWeek: slot.dayOfWeek,
+    ...(slot.time ? { startsAt: slot.time } : {}),
+    strengthOfField: Math.round(sof.mean),
+    participantCount: Math.round(fieldSize.mean),
+    forecast: {
+      strengthOfFieldLow: Math.max(0, Math.round(sof.mean - BAND_Z * sof.stdDev)),
+      strengthOfFieldHigh: Math.round(sof.mean + BAND_Z * sof.stdDev),
+      participantCountLow: Math.max(1, Math.round(fieldSize.mean - BAND_Z * fieldSize.stdDev)),
+      participantCountHigh: Math.round(fieldSize.mean + BAND_Z * fieldSize.stdDev),
+      source,
+      raceCount: source === 'slot' ? trackRaces : seriesRaces,
+    },
+  };
+}
+
+/**
+ * Forecast a list of time slots for a series/track
+ */
+export function forecastTimeSlots(
+  slots: SlotKey[],
+  seriesId: number,
+  trackId: number,
+  seriesStats: TimeSlotStats[],
+  globalStats: GlobalStats
+): TimeSlot[] {
+  return slots.map(slot => forecastTimeSlot(slot, seriesId, trackId, seriesStats, globalStats));
+}
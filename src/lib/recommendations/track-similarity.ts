@@ -0,0 +1,150 @@
+import { RelatedTrackExperience, SeriesTrackHistory, TrackProfile } from './types';
+
+/**
+ * Track similarity
+ * Relates tracks by their metadata so experience at one can stand in, with reduced
+ * confidence, for another: other configurations of the same circuit count for most
+ * of a race there, similarly shaped circuits in the same category for less
+ */
+
+// Other configurations of a circuit score between these, by how alike their layouts are
+const SAME_CIRCUIT_MIN_SIMILARITY = 0.6;
+const SAME_CIRCUIT_MAX_SIMILARITY = 0.9;
+
+// Most a different circuit can score, for an identical length and corner count
+const OTHER_CIRCUIT_MAX_SIMILARITY = 0.4;
+
+// Tracks less alike than this are not related at all
+export const MIN_TRACK_SIMILARITY = 0.2;
+
+function ratio(a: number | null, b: number | null): number | null {
+  if (!a || !b || a <= 0 || b <= 0) {
+    return null;
+  }
+  return Math.min(a, b) / Math.max(a, b);
+}
+
+/**
+ * How alike two layouts are (0-1) from length and corners, or null without either
+ */
+function layoutSimilarity(a: TrackProfile, b: TrackProfile): number | null {
+  const ratios = [ratio(a.lengthMiles, b.lengthMiles), ratio(a.cornersPerLap, b.cornersPerLap)]
+    .filter((value): value is number => value !== null);
+  return ratios.length > 0 ? ratios.reduce((sum, value) => sum + value, 0) / ratios.length : null;
+}
+
+/**
+ * Similarity of two tracks from 0 (unrelated or unknown) to 1 (the same track)
+ */
+export function trackSimilarity(a?: TrackProfile | null, b?: TrackProfile | null): number {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a.trackId === b.trackId) {
+    return 1;
+  }
+  if (a.category && b.category && a.category !== b.category) {
+    return 0;
+  }
+
+  const layout = layoutSimilarity(a, b);
+  let similarity: number;
+  if (a.packageId !== null && a.packageId === b.packageId) {
+    // Unknown layouts sit in the middle of the same-circuit range
+    similarity = SAME_CIRCUIT_MIN_SIMILARITY + (SAME_CIRCUIT_MAX_SIMILARITY - SAME_CIRCUIT_MIN_SIMILARITY) * (layout ?? 0.5);
+  } else {
+    // Different circuits need known categories and layouts, and fall off quickly as they differ
+    similarity = a.category && b.category && layout !== null ? OTHER_CIRCUIT_MAX_SIMILARITY * layout * layout : 0;
+  }
+
+  return similarity >= MIN_TRACK_SIMILARITY ? Math.round(similarity * 100) / 100 : 0;
+}
+
+/**
+ * Other tracks the user has raced that are related to this one, with their races
+ * across all series, most similar first
+ */
+export function findRelatedTracks(
+  trackProfile: TrackProfile | null | undefined,
+  history: SeriesTrackHistory[]
+): RelatedTrackExperience[] {
+  if (!trackProfile) {
+    return [];
+  }
+
+  const related = new Map<number, RelatedTrackExperience>();
+  for (const entry of history) {
+    if (entry.trackId === trackProfile.trackId) {
+      continue;
+    }
+    const existing = related.get(entry.trackId);
+    if (existing) {
+      existing.raceCount += entry.raceCount;
+      continue;
+    }
+    const similarity = trackSimilarity(trackProfile, entry.trackProfile);
+    if (similarity > 0) {
+      related.set(entry.trackId, { trackId: entry.trackId, similarity, raceCount: entry.raceCount });
+    }
+  }
+
+  return [...related.values()].sort((a, b) => b.similarity - a.similarity || b.raceCount - a.raceCount);
+}
+
+/**
+ * The series' history at this track blended with its history at related tracks.
+ * Each entry counts for its (recency-weighted) races times its similarity, so
+ * borrowed races carry less weight in the effective race count. Returns the exact
+ * entry untouched when nothing related was raced in the series.
+ */
+export function blendRelatedHistory(
+  seriesId: number,
+  trackProfile: TrackProfile | null | undefined,
+  exact: SeriesTrackHistory | undefined,
+  history: SeriesTrackHistory[]
+): SeriesTrackHistory | undefined {
+  const related = trackProfile
+    ? history
+      .filter(entry => entry.seriesId === seriesId && entry.trackId !== trackProfile.trackId)
+      .map(entry => ({ entry, similarity: trackSimilarity(trackProfile, entry.trackProfile) }))
+      .filter(({ similarity }) => similarity > 0)
+    : [];
+  if (related.length === 0) {
+    return exact;
+  }
+
+  const sources = exact ? [{ entry: exact, similarity: 1 }, ...related] : related;
+  const weights = sources.map(({ entry, similarity }) => (entry.effectiveRaceCount ?? entry.raceCount) * similarity);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) {
+    return exact;
+  }
+  const mean = (valueOf: (entry: SeriesTrackHistory) => number) =>
+    sources.reduce((sum, { entry }, i) => sum + valueOf(entry) * weights[i], 0) / totalWeight;
+
+  // Pace is only known for entries with lap data; borrowed races count by similarity
+  const paced = sources.flatMap(({ entry, similarity }, i) => entry.avgPacePercentile == null
+    ? []
+    : [{ pace: entry.avgPacePercentile, races: (entry.paceRaceCount ?? 0) * similarity, weight: weights[i] }]
+  );
+  const paceWeight = paced.reduce((sum, source) => sum + source.weight, 0);
+
+  return {
+    seriesId,
+    trackId: trackProfile!.trackId,
+    raceCount: sources.reduce((sum, { entry }) => sum + entry.raceCount, 0),
+    effectiveRaceCount: totalWeight,
+    avgStartingPosition: mean(entry => entry.avgStartingPosition),
+    avgFinishingPosition: mean(entry => entry.avgFinishingPosition),
+    avgPositionDelta: mean(entry => entry.avgPositionDelta),
+    avgClassPositionDelta: mean(entry => entry.avgClassPositionDelta ?? entry.avgPositionDelta),
+    avgIncidents: mean(entry => entry.avgIncidents),
+    finishPositionStdDev: mean(entry => entry.finishPositionStdDev),
+    avgPacePercentile: paceWeight > 0
+      ? paced.reduce((sum, source) => sum + source.pace * source.weight, 0) / paceWeight
+      : null,
+    paceRaceCount: paced.reduce((sum, source) => sum + source.races, 0),
+    lastRaceDate: new Date(Math.max(...sources.map(({ entry }) => new Date(entry.lastRaceDate).getTime()))),
+    trackProfile
+  };
+}
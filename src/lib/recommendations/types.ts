@@ -6,6 +6,7 @@ import {
   ConfidenceLevel
 } from '../types/recommendation';
 import { Category } from '../types/category';
+import type { RaceTimeDescriptor } from '../iracing/race-time-calculator';
 
 // Re-export the enums for backward compatibility
 export { RecommendationMode, RiskLevel, ConfidenceLevel, Category };
@@ -25,13 +26,123 @@ export interface RacingOpportunity {
   timeSlots: TimeSlot[];
   globalStats: GlobalStats;
   repeatMinutes?: number | null; // How often races repeat (null for fixed schedule)
+  carClassIds?: number[]; // Car classes allowed in the series (several for multiclass)
+  carIds?: number[]; // Cars in those classes
+  carNames?: Record<number, string>; // Names of carIds, for display
+  conditions?: WeekConditions | null; // This week's weather and time of day, when synced
+  raceTimeDescriptors?: RaceTimeDescriptor[] | null; // Session schedule, for session recommendations
+  raceLapLimit?: number | null; // Laps, for lap-limited races
+  cornersPerLap?: number | null;
+  trackProfile?: TrackProfile | null; // Track metadata, for relating this track to others raced
+}
+
+export interface WeekConditions {
+  dynamicWeather: boolean;
+  rain: boolean;
+  temperatureC: number | null;
+  timeOfDay: string | null; // 'day', 'dusk', 'night'
+}
+
+// Track metadata from the /track/get lookup
+export interface TrackProfile {
+  trackId: number;
+  packageId: number | null; // Shared by every configuration of a circuit
+  category: string | null; // 'road', 'oval', 'dirt_oval', 'dirt_road'
+  lengthMiles: number | null;
+  cornersPerLap: number | null;
+}
+
+// Experience at another track credited toward a score, scaled by similarity
+export interface RelatedTrackExperience {
+  trackId: number;
+  similarity: number; // 0-1, 1 for the same track
+  raceCount: number; // Races at that track across all series
+}
+
+export interface ConditionsIncidentStats {
+  timeOfDay: string | null;
+  dynamicWeather: boolean;
+  rain: boolean;
+  raceCount: number;
+  avgIncidents: number;
+}
+
+// Where incidents happen in the user's races, from the event logs (laps 0-1 are the start)
+export interface StartIncidentStats {
+  raceCount: number; // Races with an event log
+  startShare: number | null; // Share of the user's incident points on the start
+  fieldStartShare: number | null; // Same for the other drivers in those races
+  fieldStartIncidentsPerDriver: number; // Other drivers' start incident points, per driver and race
+  series: SeriesStartStats[];
+}
+
+export interface SeriesStartStats {
+  seriesId: number;
+  raceCount: number;
+  fieldStartIncidentsPerDriver: number;
+}
+
+// How the user qualifies and what the grid slot does to their race, from race results
+// and the qualifying import (see qualifying-analysis.ts)
+export interface QualifyingStats {
+  raceCount: number; // Races with a known grid slot
+  qualifiedRaceCount: number; // Races with a qualifying time
+  avgQualifyingPercentile: number | null; // Share of the class qualifiers slower (0-100)
+  avgPoleGapPercent: number | null; // Qualifying lap off the class pole
+  startIncidentCorrelation: number | null; // Grid percentile vs incidents (-1 to 1)
+  startFinishCorrelation: number | null; // Grid percentile vs finish percentile (-1 to 1)
+  series: SeriesQualifyingStats[];
+}
+
+export type QualifyingAdvice = 'qualify' | 'start_from_back';
+
+export interface SeriesQualifyingStats {
+  seriesId: number;
+  raceCount: number;
+  qualifiedRaceCount: number;
+  avgQualifyingPercentile: number | null;
+  avgPoleGapPercent: number | null;
+  front: GridGroupStats | null; // Races started in the front half of the class grid
+  back: GridGroupStats | null; // Races started in the back half
+  advice: QualifyingAdvice | null; // null without enough races or a clear difference
+}
+
+export interface GridGroupStats {
+  raceCount: number;
+  avgIncidents: number;
+  avgFinishPercentile: number; // Share of the class finishing behind (0-100)
 }
 
 export interface TimeSlot {
   hour: number; // 0-23 UTC
   dayOfWeek: number; // 0-6, Sunday = 0
-  strengthOfField: number;
-  participantCount: number;
+  strengthOfField: number; // Forecast point estimate
+  participantCount: number; // Forecast point estimate
+  forecast?: TimeSlotForecast;
+  startsAt?: Date; // Concrete session start, for slots from race_time_descriptors
+}
+
+export type ForecastSource = 'slot' | 'series' | 'fallback';
+
+export interface TimeSlotForecast {
+  strengthOfFieldLow: number; // 80% band
+  strengthOfFieldHigh: number;
+  participantCountLow: number;
+  participantCountHigh: number;
+  source: ForecastSource; // Most specific history the estimate draws on
+  raceCount: number; // Races at that level
+}
+
+export interface TimeSlotStats {
+  seriesId: number;
+  trackId: number;
+  dayOfWeek: number;
+  hour: number;
+  raceCount: number;
+  avgStrengthOfField: number | null;
+  strengthOfFieldStdDev: number | null;
+  avgFieldSize: number | null;
+  fieldSizeStdDev: number | null;
 }
 
 export interface GlobalStats {
@@ -48,25 +159,55 @@ export interface UserHistory {
   seriesTrackHistory: SeriesTrackHistory[];
   overallStats: UserOverallStats;
   licenseClasses: LicenseClass[];
+  ownedContent?: OwnedContent | null; // null when ownership has not been synced
+  conditionsHistory?: ConditionsIncidentStats[]; // Incident rates per set of race conditions
+  startIncidents?: StartIncidentStats | null; // null without event logs
+  qualifying?: QualifyingStats | null; // null without races with a grid slot
+}
+
+export interface OwnedContent {
+  trackIds: number[];
+  carIds: number[];
+}
+
+export interface MissingContent {
+  type: 'track' | 'car';
+  id: number;
+  name: string;
 }
 
 export interface SeriesTrackHistory {
   seriesId: number;
   trackId: number;
   raceCount: number;
+  effectiveRaceCount?: number; // Races weighted by recency (see history-weighting.ts); raceCount when absent
   avgStartingPosition: number;
   avgFinishingPosition: number;
   avgPositionDelta: number;
+  avgClassPositionDelta?: number; // Delta within the car class, used for multi-class series
   avgIncidents: number;
   finishPositionStdDev: number;
   lastRaceDate: Date;
+  avgPacePercentile?: number | null; // Lap pace against the class field (0-100), from races with lap data
+  paceRaceCount?: number; // Races with lap data
+  carExperience?: CarExperience[]; // Races per car driven in this series/track
+  trackProfile?: TrackProfile | null; // Track metadata, for relating this history to other tracks
+}
+
+export interface CarExperience {
+  carId: number;
+  carClassId: number | null;
+  raceCount: number;
 }
 
 export interface UserOverallStats {
   totalRaces: number;
   avgIncidentsPerRace: number;
   avgPositionDelta: number;
+  avgClassPositionDelta?: number;
   overallConsistency: number; // lower is better
+  avgPacePercentile?: number | null;
+  paceRaceCount?: number;
 }
 
 export interface LicenseClass {
@@ -85,6 +226,7 @@ export interface ScoringFactors {
   fatigueRisk: number; // 0-100, lower is better (higher fatigue risk)
   attritionRisk: number; // 0-100, lower is better (higher attrition)
   timeVolatility: number; // 0-100, lower is better (higher volatility)
+  conditions: number; // 0-100, higher is better (fewer incidents in similar conditions)
 }
 
 export interface Score {
@@ -95,6 +237,20 @@ export interface Score {
   reasoning: string[];
   dataConfidence: DataConfidence;
   priorityScore: number; // Higher for familiar series/tracks
+  ratingChange?: RatingChangeEstimate;
+}
+
+export interface RatingRange {
+  expected: number;
+  low: number; // Finishing/incidents one spread worse than expected
+  high: number; // One spread better
+}
+
+export interface RatingChangeEstimate {
+  iRating: RatingRange | null; // null without an iRating for the category
+  safetyRating: RatingRange;
+  expectedFinish: number; // 1-based position the estimate assumes
+  expectedIncidents: number;
 }
 
 export interface DataConfidence {
@@ -103,6 +259,7 @@ export interface DataConfidence {
   consistency: ConfidenceLevel;
   familiarity: ConfidenceLevel;
   globalStats: 'high' | 'moderate' | 'default';
+  relatedTracks?: RelatedTrackExperience[]; // Other tracks whose history was borrowed, most similar first
 }
 
 export interface ScoredOpportunity extends RacingOpportunity {
@@ -118,6 +275,89 @@ export interface ModeWeights {
   fatigueRisk: number;
   attritionRisk: number;
   timeVolatility: number;
+  conditions: number;
+}
+
+// Factor a mode ranks on first, or 'overall' for the weighted score
+export type ModeSortKey = keyof ModeWeights | 'overall';
+
+// mode= value selecting a stored custom mode
+export type CustomModeKey = `custom:${string}`;
+
+export interface CustomMode {
+  id: string;
+  name: string;
+  description: string | null;
+  weights: ModeWeights;
+  primarySort: ModeSortKey;
+}
+
+// A built-in mode or a user's custom mode, as accepted by scoring and sorting
+export type ModeSelection = RecommendationMode | CustomMode;
+
+export interface ModePreviewEntry {
+  seriesId: number;
+  seriesName: string;
+  trackId: number;
+  trackName: string;
+  baselineRank: number;
+  previewRank: number;
+  rankChange: number; // Positive moves up
+  baselineScore: number;
+  previewScore: number;
+}
+
+export interface ModePreview {
+  baseline: RecommendationMode | CustomModeKey;
+  entries: ModePreviewEntry[];
+}
+
+// Outcome Tracking and Backtesting Types
+export interface RankCorrelation {
+  coefficient: number | null; // Spearman's rho, null with fewer than 3 samples or no spread
+  samples: number;
+}
+
+// A series/track the user raced in one historical week, with how it went
+export interface BacktestSample {
+  seasonYear: number;
+  seasonQuarter: number;
+  raceWeekNum: number;
+  seriesId: number;
+  seriesName: string;
+  trackId: number;
+  trackName: string;
+  races: number;
+  avgPositionDelta: number; // Within the car class where known
+  avgIncidents: number;
+  priorRaces: number; // Races in the history the week was scored with
+}
+
+export interface BacktestModeReport {
+  mode: RecommendationMode | CustomModeKey;
+  scores: number[]; // Overall score per sample, in sample order
+  scoreVsPositionDelta: RankCorrelation;
+  scoreVsIncidents: RankCorrelation; // Positive when higher scores went with fewer incidents
+  performanceVsPositionDelta: RankCorrelation;
+  safetyVsIncidents: RankCorrelation;
+}
+
+export interface BacktestReport {
+  userId: string;
+  weeks: number;
+  samples: BacktestSample[];
+  modes: BacktestModeReport[];
+}
+
+// How the recommendations served in one mode turned out
+export interface OutcomeSummary {
+  mode: string; // Built-in mode or custom:<id>, as stored
+  served: number;
+  raced: number;
+  topPicksServed: number; // Served at rank 1
+  topPicksRaced: number;
+  scoreVsPositionDelta: RankCorrelation; // Over the recommendations that were raced
+  scoreVsIncidents: RankCorrelation;
 }
 
 // Visual Scoring Types
@@ -188,6 +428,8 @@ export interface ConfidenceBadge {
 export interface ScoredRecommendation extends RacingOpportunity {
   score: Score;
   visualIndicators: VisualScoring;
+  requiresPurchase?: boolean; // True when the user is missing the track or every eligible car
+  missingContent?: MissingContent[]; // Missing track, or the cars any one of which would do
 }
 
 export interface ExperienceSummary {
@@ -217,5 +459,176 @@ export interface RecommendationResponse {
   };
 }
 
+// Availability Types
+export interface AvailabilityWindow {
+  dayOfWeek: number; // 0-6 in the user's timezone, Sunday = 0
+  start: string; // 'HH:MM' local
+  end: string; // 'HH:MM' local; earlier than start runs past midnight
+}
+
+export interface UserAvailability {
+  timezone: string; // IANA zone, e.g. 'America/New_York'
+  windows: AvailabilityWindow[];
+}
+
+// A concrete session to join, scored on its own time slot
+export interface SessionRecommendation {
+  seriesId: number;
+  seriesName: string;
+  trackId: number;
+  trackName: string;
+  category: Category;
+  licenseRequired: LicenseLevel;
+  startsAt: Date;
+  raceLength: number; // Minutes
+  predictedStrengthOfField: number;
+  predictedParticipantCount: number;
+  forecast?: TimeSlotForecast;
+  score: Score;
+  requiresPurchase?: boolean;
+  missingContent?: MissingContent[];
+}
+
+export interface SessionRecommendationResponse {
+  sessions: SessionRecommendation[];
+  availability: UserAvailability | null; // null: no windows stored, every session considered
+  metadata: {
+    from: Date;
+    until: Date;
+    totalSessions: number; // Sessions inside the availability before ranking
+    processingTimeMs?: number;
+  };
+}
+
+// Weekly Plan Types
+export interface WeeklyPlanConstraints {
+  targetRaces: number;
+  maxMinutesPerDay: number; // Fatigue: racing minutes per local day
+  maxPerSeries: number; // Variety: races in any one series
+  maxPerCategory?: number; // Races in any one license category
+  categories?: Category[]; // License categories to plan in; all eligible when unset
+}
+
+// Why candidate sessions were left out of the plan
+export type WeeklyPlanRejection = 'fatigue' | 'overlap' | 'variety' | 'category';
+
+export interface WeeklyPlanDay {
+  date: string; // 'YYYY-MM-DD' in the plan's timezone
+  sessions: SessionRecommendation[]; // Earliest first
+  totalMinutes: number;
+}
+
+export interface WeeklyPlan {
+  days: WeeklyPlanDay[];
+  timezone: string;
+  mode: RecommendationMode | CustomModeKey;
+  constraints: WeeklyPlanConstraints;
+  plannedRaces: number; // Below targetRaces when the constraints ran out of sessions
+  totalScore: number; // Sum of the planned sessions' overall scores
+  averageScore: number;
+  rejected: Record<WeeklyPlanRejection, number>;
+  metadata: SessionRecommendationResponse['metadata'];
+}
+
+// Season Plan Types
+export interface SeasonWeekOutlook {
+  raceWeekNum: number;
+  weekStart: Date;
+  trackId: number;
+  trackName: string;
+  score: number; // Overall score in the plan's mode
+  performance: number; // Performance factor: how strong the user is expected to be here
+  isGoodWeek: boolean; // score at least the plan's goodWeekScore
+}
+
+export interface SeasonSeriesOutlook {
+  seriesId: number;
+  seriesName: string;
+  category: Category;
+  licenseRequired: LicenseLevel;
+  pinned: boolean;
+  weeks: SeasonWeekOutlook[]; // Remaining race weeks, in order
+  goodWeeks: number; // Remaining good weeks
+  weeksRaced: number; // Race weeks already raced this season
+  creditWeeks: number; // Weeks raced plus remaining good weeks not yet raced
+  earnsParticipationCredit: boolean; // creditWeeks reaches the participation credit
+  averageScore: number;
+}
+
+export interface SeasonHighlight {
+  seriesId: number;
+  seriesName: string;
+  trackId: number;
+  trackName: string;
+  raceWeekNum: number;
+  weekStart: Date;
+  score: number;
+  performance: number;
+}
+
+export interface SeasonPlan {
+  seasonYear: number;
+  seasonQuarter: number;
+  currentRaceWeek: number; // First week in the plan
+  mode: RecommendationMode | CustomModeKey;
+  goodWeekScore: number;
+  participationCreditWeeks: number;
+  series: SeasonSeriesOutlook[]; // Pinned first, then by good weeks
+  highlights: SeasonHighlight[]; // The user's strongest upcoming tracks
+}
+
+// Promotion Plan Types
+export type PromotionStatus = 'eligible' | 'on_track' | 'at_risk' | 'max_level';
+
+export interface SafetyRatingChange {
+  category: Category;
+  raceDate: Date;
+  seasonYear: number;
+  seasonQuarter: number;
+  change: number; // New minus old Safety Rating
+}
+
+export interface PromotionSeriesOption {
+  seriesId: number;
+  seriesName: string;
+  trackName: string;
+  licenseRequired: LicenseLevel;
+  raceLength: number; // Minutes
+  expectedSafetyRatingChange: number; // Per race, at the user's expected incidents
+  racesToTarget: number | null; // null when the series is not expected to gain Safety Rating
+}
+
+export interface PromotionTrajectoryPoint {
+  race: number; // Races from now; 0 is the current Safety Rating
+  projected: number; // Racing the fastest series
+  recentPace: number | null; // Continuing the average of recent races
+}
+
+export interface PromotionProjection {
+  category: Category;
+  currentLevel: LicenseLevel;
+  nextLevel: LicenseLevel | null;
+  safetyRating: number;
+  targetSafetyRating: number | null;
+  participation: {
+    required: number; // Races this season for promotion
+    completed: number;
+  };
+  recentAverageChange: number | null; // Safety Rating per race over recent races
+  cleanRacesNeeded: number | null; // Races in the fastest series to promote; null if none gains
+  racesRemaining: number; // Races left this season at the user's pace
+  status: PromotionStatus;
+  requirements: string;
+  fastestSeries: PromotionSeriesOption[]; // Fewest races to the target first
+  trajectory: PromotionTrajectoryPoint[];
+}
+
+export interface PromotionPlan {
+  seasonYear: number;
+  seasonQuarter: number;
+  weeksRemaining: number; // Race weeks left, including the current one
+  projections: PromotionProjection[];
+}
+
 export type ScoringFactor = 'performance' | 'safety' | 'consistency' | 'predictability' | 
                            'familiarity' | 'fatigueRisk' | 'attritionRisk' | 'timeVolatility';
\ No newline at end of file
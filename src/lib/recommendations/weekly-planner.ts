@@ -0,0 +1,191 @@
+import { getLocalDate } from './availability';
+import {
+  SessionRecommendation,
+  WeeklyPlan,
+  WeeklyPlanConstraints,
+  WeeklyPlanDay,
+  WeeklyPlanRejection
+} from './types';
+
+/**
+ * Weekly planner
+ * Picks concrete sessions for the coming week from ranked session recommendations,
+ * maximizing the total mode score of the plan within the constraints: a daily
+ * racing-minutes budget (fatigue), a cap per series (variety), optional license
+ * categories, and no overlap with another planned race.
+ *
+ * The search is a branch and bound over the best MAX_PLAN_CANDIDATES sessions, taking
+ * sessions best first so the first plan it finds is the greedy one. It stops after
+ * MAX_PLAN_SEARCH_NODES steps, keeping the best plan found so far.
+ */
+
+export const DEFAULT_WEEKLY_PLAN_CONSTRAINTS: WeeklyPlanConstraints = {
+  targetRaces: 5,
+  maxMinutesPerDay: 120,
+  maxPerSeries: 2,
+};
+
+// Best scoring sessions considered for the plan
+export const MAX_PLAN_CANDIDATES = 40;
+
+// Search steps before the best plan found so far is kept
+export const MAX_PLAN_SEARCH_NODES = 50000;
+
+// Time to leave one race and register for the next
+const RACE_GAP_MINUTES = 10;
+
+const MINUTE_MS = 60 * 1000;
+
+function overlaps(a: SessionRecommendation, b: SessionRecommendation): boolean {
+  const aStart = a.startsAt.getTime();
+  const bStart = b.startsAt.getTime();
+  const aEnd = aStart + (a.raceLength + RACE_GAP_MINUTES) * MINUTE_MS;
+  const bEnd = bStart + (b.raceLength + RACE_GAP_MINUTES) * MINUTE_MS;
+  return aStart < bEnd && bStart < aEnd;
+}
+
+interface Candidate {
+  session: SessionRecommendation;
+  date: string;
+}
+
+// Sessions in a plan being built, with the running totals the constraints check
+class PlanState {
+  readonly planned: Candidate[] = [];
+  private readonly minutesByDate = new Map<string, number>();
+  private readonly countBySeries = new Map<number, number>();
+  private readonly countByCategory = new Map<string, number>();
+
+  constructor(private readonly constraints: WeeklyPlanConstraints) {}
+
+  /**
+   * First constraint adding a session would break, or null when it fits
+   */
+  rejection({ session, date }: Candidate): WeeklyPlanRejection | null {
+    const { constraints } = this;
+    if (
+      (constraints.categories && !constraints.categories.includes(session.category)) ||
+      (constraints.maxPerCategory !== undefined && (this.countByCategory.get(session.category) ?? 0) >= constraints.maxPerCategory)
+    ) {
+      return 'category';
+    }
+    if ((this.countBySeries.get(session.seriesId) ?? 0) >= constraints.maxPerSeries) {
+      return 'variety';
+    }
+    if (this.planned.some(other => overlaps(session, other.session))) {
+      return 'overlap';
+    }
+    if ((this.minutesByDate.get(date) ?? 0) + session.raceLength > constraints.maxMinutesPerDay) {
+      return 'fatigue';
+    }
+    return null;
+  }
+
+  add(candidate: Candidate): void {
+    this.planned.push(candidate);
+    this.adjust(candidate, 1);
+  }
+
+  removeLast(): void {
+    this.adjust(this.planned.pop()!, -1);
+  }
+
+  private adjust({ session, date }: Candidate, sign: 1 | -1): void {
+    this.minutesByDate.set(date, (this.minutesByDate.get(date) ?? 0) + sign * session.raceLength);
+    this.countBySeries.set(session.seriesId, (this.countBySeries.get(session.seriesId) ?? 0) + sign);
+    this.countByCategory.set(session.category, (this.countByCategory.get(session.category) ?? 0) + sign);
+  }
+}
+
+/**
+ * Highest scoring set of candidates (best first) that fits the constraints
+ */
+function searchBestPlan(candidates: Candidate[], constraints: WeeklyPlanConstraints): Candidate[] {
+  // prefix[j] - prefix[i]: summed scores of candidates i to j-1, the most that j-i more
+  // sessions from index i on can add, as candidates are best first
+  const prefix = [0];
+  candidates.forEach(({ session }) => prefix.push(prefix[prefix.length - 1] + session.score.overall));
+
+  const state = new PlanState(constraints);
+  let best: Candidate[] = [];
+  let bestScore = -1;
+  let plannedScore = 0;
+  let nodes = 0;
+
+  const visit = (index: number): void => {
+    nodes++;
+    const slots = constraints.targetRaces - state.planned.length;
+    if (plannedScore > bestScore) {
+      best = [...state.planned];
+      bestScore = plannedScore;
+    }
+    if (slots === 0 || index >= candidates.length || nodes > MAX_PLAN_SEARCH_NODES) {
+      return;
+    }
+    if (plannedScore + prefix[Math.min(candidates.length, index + slots)] - prefix[index] <= bestScore) {
+      return;
+    }
+
+    const candidate = candidates[index];
+    if (state.rejection(candidate) === null) {
+      state.add(candidate);
+      plannedScore += candidate.session.score.overall;
+      visit(index + 1);
+      plannedScore -= candidate.session.score.overall;
+      state.removeLast();
+    }
+    visit(index + 1);
+  };
+
+  visit(0);
+  return best;
+}
+
+/**
+ * Choose sessions for a plan. `sessions` are the ranked candidates; each session left
+ * out is counted in `rejected` under the first constraint it breaks against the plan.
+ */
+export function buildWeeklyPlan(
+  sessions: SessionRecommendation[],
+  constraints: WeeklyPlanConstraints,
+  timezone: string
+): Pick<WeeklyPlan, 'days' | 'plannedRaces' | 'totalScore' | 'averageScore' | 'rejected'> {
+  const ranked: Candidate[] = [...sessions]
+    .sort((a, b) => b.score.overall - a.score.overall || a.startsAt.getTime() - b.startsAt.getTime())
+    .map(session => ({ session, date: getLocalDate(session.startsAt, timezone) }));
+
+  const allowed = ranked.filter(({ session }) => !constraints.categories || constraints.categories.includes(session.category));
+  const chosen = new Set(searchBestPlan(allowed.slice(0, MAX_PLAN_CANDIDATES), constraints));
+
+  const state = new PlanState(constraints);
+  chosen.forEach(candidate => state.add(candidate));
+
+  const rejected: Record<WeeklyPlanRejection, number> = { fatigue: 0, overlap: 0, variety: 0, category: 0 };
+  for (const candidate of ranked) {
+    const rejection = chosen.has(candidate) ? null : state.rejection(candidate);
+    if (rejection) {
+      rejected[rejection]++;
+    }
+  }
+
+  const planned = [...chosen].map(candidate => candidate.session);
+
+  const days = new Map<string, WeeklyPlanDay>();
+  for (const session of [...planned].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())) {
+    const date = getLocalDate(session.startsAt, timezone);
+    const day = days.get(date) ?? { date, sessions: [], totalMinutes: 0 };
+    day.sessions.push(session);
+    day.totalMinutes += session.raceLength;
+    days.set(date, day);
+  }
+
+  const totalScore = planned.reduce((sum, session) => sum + session.score.overall, 0);
+
+  return {
+    days: [...days.values()],
+    plannedRaces: planned.length,
+    totalScore,
+    averageScore: planned.length > 0 ? Math.round(totalScore / planned.length) : 0,
+    rejected,
+  };
+}
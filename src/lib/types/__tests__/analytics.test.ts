@@ -11,6 +11,9 @@ describe('AnalyticsMode Enum', () => {
       expect(AnalyticsModeHelper.isValid('trends')).toBe(true);
       expect(AnalyticsModeHelper.isValid('comparison')).toBe(true);
       expect(AnalyticsModeHelper.isValid('seasons')).toBe(true);
+      expect(AnalyticsModeHelper.isValid('ratings')).toBe(true);
+      expect(AnalyticsModeHelper.isValid('incidents')).toBe(true);
+      expect(AnalyticsModeHelper.isValid('qualifying')).toBe(true);
     });
 
     test('should reject invalid analytics mode values', () => {
@@ -26,6 +29,9 @@ describe('AnalyticsMode Enum', () => {
       expect(AnalyticsModeHelper.normalize('trends')).toBe(AnalyticsMode.TRENDS);
       expect(AnalyticsModeHelper.normalize('comparison')).toBe(AnalyticsMode.COMPARISON);
       expect(AnalyticsModeHelper.normalize('seasons')).toBe(AnalyticsMode.SEASONS);
+      expect(AnalyticsModeHelper.normalize('ratings')).toBe(AnalyticsMode.RATINGS);
+      expect(AnalyticsModeHelper.normalize('incidents')).toBe(AnalyticsMode.INCIDENTS);
+      expect(AnalyticsModeHelper.normalize('qualifying')).toBe(AnalyticsMode.QUALIFYING);
     });
 
     test('should handle case insensitive input', () => {
@@ -47,6 +53,9 @@ describe('AnalyticsMode Enum', () => {
       expect(AnalyticsModeHelper.getDisplayName(AnalyticsMode.TRENDS)).toBe('Performance Trends');
       expect(AnalyticsModeHelper.getDisplayName(AnalyticsMode.COMPARISON)).toBe('Session Comparison');
       expect(AnalyticsModeHelper.getDisplayName(AnalyticsMode.SEASONS)).toBe('Season Data');
+      expect(AnalyticsModeHelper.getDisplayName(AnalyticsMode.RATINGS)).toBe('Rating History');
+      expect(AnalyticsModeHelper.getDisplayName(AnalyticsMode.INCIDENTS)).toBe('Incident Timeline');
+      expect(AnalyticsModeHelper.getDisplayName(AnalyticsMode.QUALIFYING)).toBe('Qualifying');
     });
   });
 
@@ -62,11 +71,14 @@ describe('AnalyticsMode Enum', () => {
   describe('AnalyticsModeHelper.getAllModes', () => {
     test('should return all analytics modes', () => {
       const modes = AnalyticsModeHelper.getAllModes();
-      expect(modes).toHaveLength(4);
+      expect(modes).toHaveLength(7);
       expect(modes).toContain(AnalyticsMode.METRICS);
       expect(modes).toContain(AnalyticsMode.TRENDS);
       expect(modes).toContain(AnalyticsMode.COMPARISON);
       expect(modes).toContain(AnalyticsMode.SEASONS);
+      expect(modes).toContain(AnalyticsMode.RATINGS);
+      expect(modes).toContain(AnalyticsMode.INCIDENTS);
+      expect(modes).toContain(AnalyticsMode.QUALIFYING);
     });
 
     test('should return a new array each time', () => {
@@ -83,6 +95,9 @@ describe('AnalyticsMode Enum', () => {
       expect(AnalyticsModeHelper.requiresTimeFiltering(AnalyticsMode.TRENDS)).toBe(true);
       expect(AnalyticsModeHelper.requiresTimeFiltering(AnalyticsMode.COMPARISON)).toBe(false);
       expect(AnalyticsModeHelper.requiresTimeFiltering(AnalyticsMode.SEASONS)).toBe(false);
+      expect(AnalyticsModeHelper.requiresTimeFiltering(AnalyticsMode.RATINGS)).toBe(true);
+      expect(AnalyticsModeHelper.requiresTimeFiltering(AnalyticsMode.INCIDENTS)).toBe(true);
+      expect(AnalyticsModeHelper.requiresTimeFiltering(AnalyticsMode.QUALIFYING)).toBe(false);
     });
 
     test('AnalyticsModeHelper.supportsSeriesTrackFiltering', () => {
@@ -90,6 +105,9 @@ describe('AnalyticsMode Enum', () => {
       expect(AnalyticsModeHelper.supportsSeriesTrackFiltering(AnalyticsMode.TRENDS)).toBe(true);
       expect(AnalyticsModeHelper.supportsSeriesTrackFiltering(AnalyticsMode.COMPARISON)).toBe(true);
       expect(AnalyticsModeHelper.supportsSeriesTrackFiltering(AnalyticsMode.SEASONS)).toBe(false);
+      expect(AnalyticsModeHelper.supportsSeriesTrackFiltering(AnalyticsMode.RATINGS)).toBe(false);
+      expect(AnalyticsModeHelper.supportsSeriesTrackFiltering(AnalyticsMode.INCIDENTS)).toBe(false);
+      expect(AnalyticsModeHelper.supportsSeriesTrackFiltering(AnalyticsMode.QUALIFYING)).toBe(false);
     });
 
     test('AnalyticsModeHelper.supportsPagination', () => {
@@ -97,6 +115,9 @@ describe('AnalyticsMode Enum', () => {
       expect(AnalyticsModeHelper.supportsPagination(AnalyticsMode.TRENDS)).toBe(false);
       expect(AnalyticsModeHelper.supportsPagination(AnalyticsMode.COMPARISON)).toBe(false);
       expect(AnalyticsModeHelper.supportsPagination(AnalyticsMode.SEASONS)).toBe(false);
+      expect(AnalyticsModeHelper.supportsPagination(AnalyticsMode.RATINGS)).toBe(false);
+      expect(AnalyticsModeHelper.supportsPagination(AnalyticsMode.INCIDENTS)).toBe(false);
+      expect(AnalyticsModeHelper.supportsPagination(AnalyticsMode.QUALIFYING)).toBe(false);
     });
   });
 
@@ -120,6 +141,9 @@ describe('AnalyticsMode Enum Values', () => {
     expect(AnalyticsMode.TRENDS).toBe('trends');
     expect(AnalyticsMode.COMPARISON).toBe('comparison');
     expect(AnalyticsMode.SEASONS).toBe('seasons');
+    expect(AnalyticsMode.RATINGS).toBe('ratings');
+    expect(AnalyticsMode.INCIDENTS).toBe('incidents');
+    expect(AnalyticsMode.QUALIFYING).toBe('qualifying');
   });
 
   test('should have consistent values', () => {
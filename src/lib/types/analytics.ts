@@ -7,7 +7,10 @@ export enum AnalyticsMode {
   METRICS = 'metrics',
   TRENDS = 'trends',
   COMPARISON = 'comparison',
-  SEASONS = 'seasons'
+  SEASONS = 'seasons',
+  RATINGS = 'ratings',
+  INCIDENTS = 'incidents',
+  QUALIFYING = 'qualifying'
 }
 
 /**
@@ -21,7 +24,10 @@ export class AnalyticsModeHelper {
     AnalyticsMode.METRICS,
     AnalyticsMode.TRENDS,
     AnalyticsMode.COMPARISON,
-    AnalyticsMode.SEASONS
+    AnalyticsMode.SEASONS,
+    AnalyticsMode.RATINGS,
+    AnalyticsMode.INCIDENTS,
+    AnalyticsMode.QUALIFYING
   ] as const;
 
   /**
@@ -31,7 +37,10 @@ export class AnalyticsModeHelper {
     [AnalyticsMode.METRICS]: 'Performance Metrics',
     [AnalyticsMode.TRENDS]: 'Performance Trends',
     [AnalyticsMode.COMPARISON]: 'Session Comparison',
-    [AnalyticsMode.SEASONS]: 'Season Data'
+    [AnalyticsMode.SEASONS]: 'Season Data',
+    [AnalyticsMode.RATINGS]: 'Rating History',
+    [AnalyticsMode.INCIDENTS]: 'Incident Timeline',
+    [AnalyticsMode.QUALIFYING]: 'Qualifying'
   };
 
   /**
@@ -41,7 +50,10 @@ export class AnalyticsModeHelper {
     [AnalyticsMode.METRICS]: 'Detailed performance metrics and statistics',
     [AnalyticsMode.TRENDS]: 'Performance trends over time',
     [AnalyticsMode.COMPARISON]: 'Compare performance across different session types',
-    [AnalyticsMode.SEASONS]: 'Available seasons and season data'
+    [AnalyticsMode.SEASONS]: 'Available seasons and season data',
+    [AnalyticsMode.RATINGS]: 'iRating and Safety Rating over time, with the races that moved them',
+    [AnalyticsMode.INCIDENTS]: 'Incidents by race phase and type, and how chaotic each series starts',
+    [AnalyticsMode.QUALIFYING]: 'Qualifying pace and how your grid slot plays out, per series'
   };
 
   /**
@@ -62,6 +74,9 @@ export class AnalyticsModeHelper {
       case 'trends': return AnalyticsMode.TRENDS;
       case 'comparison': return AnalyticsMode.COMPARISON;
       case 'seasons': return AnalyticsMode.SEASONS;
+      case 'ratings': return AnalyticsMode.RATINGS;
+      case 'incidents': return AnalyticsMode.INCIDENTS;
+      case 'qualifying': return AnalyticsMode.QUALIFYING;
       default: return AnalyticsMode.METRICS; // Default fallback
     }
   }
@@ -91,7 +106,8 @@ export class AnalyticsModeHelper {
    * Check if mode requires time-based filtering
    */
   static requiresTimeFiltering(mode: AnalyticsMode): boolean {
-    return mode === AnalyticsMode.TRENDS || mode === AnalyticsMode.METRICS;
+    return mode === AnalyticsMode.TRENDS || mode === AnalyticsMode.METRICS ||
+           mode === AnalyticsMode.RATINGS || mode === AnalyticsMode.INCIDENTS;
   }
 
   /**
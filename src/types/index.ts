@@ -56,6 +56,7 @@ export interface PerformanceMetric {
   avgStartingPosition: number;
   avgFinishingPosition: number;
   positionDelta: number;
+  classPositionDelta?: number; // Delta within the car class (equals positionDelta in single-class races)
   avgIncidents: number;
   raceCount: number;
   consistency: number;